@@ -0,0 +1,63 @@
+/**
+ * Admin ASR Provider Health API
+ * GET /api/admin/asr-providers - Error rates and circuit state per ASR provider
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { listASRModels } from '@/lib/asr';
+import { getProviderHealth, getProviderStats, type ProviderStats } from '@/lib/asr/health';
+import type { APIResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_DAYS = 90;
+
+/**
+ * GET /api/admin/asr-providers
+ * Query params:
+ *   - days?: number (window for error rates, default 7, max 90)
+ * Configured providers without attempts in the window are included with zero counts
+ */
+export async function GET(request: NextRequest) {
+  const { error } = await requireAdmin();
+  if (error) return error;
+
+  try {
+    const daysParam = parseInt(request.nextUrl.searchParams.get('days') || '', 10);
+    const days = Math.min(Math.max(1, daysParam || 7), MAX_DAYS);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const stats = await getProviderStats(since);
+    const configured = [...new Set(listASRModels().map((model) => model.provider))];
+
+    const idle: ProviderStats[] = await Promise.all(
+      configured
+        .filter((provider) => !stats.some((entry) => entry.provider === provider))
+        .map(async (provider) => ({
+          provider,
+          attempts: 0,
+          failures: 0,
+          errorRate: 0,
+          averageDurationMs: 0,
+          categories: {},
+          health: await getProviderHealth(provider),
+        }))
+    );
+
+    return NextResponse.json<APIResponse>({
+      success: true,
+      data: {
+        days,
+        since: since.toISOString(),
+        providers: [...stats, ...idle],
+      },
+    });
+  } catch (error) {
+    console.error('ASR provider stats error:', error);
+    return NextResponse.json<APIResponse>(
+      { success: false, error: 'Failed to load ASR provider stats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Admin Usage Report API
+ * GET /api/admin/usage - ASR and translation usage and cost for all users by month
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import { getUsageCurrency, getUsageWindowStart, listUsageRecords } from '@/lib/usage';
+import { summarizeUsageByMonth } from '@/lib/utils/usage';
+import type { APIResponse, User } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_MONTHS = 24;
+
+/**
+ * GET /api/admin/usage
+ * Query params:
+ *   - months?: number (including the current month, default 12, max 24)
+ * Each month has totals per provider and model and per user (with name and email)
+ */
+export async function GET(request: NextRequest) {
+  const { error } = await requireAdmin();
+  if (error) return error;
+
+  try {
+    const monthsParam = parseInt(request.nextUrl.searchParams.get('months') || '', 10);
+    const months = Math.min(Math.max(1, monthsParam || 12), MAX_MONTHS);
+    const since = getUsageWindowStart(months);
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: usersTableId } = await NocoDBClient.getIds('Users');
+
+    const [records, usersResult] = await Promise.all([
+      listUsageRecords(since),
+      db.dbTableRow.list('noco', baseId, usersTableId, { limit: 1000 }),
+    ]);
+    const users = new Map(((usersResult.list || []) as User[]).map((user) => [user.Id, user]));
+
+    const summary = summarizeUsageByMonth(records).map((month) => ({
+      ...month,
+      users: month.users.map((usage) => ({
+        ...usage,
+        name: users.get(usage.userId)?.Name || null,
+        email: users.get(usage.userId)?.Email || null,
+      })),
+    }));
+
+    return NextResponse.json<APIResponse>({
+      success: true,
+      data: {
+        currency: getUsageCurrency(),
+        since: since.toISOString(),
+        months: summary,
+      },
+    });
+  } catch (error) {
+    console.error('Usage report error:', error);
+    return NextResponse.json<APIResponse>(
+      { success: false, error: 'Failed to load usage report' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,10 +9,19 @@ import NocoDBClient, { getNocoDBClient, sanitizeNocoDBValue, sanitizeNumericId }
 import { checkRateLimit, getClientIP } from '@/lib/auth/rate-limit';
 import {
   generateSubtitles,
+  isTTMLColor,
+  isTTMLStyleNumber,
+  TTML_STYLE_RANGES,
   getSubtitleMimeType,
   getSubtitleExtension,
+  SPEAKER_LABEL_MODES,
   type SubtitleFormat,
+  type SpeakerLabelMode,
+  type TTMLStyleOptions,
+  type TTMLNumericStyleOption,
 } from '@/lib/export/subtitles';
+import { STL_FRAME_RATES, type STLFrameRate } from '@/lib/export/stl';
+import { listSpeakers } from '@/lib/diarization/speakers';
 import type { APIResponse, Transcription, TranscriptionSegment, TranslatedSegment } from '@/lib/types';
 
 export const runtime = 'nodejs';
@@ -22,9 +31,12 @@ export const runtime = 'nodejs';
  * Export transcription as subtitle file (must belong to authenticated user)
  * Body:
  *   - transcriptionId: number
- *   - format: 'srt' | 'vtt' | 'ass' | 'txt' | 'json'
+ *   - format: 'srt' | 'vtt' | 'ass' | 'txt' | 'json' | 'stl' | 'ttml'
  *   - includeTimestamps?: boolean (for txt format)
+ *   - frameRate?: 25 | 29.97 | 30 (for stl format, default 25)
+ *   - style?: TTMLStyleOptions (for ttml format, same settings as burn-in)
  *   - language?: string (ISO code for translated version, omit for original)
+ *   - speakerLabels?: 'none' | 'prefix' | 'voice' (default 'none')
  */
 export async function POST(request: NextRequest) {
   try {
@@ -52,7 +64,15 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { transcriptionId, format, includeTimestamps, language } = body;
+    const {
+      transcriptionId,
+      format,
+      includeTimestamps,
+      language,
+      frameRate,
+      style,
+      speakerLabels = 'none',
+    } = body;
 
     if (!transcriptionId || !format) {
       return NextResponse.json<APIResponse>(
@@ -64,7 +84,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const validFormats: SubtitleFormat[] = ['srt', 'vtt', 'ass', 'txt', 'json'];
+    const validFormats: SubtitleFormat[] = ['srt', 'vtt', 'ass', 'txt', 'json', 'stl', 'ttml'];
     if (!validFormats.includes(format)) {
       return NextResponse.json<APIResponse>(
         {
@@ -75,6 +95,71 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (frameRate !== undefined && !STL_FRAME_RATES.includes(frameRate)) {
+      return NextResponse.json<APIResponse>(
+        {
+          success: false,
+          error: `Invalid frame rate. Supported: ${STL_FRAME_RATES.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (style !== undefined && (typeof style !== 'object' || style === null || Array.isArray(style))) {
+      return NextResponse.json<APIResponse>(
+        {
+          success: false,
+          error: 'Invalid style. Expected an object',
+        },
+        { status: 400 }
+      );
+    }
+
+    for (const key of Object.keys(TTML_STYLE_RANGES) as TTMLNumericStyleOption[]) {
+      if (style?.[key] !== undefined && !isTTMLStyleNumber(key, style[key])) {
+        const { min, max } = TTML_STYLE_RANGES[key];
+        return NextResponse.json<APIResponse>(
+          {
+            success: false,
+            error: `Invalid style.${key}. Must be a number between ${min} and ${max}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (style?.showBackground !== undefined && typeof style.showBackground !== 'boolean') {
+      return NextResponse.json<APIResponse>(
+        {
+          success: false,
+          error: 'Invalid style.showBackground. Must be a boolean',
+        },
+        { status: 400 }
+      );
+    }
+
+    for (const key of ['fontColor', 'backgroundColor'] as const) {
+      if (style?.[key] !== undefined && !isTTMLColor(style[key])) {
+        return NextResponse.json<APIResponse>(
+          {
+            success: false,
+            error: `Invalid style.${key}. Use #rrggbb or a named color`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!SPEAKER_LABEL_MODES.includes(speakerLabels)) {
+      return NextResponse.json<APIResponse>(
+        {
+          success: false,
+          error: `Invalid speakerLabels. Supported: ${SPEAKER_LABEL_MODES.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
     const db = getNocoDBClient();
     const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
     const { tableId: translatedSegmentsTableId } = await NocoDBClient.getIds('TranslatedSegments');
@@ -147,6 +232,27 @@ export async function POST(request: NextRequest) {
         CreatedAt: ts.CreatedAt,
         UpdatedAt: ts.UpdatedAt,
       }));
+
+      // Translations follow the original segments' speakers and cue settings
+      if (speakerLabels !== 'none' || format === 'vtt') {
+        const originals = await db.dbTableRow.list(
+          'noco',
+          baseId,
+          segmentsTableId,
+          {
+            where: `(TranscriptionId,eq,${safeTranscriptionId})`,
+            limit: 10000,
+          }
+        );
+        const originalById = new Map(
+          ((originals.list || []) as TranscriptionSegment[]).map((segment) => [segment.Id, segment])
+        );
+        segmentsForExport = segmentsForExport.map((segment) => ({
+          ...segment,
+          SpeakerId: originalById.get(segment.Id)?.SpeakerId ?? null,
+          CueSettings: originalById.get(segment.Id)?.CueSettings ?? null,
+        }));
+      }
     } else {
       // Fetch original segments
       const segments = await db.dbTableRow.list(
@@ -173,10 +279,22 @@ export async function POST(request: NextRequest) {
       segmentsForExport = segments.list as TranscriptionSegment[];
     }
 
+    // Speaker display names for labelled exports
+    const speakerNames: Record<number, string> = {};
+    if (speakerLabels !== 'none') {
+      for (const speaker of await listSpeakers(db, safeTranscriptionId)) {
+        speakerNames[speaker.Id] = speaker.Name;
+      }
+    }
+
     // Generate subtitle content
     const content = generateSubtitles(segmentsForExport, format, {
       title: (transcription as any).Title,
       includeTimestamps,
+      frameRate: frameRate as STLFrameRate | undefined,
+      language: language || transcription.Language,
+      style: style as TTMLStyleOptions | undefined,
+      speakers: { mode: speakerLabels as SpeakerLabelMode, names: speakerNames },
     });
 
     // Create filename - include language code if exporting translation
@@ -187,7 +305,9 @@ export async function POST(request: NextRequest) {
     const filename = `${baseFilename}${languageSuffix}.${getSubtitleExtension(format)}`;
 
     // Return as downloadable file
-    return new NextResponse(content, {
+    // Binary formats are sent as raw bytes
+    const responseBody = typeof content === 'string' ? content : new Uint8Array(content);
+    return new NextResponse(responseBody, {
       status: 200,
       headers: {
         'Content-Type': getSubtitleMimeType(format),
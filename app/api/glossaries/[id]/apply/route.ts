@@ -0,0 +1,137 @@
+/**
+ * Glossary Apply API
+ * POST /api/glossaries/:id/apply - Preview or apply a glossary to a transcription or translation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import {
+  applyGlossaryChanges,
+  getOwnedGlossary,
+  previewGlossaryForTranscription,
+} from '@/lib/glossary';
+import { parseGlossaryTerms } from '@/lib/utils/glossary';
+import type { APIResponse, Transcription } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * POST /api/glossaries/:id/apply
+ * Changes are recomputed from the current text, so a stale preview never overwrites later edits
+ * Body:
+ *   - transcriptionId: number
+ *   - language?: string (translation to apply to, omitted for the original transcript)
+ *   - preview?: boolean (only list the changes, default false)
+ *   - segmentIds?: number[] (apply only to these segments, e.g. the changes accepted in the preview)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { transcriptionId, language, preview = false, segmentIds } = body;
+
+    if (!transcriptionId) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Missing required field: transcriptionId' },
+        { status: 400 }
+      );
+    }
+
+    if (language !== undefined && typeof language !== 'string') {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Invalid language' },
+        { status: 400 }
+      );
+    }
+
+    if (segmentIds !== undefined && (!Array.isArray(segmentIds) || !segmentIds.every(Number.isInteger))) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'segmentIds must be an array of segment IDs' },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { glossary, error } = await getOwnedGlossary(db, id, session.user.id);
+    if (error || !glossary) return error;
+
+    const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+    const transcription = await db.dbTableRow.read(
+      'noco',
+      baseId,
+      transcriptionsTableId,
+      transcriptionId
+    ) as Transcription | null;
+
+    if (!transcription) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+
+    if (String(transcription.UserId) !== session.user.id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const allChanges = await previewGlossaryForTranscription(
+      db,
+      transcription.Id,
+      parseGlossaryTerms(glossary.Terms),
+      language || undefined
+    );
+
+    const accepted: Set<number> | null = segmentIds ? new Set(segmentIds) : null;
+    const changes = accepted
+      ? allChanges.filter((change) => accepted.has(change.segmentId))
+      : allChanges;
+
+    if (!preview && changes.length > 0) {
+      await applyGlossaryChanges(db, changes, language || undefined);
+      console.log(
+        `Applied glossary ${glossary.Id} to ${changes.length} segments of transcription ${transcription.Id}` +
+        (language ? ` (${language})` : '')
+      );
+    }
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: {
+          changes,
+          applied: preview ? 0 : changes.length,
+        },
+        message: preview ? 'Glossary preview created' : 'Glossary applied successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Apply glossary error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to apply glossary',
+      },
+      { status: 500 }
+    );
+  }
+}
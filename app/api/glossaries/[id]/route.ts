@@ -0,0 +1,170 @@
+/**
+ * Glossary API
+ * PATCH /api/glossaries/:id - Rename, replace terms, change language or toggle a glossary
+ * DELETE /api/glossaries/:id - Delete a glossary
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import { getOwnedGlossary } from '@/lib/glossary';
+import { parseGlossaryTerms, validateGlossaryTerms } from '@/lib/utils/glossary';
+import type { APIResponse, Glossary } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_LANGUAGE_LENGTH = 10;
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * PATCH /api/glossaries/:id
+ * Body (all optional):
+ *   - Name: string
+ *   - Terms: { original: string, replacement: string, caseSensitive?: boolean }[] (replaces all terms)
+ *   - Language: string
+ *   - IsActive: boolean
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const updates: Record<string, unknown> = {};
+
+    if (body.Name !== undefined) {
+      const name = typeof body.Name === 'string' ? body.Name.replace(/\s+/g, ' ').trim() : '';
+      if (!name) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: 'Name cannot be empty' },
+          { status: 400 }
+        );
+      }
+      if (name.length > MAX_NAME_LENGTH) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: `Name too long. Maximum ${MAX_NAME_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      updates.Name = name;
+    }
+
+    if (body.Terms !== undefined) {
+      const { terms, error: termsError } = validateGlossaryTerms(body.Terms);
+      if (termsError) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: termsError },
+          { status: 400 }
+        );
+      }
+      updates.Terms = JSON.stringify(terms);
+    }
+
+    if (body.Language !== undefined) {
+      const language = typeof body.Language === 'string' ? body.Language.trim() : '';
+      if (language.length > MAX_LANGUAGE_LENGTH) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: 'Invalid Language' },
+          { status: 400 }
+        );
+      }
+      updates.Language = language;
+    }
+
+    if (body.IsActive !== undefined) {
+      updates.IsActive = Boolean(body.IsActive);
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { error } = await getOwnedGlossary(db, id, session.user.id);
+    if (error) return error;
+
+    const { baseId, tableId: glossariesTableId } = await NocoDBClient.getIds('Glossaries');
+    const glossary = await db.dbTableRow.update(
+      'noco',
+      baseId,
+      glossariesTableId,
+      id,
+      updates
+    ) as Glossary;
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { ...glossary, Terms: parseGlossaryTerms(glossary.Terms) },
+        message: 'Glossary updated successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update glossary error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update glossary',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/glossaries/:id
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const db = getNocoDBClient();
+    const { error } = await getOwnedGlossary(db, id, session.user.id);
+    if (error) return error;
+
+    const { baseId, tableId: glossariesTableId } = await NocoDBClient.getIds('Glossaries');
+    await db.dbTableRow.delete('noco', baseId, glossariesTableId, id);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        message: 'Glossary deleted successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Delete glossary error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete glossary',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Glossaries API
+ * GET /api/glossaries - List the user's glossaries
+ * POST /api/glossaries - Create a glossary
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient, sanitizeNumericId } from '@/lib/db/nocodb';
+import { parseGlossaryTerms, validateGlossaryTerms } from '@/lib/utils/glossary';
+import type { APIResponse, Glossary } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_LANGUAGE_LENGTH = 10;
+const MAX_GLOSSARIES = 100;
+
+/**
+ * GET /api/glossaries
+ * Terms are stored as JSON text - returned parsed
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: glossariesTableId } = await NocoDBClient.getIds('Glossaries');
+
+    const result = await db.dbTableRow.list('noco', baseId, glossariesTableId, {
+      where: `(UserId,eq,${sanitizeNumericId(session.user.id)})`,
+      sort: 'Name',
+      limit: MAX_GLOSSARIES,
+    });
+
+    const glossaries = ((result.list || []) as Glossary[]).map((glossary) => ({
+      ...glossary,
+      Terms: parseGlossaryTerms(glossary.Terms),
+    }));
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { glossaries },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('List glossaries error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list glossaries',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/glossaries
+ * Body:
+ *   - Name: string
+ *   - Terms: { original: string, replacement: string, caseSensitive?: boolean }[]
+ *   - Language?: string (language of the text it applies to, empty for any)
+ *   - IsActive?: boolean (default true)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    const name = typeof body.Name === 'string' ? body.Name.replace(/\s+/g, ' ').trim() : '';
+    if (!name) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Missing required field: Name' },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Name too long. Maximum ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const language = typeof body.Language === 'string' ? body.Language.trim() : '';
+    if (language.length > MAX_LANGUAGE_LENGTH) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Invalid Language' },
+        { status: 400 }
+      );
+    }
+
+    const { terms, error: termsError } = validateGlossaryTerms(body.Terms ?? []);
+    if (termsError) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: termsError },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: glossariesTableId } = await NocoDBClient.getIds('Glossaries');
+    const userId = sanitizeNumericId(session.user.id);
+
+    const existing = await db.dbTableRow.list('noco', baseId, glossariesTableId, {
+      where: `(UserId,eq,${userId})`,
+      limit: MAX_GLOSSARIES,
+    });
+
+    if ((existing.list || []).length >= MAX_GLOSSARIES) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Too many glossaries. Maximum ${MAX_GLOSSARIES}` },
+        { status: 400 }
+      );
+    }
+
+    const glossary = await db.dbTableRow.create('noco', baseId, glossariesTableId, {
+      UserId: userId,
+      Name: name,
+      Terms: JSON.stringify(terms),
+      Language: language,
+      IsActive: body.IsActive !== false,
+    }) as Glossary;
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { ...glossary, Terms: terms },
+        message: 'Glossary created successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create glossary error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create glossary',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Providers API
+ * GET /api/providers - List the ASR and translation providers configured on this server
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { listProviders } from '@/lib/providers';
+import type { APIResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/providers
+ * Each provider lists its models (default first), supported languages and
+ * capabilities (word timestamps, diarization, JSON mode)
+ * Query params:
+ *   - kind?: 'asr' | 'translation'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const kind = request.nextUrl.searchParams.get('kind');
+    if (kind !== null && kind !== 'asr' && kind !== 'translation') {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: "Invalid kind. Supported: 'asr', 'translation'" },
+        { status: 400 }
+      );
+    }
+
+    const providers = listProviders(kind ?? undefined);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { providers },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get providers error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get providers',
+      },
+      { status: 500 }
+    );
+  }
+}
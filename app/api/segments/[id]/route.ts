@@ -5,8 +5,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
-import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
-import type { APIResponse, Transcription, TranscriptionSegment } from '@/lib/types';
+import NocoDBClient, { getNocoDBClient, sanitizeNumericId } from '@/lib/db/nocodb';
+import { parseSegmentWords, serializeSegmentWords, updateSegmentWords } from '@/lib/utils/segments';
+import type { APIResponse, Speaker, Transcription, TranscriptionSegment } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
@@ -88,6 +89,24 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       }
     }
 
+    // A speaker can only be assigned within its own transcription
+    if (updateData.SpeakerId !== undefined && updateData.SpeakerId !== null) {
+      const { tableId: speakersTableId } = await NocoDBClient.getIds('Speakers');
+      const speaker = await db.dbTableRow.read(
+        'noco',
+        baseId,
+        speakersTableId,
+        sanitizeNumericId(updateData.SpeakerId as number)
+      ).catch(() => null) as Speaker | null;
+
+      if (!speaker || String(speaker.TranscriptionId) !== String(existingSegment.TranscriptionId)) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: 'Invalid SpeakerId' },
+          { status: 400 }
+        );
+      }
+    }
+
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json<APIResponse>(
         {
@@ -98,6 +117,23 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Keep word timings in line with the edited text and times, or drop them
+    if (
+      existingSegment.Words &&
+      (updateData.Text !== undefined || updateData.StartTime !== undefined || updateData.EndTime !== undefined)
+    ) {
+      const words = updateSegmentWords(
+        parseSegmentWords(existingSegment.Words),
+        { startTime: existingSegment.StartTime, endTime: existingSegment.EndTime, text: existingSegment.Text || '' },
+        {
+          startTime: Number(updateData.StartTime ?? existingSegment.StartTime),
+          endTime: Number(updateData.EndTime ?? existingSegment.EndTime),
+          text: String(updateData.Text ?? existingSegment.Text ?? ''),
+        }
+      );
+      updateData.Words = serializeSegmentWords(words);
+    }
+
     // Update segment
     const segment = await db.dbTableRow.update(
       'noco',
@@ -0,0 +1,152 @@
+/**
+ * Speaker Merge API
+ * POST /api/speakers/:id/merge - Merge a speaker into another speaker
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient, sanitizeNumericId } from '@/lib/db/nocodb';
+import type { APIResponse, Speaker, Transcription } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const BATCH_SIZE = 50;
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * POST /api/speakers/:id/merge
+ * Reassign all segments of this speaker to the target speaker and delete this speaker
+ * Both speakers must belong to the same transcription of the authenticated user
+ * Body:
+ *   - targetSpeakerId: number
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { targetSpeakerId } = body;
+
+    if (!id || !targetSpeakerId) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Missing required fields: speaker ID, targetSpeakerId' },
+        { status: 400 }
+      );
+    }
+
+    const sourceId = sanitizeNumericId(id);
+    const targetId = sanitizeNumericId(targetSpeakerId);
+
+    if (sourceId === targetId) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Cannot merge a speaker into itself' },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: speakersTableId } = await NocoDBClient.getIds('Speakers');
+    const { tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+    const { tableId: segmentsTableId } = await NocoDBClient.getIds('TranscriptionSegments');
+
+    const [source, target] = await Promise.all([
+      db.dbTableRow.read('noco', baseId, speakersTableId, sourceId) as Promise<Speaker | null>,
+      db.dbTableRow.read('noco', baseId, speakersTableId, targetId) as Promise<Speaker | null>,
+    ]);
+
+    if (!source || !target) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Speaker not found' },
+        { status: 404 }
+      );
+    }
+
+    if (String(source.TranscriptionId) !== String(target.TranscriptionId)) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Speakers belong to different transcriptions' },
+        { status: 400 }
+      );
+    }
+
+    // Verify ownership through the shared transcription
+    const transcription = await db.dbTableRow.read(
+      'noco',
+      baseId,
+      transcriptionsTableId,
+      source.TranscriptionId
+    ) as Transcription | null;
+
+    if (!transcription || String(transcription.UserId) !== session.user.id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const safeTranscriptionId = sanitizeNumericId(source.TranscriptionId);
+    const segments = await db.dbTableRow.list(
+      'noco',
+      baseId,
+      segmentsTableId,
+      {
+        where: `(TranscriptionId,eq,${safeTranscriptionId})~and(SpeakerId,eq,${sourceId})`,
+        limit: 10000,
+      }
+    );
+
+    const segmentIds = (segments.list || []).map((segment: any) => segment.Id as number);
+
+    for (let i = 0; i < segmentIds.length; i += BATCH_SIZE) {
+      const batch = segmentIds.slice(i, i + BATCH_SIZE);
+      await Promise.all(
+        batch.map((segmentId) =>
+          db.dbTableRow.update('noco', baseId, segmentsTableId, segmentId, {
+            SpeakerId: targetId,
+          })
+        )
+      );
+    }
+
+    await db.dbTableRow.delete('noco', baseId, speakersTableId, sourceId);
+
+    console.log(
+      `Merged speaker ${sourceId} into ${targetId} (transcription ${safeTranscriptionId}, ${segmentIds.length} segments)`
+    );
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: {
+          targetSpeakerId: targetId,
+          removedSpeakerId: sourceId,
+          reassignedSegments: segmentIds.length,
+        },
+        message: `Merged "${source.Name}" into "${target.Name}"`,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Merge speakers error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to merge speakers',
+      },
+      { status: 500 }
+    );
+  }
+}
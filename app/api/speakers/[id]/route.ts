@@ -0,0 +1,123 @@
+/**
+ * Speaker API
+ * PATCH /api/speakers/:id - Rename speaker
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import type { APIResponse, Speaker, Transcription } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_NAME_LENGTH = 100;
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * PATCH /api/speakers/:id
+ * Update a speaker's display name - must belong to authenticated user's transcription
+ * Body:
+ *   - Name: string
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Speaker ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const name = typeof body.Name === 'string' ? body.Name.replace(/\s+/g, ' ').trim() : '';
+    if (!name) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Missing required field: Name' },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Name too long. Maximum ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: speakersTableId } = await NocoDBClient.getIds('Speakers');
+    const { tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+
+    // Get speaker to verify ownership through transcription
+    const existingSpeaker = await db.dbTableRow.read(
+      'noco',
+      baseId,
+      speakersTableId,
+      id
+    ) as Speaker | null;
+
+    if (!existingSpeaker) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Speaker not found' },
+        { status: 404 }
+      );
+    }
+
+    const transcription = await db.dbTableRow.read(
+      'noco',
+      baseId,
+      transcriptionsTableId,
+      existingSpeaker.TranscriptionId
+    ) as Transcription | null;
+
+    if (!transcription || String(transcription.UserId) !== session.user.id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const speaker = await db.dbTableRow.update(
+      'noco',
+      baseId,
+      speakersTableId,
+      id,
+      { Name: name }
+    );
+
+    return NextResponse.json<APIResponse<typeof speaker>>(
+      {
+        success: true,
+        data: speaker,
+        message: 'Speaker updated successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update speaker error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update speaker',
+      },
+      { status: 500 }
+    );
+  }
+}
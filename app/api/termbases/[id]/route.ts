@@ -0,0 +1,173 @@
+/**
+ * Termbase API
+ * PATCH /api/termbases/:id - Rename, replace entries, change languages or toggle a termbase
+ * DELETE /api/termbases/:id - Delete a termbase
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import { getOwnedTermbase } from '@/lib/termbase';
+import { parseTermbaseEntries, validateTermbaseEntries } from '@/lib/utils/termbase';
+import type { APIResponse, Termbase } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_LANGUAGE_LENGTH = 10;
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * PATCH /api/termbases/:id
+ * Body (all optional):
+ *   - Name: string
+ *   - Entries: { source: string, target: string, doNotTranslate?: boolean, caseSensitive?: boolean }[] (replaces all entries)
+ *   - SourceLanguage: string
+ *   - TargetLanguage: string
+ *   - IsActive: boolean
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const updates: Record<string, unknown> = {};
+
+    if (body.Name !== undefined) {
+      const name = typeof body.Name === 'string' ? body.Name.replace(/\s+/g, ' ').trim() : '';
+      if (!name) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: 'Name cannot be empty' },
+          { status: 400 }
+        );
+      }
+      if (name.length > MAX_NAME_LENGTH) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: `Name too long. Maximum ${MAX_NAME_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      updates.Name = name;
+    }
+
+    if (body.Entries !== undefined) {
+      const { entries, error: entriesError } = validateTermbaseEntries(body.Entries);
+      if (entriesError) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: entriesError },
+          { status: 400 }
+        );
+      }
+      updates.Entries = JSON.stringify(entries);
+    }
+
+    for (const field of ['SourceLanguage', 'TargetLanguage'] as const) {
+      if (body[field] === undefined) continue;
+
+      const language = typeof body[field] === 'string' ? body[field].trim() : '';
+      if (language.length > MAX_LANGUAGE_LENGTH) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: `Invalid ${field}` },
+          { status: 400 }
+        );
+      }
+      updates[field] = language;
+    }
+
+    if (body.IsActive !== undefined) {
+      updates.IsActive = Boolean(body.IsActive);
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { error } = await getOwnedTermbase(db, id, session.user.id);
+    if (error) return error;
+
+    const { baseId, tableId: termbasesTableId } = await NocoDBClient.getIds('Termbases');
+    const termbase = await db.dbTableRow.update(
+      'noco',
+      baseId,
+      termbasesTableId,
+      id,
+      updates
+    ) as Termbase;
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { ...termbase, Entries: parseTermbaseEntries(termbase.Entries) },
+        message: 'Termbase updated successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update termbase error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update termbase',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/termbases/:id
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const db = getNocoDBClient();
+    const { error } = await getOwnedTermbase(db, id, session.user.id);
+    if (error) return error;
+
+    const { baseId, tableId: termbasesTableId } = await NocoDBClient.getIds('Termbases');
+    await db.dbTableRow.delete('noco', baseId, termbasesTableId, id);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        message: 'Termbase deleted successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Delete termbase error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete termbase',
+      },
+      { status: 500 }
+    );
+  }
+}
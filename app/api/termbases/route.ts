@@ -0,0 +1,164 @@
+/**
+ * Termbases API
+ * GET /api/termbases - List the user's termbases
+ * POST /api/termbases - Create a termbase
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient, sanitizeNumericId } from '@/lib/db/nocodb';
+import { parseTermbaseEntries, validateTermbaseEntries } from '@/lib/utils/termbase';
+import type { APIResponse, Termbase } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_LANGUAGE_LENGTH = 10;
+const MAX_TERMBASES = 100;
+
+/**
+ * GET /api/termbases
+ * Entries are stored as JSON text - returned parsed
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: termbasesTableId } = await NocoDBClient.getIds('Termbases');
+
+    const result = await db.dbTableRow.list('noco', baseId, termbasesTableId, {
+      where: `(UserId,eq,${sanitizeNumericId(session.user.id)})`,
+      sort: 'Name',
+      limit: MAX_TERMBASES,
+    });
+
+    const termbases = ((result.list || []) as Termbase[]).map((termbase) => ({
+      ...termbase,
+      Entries: parseTermbaseEntries(termbase.Entries),
+    }));
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { termbases },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('List termbases error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list termbases',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/termbases
+ * Body:
+ *   - Name: string
+ *   - Entries: { source: string, target: string, doNotTranslate?: boolean, caseSensitive?: boolean }[]
+ *   - SourceLanguage?: string (empty for any)
+ *   - TargetLanguage?: string (empty for any)
+ *   - IsActive?: boolean (default true - active termbases apply to matching translations)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    const name = typeof body.Name === 'string' ? body.Name.replace(/\s+/g, ' ').trim() : '';
+    if (!name) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Missing required field: Name' },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Name too long. Maximum ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const sourceLanguage = typeof body.SourceLanguage === 'string' ? body.SourceLanguage.trim() : '';
+    const targetLanguage = typeof body.TargetLanguage === 'string' ? body.TargetLanguage.trim() : '';
+    if (sourceLanguage.length > MAX_LANGUAGE_LENGTH || targetLanguage.length > MAX_LANGUAGE_LENGTH) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Invalid SourceLanguage or TargetLanguage' },
+        { status: 400 }
+      );
+    }
+
+    const { entries, error: entriesError } = validateTermbaseEntries(body.Entries ?? []);
+    if (entriesError) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: entriesError },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: termbasesTableId } = await NocoDBClient.getIds('Termbases');
+    const userId = sanitizeNumericId(session.user.id);
+
+    const existing = await db.dbTableRow.list('noco', baseId, termbasesTableId, {
+      where: `(UserId,eq,${userId})`,
+      limit: MAX_TERMBASES,
+    });
+
+    if ((existing.list || []).length >= MAX_TERMBASES) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Too many termbases. Maximum ${MAX_TERMBASES}` },
+        { status: 400 }
+      );
+    }
+
+    const termbase = await db.dbTableRow.create('noco', baseId, termbasesTableId, {
+      UserId: userId,
+      Name: name,
+      SourceLanguage: sourceLanguage,
+      TargetLanguage: targetLanguage,
+      Entries: JSON.stringify(entries),
+      IsActive: body.IsActive !== false,
+    }) as Termbase;
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { ...termbase, Entries: entries },
+        message: 'Termbase created successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create termbase error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create termbase',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Transcription Cancel API
+ * POST /api/transcriptions/:id/cancel - Stop a pending or processing transcription
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import { cancelJob, listTranscriptionJobs } from '@/lib/jobs/queue';
+import { cancelRunningJob } from '@/lib/jobs/worker';
+import { clearTranscriptionResults } from '@/lib/jobs/transcription';
+import type { APIResponse, Transcription } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * POST /api/transcriptions/:id/cancel
+ * Cancel the transcription's active job, abort its ASR call and remove partially written segments
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+
+    const transcription = await db.dbTableRow.read(
+      'noco',
+      baseId,
+      transcriptionsTableId,
+      id
+    ) as Transcription | null;
+
+    if (!transcription) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify ownership
+    if (String(transcription.UserId) !== session.user.id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (transcription.Status !== 'pending' && transcription.Status !== 'processing') {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Cannot cancel a ${transcription.Status} transcription` },
+        { status: 400 }
+      );
+    }
+
+    const activeJobs = (await listTranscriptionJobs(transcription.Id)).filter(
+      (job) => job.Status === 'pending' || job.Status === 'processing'
+    );
+
+    for (const job of activeJobs) {
+      await cancelJob(job.Id);
+      // Aborts immediately when running in this process, otherwise on the worker's next heartbeat
+      cancelRunningJob(job.Id);
+    }
+
+    await clearTranscriptionResults(db, transcription.Id);
+
+    const updated = await db.dbTableRow.update(
+      'noco',
+      baseId,
+      transcriptionsTableId,
+      transcription.Id,
+      { Status: 'cancelled' }
+    );
+
+    console.log(`Cancelled transcription ${transcription.Id} (${activeJobs.length} active jobs)`);
+
+    return NextResponse.json<APIResponse<typeof updated>>(
+      {
+        success: true,
+        data: updated,
+        message: 'Transcription cancelled',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Cancel transcription error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel transcription',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Speaker Diarization API
+ * POST /api/transcriptions/:id/diarize - Queue speaker detection for existing segments
+ * GET /api/transcriptions/:id/diarize - Status of the latest speaker detection
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import { checkRateLimit, getClientIP } from '@/lib/auth/rate-limit';
+import { enqueueJob } from '@/lib/jobs';
+import { listTranscriptionJobs } from '@/lib/jobs/queue';
+import type { DiarizationJobPayload } from '@/lib/jobs/diarization';
+import { parseFailureReason } from '@/lib/utils/failures';
+import type { APIResponse, Transcription } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_SPEAKERS = 20;
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Load a transcription the session's user owns, or the error response to return
+ */
+async function getOwnedTranscription(
+  id: string,
+  userId: string
+): Promise<{ transcription: Transcription } | { response: NextResponse<APIResponse> }> {
+  const db = getNocoDBClient();
+  const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+
+  const transcription = await db.dbTableRow.read(
+    'noco',
+    baseId,
+    transcriptionsTableId,
+    id
+  ) as Transcription | null;
+
+  if (!transcription) {
+    return {
+      response: NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  // Verify ownership
+  if (String(transcription.UserId) !== userId) {
+    return {
+      response: NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { transcription };
+}
+
+/**
+ * POST /api/transcriptions/:id/diarize
+ * Queue a job that runs diarization on the transcription's audio and assigns a speaker
+ * to every segment, replacing any existing speakers (renamed speakers are reset)
+ * Returns 202 with the job - poll GET for its status
+ * Body (optional):
+ *   - numSpeakers?: number (exact speaker count when known, otherwise estimated)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Rate limit check for expensive audio analysis
+    const clientIP = getClientIP(request);
+    const rateLimitResult = checkRateLimit(`diarize:${userId}:${clientIP}`, {
+      maxRequests: 5,
+      windowSeconds: 60,
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(rateLimitResult.resetIn) } }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { numSpeakers } = body;
+
+    if (!id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      numSpeakers !== undefined &&
+      (!Number.isInteger(numSpeakers) || numSpeakers < 1 || numSpeakers > MAX_SPEAKERS)
+    ) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Invalid numSpeakers. Must be an integer between 1 and ${MAX_SPEAKERS}` },
+        { status: 400 }
+      );
+    }
+
+    const owned = await getOwnedTranscription(id, userId);
+    if ('response' in owned) return owned.response;
+    const { transcription } = owned;
+
+    // A running transcription job would replace the segments being labelled
+    if (transcription.Status !== 'completed') {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription must be completed before detecting speakers' },
+        { status: 400 }
+      );
+    }
+
+    if (!transcription.SourceFileUrl) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription has no source audio' },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await listTranscriptionJobs(transcription.Id, 'diarization');
+    if (jobs.some((job) => job.Status === 'pending' || job.Status === 'processing')) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Speakers are already being detected' },
+        { status: 409 }
+      );
+    }
+
+    const payload: DiarizationJobPayload = {
+      sourceFileUrl: transcription.SourceFileUrl,
+      numSpeakers,
+    };
+
+    const job = await enqueueJob({
+      type: 'diarization',
+      fileId: transcription.FileId,
+      userId: parseInt(userId),
+      transcriptionId: transcription.Id,
+      payload,
+    });
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { jobId: job.Id, status: job.Status },
+        message: 'Speaker detection queued',
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Diarize transcription error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to detect speakers',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/transcriptions/:id/diarize
+ * Status of the latest speaker detection job, null when speakers were never detected
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const owned = await getOwnedTranscription(id, session.user.id);
+    if ('response' in owned) return owned.response;
+
+    const [job] = await listTranscriptionJobs(owned.transcription.Id, 'diarization');
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: job
+          ? {
+              jobId: job.Id,
+              status: job.Status,
+              progress: job.Progress,
+              step: job.CurrentStep,
+              failureReason: parseFailureReason(job.FailureReason) ?? null,
+            }
+          : null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get diarization status error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get speaker detection status',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -6,7 +6,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
-import { splitLongSegments, balanceSegmentText, type RawSegment } from '@/lib/utils/segments';
+import {
+  splitLongSegments,
+  balanceSegmentText,
+  parseSegmentWords,
+  serializeSegmentWords,
+  type RawSegment,
+} from '@/lib/utils/segments';
 import type { APIResponse, Transcription } from '@/lib/types';
 
 export const runtime = 'nodejs';
@@ -20,6 +26,7 @@ interface RouteParams {
 /**
  * POST /api/transcriptions/:id/resplit
  * Re-split all segments for a transcription to proper subtitle lengths (must belong to authenticated user)
+ * Segments with stored word timings are cut at word boundaries, preferring natural pauses
  * Body (optional):
  *   - maxCharsPerLine?: number (default: 42)
  *   - maxLines?: number (default: 2)
@@ -110,6 +117,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       endTime: seg.EndTime,
       text: seg.Text,
       confidence: seg.Confidence,
+      words: parseSegmentWords(seg.Words),
+      speakerId: seg.SpeakerId ?? null,
     }));
 
     // Split long segments
@@ -157,7 +166,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
               EndTime: segment.endTime,
               Text: balancedText,
               Confidence: segment.confidence || 0,
-              SpeakerId: null,
+              SpeakerId: segment.speakerId ?? null,
+              Words: serializeSegmentWords(segment.words),
             }
           );
         })
@@ -0,0 +1,242 @@
+/**
+ * Transcription Retry API
+ * POST /api/transcriptions/:id/retry - Run a failed or cancelled transcription again
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import { checkRateLimit, getClientIP } from '@/lib/auth/rate-limit';
+import { enqueueJob } from '@/lib/jobs';
+import { listTranscriptionJobs, parseJobPayload } from '@/lib/jobs/queue';
+import type { TranscriptionJobPayload } from '@/lib/jobs/transcription';
+import { getASRProviderDefinition, getDefaultASRModel, type ASRProvider } from '@/lib/asr';
+import {
+  parseVocabularyTerms,
+  serializeVocabularyTerms,
+  validateVocabularyTerms,
+} from '@/lib/utils/vocabulary';
+import { resolveVocabulary } from '@/lib/vocabulary';
+import type { APIResponse, Transcription } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * POST /api/transcriptions/:id/retry
+ * Queue a new job for a failed or cancelled transcription, keeping its script and diarization settings
+ * Vocabulary is resolved again, so edits to the user's lists apply to the retry
+ * Body (optional):
+ *   - provider?: registered ASR provider id (defaults to the previous provider)
+ *   - model?: one of the provider's registered models (defaults to the previous model,
+ *     or the provider's default when it changes)
+ *   - language?: string (defaults to the previous language)
+ *   - vocabulary?: { term: string, misspellings?: string[] }[] (defaults to the previous project terms)
+ *   - applyCorrections?: boolean (defaults to whether the previous run applied corrections)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Same limit as creating a transcription - a retry is just as expensive
+    const clientIP = getClientIP(request);
+    const rateLimitResult = checkRateLimit(`transcription:${userId}:${clientIP}`, {
+      maxRequests: 10,
+      windowSeconds: 60,
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(rateLimitResult.resetIn) } }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { provider, model, language, vocabulary, applyCorrections } = body;
+
+    if (!id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (provider !== undefined && !getASRProviderDefinition(provider)) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Unknown ASR provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    const { terms: requestedTerms, error: vocabularyError } = validateVocabularyTerms(vocabulary ?? []);
+    if (vocabularyError) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Invalid vocabulary: ${vocabularyError}` },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+
+    const transcription = await db.dbTableRow.read(
+      'noco',
+      baseId,
+      transcriptionsTableId,
+      id
+    ) as Transcription | null;
+
+    if (!transcription) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify ownership
+    if (String(transcription.UserId) !== userId) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (transcription.Status !== 'failed' && transcription.Status !== 'cancelled') {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Only failed or cancelled transcriptions can be retried' },
+        { status: 400 }
+      );
+    }
+
+    if (transcription.AsrProvider === 'import') {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Imported transcriptions cannot be retried' },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await listTranscriptionJobs(transcription.Id);
+
+    if (jobs.some((job) => job.Status === 'pending' || job.Status === 'processing')) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription already has an active job' },
+        { status: 409 }
+      );
+    }
+
+    // Start from the latest job's settings; transcriptions created before the job queue have none
+    const previous: TranscriptionJobPayload = jobs.length > 0
+      ? parseJobPayload<TranscriptionJobPayload>(jobs[0])
+      : {
+          sourceFileUrl: transcription.SourceFileUrl,
+          provider: transcription.AsrProvider as ASRProvider,
+          model: getDefaultASRModel(transcription.AsrProvider as ASRProvider),
+          language: transcription.Language && transcription.Language !== 'auto' ? transcription.Language : undefined,
+        };
+
+    const nextProvider: ASRProvider = provider || previous.provider;
+    const providerModels = getASRProviderDefinition(nextProvider)?.getModels() || [];
+    if (model && !providerModels.some((option) => option.id === model)) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Unknown model for ${nextProvider}: ${model}` },
+        { status: 400 }
+      );
+    }
+
+    const projectTerms = vocabulary === undefined
+      ? parseVocabularyTerms(transcription.Vocabulary)
+      : requestedTerms;
+    const shouldCorrect = applyCorrections === undefined
+      ? Boolean(previous.corrections?.length)
+      : Boolean(applyCorrections);
+    const { prompt, corrections } = await resolveVocabulary(
+      db,
+      userId,
+      projectTerms,
+      shouldCorrect && !previous.script
+    );
+
+    const payload: TranscriptionJobPayload = {
+      ...previous,
+      provider: nextProvider,
+      model: model || (nextProvider === previous.provider ? previous.model : getDefaultASRModel(nextProvider)),
+      language: language === undefined ? previous.language : language || undefined,
+      prompt,
+      corrections,
+    };
+
+    await db.dbTableRow.update('noco', baseId, transcriptionsTableId, transcription.Id, {
+      Status: 'pending',
+      AsrProvider: payload.provider,
+      AsrModel: payload.model,
+      FailureReason: null,
+      Vocabulary: serializeVocabularyTerms(projectTerms),
+    });
+
+    let job;
+    try {
+      job = await enqueueJob({
+        type: 'transcription',
+        fileId: transcription.FileId,
+        userId: parseInt(userId),
+        transcriptionId: transcription.Id,
+        payload,
+      });
+    } catch (error) {
+      // Don't leave a pending transcription that nothing will ever process
+      await db.dbTableRow.update('noco', baseId, transcriptionsTableId, transcription.Id, {
+        Status: transcription.Status,
+        FailureReason: transcription.FailureReason ?? null,
+        Vocabulary: transcription.Vocabulary ?? null,
+      });
+      throw error;
+    }
+
+    console.log(
+      `Retrying transcription ${transcription.Id} with ${payload.provider}/${payload.model} (job ${job.Id})`
+    );
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: {
+          ...transcription,
+          Status: 'pending',
+          AsrProvider: payload.provider,
+          AsrModel: payload.model,
+          FailureReason: null,
+          Vocabulary: projectTerms,
+          JobId: job.Id,
+        },
+        message: 'Transcription queued for retry',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Retry transcription error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retry transcription',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -9,7 +9,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
 import { createS3Storage } from '@/lib/storage/s3';
-import type { APIResponse, Transcription, File as FileRecord } from '@/lib/types';
+import { parseSegmentWords } from '@/lib/utils/segments';
+import { parseFailureReason } from '@/lib/utils/failures';
+import { parseVocabularyTerms } from '@/lib/utils/vocabulary';
+import { listSpeakers, deleteSpeakers } from '@/lib/diarization/speakers';
+import type { APIResponse, Transcription, TranscriptionSegment, File as FileRecord } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
@@ -21,7 +25,7 @@ interface RouteParams {
 
 /**
  * GET /api/transcriptions/:id
- * Get transcription by ID with segments (must belong to authenticated user)
+ * Get transcription by ID with segments, word timings and speakers (must belong to authenticated user)
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -93,9 +97,18 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       console.log('First segment:', JSON.stringify(segments.list[0]));
     }
 
+    const speakers = await listSpeakers(db, transcription.Id);
+
+    // Word timings, the failure reason and the vocabulary are stored as JSON text - return them parsed
     const response = {
       ...transcription,
-      segments: segments.list || [],
+      FailureReason: parseFailureReason(transcription.FailureReason) ?? null,
+      Vocabulary: parseVocabularyTerms(transcription.Vocabulary),
+      speakers,
+      segments: ((segments.list || []) as TranscriptionSegment[]).map((segment) => ({
+        ...segment,
+        Words: parseSegmentWords(segment.Words) ?? [],
+      })),
     };
 
     return NextResponse.json<APIResponse<typeof response>>(
@@ -224,7 +237,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
 /**
  * DELETE /api/transcriptions/:id
- * Delete transcription, all associated segments, and the linked file (must belong to authenticated user)
+ * Delete transcription, all associated segments and speakers, and the linked file (must belong to authenticated user)
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
@@ -350,6 +363,12 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       console.log(`Deleted ${translatedSegments.list.length} translated segments`);
     }
 
+    // Delete associated speakers
+    const deletedSpeakers = await deleteSpeakers(db, id);
+    if (deletedSpeakers > 0) {
+      console.log(`Deleted ${deletedSpeakers} speakers`);
+    }
+
     // Delete transcription
     console.log(`Deleting transcription ${id}`);
     const deleteResult = await db.dbTableRow.delete(
@@ -0,0 +1,214 @@
+/**
+ * Subtitle Import API
+ * POST /api/transcriptions/import - Create a transcription from an existing subtitle file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import { checkRateLimit, getClientIP } from '@/lib/auth/rate-limit';
+import { detectSubtitleFormat, parseSubtitleFile } from '@/lib/import/subtitles';
+import { speakerLabel } from '@/lib/diarization';
+import { createSpeakers } from '@/lib/diarization/speakers';
+import { classifyFailure, serializeFailureReason } from '@/lib/utils/failures';
+import type { APIResponse, File } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_SUBTITLE_SIZE = 5 * 1024 * 1024; // 5MB
+const BATCH_SIZE = 50;
+
+/**
+ * POST /api/transcriptions/import
+ * Import SRT, WebVTT or ASS subtitles as a completed transcription
+ * Speaker names (WebVTT voice tags, ASS Name field) become the transcription's speakers
+ * and WebVTT cue settings are kept for VTT export
+ * Body (multipart/form-data):
+ *   - file: subtitle file (.srt, .vtt, .ass, .ssa)
+ *   - fileId: number (ID of the already uploaded media file)
+ *   - title?: string (defaults to the media filename)
+ *   - language?: string
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Rate limit check for import operations
+    const clientIP = getClientIP(request);
+    const rateLimitResult = checkRateLimit(`import:${userId}:${clientIP}`, {
+      maxRequests: 10,
+      windowSeconds: 60,
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(rateLimitResult.resetIn) } }
+      );
+    }
+
+    const formData = await request.formData();
+    const subtitleFile = formData.get('file') as globalThis.File | null;
+    const fileId = formData.get('fileId') as string | null;
+    const title = formData.get('title') as string | null;
+    const language = formData.get('language') as string | null;
+
+    if (!subtitleFile || !fileId) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Missing required fields: file, fileId' },
+        { status: 400 }
+      );
+    }
+
+    if (subtitleFile.size > MAX_SUBTITLE_SIZE) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Subtitle file too large. Maximum size is 5MB' },
+        { status: 400 }
+      );
+    }
+
+    const content = await subtitleFile.text();
+    const format = detectSubtitleFormat(subtitleFile.name, content);
+    if (!format) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unsupported subtitle format. Supported: srt, vtt, ass' },
+        { status: 400 }
+      );
+    }
+
+    let segments;
+    try {
+      segments = parseSubtitleFile(content, format);
+    } catch (parseError) {
+      return NextResponse.json<APIResponse>(
+        {
+          success: false,
+          error: parseError instanceof Error ? parseError.message : 'Failed to parse subtitle file',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (segments.length === 0) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'No subtitle cues found in file' },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+    const { tableId: filesTableId } = await NocoDBClient.getIds('Files');
+    const { tableId: segmentsTableId } = await NocoDBClient.getIds('TranscriptionSegments');
+
+    // SECURITY: Verify file ownership before attaching the transcription
+    const file = await db.dbTableRow.read(
+      'noco',
+      baseId,
+      filesTableId,
+      fileId
+    ) as File | null;
+
+    if (!file) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    if (String(file.UserId) !== userId) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const transcription = await db.dbTableRow.create(
+      'noco',
+      baseId,
+      transcriptionsTableId,
+      {
+        UserId: parseInt(userId),
+        FileId: file.Id,
+        Title: title || file.Filename,
+        Status: 'processing', // Completed once every segment is stored
+        Language: language || 'unknown',
+        Duration: file.Duration || Math.max(...segments.map((segment) => segment.endTime)),
+        SourceFileUrl: file.AudioUrl || file.StorageUrl,
+        TranscriptText: segments.map((segment) => segment.text.replace(/\n/g, ' ')).join(' '),
+        Confidence: 1,
+        AsrProvider: 'import',
+      }
+    );
+
+    const transcriptionId = transcription.Id;
+
+    try {
+      // Speakers in order of first appearance
+      const speakerNames = [...new Set(segments.map((segment) => segment.speaker).filter((name): name is string => !!name))];
+      const speakerIds = await createSpeakers(
+        db,
+        transcriptionId,
+        speakerNames.map((name, index) => ({ label: speakerLabel(index), name }))
+      );
+      const speakerIdByName = new Map(speakerNames.map((name, index) => [name, speakerIds[index]]));
+
+      // Create segments in parallel batches, keeping the delivered line breaks
+      for (let i = 0; i < segments.length; i += BATCH_SIZE) {
+        const batch = segments.slice(i, i + BATCH_SIZE);
+        await Promise.all(
+          batch.map((segment) =>
+            db.dbTableRow.create('noco', baseId, segmentsTableId, {
+              TranscriptionId: transcriptionId,
+              StartTime: segment.startTime,
+              EndTime: segment.endTime,
+              Text: segment.text,
+              Confidence: 1,
+              SpeakerId: segment.speaker ? speakerIdByName.get(segment.speaker) ?? null : null,
+              CueSettings: segment.settings ? JSON.stringify(segment.settings) : null,
+            })
+          )
+        );
+      }
+    } catch (error) {
+      // A partly imported transcription must not look complete
+      await db.dbTableRow.update('noco', baseId, transcriptionsTableId, transcriptionId, {
+        Status: 'failed',
+        FailureReason: serializeFailureReason(classifyFailure(error)),
+      }).catch((updateError) => console.error('Failed to mark import as failed:', updateError));
+      throw error;
+    }
+
+    await db.dbTableRow.update('noco', baseId, transcriptionsTableId, transcriptionId, { Status: 'completed' });
+
+    console.log(`Imported ${segments.length} ${format.toUpperCase()} cues into transcription ${transcriptionId}`);
+
+    return NextResponse.json<APIResponse<typeof transcription>>(
+      {
+        success: true,
+        data: { ...transcription, Status: 'completed' },
+        message: `Imported ${segments.length} segments from ${format.toUpperCase()}`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Import subtitles error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import subtitles',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Transcription Models API
+ * GET /api/transcriptions/models - List the ASR models configured on this server
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { listASRModels } from '@/lib/asr';
+import type { APIResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/transcriptions/models
+ * Hosted providers are listed when their API key is set; OpenAI-compatible
+ * models come from OPENAI_ASR_MODELS
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const models = listASRModels();
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { models },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get transcription models error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get transcription models',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,13 +7,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import NocoDBClient, { getNocoDBClient, sanitizeNumericId } from '@/lib/db/nocodb';
-import { createASRService } from '@/lib/asr';
-import { splitLongSegments, balanceSegmentText, type RawSegment } from '@/lib/utils/segments';
+import { enqueueJob } from '@/lib/jobs';
+import type { TranscriptionJobPayload } from '@/lib/jobs/transcription';
 import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/auth/rate-limit';
+import { classifyFailure, parseFailureReason, serializeFailureReason } from '@/lib/utils/failures';
+import {
+  parseVocabularyTerms,
+  serializeVocabularyTerms,
+  validateVocabularyTerms,
+} from '@/lib/utils/vocabulary';
+import { resolveVocabulary } from '@/lib/vocabulary';
+import { getASRProviderDefinition, getDefaultASRModel } from '@/lib/asr';
 import type { APIResponse, Transcription, File } from '@/lib/types';
 
 export const runtime = 'nodejs';
-export const maxDuration = 300; // 5 minutes for long transcriptions
+
+const MAX_SCRIPT_LENGTH = 200_000; // ~2-3 hours of speech
+const MAX_SPEAKERS = 20;
 
 /**
  * GET /api/transcriptions
@@ -58,10 +68,20 @@ export async function GET(request: NextRequest) {
       }
     );
 
-    return NextResponse.json<APIResponse<typeof transcriptions>>(
+    // Failure reasons and vocabularies are stored as JSON text - return them parsed
+    const response = {
+      ...transcriptions,
+      list: ((transcriptions.list || []) as Transcription[]).map((transcription) => ({
+        ...transcription,
+        FailureReason: parseFailureReason(transcription.FailureReason) ?? null,
+        Vocabulary: parseVocabularyTerms(transcription.Vocabulary),
+      })),
+    };
+
+    return NextResponse.json<APIResponse<typeof response>>(
       {
         success: true,
-        data: transcriptions,
+        data: response,
         message: 'Transcriptions retrieved successfully',
       },
       { status: 200 }
@@ -87,8 +107,14 @@ export async function GET(request: NextRequest) {
  *   - sourceFileUrl: string (S3 URL)
  *   - title: string
  *   - language?: string
- *   - provider?: 'berget' | 'groq'
- *   - model?: string (e.g., 'kb-whisper', 'whisper-large-v3')
+ *   - provider?: registered ASR provider id ('berget', 'groq', 'openai')
+ *   - model?: one of the provider's registered models (defaults to the provider's default)
+ *   - mode?: 'transcribe' | 'align' (default 'transcribe')
+ *   - script?: string (required for 'align' - exact text to time against the media)
+ *   - diarize?: boolean (detect speakers and label segments)
+ *   - numSpeakers?: number (exact speaker count when known, otherwise estimated)
+ *   - vocabulary?: { term: string, misspellings?: string[] }[] (project terms, added to the user's active lists)
+ *   - applyCorrections?: boolean (replace known misspellings after ASR - not in 'align' mode)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -124,7 +150,13 @@ export async function POST(request: NextRequest) {
       title,
       language,
       provider = 'berget',
-      model = 'kb-whisper',
+      model: requestedModel,
+      mode = 'transcribe',
+      script,
+      diarize = false,
+      numSpeakers,
+      vocabulary = [],
+      applyCorrections = false,
     } = body;
 
     // Validate required fields
@@ -138,6 +170,72 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const providerDefinition = getASRProviderDefinition(provider);
+    if (!providerDefinition) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Unknown ASR provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    // Checked here, so a bad pair never reaches the worker as a provider failure
+    const providerModels = providerDefinition.getModels();
+    if (requestedModel && !providerModels.some((option) => option.id === requestedModel)) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Unknown model for ${provider}: ${requestedModel}` },
+        { status: 400 }
+      );
+    }
+    const model: string = requestedModel || getDefaultASRModel(provider);
+
+    if (mode !== 'transcribe' && mode !== 'align') {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: "Invalid mode. Supported: 'transcribe', 'align'" },
+        { status: 400 }
+      );
+    }
+
+    if (mode === 'align') {
+      if (!providerDefinition.capabilities.wordTimestamps) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: `${providerDefinition.name} does not return word timings needed to align a script` },
+          { status: 400 }
+        );
+      }
+
+      if (typeof script !== 'string' || !script.trim()) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: "Missing required field for 'align' mode: script" },
+          { status: 400 }
+        );
+      }
+
+      if (script.length > MAX_SCRIPT_LENGTH) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: `Script too long. Maximum ${MAX_SCRIPT_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (
+      numSpeakers !== undefined &&
+      (!Number.isInteger(numSpeakers) || numSpeakers < 1 || numSpeakers > MAX_SPEAKERS)
+    ) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Invalid numSpeakers. Must be an integer between 1 and ${MAX_SPEAKERS}` },
+        { status: 400 }
+      );
+    }
+
+    const { terms: projectTerms, error: vocabularyError } = validateVocabularyTerms(vocabulary);
+    if (vocabularyError) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Invalid vocabulary: ${vocabularyError}` },
+        { status: 400 }
+      );
+    }
+
     const db = getNocoDBClient();
     const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
     const { tableId: filesTableId } = await NocoDBClient.getIds('Files');
@@ -178,16 +276,49 @@ export async function POST(request: NextRequest) {
         Duration: 0,
         SourceFileUrl: sourceFileUrl,
         AsrProvider: provider,
+        AsrModel: model,
+        Vocabulary: serializeVocabularyTerms(projectTerms),
       }
     );
 
     const transcriptionId = transcription.Id;
 
-    // Start transcription process asynchronously
-    // In production, this should be a background job
-    processTranscription(transcriptionId, sourceFileUrl, provider, model, language).catch((error) => {
-      console.error('Background transcription error:', error);
-    });
+    // Vocabulary biases the ASR prompt; corrections would overwrite an exact script
+    const { prompt, corrections } = await resolveVocabulary(
+      db,
+      userId,
+      projectTerms,
+      Boolean(applyCorrections) && mode !== 'align'
+    );
+
+    // Queue the transcription - the job worker picks it up and retries on failure
+    const payload: TranscriptionJobPayload = {
+      sourceFileUrl,
+      provider,
+      model,
+      language,
+      script: mode === 'align' ? script : undefined,
+      diarization: diarize ? { numSpeakers } : undefined,
+      prompt,
+      corrections,
+    };
+
+    try {
+      await enqueueJob({
+        type: 'transcription',
+        fileId,
+        userId: parseInt(userId),
+        transcriptionId,
+        payload,
+      });
+    } catch (error) {
+      // Don't leave a pending transcription that nothing will ever process
+      await db.dbTableRow.update('noco', baseId, transcriptionsTableId, transcriptionId, {
+        Status: 'failed',
+        FailureReason: serializeFailureReason(classifyFailure(error)),
+      });
+      throw error;
+    }
 
     return NextResponse.json<APIResponse<typeof transcription>>(
       {
@@ -210,121 +341,3 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Background transcription processing
- * TODO: Move to a proper job queue in production (Bull, BullMQ, etc.)
- */
-async function processTranscription(
-  transcriptionId: number,
-  sourceFileUrl: string,
-  provider: string,
-  model: string,
-  language?: string
-) {
-  const db = getNocoDBClient();
-  const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
-  const { tableId: segmentsTableId } = await NocoDBClient.getIds('TranscriptionSegments');
-
-  try {
-    // Update status to processing
-    await db.dbTableRow.update(
-      'noco',
-      baseId,
-      transcriptionsTableId,
-      transcriptionId,
-      {
-        Status: 'processing',
-      }
-    );
-
-    // Initialize ASR service
-    const asr = createASRService();
-
-    // Perform transcription
-    const result = await asr.transcribeFromUrl(sourceFileUrl, {
-      provider: provider as any,
-      model,
-      language,
-    });
-
-    console.log(`ASR result for transcription ${transcriptionId}:`, {
-      textLength: result.text?.length,
-      segmentsCount: result.segments?.length || 0,
-      language: result.language,
-      duration: result.duration,
-      firstSegment: result.segments?.[0],
-    });
-
-    // Update transcription with results
-    await db.dbTableRow.update(
-      'noco',
-      baseId,
-      transcriptionsTableId,
-      transcriptionId,
-      {
-        Status: 'completed',
-        TranscriptText: result.text,
-        Language: result.language || language || 'unknown',
-        Duration: result.duration || 0,
-        Confidence: result.segments
-          ? result.segments.reduce((sum, seg) => sum + (seg.confidence || 0), 0) / result.segments.length
-          : 0,
-      }
-    );
-
-    // Store segments if available - split long segments for proper subtitles
-    if (result.segments && result.segments.length > 0) {
-      // Convert to RawSegment format and split long segments
-      const rawSegments: RawSegment[] = result.segments.map((seg, index) => ({
-        id: index,
-        startTime: seg.startTime,
-        endTime: seg.endTime,
-        text: seg.text,
-        confidence: seg.confidence,
-      }));
-
-      // Split segments that are too long (max 84 chars = 42 chars x 2 lines)
-      const splitSegments = splitLongSegments(rawSegments, {
-        maxCharsPerLine: 42,
-        maxLines: 2,
-        minSegmentDuration: 1,
-      });
-
-      console.log(`Split ${rawSegments.length} segments into ${splitSegments.length} subtitle segments`);
-
-      for (const segment of splitSegments) {
-        // Balance the text into two lines if needed (inserts \n at midpoint)
-        const balancedText = balanceSegmentText(segment.text, 42);
-
-        await db.dbTableRow.create(
-          'noco',
-          baseId,
-          segmentsTableId,
-          {
-            TranscriptionId: transcriptionId,
-            StartTime: segment.startTime,
-            EndTime: segment.endTime,
-            Text: balancedText,
-            Confidence: segment.confidence || 0,
-            SpeakerId: null,
-          }
-        );
-      }
-    }
-
-    console.log(`Transcription ${transcriptionId} completed successfully`);
-  } catch (error) {
-    console.error(`Transcription ${transcriptionId} failed:`, error);
-
-    // Update status to failed
-    await db.dbTableRow.update(
-      'noco',
-      baseId,
-      transcriptionsTableId,
-      transcriptionId,
-      {
-        Status: 'failed',
-      }
-    );
-  }
-}
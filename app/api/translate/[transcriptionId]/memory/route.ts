@@ -0,0 +1,146 @@
+/**
+ * Translation Memory API
+ * POST /api/translate/:transcriptionId/memory - Approve a translation into the translation memory
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient, sanitizeNocoDBValue, sanitizeNumericId } from '@/lib/db/nocodb';
+import { addToTranslationMemory } from '@/lib/translation-memory';
+import { groupTranslationUnits } from '@/lib/utils/retiming';
+import type {
+  APIResponse,
+  Transcription,
+  TranscriptionSegment,
+  TranslatedSegment,
+} from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{
+    transcriptionId: string;
+  }>;
+}
+
+/**
+ * POST /api/translate/:transcriptionId/memory
+ * Store the current text of every translated segment with its source segment,
+ * so later translations of the same language pair can reuse it
+ * Query params:
+ *   - language: Target language of the translation to approve (required)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { transcriptionId } = await params;
+    const targetLanguage = request.nextUrl.searchParams.get('language');
+
+    if (!targetLanguage) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Language parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+    const { tableId: translatedSegmentsTableId } = await NocoDBClient.getIds('TranslatedSegments');
+    const { tableId: segmentsTableId } = await NocoDBClient.getIds('TranscriptionSegments');
+
+    // Verify transcription ownership
+    const transcription = (await db.dbTableRow.read(
+      'noco',
+      baseId,
+      transcriptionsTableId,
+      transcriptionId
+    )) as Transcription | null;
+
+    if (!transcription) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+
+    if (String(transcription.UserId) !== session.user.id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const safeTranscriptionId = sanitizeNumericId(transcriptionId);
+    const safeTargetLanguage = sanitizeNocoDBValue(targetLanguage);
+
+    const [translationsResult, segmentsResult] = await Promise.all([
+      db.dbTableRow.list('noco', baseId, translatedSegmentsTableId, {
+        where: `(TranscriptionId,eq,${safeTranscriptionId})~and(TargetLanguage,eq,${safeTargetLanguage})`,
+        sort: 'SegmentIndex',
+        limit: 10000,
+      }),
+      db.dbTableRow.list('noco', baseId, segmentsTableId, {
+        where: `(TranscriptionId,eq,${safeTranscriptionId})`,
+        limit: 10000,
+      }),
+    ]);
+
+    const translations = (translationsResult.list || []) as TranslatedSegment[];
+    if (translations.length === 0) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `No translation found for language: ${targetLanguage}` },
+        { status: 404 }
+      );
+    }
+
+    // Pair the current text of source segments with the cues translating them,
+    // which re-timing may have merged or split
+    const sourceTexts = new Map(
+      ((segmentsResult.list || []) as TranscriptionSegment[]).map((segment) => [segment.Id, segment.Text])
+    );
+    const units = groupTranslationUnits(translations)
+      .filter((unit) => unit.sourceIds.every((id) => sourceTexts.has(id)))
+      .map((unit) => ({
+        source: unit.sourceIds.map((id) => sourceTexts.get(id)).join(' '),
+        target: unit.segments.length === 1
+          ? unit.segments[0].TranslatedText
+          : unit.segments.map((translation) => translation.TranslatedText.replace(/\s+/g, ' ')).join(' '),
+      }));
+
+    const { added, updated } = await addToTranslationMemory(
+      db,
+      session.user.id,
+      transcription.Language || 'auto',
+      targetLanguage,
+      units,
+      transcription.Id
+    );
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { added, updated },
+        message: `Added ${added} and updated ${updated} translation memory entries`,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Approve translation error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add translation to memory',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Translation Re-timing API
+ * POST /api/translate/:transcriptionId/retime - Re-segment a translation for its target language
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient, sanitizeNocoDBValue, sanitizeNumericId } from '@/lib/db/nocodb';
+import { retimeTranslation } from '@/lib/retiming';
+import { getSourceSegmentIds } from '@/lib/utils/retiming';
+import { validateSubtitleLayout } from '@/lib/utils/reading-speed';
+import type {
+  APIResponse,
+  Transcription,
+  TranscriptionSegment,
+  TranslatedSegment,
+} from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{
+    transcriptionId: string;
+  }>;
+}
+
+/**
+ * POST /api/translate/:transcriptionId/retime
+ * Merge translated cues that read too fast and split ones too long for the screen,
+ * keeping each cue inside the time span of its source segments
+ * Query params:
+ *   - language: Target language of the translation to re-time (required)
+ * Body: { charsPerSecond?, maxCharsPerLine?, maxLines? }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { transcriptionId } = await params;
+    const targetLanguage = request.nextUrl.searchParams.get('language');
+
+    if (!targetLanguage) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Language parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { layout, error: layoutError } = validateSubtitleLayout({
+      charsPerSecond: body.charsPerSecond,
+      maxCharsPerLine: body.maxCharsPerLine,
+      maxLines: body.maxLines,
+    });
+
+    if (layoutError) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: layoutError },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+    const { tableId: translatedSegmentsTableId } = await NocoDBClient.getIds('TranslatedSegments');
+    const { tableId: segmentsTableId } = await NocoDBClient.getIds('TranscriptionSegments');
+
+    // Verify transcription ownership
+    const transcription = (await db.dbTableRow.read(
+      'noco',
+      baseId,
+      transcriptionsTableId,
+      transcriptionId
+    )) as Transcription | null;
+
+    if (!transcription) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+
+    if (String(transcription.UserId) !== session.user.id) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const safeTranscriptionId = sanitizeNumericId(transcriptionId);
+
+    const [translationsResult, segmentsResult] = await Promise.all([
+      db.dbTableRow.list('noco', baseId, translatedSegmentsTableId, {
+        where: `(TranscriptionId,eq,${safeTranscriptionId})~and(TargetLanguage,eq,${sanitizeNocoDBValue(targetLanguage)})`,
+        limit: 10000,
+      }),
+      db.dbTableRow.list('noco', baseId, segmentsTableId, {
+        where: `(TranscriptionId,eq,${safeTranscriptionId})`,
+        sort: 'StartTime',
+        limit: 10000,
+      }),
+    ]);
+
+    const translations = (translationsResult.list || []) as TranslatedSegment[];
+    if (translations.length === 0) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `No translation found for language: ${targetLanguage}` },
+        { status: 404 }
+      );
+    }
+
+    // Re-timing needs every source segment translated - resume an interrupted translation first
+    const segments = (segmentsResult.list || []) as TranscriptionSegment[];
+    const covered = new Set(translations.flatMap(getSourceSegmentIds));
+    if (segments.some((segment) => !covered.has(segment.Id))) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Translation is incomplete. Resume it before re-timing' },
+        { status: 409 }
+      );
+    }
+
+    const result = await retimeTranslation(db, transcription.Id, targetLanguage, segments, layout);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: result,
+        message: `Merged ${result.merged} and split ${result.split} cues - ${result.segments} cues now`,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Retime translation error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to re-time translation',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Re-translation API
+ * POST /api/translate/:transcriptionId/retranslate - Alternative translations for selected segments
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient, sanitizeNocoDBValue, sanitizeNumericId } from '@/lib/db/nocodb';
+import { createTranslationService, getTranslationProviderDefinition } from '@/lib/translation';
+import { loadTermbaseEntries } from '@/lib/termbase';
+import { recordUsage } from '@/lib/usage';
+import { getSourceSegmentIds, groupTranslationUnits } from '@/lib/utils/retiming';
+import { checkRateLimit, getClientIP } from '@/lib/auth/rate-limit';
+import type {
+  APIResponse,
+  Transcription,
+  TranscriptionSegment,
+  TranslatedSegment,
+} from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+const MAX_SEGMENTS = 25;
+const MAX_INSTRUCTION_LENGTH = 500;
+const CONTEXT_SEGMENTS = 3;  // Neighbouring subtitles on each side given to the model
+
+interface RouteParams {
+  params: Promise<{
+    transcriptionId: string;
+  }>;
+}
+
+/**
+ * POST /api/translate/:transcriptionId/retranslate
+ * Re-translate one segment or a range with the surrounding subtitles as context.
+ * Returns the alternatives next to the current text - nothing is saved, accepted
+ * alternatives are written with PATCH /api/translated-segments/:id
+ * Body: { language, segmentIds, instruction?, provider?, model? }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    const clientIP = getClientIP(request);
+    const rateLimitResult = checkRateLimit(`retranslate:${userId}:${clientIP}`, {
+      maxRequests: 30,
+      windowSeconds: 60,
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(rateLimitResult.resetIn) } }
+      );
+    }
+
+    const { transcriptionId } = await params;
+    const body = await request.json();
+    const { language, segmentIds, provider, model } = body;
+    const instruction = typeof body.instruction === 'string' ? body.instruction.trim() : '';
+
+    if (!language || typeof language !== 'string') {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Missing required field: language' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(segmentIds) ||
+      segmentIds.length === 0 ||
+      segmentIds.length > MAX_SEGMENTS ||
+      !segmentIds.every(Number.isInteger)
+    ) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `segmentIds must be an array of 1 to ${MAX_SEGMENTS} translated segment IDs` },
+        { status: 400 }
+      );
+    }
+
+    if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Instruction is too long. Maximum ${MAX_INSTRUCTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (provider !== undefined && !getTranslationProviderDefinition(provider)) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Unknown translation provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+    const { tableId: translatedSegmentsTableId } = await NocoDBClient.getIds('TranslatedSegments');
+    const { tableId: segmentsTableId } = await NocoDBClient.getIds('TranscriptionSegments');
+
+    // Verify transcription ownership
+    const transcription = (await db.dbTableRow.read(
+      'noco',
+      baseId,
+      transcriptionsTableId,
+      transcriptionId
+    )) as Transcription | null;
+
+    if (!transcription) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+
+    if (String(transcription.UserId) !== userId) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const safeTranscriptionId = sanitizeNumericId(transcriptionId);
+    const safeLanguage = sanitizeNocoDBValue(language);
+
+    const [translationsResult, segmentsResult] = await Promise.all([
+      db.dbTableRow.list('noco', baseId, translatedSegmentsTableId, {
+        where: `(TranscriptionId,eq,${safeTranscriptionId})~and(TargetLanguage,eq,${safeLanguage})`,
+        sort: 'SegmentIndex',
+        limit: 10000,
+      }),
+      db.dbTableRow.list('noco', baseId, segmentsTableId, {
+        where: `(TranscriptionId,eq,${safeTranscriptionId})`,
+        limit: 10000,
+      }),
+    ]);
+
+    const translations = (translationsResult.list || []) as TranslatedSegment[];
+    const sourceTexts = new Map(
+      ((segmentsResult.list || []) as TranscriptionSegment[]).map((segment) => [segment.Id, segment.Text])
+    );
+
+    const requested = new Set<number>(segmentIds);
+    const selected = translations.filter((translation) => requested.has(translation.Id));
+
+    if (selected.length !== requested.size) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Some segments were not found in the ${language} translation` },
+        { status: 404 }
+      );
+    }
+
+    // A cue split by re-timing holds only part of its source text
+    const splitCues = new Set(
+      groupTranslationUnits(translations)
+        .filter((unit) => unit.segments.length > 1)
+        .flatMap((unit) => unit.segments.map((translation) => translation.Id))
+    );
+    if (selected.some((translation) => splitCues.has(translation.Id))) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Subtitles split by re-timing cannot be re-translated. Edit them directly' },
+        { status: 400 }
+      );
+    }
+
+    // Merged cues translate several source segments
+    const getSourceText = (translation: TranslatedSegment) =>
+      getSourceSegmentIds(translation).map((id) => sourceTexts.get(id) || '').join(' ').trim();
+
+    const first = selected[0].SegmentIndex;
+    const last = selected[selected.length - 1].SegmentIndex;
+    const toNeighbour = (translation: TranslatedSegment) => ({
+      source: getSourceText(translation),
+      translation: translation.TranslatedText,
+    });
+
+    const translationService = createTranslationService();
+    const termbase = await loadTermbaseEntries(db, userId, transcription.Language || 'auto', language);
+
+    const result = await translationService.retranslateSegments(
+      selected.map((translation) => ({
+        index: translation.SegmentIndex,
+        text: getSourceText(translation) || translation.TranslatedText,
+        current: translation.TranslatedText,
+        duration: translation.EndTime - translation.StartTime,
+      })),
+      {
+        provider,
+        model,
+        sourceLanguage: transcription.Language || 'auto',
+        targetLanguage: language,
+        context: { title: transcription.Title },
+        instruction: instruction || undefined,
+        termbase,
+        before: translations
+          .filter((translation) => translation.SegmentIndex < first)
+          .slice(-CONTEXT_SEGMENTS)
+          .map(toNeighbour),
+        after: translations
+          .filter((translation) => translation.SegmentIndex > last)
+          .slice(0, CONTEXT_SEGMENTS)
+          .map(toNeighbour),
+      }
+    );
+
+    if (result.tokensUsed) {
+      await recordUsage({
+        userId,
+        kind: 'translation',
+        provider: result.provider,
+        model: result.model,
+        transcriptionId: transcription.Id,
+        promptTokens: result.tokensUsed.prompt,
+        completionTokens: result.tokensUsed.completion,
+      });
+    }
+
+    const alternatives = new Map(result.segments.map((segment) => [segment.index, segment.text]));
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: {
+          alternatives: selected
+            .filter((translation) => alternatives.has(translation.SegmentIndex))
+            .map((translation) => ({
+              segmentId: translation.Id,
+              segmentIndex: translation.SegmentIndex,
+              sourceText: getSourceText(translation),
+              currentText: translation.TranslatedText,
+              newText: alternatives.get(translation.SegmentIndex) as string,
+            })),
+          untranslated: selected
+            .filter((translation) => !alternatives.has(translation.SegmentIndex))
+            .map((translation) => translation.Id),
+          provider: result.provider,
+          model: result.model,
+          tokensUsed: result.totalTokensUsed,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Retranslate error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Re-translation failed',
+      },
+      { status: 500 }
+    );
+  }
+}
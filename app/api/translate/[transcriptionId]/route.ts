@@ -7,6 +7,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import NocoDBClient, { getNocoDBClient, sanitizeNocoDBValue, sanitizeNumericId } from '@/lib/db/nocodb';
+import { parseTermbaseEntries } from '@/lib/utils/termbase';
+import { getSourceSegmentIds, parseSourceSegmentIds } from '@/lib/utils/retiming';
 import type {
   APIResponse,
   Transcription,
@@ -97,11 +99,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       }
     );
 
-    const translations = (translationsResult.list || []) as TranslatedSegment[];
+    // MissingTerms and SourceSegmentIds are stored as JSON text
+    const translations = ((translationsResult.list || []) as TranslatedSegment[]).map((segment) => ({
+      ...segment,
+      SourceSegmentIds: parseSourceSegmentIds(segment.SourceSegmentIds),
+      MissingTerms: parseTermbaseEntries(segment.MissingTerms),
+    }));
 
     // Group by language if no specific language requested
     if (!targetLanguage) {
-      const byLanguage: Record<string, TranslatedSegment[]> = {};
+      const byLanguage: Record<string, typeof translations> = {};
       for (const segment of translations) {
         if (!byLanguage[segment.TargetLanguage]) {
           byLanguage[segment.TargetLanguage] = [];
@@ -109,11 +116,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         byLanguage[segment.TargetLanguage].push(segment);
       }
 
-      // Get available languages with segment counts
+      // Get available languages with segment counts - re-timed translations
+      // can have more or fewer cues than source segments
       const availableLanguages = Object.entries(byLanguage).map(
         ([language, segments]) => ({
           language,
           segmentCount: segments.length,
+          sourceSegmentCount: new Set(segments.flatMap(getSourceSegmentIds)).size,
         })
       );
 
@@ -6,14 +6,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import NocoDBClient, { getNocoDBClient, sanitizeNocoDBValue, sanitizeNumericId } from '@/lib/db/nocodb';
-import { createTranslationService } from '@/lib/translation';
+import { createTranslationService, getTranslationProviderDefinition } from '@/lib/translation';
+import { loadTermbaseSelection } from '@/lib/termbase';
+import { loadTranslationMemory } from '@/lib/translation-memory';
+import { recordUsage } from '@/lib/usage';
 import { checkRateLimit, getClientIP } from '@/lib/auth/rate-limit';
+import { validateSubtitleLayout } from '@/lib/utils/reading-speed';
+import { retimeTranslation } from '@/lib/retiming';
 import type {
   APIResponse,
   Transcription,
   TranscriptionSegment,
   TranslatedSegment,
   TranslationRequest,
+  TranslationRunSettings,
 } from '@/lib/types';
 
 export const runtime = 'nodejs';
@@ -22,7 +28,10 @@ export const maxDuration = 300; // 5 minutes for long translations
 /**
  * POST /api/translate
  * Start translation job for a transcription
- * Body: { transcriptionId, targetLanguage, provider?, model? }
+ * Body: { transcriptionId, targetLanguage, provider?, model?, termbaseIds?, useMemory?,
+ *         retime?, charsPerSecond?, maxCharsPerLine?, maxLines? }
+ * With retime, the saved translation is re-segmented for the target language
+ * Without termbaseIds, the user's active termbases for the language pair are enforced
  */
 export async function POST(request: NextRequest) {
   try {
@@ -55,8 +64,14 @@ export async function POST(request: NextRequest) {
     const {
       transcriptionId,
       targetLanguage,
-      provider = 'openai',
+      provider: requestedProvider,
       model,
+      termbaseIds,
+      useMemory = true,
+      retime = false,
+      charsPerSecond,
+      maxCharsPerLine,
+      maxLines,
     } = body;
 
     // Validate required fields
@@ -70,6 +85,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (requestedProvider !== undefined && !getTranslationProviderDefinition(requestedProvider)) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Unknown translation provider: ${requestedProvider}` },
+        { status: 400 }
+      );
+    }
+
+    if (termbaseIds !== undefined && (!Array.isArray(termbaseIds) || !termbaseIds.every(Number.isInteger))) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'termbaseIds must be an array of termbase IDs' },
+        { status: 400 }
+      );
+    }
+
+    const { layout, error: layoutError } = validateSubtitleLayout({ charsPerSecond, maxCharsPerLine, maxLines });
+    if (layoutError) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: layoutError },
+        { status: 400 }
+      );
+    }
+
     const db = getNocoDBClient();
     const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
     const { tableId: translatedSegmentsTableId } = await NocoDBClient.getIds('TranslatedSegments');
@@ -155,17 +192,57 @@ export async function POST(request: NextRequest) {
       `Starting translation: ${segments.length} segments from ${transcription.Language} to ${targetLanguage}`
     );
 
-    // Create translation service and translate
+    // Create translation service and translate - without a provider, the configured default
     const translationService = createTranslationService();
+    const provider = requestedProvider ?? translationService.getDefaultProvider();
+    const { termbaseIds: usedTermbaseIds, entries: termbase } = await loadTermbaseSelection(
+      db,
+      userId,
+      transcription.Language || 'auto',
+      targetLanguage,
+      termbaseIds
+    );
+    const memory = useMemory
+      ? await loadTranslationMemory(
+          db,
+          userId,
+          transcription.Language || 'auto',
+          targetLanguage,
+          segments.map((segment) => segment.Text)
+        )
+      : [];
+
+    // Stored on the segments so a partly saved translation resumes with the same settings
+    const runSettings: TranslationRunSettings = {
+      provider,
+      model: model || translationService.getDefaultModel(provider),
+      termbaseIds: usedTermbaseIds,
+      useMemory,
+      retime,
+      ...layout,
+    };
 
     const result = await translationService.translateSegments(segments, {
-      provider: provider as 'openai' | 'berget',
-      model,
+      provider,
+      model: runSettings.model,
       sourceLanguage: transcription.Language || 'auto',
       targetLanguage,
       context: {
         title: transcription.Title,
       },
+      termbase,
+      memory,
+      layout,
+      // Recorded per batch, so a run that fails partway still accounts for what it used
+      onUsage: ({ model: usedModel, tokens }) => recordUsage({
+        userId,
+        kind: 'translation',
+        provider,
+        model: usedModel,
+        transcriptionId: transcription.Id,
+        promptTokens: tokens.prompt,
+        completionTokens: tokens.completion,
+      }),
       onProgress: (progress) => {
         console.log(
           `Translation progress: ${progress.progress}% (batch ${progress.currentBatch}/${progress.totalBatches})`
@@ -176,13 +253,20 @@ export async function POST(request: NextRequest) {
     console.log(
       `Translation completed: ${result.segments.length} segments translated using ${result.model}`
     );
+    if (memory.length > 0) {
+      console.log(
+        `Translation memory: ${result.memory.exact} reused, ${result.memory.fuzzy} fuzzy (${result.memory.matchRate}% match rate)`
+      );
+    }
 
     // Create translated segment records
     const translatedRecords = translationService.createTranslatedSegmentRecords(
       transcriptionId,
       segments,
       result.segments,
-      targetLanguage
+      targetLanguage,
+      result.missingTerms,
+      runSettings
     );
 
     // Save translated segments to database
@@ -194,6 +278,18 @@ export async function POST(request: NextRequest) {
 
     console.log('Translation saved successfully');
 
+    // The translation is saved - a re-timing failure is reported on its own
+    let retiming = null;
+    let retimingError: string | null = null;
+    if (retime) {
+      try {
+        retiming = await retimeTranslation(db, transcription.Id, targetLanguage, segments, layout);
+      } catch (error) {
+        console.error('Re-timing after translation failed:', error);
+        retimingError = error instanceof Error ? error.message : 'Re-timing failed';
+      }
+    }
+
     return NextResponse.json<APIResponse>(
       {
         success: true,
@@ -204,6 +300,12 @@ export async function POST(request: NextRequest) {
           provider: result.provider,
           model: result.model,
           tokensUsed: result.totalTokensUsed,
+          missingTermsCount: result.missingTerms.length,
+          untranslatedCount: result.untranslated.length,
+          overBudgetCount: result.overBudget.length,
+          memory: result.memory,
+          retiming,
+          retimingError,
         },
         message: `Successfully translated ${result.segments.length} segments to ${targetLanguage}`,
       },
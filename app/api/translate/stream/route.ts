@@ -1,16 +1,26 @@
 /**
  * Translation Stream API
- * POST /api/translate/stream - Start translation with SSE progress updates
+ * POST /api/translate/stream - Start or resume translation with SSE progress updates
  */
 
 import { NextRequest } from 'next/server';
 import { auth } from '@/auth';
 import NocoDBClient, { getNocoDBClient, sanitizeNocoDBValue, sanitizeNumericId } from '@/lib/db/nocodb';
-import { createTranslationService } from '@/lib/translation';
+import { createTranslationService, getTranslationProviderDefinition } from '@/lib/translation';
+import { loadTermbaseSelection } from '@/lib/termbase';
+import { loadTranslationMemory } from '@/lib/translation-memory';
+import { recordUsage } from '@/lib/usage';
 import { checkRateLimit, getClientIP } from '@/lib/auth/rate-limit';
+import { validateSubtitleLayout } from '@/lib/utils/reading-speed';
+import { retimeTranslation } from '@/lib/retiming';
+import { getSourceSegmentIds } from '@/lib/utils/retiming';
+import { findRunSettings, getRunLayout } from '@/lib/utils/translation-run';
+import type { MissingTermsIssue } from '@/lib/utils/termbase';
 import type {
   Transcription,
   TranscriptionSegment,
+  TranslatedSegment,
+  TranslationRunSettings,
 } from '@/lib/types';
 
 export const runtime = 'nodejs';
@@ -19,6 +29,10 @@ export const maxDuration = 300;
 /**
  * POST /api/translate/stream
  * Start translation job with Server-Sent Events for progress updates
+ * Each batch is saved as it completes, with the settings the run started with;
+ * with resume: true an interrupted translation continues from its first missing
+ * segment using those settings. With retime: true the finished translation is
+ * re-segmented for the target language
  */
 export async function POST(request: NextRequest) {
   // Authenticate
@@ -50,8 +64,15 @@ export async function POST(request: NextRequest) {
   const {
     transcriptionId,
     targetLanguage,
-    provider = 'openai',
+    provider: requestedProvider,
     model,
+    termbaseIds,
+    useMemory = true,
+    resume = false,
+    retime = false,
+    charsPerSecond,
+    maxCharsPerLine,
+    maxLines,
   } = body;
 
   // Validate required fields
@@ -65,6 +86,32 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  if (requestedProvider !== undefined && !getTranslationProviderDefinition(requestedProvider)) {
+    return new Response(
+      JSON.stringify({ success: false, error: `Unknown translation provider: ${requestedProvider}` }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (termbaseIds !== undefined && (!Array.isArray(termbaseIds) || !termbaseIds.every(Number.isInteger))) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'termbaseIds must be an array of termbase IDs' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { layout: requestedLayout, error: layoutError } = validateSubtitleLayout({
+    charsPerSecond,
+    maxCharsPerLine,
+    maxLines,
+  });
+  if (layoutError) {
+    return new Response(
+      JSON.stringify({ success: false, error: layoutError }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
   const db = getNocoDBClient();
   const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
   const { tableId: translatedSegmentsTableId } = await NocoDBClient.getIds('TranslatedSegments');
@@ -106,22 +153,23 @@ export async function POST(request: NextRequest) {
   const safeTranscriptionId = sanitizeNumericId(transcriptionId);
   const safeTargetLanguage = sanitizeNocoDBValue(targetLanguage);
 
-  // Check if translation already exists
+  // Check if translation already exists - a resume continues it from the saved batches
   const existingTranslations = await db.dbTableRow.list(
     'noco',
     baseId,
     translatedSegmentsTableId,
     {
       where: `(TranscriptionId,eq,${safeTranscriptionId})~and(TargetLanguage,eq,${safeTargetLanguage})`,
-      limit: 1,
+      limit: resume ? 10000 : 1,
     }
   );
+  const existingSegments = (existingTranslations.list || []) as TranslatedSegment[];
 
-  if (existingTranslations.list && existingTranslations.list.length > 0) {
+  if (existingSegments.length > 0 && !resume) {
     return new Response(
       JSON.stringify({
         success: false,
-        error: `Translation to ${targetLanguage} already exists. Delete it first to re-translate.`,
+        error: `Translation to ${targetLanguage} already exists. Delete it first to re-translate, or resume it.`,
       }),
       { status: 409, headers: { 'Content-Type': 'application/json' } }
     );
@@ -148,6 +196,39 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  // A resume continues with the settings the translation started with - mixing
+  // models, termbases or layouts within one translation is never intended
+  const saved = findRunSettings(existingSegments);
+  if (saved && requestedProvider !== undefined && requestedProvider !== saved.provider) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: `This translation was started with ${saved.provider}. Resume it with the same provider, or delete it to start over.`,
+      }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const translationService = createTranslationService();
+  const provider = saved?.provider ?? requestedProvider ?? translationService.getDefaultProvider();
+  const layout = saved ? getRunLayout(saved) : requestedLayout;
+  const retimeRun = saved ? saved.retime : retime;
+  const useMemoryRun = saved ? saved.useMemory : useMemory;
+
+  // Source segments with a saved translation - a re-timed cue can cover several
+  const covered = new Set(existingSegments.flatMap(getSourceSegmentIds));
+  const completedIndices = new Set(
+    segments.flatMap((segment, index) => (covered.has(segment.Id) ? [index] : []))
+  );
+
+  const remainingCount = segments.filter((_, index) => !completedIndices.has(index)).length;
+  if (remainingCount === 0) {
+    return new Response(
+      JSON.stringify({ success: false, error: `Translation to ${targetLanguage} is already complete` }),
+      { status: 409, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
   // Create SSE stream
   const encoder = new TextEncoder();
   const stream = new ReadableStream({
@@ -157,25 +238,89 @@ export async function POST(request: NextRequest) {
         controller.enqueue(encoder.encode(message));
       };
 
+      let runSettings: TranslationRunSettings | undefined = saved ?? undefined;
+
+      // Save translated segments for the given indices (fallback text where the model returned none)
+      const saveSegments = async (
+        indices: Set<number>,
+        translated: { index: number; text: string }[],
+        missingTerms: MissingTermsIssue[] = []
+      ) => {
+        const records = translationService
+          .createTranslatedSegmentRecords(transcriptionId, segments, translated, targetLanguage, missingTerms, runSettings)
+          .filter((record) => indices.has(record.SegmentIndex) && !completedIndices.has(record.SegmentIndex));
+
+        for (const record of records) {
+          await db.dbTableRow.create('noco', baseId, translatedSegmentsTableId, record);
+          completedIndices.add(record.SegmentIndex);
+        }
+      };
+
       try {
         sendEvent('progress', {
           status: 'processing',
           progress: 0,
-          message: 'Starting translation...',
+          message: completedIndices.size > 0
+            ? `Resuming translation at segment ${segments.findIndex((_, index) => !completedIndices.has(index)) + 1}...`
+            : 'Starting translation...',
           currentBatch: 0,
-          totalBatches: Math.ceil(segments.length / 25),
+          totalBatches: Math.ceil(remainingCount / 25),
         });
 
-        const translationService = createTranslationService();
+        const { termbaseIds: usedTermbaseIds, entries: termbase } = await loadTermbaseSelection(
+          db,
+          userId,
+          transcription.Language || 'auto',
+          targetLanguage,
+          saved ? saved.termbaseIds : termbaseIds
+        );
+        const memory = useMemoryRun
+          ? await loadTranslationMemory(
+              db,
+              userId,
+              transcription.Language || 'auto',
+              targetLanguage,
+              segments.map((segment) => segment.Text)
+            )
+          : [];
+
+        // Saved with the first batch, so an interrupted run can be resumed the same way
+        runSettings ??= {
+          provider,
+          model: model || translationService.getDefaultModel(provider),
+          termbaseIds: usedTermbaseIds,
+          useMemory: useMemoryRun,
+          retime: retimeRun,
+          ...layout,
+        };
 
         const result = await translationService.translateSegments(segments, {
-          provider: provider as 'openai' | 'berget',
-          model,
+          provider,
+          model: runSettings.model,
           sourceLanguage: transcription.Language || 'auto',
           targetLanguage,
           context: {
             title: transcription.Title,
           },
+          termbase,
+          memory,
+          layout,
+          completedIndices: [...completedIndices],
+          onBatchComplete: (batch) => saveSegments(
+            new Set(batch.segments.map((segment) => segment.index)),
+            batch.segments,
+            batch.missingTerms
+          ),
+          // Recorded per batch, so a run that fails partway still accounts for what it used
+          onUsage: ({ model: usedModel, tokens }) => recordUsage({
+            userId,
+            kind: 'translation',
+            provider,
+            model: usedModel,
+            transcriptionId: transcription.Id,
+            promptTokens: tokens.prompt,
+            completionTokens: tokens.completion,
+          }),
           onProgress: (progress) => {
             sendEvent('progress', {
               status: 'processing',
@@ -187,22 +332,29 @@ export async function POST(request: NextRequest) {
           },
         });
 
-        sendEvent('progress', {
-          status: 'processing',
-          progress: 90,
-          message: 'Saving translations to database...',
-        });
-
-        // Create and save translated segment records
-        const translatedRecords = translationService.createTranslatedSegmentRecords(
-          transcriptionId,
-          segments,
-          result.segments,
-          targetLanguage
+        // Segments the model never translated keep their original text, flagged as untranslated
+        const unsaved = new Set(
+          segments.map((_, index) => index).filter((index) => !completedIndices.has(index))
         );
+        if (unsaved.size > 0) {
+          await saveSegments(unsaved, []);
+        }
 
-        for (const record of translatedRecords) {
-          await db.dbTableRow.create('noco', baseId, translatedSegmentsTableId, record);
+        // The translation is complete and saved - a re-timing failure is reported on its own
+        let retiming = null;
+        let retimingError: string | null = null;
+        if (retimeRun) {
+          sendEvent('progress', {
+            status: 'processing',
+            progress: 100,
+            message: 'Re-timing subtitles...',
+          });
+          try {
+            retiming = await retimeTranslation(db, transcription.Id, targetLanguage, segments, layout);
+          } catch (error) {
+            console.error('Re-timing after translation failed:', error);
+            retimingError = error instanceof Error ? error.message : 'Re-timing failed';
+          }
         }
 
         sendEvent('complete', {
@@ -211,13 +363,23 @@ export async function POST(request: NextRequest) {
           provider: result.provider,
           model: result.model,
           tokensUsed: result.totalTokensUsed,
+          missingTermsCount: result.missingTerms.length,
+          untranslatedCount: unsaved.size,
+          overBudgetCount: result.overBudget.length,
+          memory: result.memory,
+          retiming,
+          retimingError,
         });
 
       } catch (error) {
         console.error('Translation stream error:', error);
+        // Completed batches are saved - the client can resume from the first missing segment
         sendEvent('error', {
           success: false,
           error: error instanceof Error ? error.message : 'Translation failed',
+          resumable: completedIndices.size > 0,
+          savedSegments: completedIndices.size,
+          totalSegments: segments.length,
         });
       } finally {
         controller.close();
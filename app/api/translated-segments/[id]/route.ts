@@ -88,6 +88,11 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       }
     }
 
+    // An edited fallback is no longer the untranslated original
+    if (updateData.TranslatedText !== undefined && existingSegment.Untranslated) {
+      updateData.Untranslated = false;
+    }
+
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json<APIResponse>(
         {
@@ -5,22 +5,20 @@
  * Flow:
  * 1. Upload original file to S3 (upload dir)
  * 2. Create file record with 'processing' status
- * 3. Start background FFmpeg processing
- * 4. Convert to 480p preview (video) and extract audio (MP3)
- * 5. Upload converted files to S3
- * 6. Update file record with URLs and 'ready' status
+ * 3. Queue a media job (lib/jobs/media.ts) that:
+ * 4. Converts to 480p preview (video) and extracts audio (MP3)
+ * 5. Uploads converted files to S3
+ * 6. Updates file record with URLs and 'ready' status
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { randomUUID } from 'crypto';
 import { createS3Storage, S3Storage } from '@/lib/storage/s3';
-import NocoDBClient, { getNocoDBClient, NocoDBApi } from '@/lib/db/nocodb';
-import {
-  saveStreamToTempFile,
-  processMediaFile,
-  cleanupTempFile,
-  getMediaInfo,
-} from '@/lib/media/ffmpeg';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import { saveStreamToTempFile, cleanupTempFile, getMediaInfo } from '@/lib/media/ffmpeg';
+import { enqueueJob } from '@/lib/jobs';
+import { getJobWorkerMode } from '@/lib/jobs/worker';
+import type { MediaJobPayload } from '@/lib/jobs/media';
 import { authenticateRequest, errorResponse } from '@/lib/auth/api-middleware';
 import { isAllowedMimeType, FILE_SIZE_LIMITS } from '@/lib/constants/media';
 import type { APIResponse } from '@/lib/types';
@@ -99,21 +97,30 @@ export async function POST(request: NextRequest) {
 
     const fileId = fileRecord.Id;
 
-    // Step 4: Start background processing (non-blocking)
-    processInBackground(
-      fileId,
-      tempOriginalPath,
-      userId,
+    // Step 4: Queue background processing - an in-process worker reuses the temp file
+    // and owns its cleanup from here on; an external one downloads the original from S3
+    const handOver = getJobWorkerMode() === 'in-process';
+    const payload: MediaJobPayload = {
+      sourceUrl: originalUrl,
       uuid,
+      extension,
       isVideo,
-      s3,
-      db,
-      baseId,
-      filesTableId,
-      tempFiles
-    ).catch((error) => {
-      console.error('Background processing error:', error);
-    });
+      ...(handOver && { localPath: tempOriginalPath }),
+    };
+
+    try {
+      await enqueueJob({ type: 'media', fileId, userId: parseInt(userId), payload });
+    } catch (error) {
+      await db.dbTableRow.update('noco', baseId, filesTableId, fileId, {
+        Status: 'error',
+        ProcessingError: 'Failed to queue processing',
+      });
+      throw error;
+    }
+    if (!handOver) {
+      tempFiles.forEach(cleanupTempFile);
+    }
+    tempFiles.length = 0;
 
     // Return immediately with file ID
     return NextResponse.json<APIResponse>({
@@ -140,132 +147,3 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Background processing function
- */
-async function processInBackground(
-  fileId: number,
-  tempOriginalPath: string,
-  userId: string,
-  uuid: string,
-  isVideo: boolean,
-  s3: S3Storage,
-  db: NocoDBApi,
-  baseId: string,
-  filesTableId: string,
-  tempFiles: string[]
-) {
-  try {
-    // Update progress: Starting conversion
-    await updateFileProgress(db, fileId, 20, 'processing', baseId, filesTableId);
-
-    // Step 5: Process media (FFmpeg conversion)
-    const result = await processMediaFile(tempOriginalPath);
-
-    if (result.previewPath) tempFiles.push(result.previewPath);
-    if (result.thumbnailPath) tempFiles.push(result.thumbnailPath);
-    tempFiles.push(result.audioPath);
-
-    // Update progress: Uploading converted files
-    await updateFileProgress(db, fileId, 50, 'processing', baseId, filesTableId);
-
-    // Step 6: Upload converted files to S3 (using streaming for memory efficiency)
-    let previewUrl: string | undefined;
-    let thumbnailUrl: string | undefined;
-    let audioUrl: string;
-
-    // Upload audio (streaming)
-    const audioKey = S3Storage.generateAudioKey(userId, uuid);
-    const audioUpload = await s3.uploadFromPath(audioKey, result.audioPath, {
-      contentType: 'audio/mpeg',
-    });
-    audioUrl = audioUpload.publicUrl;
-
-    await updateFileProgress(db, fileId, 70, 'processing', baseId, filesTableId);
-
-    // Upload video preview (if video, streaming)
-    if (isVideo && result.previewPath) {
-      const previewKey = S3Storage.generateVideoKey(userId, uuid);
-      const previewUpload = await s3.uploadFromPath(previewKey, result.previewPath, {
-        contentType: 'video/mp4',
-      });
-      previewUrl = previewUpload.publicUrl;
-    }
-
-    // Upload thumbnail (if video and thumbnail was generated, streaming)
-    if (isVideo && result.thumbnailPath) {
-      const thumbnailKey = S3Storage.generateThumbnailKey(userId, uuid);
-      const thumbnailUpload = await s3.uploadFromPath(thumbnailKey, result.thumbnailPath, {
-        contentType: 'image/jpeg',
-      });
-      thumbnailUrl = thumbnailUpload.publicUrl;
-      console.log(`Thumbnail uploaded: ${thumbnailUrl}`);
-    }
-
-    await updateFileProgress(db, fileId, 90, 'processing', baseId, filesTableId);
-
-    // Step 7: Update file record with URLs and 'ready' status
-    const storageUrl = previewUrl || audioUrl; // Use preview for video, audio for audio-only
-
-    await db.dbTableRow.update(
-      'noco',
-      baseId,
-      filesTableId,
-      fileId,
-      {
-        PreviewUrl: previewUrl || null,
-        ThumbnailUrl: thumbnailUrl || null,
-        AudioUrl: audioUrl,
-        StorageUrl: storageUrl,
-        Status: 'ready',
-        ProcessingProgress: 100,
-        Duration: Math.round(result.duration),
-      }
-    );
-
-    console.log(`File ${fileId} processing complete`);
-  } catch (error) {
-    console.error(`File ${fileId} processing failed:`, error);
-
-    // Update file record with error status
-    try {
-      await db.dbTableRow.update(
-        'noco',
-        baseId,
-        filesTableId,
-        fileId,
-        {
-          Status: 'error',
-          ProcessingError: error instanceof Error ? error.message : 'Processing failed',
-        }
-      );
-    } catch (updateError) {
-      console.error('Failed to update error status:', updateError);
-    }
-  } finally {
-    // Clean up all temp files
-    for (const tempFile of tempFiles) {
-      cleanupTempFile(tempFile);
-    }
-  }
-}
-
-/**
- * Helper to update file progress
- */
-async function updateFileProgress(db: NocoDBApi, fileId: number, progress: number, status: string, baseId: string, filesTableId: string) {
-  try {
-    await db.dbTableRow.update(
-      'noco',
-      baseId,
-      filesTableId,
-      fileId,
-      {
-        ProcessingProgress: progress,
-        Status: status,
-      }
-    );
-  } catch (error) {
-    console.error('Failed to update progress:', error);
-  }
-}
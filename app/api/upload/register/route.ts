@@ -1,25 +1,18 @@
 /**
  * File Registration API
  * POST /api/upload/register
- * Registers a file that was uploaded directly to S3 and triggers processing
+ * Registers a file that was uploaded directly to S3 and queues processing
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { randomUUID } from 'crypto';
 import { auth } from '@/auth';
-import { createS3Storage, S3Storage } from '@/lib/storage/s3';
 import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
-import {
-  saveToTempFile,
-  processMediaFile,
-  cleanupTempFile,
-  readFileToBuffer,
-  getMediaInfo,
-} from '@/lib/media/ffmpeg';
+import { enqueueJob } from '@/lib/jobs';
+import type { MediaJobPayload } from '@/lib/jobs/media';
 import type { APIResponse } from '@/lib/types';
 
 export const runtime = 'nodejs';
-export const maxDuration = 300; // 5 minutes for processing
 
 interface RegisterRequest {
   filename: string;
@@ -31,8 +24,6 @@ interface RegisterRequest {
 }
 
 export async function POST(request: NextRequest) {
-  const tempFiles: string[] = [];
-
   try {
     // Authenticate
     const session = await auth();
@@ -60,8 +51,7 @@ export async function POST(request: NextRequest) {
     const isVideo = fileType === 'video';
     const extension = filename.split('.').pop()?.toLowerCase() || 'bin';
 
-    // Initialize storage and database
-    const s3 = createS3Storage();
+    // Initialize database
     const db = getNocoDBClient();
     const { baseId, tableId: filesTableId } = await NocoDBClient.getIds('Files');
 
@@ -86,24 +76,26 @@ export async function POST(request: NextRequest) {
     );
 
     const fileId = fileRecord.Id;
-    console.log(`File ${fileId} registered, starting background processing`);
 
-    // Start background processing (non-blocking)
-    processInBackground(
-      fileId,
-      storageUrl,
-      userId,
+    // Queue background processing - the worker downloads the original from S3
+    const payload: MediaJobPayload = {
+      sourceUrl: storageUrl,
       uuid,
-      isVideo,
       extension,
-      s3,
-      db,
-      baseId,
-      filesTableId,
-      tempFiles
-    ).catch((error) => {
-      console.error('Background processing error:', error);
-    });
+      isVideo,
+    };
+
+    try {
+      await enqueueJob({ type: 'media', fileId, userId: parseInt(userId), payload });
+    } catch (error) {
+      await db.dbTableRow.update('noco', baseId, filesTableId, fileId, {
+        Status: 'error',
+        ProcessingError: 'Failed to queue processing',
+      });
+      throw error;
+    }
+
+    console.log(`File ${fileId} registered, processing queued`);
 
     // Return immediately with file ID
     return NextResponse.json<APIResponse>({
@@ -118,11 +110,6 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Register file error:', error);
 
-    // Clean up temp files on error
-    for (const tempFile of tempFiles) {
-      cleanupTempFile(tempFile);
-    }
-
     return NextResponse.json<APIResponse>(
       { success: false, error: error instanceof Error ? error.message : 'Registration failed' },
       { status: 500 }
@@ -130,155 +117,3 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Background processing function
- * Downloads from S3, processes with FFmpeg, and re-uploads
- */
-async function processInBackground(
-  fileId: number,
-  sourceUrl: string,
-  userId: string,
-  uuid: string,
-  isVideo: boolean,
-  extension: string,
-  s3: S3Storage,
-  db: any,
-  baseId: string,
-  filesTableId: string,
-  tempFiles: string[]
-) {
-  try {
-    // Update progress: Downloading original
-    await updateFileProgress(db, fileId, 15, 'processing', baseId, filesTableId);
-
-    // Download original file from S3
-    console.log(`Downloading file from ${sourceUrl}`);
-    const response = await fetch(sourceUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to download file: ${response.status}`);
-    }
-
-    const fileBuffer = Buffer.from(await response.arrayBuffer());
-    const tempOriginalPath = await saveToTempFile(fileBuffer, extension);
-    tempFiles.push(tempOriginalPath);
-
-    // Get media info
-    const mediaInfo = await getMediaInfo(tempOriginalPath);
-    console.log(`Media info: duration=${mediaInfo.duration}s`);
-
-    // Update progress: Starting conversion
-    await updateFileProgress(db, fileId, 25, 'processing', baseId, filesTableId);
-
-    // Process media (FFmpeg conversion)
-    const result = await processMediaFile(tempOriginalPath);
-
-    if (result.previewPath) tempFiles.push(result.previewPath);
-    if (result.thumbnailPath) tempFiles.push(result.thumbnailPath);
-    tempFiles.push(result.audioPath);
-
-    // Update progress: Uploading converted files
-    await updateFileProgress(db, fileId, 60, 'processing', baseId, filesTableId);
-
-    // Upload converted files to S3
-    let previewUrl: string | undefined;
-    let thumbnailUrl: string | undefined;
-    let audioUrl: string;
-
-    // Upload audio
-    const audioBuffer = await readFileToBuffer(result.audioPath);
-    const audioKey = S3Storage.generateAudioKey(userId, uuid);
-    const audioUpload = await s3.upload(audioKey, audioBuffer, {
-      contentType: 'audio/mpeg',
-    });
-    audioUrl = audioUpload.publicUrl;
-
-    await updateFileProgress(db, fileId, 75, 'processing', baseId, filesTableId);
-
-    // Upload video preview (if video)
-    if (isVideo && result.previewPath) {
-      const previewBuffer = await readFileToBuffer(result.previewPath);
-      const previewKey = S3Storage.generateVideoKey(userId, uuid);
-      const previewUpload = await s3.upload(previewKey, previewBuffer, {
-        contentType: 'video/mp4',
-      });
-      previewUrl = previewUpload.publicUrl;
-    }
-
-    // Upload thumbnail (if video and thumbnail was generated)
-    if (isVideo && result.thumbnailPath) {
-      const thumbnailBuffer = await readFileToBuffer(result.thumbnailPath);
-      const thumbnailKey = S3Storage.generateThumbnailKey(userId, uuid);
-      const thumbnailUpload = await s3.upload(thumbnailKey, thumbnailBuffer, {
-        contentType: 'image/jpeg',
-      });
-      thumbnailUrl = thumbnailUpload.publicUrl;
-      console.log(`Thumbnail uploaded: ${thumbnailUrl}`);
-    }
-
-    await updateFileProgress(db, fileId, 90, 'processing', baseId, filesTableId);
-
-    // Update file record with URLs and 'ready' status
-    const storageUrl = previewUrl || audioUrl;
-
-    await db.dbTableRow.update(
-      'noco',
-      baseId,
-      filesTableId,
-      fileId,
-      {
-        PreviewUrl: previewUrl || null,
-        ThumbnailUrl: thumbnailUrl || null,
-        AudioUrl: audioUrl,
-        StorageUrl: storageUrl,
-        Status: 'ready',
-        ProcessingProgress: 100,
-        Duration: Math.round(result.duration),
-      }
-    );
-
-    console.log(`File ${fileId} processing complete`);
-  } catch (error) {
-    console.error(`File ${fileId} processing failed:`, error);
-
-    // Update file record with error status
-    try {
-      await db.dbTableRow.update(
-        'noco',
-        baseId,
-        filesTableId,
-        fileId,
-        {
-          Status: 'error',
-          ProcessingError: error instanceof Error ? error.message : 'Processing failed',
-        }
-      );
-    } catch (updateError) {
-      console.error('Failed to update error status:', updateError);
-    }
-  } finally {
-    // Clean up all temp files
-    for (const tempFile of tempFiles) {
-      cleanupTempFile(tempFile);
-    }
-  }
-}
-
-/**
- * Helper to update file progress
- */
-async function updateFileProgress(db: any, fileId: number, progress: number, status: string, baseId: string, filesTableId: string) {
-  try {
-    await db.dbTableRow.update(
-      'noco',
-      baseId,
-      filesTableId,
-      fileId,
-      {
-        ProcessingProgress: progress,
-        Status: status,
-      }
-    );
-  } catch (error) {
-    console.error('Failed to update progress:', error);
-  }
-}
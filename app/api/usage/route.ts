@@ -0,0 +1,60 @@
+/**
+ * Usage API
+ * GET /api/usage - The current user's ASR and translation usage by month
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getUsageCurrency, getUsageWindowStart, listUsageRecords } from '@/lib/usage';
+import { summarizeUsageByMonth } from '@/lib/utils/usage';
+import type { APIResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_MONTHS = 24;
+
+/**
+ * GET /api/usage
+ * Query params:
+ *   - months?: number (including the current month, default 6, max 24)
+ * Each month has audio seconds, tokens and cost in total and per provider and model
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const monthsParam = parseInt(request.nextUrl.searchParams.get('months') || '', 10);
+    const months = Math.min(Math.max(1, monthsParam || 6), MAX_MONTHS);
+    const since = getUsageWindowStart(months);
+
+    const records = await listUsageRecords(since, session.user.id);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: {
+          currency: getUsageCurrency(),
+          since: since.toISOString(),
+          months: summarizeUsageByMonth(records),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get usage error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get usage',
+      },
+      { status: 500 }
+    );
+  }
+}
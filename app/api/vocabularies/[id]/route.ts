@@ -0,0 +1,195 @@
+/**
+ * Vocabulary API
+ * PATCH /api/vocabularies/:id - Rename, replace terms or toggle a vocabulary list
+ * DELETE /api/vocabularies/:id - Delete a vocabulary list
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient, type NocoDBApi } from '@/lib/db/nocodb';
+import { parseVocabularyTerms, validateVocabularyTerms } from '@/lib/utils/vocabulary';
+import type { APIResponse, Vocabulary } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_NAME_LENGTH = 100;
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Read a vocabulary list and check it belongs to the user
+ * Returns an error response when it doesn't
+ */
+async function getOwnedVocabulary(
+  db: NocoDBApi,
+  id: string,
+  userId: string
+): Promise<{ vocabulary?: Vocabulary; error?: NextResponse }> {
+  const { baseId, tableId: vocabulariesTableId } = await NocoDBClient.getIds('Vocabularies');
+
+  const vocabulary = await db.dbTableRow.read(
+    'noco',
+    baseId,
+    vocabulariesTableId,
+    id
+  ) as Vocabulary | null;
+
+  if (!vocabulary) {
+    return {
+      error: NextResponse.json<APIResponse>(
+        { success: false, error: 'Vocabulary not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (String(vocabulary.UserId) !== userId) {
+    return {
+      error: NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { vocabulary };
+}
+
+/**
+ * PATCH /api/vocabularies/:id
+ * Body (all optional):
+ *   - Name: string
+ *   - Terms: { term: string, misspellings?: string[] }[] (replaces all terms)
+ *   - IsActive: boolean
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const updates: Record<string, unknown> = {};
+
+    if (body.Name !== undefined) {
+      const name = typeof body.Name === 'string' ? body.Name.replace(/\s+/g, ' ').trim() : '';
+      if (!name) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: 'Name cannot be empty' },
+          { status: 400 }
+        );
+      }
+      if (name.length > MAX_NAME_LENGTH) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: `Name too long. Maximum ${MAX_NAME_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      updates.Name = name;
+    }
+
+    if (body.Terms !== undefined) {
+      const { terms, error: termsError } = validateVocabularyTerms(body.Terms);
+      if (termsError) {
+        return NextResponse.json<APIResponse>(
+          { success: false, error: termsError },
+          { status: 400 }
+        );
+      }
+      updates.Terms = JSON.stringify(terms);
+    }
+
+    if (body.IsActive !== undefined) {
+      updates.IsActive = Boolean(body.IsActive);
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { error } = await getOwnedVocabulary(db, id, session.user.id);
+    if (error) return error;
+
+    const { baseId, tableId: vocabulariesTableId } = await NocoDBClient.getIds('Vocabularies');
+    const vocabulary = await db.dbTableRow.update(
+      'noco',
+      baseId,
+      vocabulariesTableId,
+      id,
+      updates
+    ) as Vocabulary;
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { ...vocabulary, Terms: parseVocabularyTerms(vocabulary.Terms) },
+        message: 'Vocabulary updated successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update vocabulary error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update vocabulary',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/vocabularies/:id
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const db = getNocoDBClient();
+    const { error } = await getOwnedVocabulary(db, id, session.user.id);
+    if (error) return error;
+
+    const { baseId, tableId: vocabulariesTableId } = await NocoDBClient.getIds('Vocabularies');
+    await db.dbTableRow.delete('noco', baseId, vocabulariesTableId, id);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        message: 'Vocabulary deleted successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Delete vocabulary error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete vocabulary',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Vocabularies API
+ * GET /api/vocabularies - List the user's vocabulary lists
+ * POST /api/vocabularies - Create a vocabulary list
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import NocoDBClient, { getNocoDBClient, sanitizeNumericId } from '@/lib/db/nocodb';
+import { parseVocabularyTerms, validateVocabularyTerms } from '@/lib/utils/vocabulary';
+import type { APIResponse, Vocabulary } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_VOCABULARIES = 100;
+
+/**
+ * GET /api/vocabularies
+ * Terms are stored as JSON text - returned parsed
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: vocabulariesTableId } = await NocoDBClient.getIds('Vocabularies');
+
+    const result = await db.dbTableRow.list('noco', baseId, vocabulariesTableId, {
+      where: `(UserId,eq,${sanitizeNumericId(session.user.id)})`,
+      sort: 'Name',
+      limit: MAX_VOCABULARIES,
+    });
+
+    const vocabularies = ((result.list || []) as Vocabulary[]).map((vocabulary) => ({
+      ...vocabulary,
+      Terms: parseVocabularyTerms(vocabulary.Terms),
+    }));
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { vocabularies },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('List vocabularies error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list vocabularies',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/vocabularies
+ * Body:
+ *   - Name: string
+ *   - Terms: { term: string, misspellings?: string[] }[]
+ *   - IsActive?: boolean (default true - active lists apply to every transcription)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    const name = typeof body.Name === 'string' ? body.Name.replace(/\s+/g, ' ').trim() : '';
+    if (!name) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: 'Missing required field: Name' },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Name too long. Maximum ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { terms, error: termsError } = validateVocabularyTerms(body.Terms ?? []);
+    if (termsError) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: termsError },
+        { status: 400 }
+      );
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: vocabulariesTableId } = await NocoDBClient.getIds('Vocabularies');
+    const userId = sanitizeNumericId(session.user.id);
+
+    const existing = await db.dbTableRow.list('noco', baseId, vocabulariesTableId, {
+      where: `(UserId,eq,${userId})`,
+      limit: MAX_VOCABULARIES,
+    });
+
+    if ((existing.list || []).length >= MAX_VOCABULARIES) {
+      return NextResponse.json<APIResponse>(
+        { success: false, error: `Too many vocabulary lists. Maximum ${MAX_VOCABULARIES}` },
+        { status: 400 }
+      );
+    }
+
+    const vocabulary = await db.dbTableRow.create('noco', baseId, vocabulariesTableId, {
+      UserId: userId,
+      Name: name,
+      Terms: JSON.stringify(terms),
+      IsActive: body.IsActive !== false,
+    }) as Vocabulary;
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: true,
+        data: { ...vocabulary, Terms: terms },
+        message: 'Vocabulary created successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create vocabulary error:', error);
+
+    return NextResponse.json<APIResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create vocabulary',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,249 @@
+'use client';
+
+/**
+ * Admin ASR Provider Health Page
+ * Error rates, failure categories and circuit state per ASR provider
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { UserMenu } from '@/components/UserMenu';
+import { getFailureLabel } from '@/lib/utils/failures';
+import type { FailureCategory } from '@/lib/types';
+
+interface ProviderHealth {
+  state: 'closed' | 'open' | 'half_open';
+  consecutiveFailures: number;
+  retryAt?: string;
+}
+
+interface ProviderStats {
+  provider: string;
+  attempts: number;
+  failures: number;
+  errorRate: number;
+  averageDurationMs: number;
+  categories: Partial<Record<FailureCategory, number>>;
+  lastFailureAt?: string;
+  health: ProviderHealth;
+}
+
+const PERIODS = [
+  { days: 1, label: '24 hours' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+const PROVIDER_NAMES: Record<string, string> = {
+  berget: 'Berget AI',
+  groq: 'Groq',
+  openai: 'OpenAI-compatible',
+};
+
+const stateStyles: Record<ProviderHealth['state'], { label: string; className: string }> = {
+  closed: { label: 'Healthy', className: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' },
+  half_open: { label: 'Recovering', className: 'bg-amber-500/20 text-amber-400 border-amber-500/30' },
+  open: { label: 'Skipped', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+};
+
+export default function AdminProvidersPage() {
+  const router = useRouter();
+  const [providers, setProviders] = useState<ProviderStats[]>([]);
+  const [days, setDays] = useState(7);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/asr-providers?days=${days}`);
+      const data = await res.json();
+
+      if (res.status === 401) {
+        router.push('/login');
+        return;
+      }
+
+      if (res.status === 403) {
+        setError('Admin access required');
+        return;
+      }
+
+      if (data.success) {
+        setProviders(data.data.providers);
+      } else {
+        setError(data.error || 'Failed to load provider stats');
+      }
+    } catch {
+      setError('Failed to load provider stats');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, router]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="flex items-center gap-3 text-white/50">
+          <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+          Loading provider stats...
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-red-500/10 flex items-center justify-center">
+            <svg className="w-8 h-8 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+          </div>
+          <h2 className="text-xl font-semibold text-white mb-2">Unavailable</h2>
+          <p className="text-white/50 mb-6">{error}</p>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="px-6 py-2.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-white/70 transition-all"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a]">
+      <div className="relative max-w-6xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-10">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="p-2 -ml-2 rounded-lg hover:bg-white/5 text-white/40 hover:text-white/70 transition-all"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <h1 className="text-2xl font-semibold text-white tracking-tight">ASR Providers</h1>
+            </div>
+            <p className="text-white/40 text-sm">
+              Failing providers are skipped for a while and transcriptions fall back to the next one
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <div className="flex bg-white/[0.03] border border-white/[0.08] rounded-xl p-1">
+              {PERIODS.map((period) => (
+                <button
+                  key={period.days}
+                  onClick={() => setDays(period.days)}
+                  className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                    days === period.days ? 'bg-amber-500/20 text-amber-400' : 'text-white/50 hover:text-white/80'
+                  }`}
+                >
+                  {period.label}
+                </button>
+              ))}
+            </div>
+            <UserMenu />
+          </div>
+        </div>
+
+        {/* Providers Table */}
+        <div className="bg-white/[0.02] border border-white/[0.06] rounded-2xl overflow-hidden">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-white/[0.06]">
+                <th className="text-left px-6 py-4 text-xs font-medium text-white/30 uppercase tracking-wider">Provider</th>
+                <th className="text-left px-6 py-4 text-xs font-medium text-white/30 uppercase tracking-wider">Status</th>
+                <th className="text-right px-6 py-4 text-xs font-medium text-white/30 uppercase tracking-wider">Requests</th>
+                <th className="text-right px-6 py-4 text-xs font-medium text-white/30 uppercase tracking-wider">Error Rate</th>
+                <th className="text-left px-6 py-4 text-xs font-medium text-white/30 uppercase tracking-wider">Failures</th>
+                <th className="text-right px-6 py-4 text-xs font-medium text-white/30 uppercase tracking-wider">Avg Time</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/[0.04]">
+              {providers.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-10 text-center text-sm text-white/40">
+                    No ASR providers configured
+                  </td>
+                </tr>
+              )}
+              {providers.map((stats) => {
+                const state = stateStyles[stats.health.state];
+                const categories = Object.entries(stats.categories).sort((a, b) => (b[1] || 0) - (a[1] || 0));
+
+                return (
+                  <tr key={stats.provider} className="hover:bg-white/[0.02] transition-colors">
+                    <td className="px-6 py-4">
+                      <div className="font-medium text-white">{PROVIDER_NAMES[stats.provider] || stats.provider}</div>
+                      {stats.lastFailureAt && (
+                        <div className="text-xs text-white/40 font-mono">
+                          Last failure {formatDateTime(stats.lastFailureAt)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2.5 py-1 text-xs font-medium rounded-lg border ${state.className}`}>
+                        {state.label}
+                      </span>
+                      {stats.health.state === 'open' && stats.health.retryAt && (
+                        <div className="text-xs text-white/40 mt-1">Retried after {formatDateTime(stats.health.retryAt)}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm text-white/70 font-mono">{stats.attempts}</td>
+                    <td className="px-6 py-4 text-right font-mono">
+                      <span className={`text-sm ${stats.errorRate >= 0.2 ? 'text-red-400' : stats.errorRate > 0 ? 'text-amber-400' : 'text-white/50'}`}>
+                        {stats.attempts > 0 ? `${(stats.errorRate * 100).toFixed(1)}%` : '—'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4">
+                      {categories.length === 0 ? (
+                        <span className="text-sm text-white/30">None</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-1.5">
+                          {categories.map(([category, count]) => (
+                            <span
+                              key={category}
+                              className="inline-flex px-2 py-0.5 text-xs rounded-md bg-white/[0.05] text-white/60"
+                            >
+                              {getFailureLabel(category as FailureCategory)} × {count}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm text-white/50 font-mono">
+                      {stats.attempts > 0 ? `${(stats.averageDurationMs / 1000).toFixed(1)}s` : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,362 @@
+'use client';
+
+/**
+ * Glossaries Page
+ * Manage term replacement lists that can be applied to transcripts and translations
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { UserMenu } from '@/components/UserMenu';
+import type { GlossaryTerm } from '@/lib/types';
+
+interface GlossaryList {
+  Id: number;
+  Name: string;
+  Terms: GlossaryTerm[];
+  Language: string;
+  IsActive: boolean;
+}
+
+// Unsaved edits per glossary
+interface Draft {
+  name: string;
+  language: string;
+  terms: GlossaryTerm[];
+}
+
+const toDraft = (glossary: GlossaryList): Draft => ({
+  name: glossary.Name,
+  language: glossary.Language || '',
+  terms: glossary.Terms,
+});
+
+export default function GlossariesPage() {
+  const router = useRouter();
+  const [glossaries, setGlossaries] = useState<GlossaryList[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, Draft>>({});
+  const [savingIds, setSavingIds] = useState<Set<number>>(new Set());
+  const [creating, setCreating] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGlossaries = useCallback(async () => {
+    try {
+      const res = await fetch('/api/glossaries');
+      const data = await res.json();
+
+      if (res.status === 401) {
+        router.push('/login');
+        return;
+      }
+
+      if (data.success) {
+        const lists: GlossaryList[] = data.data.glossaries;
+        setGlossaries(lists);
+        setDrafts(Object.fromEntries(lists.map((glossary) => [glossary.Id, toDraft(glossary)])));
+      } else {
+        setError(data.error || 'Failed to load glossaries');
+      }
+    } catch {
+      setError('Failed to load glossaries');
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchGlossaries();
+  }, [fetchGlossaries]);
+
+  const setSaving = (id: number, saving: boolean) => {
+    setSavingIds((prev) => {
+      const next = new Set(prev);
+      if (saving) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const updateDraft = (id: number, changes: Partial<Draft>) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const updateTerm = (id: number, index: number, changes: Partial<GlossaryTerm>) => {
+    const draft = drafts[id];
+    updateDraft(id, {
+      terms: draft.terms.map((term, i) => (i === index ? { ...term, ...changes } : term)),
+    });
+  };
+
+  const updateGlossary = async (id: number, updates: Record<string, unknown>) => {
+    setSaving(id, true);
+    try {
+      const res = await fetch(`/api/glossaries/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        alert(data.error || 'Failed to save glossary');
+        return;
+      }
+
+      const saved: GlossaryList = data.data;
+      setGlossaries((prev) => prev.map((glossary) => (glossary.Id === id ? saved : glossary)));
+      setDrafts((prev) => ({ ...prev, [id]: toDraft(saved) }));
+    } catch {
+      alert('Failed to save glossary');
+    } finally {
+      setSaving(id, false);
+    }
+  };
+
+  const handleSave = (glossary: GlossaryList) => {
+    const draft = drafts[glossary.Id];
+    if (!draft) return;
+
+    updateGlossary(glossary.Id, {
+      Name: draft.name,
+      Language: draft.language,
+      Terms: draft.terms,
+    });
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await fetch('/api/glossaries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ Name: `Glossary ${glossaries.length + 1}`, Terms: [] }),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        alert(data.error || 'Failed to create glossary');
+        return;
+      }
+
+      const created: GlossaryList = data.data;
+      setGlossaries((prev) => [...prev, created]);
+      setDrafts((prev) => ({
+        ...prev,
+        [created.Id]: { ...toDraft(created), terms: [{ original: '', replacement: '' }] },
+      }));
+    } catch {
+      alert('Failed to create glossary');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (glossary: GlossaryList) => {
+    if (!confirm(`Delete "${glossary.Name}"?`)) return;
+
+    setSaving(glossary.Id, true);
+    try {
+      const res = await fetch(`/api/glossaries/${glossary.Id}`, { method: 'DELETE' });
+      const data = await res.json();
+
+      if (!data.success) {
+        alert(data.error || 'Failed to delete glossary');
+        return;
+      }
+
+      setGlossaries((prev) => prev.filter((entry) => entry.Id !== glossary.Id));
+    } catch {
+      alert('Failed to delete glossary');
+    } finally {
+      setSaving(glossary.Id, false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="flex items-center gap-3 text-white/50">
+          <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+          Loading glossaries...
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold text-white mb-2">Unavailable</h2>
+          <p className="text-white/50 mb-6">{error}</p>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="px-6 py-2.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-white/70 transition-all"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a]">
+      <div className="relative max-w-4xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-10">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="p-2 -ml-2 rounded-lg hover:bg-white/5 text-white/40 hover:text-white/70 transition-all"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <h1 className="text-2xl font-semibold text-white tracking-tight">Glossaries</h1>
+            </div>
+            <p className="text-white/40 text-sm">
+              Replace terms in a transcript or translation from the editor, with a preview of every change
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-500 text-black rounded-xl text-sm font-semibold hover:from-amber-400 hover:to-orange-400 transition-all disabled:opacity-50"
+            >
+              New Glossary
+            </button>
+            <UserMenu />
+          </div>
+        </div>
+
+        <p className="text-xs text-white/40 mb-6">
+          Terms match whole words only. Case-sensitive terms (Aa) only match the exact capitalization.
+        </p>
+
+        {glossaries.length === 0 && (
+          <div className="bg-white/[0.02] border border-white/[0.06] rounded-2xl px-6 py-10 text-center text-sm text-white/40">
+            No glossaries yet
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {glossaries.map((glossary) => {
+            const draft = drafts[glossary.Id] || toDraft(glossary);
+            const saving = savingIds.has(glossary.Id);
+
+            return (
+              <div key={glossary.Id} className="bg-white/[0.02] border border-white/[0.06] rounded-2xl p-5">
+                <div className="flex items-center gap-3 mb-4">
+                  <input
+                    value={draft.name}
+                    onChange={(e) => updateDraft(glossary.Id, { name: e.target.value })}
+                    maxLength={100}
+                    className="flex-1 px-3 py-2 rounded-lg border border-white/[0.08] bg-white/[0.03] text-white text-sm font-medium focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                  />
+                  <input
+                    value={draft.language}
+                    onChange={(e) => updateDraft(glossary.Id, { language: e.target.value })}
+                    maxLength={10}
+                    placeholder="Any"
+                    title="Language code of the text this glossary applies to (e.g. sv), empty for any"
+                    className="w-20 px-3 py-2 rounded-lg border border-white/[0.08] bg-white/[0.03] text-white text-sm font-mono placeholder:text-white/25 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                  />
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={glossary.IsActive}
+                      disabled={saving}
+                      onChange={(e) => updateGlossary(glossary.Id, { IsActive: e.target.checked })}
+                      className="w-4 h-4 rounded border-white/20 bg-white/[0.03] accent-amber-500"
+                    />
+                    <span className="text-sm text-white/60">Active</span>
+                  </label>
+                </div>
+
+                <div className="space-y-2">
+                  {draft.terms.map((term, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        value={term.original}
+                        onChange={(e) => updateTerm(glossary.Id, index, { original: e.target.value })}
+                        placeholder="Find"
+                        className="flex-1 px-3 py-1.5 rounded-lg border border-white/[0.08] bg-white/[0.03] text-white text-sm placeholder:text-white/25 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                      />
+                      <svg className="w-4 h-4 text-white/30 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
+                      </svg>
+                      <input
+                        value={term.replacement}
+                        onChange={(e) => updateTerm(glossary.Id, index, { replacement: e.target.value })}
+                        placeholder="Replace with"
+                        className="flex-1 px-3 py-1.5 rounded-lg border border-white/[0.08] bg-white/[0.03] text-white text-sm placeholder:text-white/25 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                      />
+                      <button
+                        onClick={() => updateTerm(glossary.Id, index, { caseSensitive: !term.caseSensitive })}
+                        title={term.caseSensitive ? 'Case-sensitive' : 'Ignores case'}
+                        className={`px-2 py-1.5 rounded-lg text-xs font-mono border transition-colors ${
+                          term.caseSensitive
+                            ? 'bg-amber-500/20 text-amber-400 border-amber-500/30'
+                            : 'text-white/40 border-white/[0.08] hover:text-white/70'
+                        }`}
+                      >
+                        Aa
+                      </button>
+                      <button
+                        onClick={() => updateDraft(glossary.Id, { terms: draft.terms.filter((_, i) => i !== index) })}
+                        title="Remove term"
+                        className="p-1.5 text-white/30 hover:text-red-400 transition-colors"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateDraft(glossary.Id, { terms: [...draft.terms, { original: '', replacement: '' }] })}
+                    className="text-sm text-amber-400/80 hover:text-amber-400"
+                  >
+                    + Add term
+                  </button>
+                </div>
+
+                <div className="flex items-center justify-between mt-4">
+                  <span className="text-xs text-white/30">{glossary.Terms.length} terms</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleDelete(glossary)}
+                      disabled={saving}
+                      className="px-3 py-1.5 text-sm text-red-400/70 hover:text-red-400 transition-colors disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      onClick={() => handleSave(glossary)}
+                      disabled={saving}
+                      className="px-4 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-sm text-white/80 transition-all disabled:opacity-40"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,9 @@ import Link from 'next/link';
 import { FileUploader } from '@/components/upload/FileUploader';
 import { UserMenu } from '@/components/UserMenu';
 import { formatDuration } from '@/lib/utils/format';
-import type { File as FileType, Transcription } from '@/lib/types';
+import { getFailureSuggestion, getFailureTitle, parseFailureReason } from '@/lib/utils/failures';
+import { formatVocabularyText, parseVocabularyText, parseVocabularyTerms } from '@/lib/utils/vocabulary';
+import type { File as FileType, ProviderInfo, Transcription } from '@/lib/types';
 
 // Supported languages for transcription (Auto first, then Swedish/English, then alphabetical)
 const LANGUAGES = [
@@ -90,18 +92,24 @@ function getModelDisplayName(provider: string): string {
     case 'groq':
       return 'Whisper v3';
     case 'openai':
-      return 'OpenAI Whisper';
+      return 'OpenAI-compatible Whisper';
+    case 'import':
+      return 'Imported subtitles';
     default:
       return provider || 'Unknown';
   }
 }
 
-// Supported transcription models
-const MODELS = [
-  { id: 'berget:kb-whisper', name: 'KB Whisper', providerName: 'Berget AI', provider: 'berget', model: 'kb-whisper', flag: '🇸🇪' },
-  { id: 'groq:whisper-large-v3', name: 'Whisper Large v3', providerName: 'Groq', provider: 'groq', model: 'whisper-large-v3', flag: '🇺🇸' },
-  { id: 'groq:whisper-large-v3-turbo', name: 'Whisper Large v3 Turbo', providerName: 'Groq', provider: 'groq', model: 'whisper-large-v3-turbo', flag: '🇺🇸' },
-] as const;
+// A transcription model in the picker - one per model of each configured ASR provider
+interface ModelOption {
+  id: string;
+  name: string;
+  providerName: string;
+  provider: string;
+  model: string;
+  flag: string;
+  wordTimestamps: boolean; // Needed to align a script
+}
 
 // Format relative time
 function formatRelativeTime(dateString: string): string {
@@ -126,6 +134,7 @@ export default function DashboardPage() {
   const [error, setError] = useState<string | null>(null);
   const [processingIds, setProcessingIds] = useState<Set<number>>(new Set());
   const [deletingIds, setDeletingIds] = useState<Set<number>>(new Set());
+  const [cancellingIds, setCancellingIds] = useState<Set<number>>(new Set());
   const [showPending, setShowPending] = useState(false);
   const [initialLoadDone, setInitialLoadDone] = useState(false);
   const isFirstLoad = useRef(true);
@@ -134,9 +143,15 @@ export default function DashboardPage() {
   const [showLangModal, setShowLangModal] = useState(false);
   const [selectedFile, setSelectedFile] = useState<FileType | null>(null);
   const [selectedLanguage, setSelectedLanguage] = useState('');
-  const [selectedModel, setSelectedModel] = useState('berget:kb-whisper');
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [selectedModel, setSelectedModel] = useState('');
   const [modelDropdownOpen, setModelDropdownOpen] = useState(false);
   const [languageDropdownOpen, setLanguageDropdownOpen] = useState(false);
+  const [scriptText, setScriptText] = useState(''); // Optional script for forced alignment
+  const [detectSpeakers, setDetectSpeakers] = useState(false);
+  const [vocabularyText, setVocabularyText] = useState(''); // Project terms, one per line
+  const [applyCorrections, setApplyCorrections] = useState(false);
+  const [retryingTranscription, setRetryingTranscription] = useState<Transcription | null>(null); // Modal retries instead of creating
 
   // Edit title modal state
   const [showEditModal, setShowEditModal] = useState(false);
@@ -193,6 +208,27 @@ export default function DashboardPage() {
     loadData();
   }, [loadData]);
 
+  // ASR providers configured on the server, including self-hosted OpenAI-compatible ones
+  useEffect(() => {
+    fetch('/api/providers?kind=asr')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result) => {
+        const providers: ProviderInfo[] = result?.data?.providers || [];
+        setModels(providers.flatMap((provider) =>
+          provider.models.map((model) => ({
+            id: `${provider.id}:${model.id}`,
+            name: model.name,
+            providerName: provider.name,
+            provider: provider.id,
+            model: model.id,
+            flag: provider.flag,
+            wordTimestamps: provider.capabilities.wordTimestamps,
+          }))
+        ));
+      })
+      .catch(() => {});
+  }, []);
+
   // Poll for processing transcriptions
   useEffect(() => {
     const processing = transcriptions.filter(t => t.Status === 'processing' || t.Status === 'pending');
@@ -239,10 +275,14 @@ export default function DashboardPage() {
   // Projects = completed transcriptions
   const projects = transcriptions.filter(t => t.Status === 'completed');
 
-  // Pending = files without transcriptions OR transcriptions still processing
+  // Pending = files without transcriptions OR transcriptions still processing, failed or cancelled
   const pendingFiles = files.filter(f => !fileIdsWithTranscriptions.has(f.Id));
   const processingTranscriptions = transcriptions.filter(t => t.Status === 'processing' || t.Status === 'pending');
-  const hasPending = pendingFiles.length > 0 || processingTranscriptions.length > 0;
+  const stoppedTranscriptions = transcriptions.filter(t => t.Status === 'failed' || t.Status === 'cancelled');
+  const selectedModelConfig: ModelOption | undefined = models.find(m => m.id === selectedModel) || models[0];
+  const canAlignScript = selectedModelConfig?.wordTimestamps ?? true;
+  const pendingCount = pendingFiles.length + processingTranscriptions.length + stoppedTranscriptions.length;
+  const hasPending = pendingCount > 0;
 
   const handleUploadComplete = async () => {
     await loadData();
@@ -254,7 +294,27 @@ export default function DashboardPage() {
   const openTranscribeModal = (file: FileType) => {
     setSelectedFile(file);
     setSelectedLanguage('');
-    setSelectedModel('berget:kb-whisper');
+    setSelectedModel(models[0]?.id || '');
+    setScriptText('');
+    setVocabularyText('');
+    setApplyCorrections(false);
+    setRetryingTranscription(null);
+    setShowLangModal(true);
+  };
+
+  // Open the same modal to retry a failed or cancelled transcription, preselecting its previous settings
+  const openRetryModal = (transcription: Transcription) => {
+    const model =
+      models.find(m => m.provider === transcription.AsrProvider && m.model === transcription.AsrModel) ||
+      models.find(m => m.provider === transcription.AsrProvider) ||
+      models[0];
+    const language = LANGUAGES.find(l => l.code && l.code === transcription.Language);
+    setSelectedFile(files.find(f => f.Id === transcription.FileId) || null);
+    setRetryingTranscription(transcription);
+    setSelectedModel(model?.id || '');
+    setSelectedLanguage(language?.code || '');
+    setVocabularyText(formatVocabularyText(parseVocabularyTerms(transcription.Vocabulary)));
+    setApplyCorrections(false);
     setShowLangModal(true);
   };
 
@@ -262,16 +322,22 @@ export default function DashboardPage() {
   const closeTranscribeModal = () => {
     setShowLangModal(false);
     setSelectedFile(null);
+    setRetryingTranscription(null);
     setModelDropdownOpen(false);
     setLanguageDropdownOpen(false);
   };
 
   // Start transcription with selected language and model
   const handleTranscribe = async () => {
+    if (retryingTranscription) {
+      await handleRetryTranscription(retryingTranscription);
+      return;
+    }
     if (!selectedFile) return;
 
     const file = selectedFile;
-    const modelConfig = MODELS.find(m => m.id === selectedModel) || MODELS[0];
+    const script = canAlignScript ? scriptText.trim() : '';
+    const vocabulary = parseVocabularyText(vocabularyText);
     closeTranscribeModal();
 
     setProcessingIds(prev => new Set(prev).add(file.Id));
@@ -284,9 +350,14 @@ export default function DashboardPage() {
           sourceFileUrl: file.AudioUrl || file.StorageUrl,
           title: file.Filename,
           userId: '1',
-          provider: modelConfig.provider,
-          model: modelConfig.model,
+          provider: selectedModelConfig?.provider,
+          model: selectedModelConfig?.model,
           language: selectedLanguage || undefined,
+          // With a script, ASR is only used to time the supplied text
+          ...(script && { mode: 'align', script }),
+          ...(detectSpeakers && { diarize: true }),
+          ...(vocabulary.length > 0 && { vocabulary }),
+          ...(applyCorrections && { applyCorrections: true }),
         }),
       });
 
@@ -303,6 +374,70 @@ export default function DashboardPage() {
     }
   };
 
+  // Queue a failed or cancelled transcription again with the selected model and language
+  const handleRetryTranscription = async (transcription: Transcription) => {
+    const vocabulary = parseVocabularyText(vocabularyText);
+    closeTranscribeModal();
+
+    try {
+      const res = await fetch(`/api/transcriptions/${transcription.Id}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          provider: selectedModelConfig?.provider,
+          model: selectedModelConfig?.model,
+          language: selectedLanguage,
+          vocabulary,
+          // Unchecked keeps whatever the previous run did
+          ...(applyCorrections && { applyCorrections: true }),
+        }),
+      });
+      const result = await res.json();
+
+      if (!res.ok || !result.success) {
+        alert(`Failed to retry: ${result.error || 'Unknown error'}`);
+        return;
+      }
+
+      await loadData();
+    } catch (err) {
+      console.error('Retry error:', err);
+      alert('Failed to retry transcription. Please try again.');
+    }
+  };
+
+  const handleCancelTranscription = async (id: number) => {
+    if (!confirm('Cancel this transcription?')) return;
+
+    setCancellingIds(prev => new Set(prev).add(id));
+    try {
+      const res = await fetch(`/api/transcriptions/${id}/cancel`, { method: 'POST' });
+      const result = await res.json();
+
+      if (!res.ok || !result.success) {
+        alert(`Failed to cancel: ${result.error || 'Unknown error'}`);
+        return;
+      }
+
+      await loadData();
+    } catch (err) {
+      console.error('Cancel error:', err);
+      alert('Failed to cancel transcription. Please try again.');
+    } finally {
+      setCancellingIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  // Subtitle file imported for the selected file - it is now a completed project
+  const handleImportComplete = async () => {
+    closeTranscribeModal();
+    await loadData();
+  };
+
   const handleDeleteFile = async (id: number) => {
     if (!confirm('Delete this file?')) return;
     try {
@@ -451,7 +586,7 @@ export default function DashboardPage() {
                 <span className="text-white/40">Projects</span>
               </div>
               <div className="flex items-center gap-1.5 px-3 py-1.5 bg-white/[0.03] rounded-lg">
-                <span className="text-amber-400 font-medium">{hasPending ? pendingFiles.length + processingTranscriptions.length : 0}</span>
+                <span className="text-amber-400 font-medium">{pendingCount}</span>
                 <span className="text-white/40">Pending</span>
               </div>
             </div>
@@ -490,7 +625,7 @@ export default function DashboardPage() {
                       <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-amber-400 opacity-75"></span>
                       <span className="relative inline-flex rounded-full h-2 w-2 bg-amber-400"></span>
                     </span>
-                    {pendingFiles.length + processingTranscriptions.length} Pending
+                    {pendingCount} Pending
                     <svg
                       className={`w-3.5 h-3.5 transition-transform ${showPending ? 'rotate-180' : ''}`}
                       fill="none"
@@ -588,15 +723,66 @@ export default function DashboardPage() {
                       </div>
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium text-white/80 truncate">{t.Title}</p>
-                        <p className="text-xs text-amber-400">Processing transcription...</p>
+                        <p className="text-xs text-amber-400">{t.ProgressDetail || 'Processing transcription...'}</p>
                       </div>
                       <div className="px-3 py-1 bg-amber-500/10 rounded-full">
                         <p className="text-[10px] text-amber-400 uppercase tracking-wider font-medium">
-                          {t.Status}
+                          {t.Status === 'processing' && t.Progress ? `${t.Progress}%` : t.Status}
                         </p>
                       </div>
+                      <button
+                        onClick={() => handleCancelTranscription(t.Id)}
+                        disabled={cancellingIds.has(t.Id)}
+                        className="px-3 py-1.5 text-xs font-medium text-white/50 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {cancellingIds.has(t.Id) ? 'Cancelling...' : 'Cancel'}
+                      </button>
                     </div>
                   ))}
+
+                  {/* Failed or cancelled transcriptions */}
+                  {stoppedTranscriptions.map((t, index) => {
+                    const failure = t.Status === 'failed' ? parseFailureReason(t.FailureReason) : undefined;
+                    return (
+                    <div
+                      key={t.Id}
+                      className="group flex items-center gap-4 p-3 bg-[#0d0d0e] rounded-xl border border-red-500/20"
+                      style={{ animationDelay: `${(pendingFiles.length + processingTranscriptions.length + index) * 50}ms` }}
+                    >
+                      <div className="w-10 h-10 rounded-lg bg-red-500/10 flex items-center justify-center shrink-0">
+                        <svg className="w-5 h-5 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 9v3.75m9-.75a9 9 0 11-18 0 9 9 0 0118 0zm-9 3.75h.008v.008H12v-.008z" />
+                        </svg>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-white/80 truncate">{t.Title}</p>
+                        <p className="text-xs text-red-400 truncate" title={failure?.message}>
+                          {t.Status === 'cancelled'
+                            ? 'Transcription cancelled'
+                            : failure ? getFailureTitle(failure) : 'Transcription failed'}
+                        </p>
+                        {failure && (
+                          <p className="text-xs text-white/40 mt-0.5">{getFailureSuggestion(failure.category)}</p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => openRetryModal(t)}
+                        className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-500 text-black text-xs font-semibold rounded-lg hover:from-amber-400 hover:to-orange-400 transition-all shadow-lg shadow-amber-500/20"
+                      >
+                        Retry
+                      </button>
+                      <button
+                        onClick={() => handleDeleteTranscription(t.Id)}
+                        disabled={deletingIds.has(t.Id)}
+                        className="p-2 text-white/30 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors opacity-0 group-hover:opacity-100 disabled:opacity-50"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -714,7 +900,10 @@ export default function DashboardPage() {
                             {project.AsrProvider && (
                               <>
                                 <span className="text-white/30">•</span>
-                                <span>{getModelDisplayName(project.AsrProvider)}</span>
+                                <span title={project.AsrModel ? `${project.AsrProvider} · ${project.AsrModel}` : undefined}>
+                                  {models.find(m => m.provider === project.AsrProvider && m.model === project.AsrModel)?.name ||
+                                    getModelDisplayName(project.AsrProvider)}
+                                </span>
                               </>
                             )}
                             {project.Confidence > 0 && (
@@ -790,7 +979,7 @@ export default function DashboardPage() {
       </div>
 
       {/* Language Selection Modal */}
-      {showLangModal && selectedFile && (
+      {showLangModal && (selectedFile || retryingTranscription) && (
         <div className="fixed inset-0 z-50 flex items-center justify-center">
           {/* Backdrop */}
           <div
@@ -803,9 +992,11 @@ export default function DashboardPage() {
             {/* Header */}
             <div className="px-6 py-5 border-b border-white/[0.06]">
               <h3 className="text-lg font-semibold text-white">
-                Start Transcription
+                {retryingTranscription ? 'Retry Transcription' : 'Start Transcription'}
               </h3>
-              <p className="text-sm text-white/40 mt-1 truncate">{selectedFile.Filename}</p>
+              <p className="text-sm text-white/40 mt-1 truncate">
+                {retryingTranscription?.Title ?? selectedFile?.Filename}
+              </p>
             </div>
 
             {/* Content */}
@@ -823,20 +1014,24 @@ export default function DashboardPage() {
                   }}
                   className="w-full px-4 py-3 rounded-xl border border-white/[0.08] bg-white/[0.03] text-white text-left flex items-center justify-between hover:bg-white/[0.05] transition-all focus:outline-none focus:ring-2 focus:ring-amber-500/50"
                 >
-                  <span className="flex items-center gap-3">
-                    <span className="text-lg">{MODELS.find(m => m.id === selectedModel)?.flag}</span>
-                    <span>
-                      <span className="font-medium">{MODELS.find(m => m.id === selectedModel)?.name}</span>
-                      <span className="text-white/40 ml-2">— {MODELS.find(m => m.id === selectedModel)?.providerName}</span>
+                  {selectedModelConfig ? (
+                    <span className="flex items-center gap-3">
+                      <span className="text-lg">{selectedModelConfig.flag}</span>
+                      <span>
+                        <span className="font-medium">{selectedModelConfig.name}</span>
+                        <span className="text-white/40 ml-2">— {selectedModelConfig.providerName}</span>
+                      </span>
                     </span>
-                  </span>
+                  ) : (
+                    <span className="text-white/40">Server default</span>
+                  )}
                   <svg className={`w-5 h-5 text-white/40 transition-transform ${modelDropdownOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
                   </svg>
                 </button>
                 {modelDropdownOpen && (
                   <div className="absolute z-50 w-full mt-2 py-2 bg-[#1a1a1c] border border-white/[0.08] rounded-xl shadow-xl max-h-64 overflow-y-auto">
-                    {MODELS.map((model) => (
+                    {models.map((model) => (
                       <button
                         key={model.id}
                         type="button"
@@ -914,6 +1109,79 @@ export default function DashboardPage() {
                   Specifying the language improves accuracy and speed
                 </p>
               </div>
+
+              {/* Project vocabulary - added to the user's active vocabulary lists */}
+              <div>
+                <label className="block text-xs font-medium text-white/50 uppercase tracking-wider mb-2">
+                  Vocabulary (optional)
+                </label>
+                <textarea
+                  value={vocabularyText}
+                  onChange={(e) => setVocabularyText(e.target.value)}
+                  rows={3}
+                  placeholder={'Names and terms, one per line\nKubernetes: cuber netes, kubernetis'}
+                  className="w-full px-4 py-3 rounded-xl border border-white/[0.08] bg-white/[0.03] text-white text-sm placeholder:text-white/25 resize-y focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                />
+                <div className="flex items-center justify-between mt-2">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={applyCorrections}
+                      onChange={(e) => setApplyCorrections(e.target.checked)}
+                      className="w-4 h-4 rounded border-white/20 bg-white/[0.03] accent-amber-500"
+                    />
+                    <span className="text-[11px] text-white/50">Correct listed misspellings after transcription</span>
+                  </label>
+                  <Link href="/dashboard/vocabulary" className="text-[11px] text-amber-400/80 hover:text-amber-400">
+                    Saved lists
+                  </Link>
+                </div>
+              </div>
+
+              {/* Script, speakers and import only apply to new transcriptions - a retry keeps its settings */}
+              {!retryingTranscription && selectedFile && (
+                <>
+                  {/* Optional script for forced alignment - needs a model with word timings */}
+                  {canAlignScript && (
+                    <div>
+                      <label className="block text-xs font-medium text-white/50 uppercase tracking-wider mb-2">
+                        Script (optional)
+                      </label>
+                      <textarea
+                        value={scriptText}
+                        onChange={(e) => setScriptText(e.target.value)}
+                        rows={3}
+                        placeholder="Paste the exact script to get timings for it instead of a new transcript"
+                        className="w-full px-4 py-3 rounded-xl border border-white/[0.08] bg-white/[0.03] text-white text-sm placeholder:text-white/25 resize-y focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                      />
+                    </div>
+                  )}
+
+                  {/* Speaker diarization */}
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={detectSpeakers}
+                      onChange={(e) => setDetectSpeakers(e.target.checked)}
+                      className="w-4 h-4 rounded border-white/20 bg-white/[0.03] accent-amber-500"
+                    />
+                    <span className="text-sm text-white/70">Detect speakers</span>
+                  </label>
+
+                  {/* Import existing subtitles instead of running ASR */}
+                  <div>
+                    <label className="block text-xs font-medium text-white/50 uppercase tracking-wider mb-2">
+                      Or import existing subtitles
+                    </label>
+                    <FileUploader
+                      maxFiles={1}
+                      importFileId={selectedFile.Id}
+                      importLanguage={selectedLanguage || undefined}
+                      onImportComplete={handleImportComplete}
+                    />
+                  </div>
+                </>
+              )}
             </div>
 
             {/* Footer */}
@@ -928,7 +1196,7 @@ export default function DashboardPage() {
                 onClick={handleTranscribe}
                 className="px-5 py-2.5 bg-gradient-to-r from-amber-500 to-orange-500 text-black rounded-xl text-sm font-semibold hover:from-amber-400 hover:to-orange-400 transition-all shadow-lg shadow-amber-500/20"
               >
-                Start Transcription
+                {retryingTranscription ? 'Retry' : canAlignScript && scriptText.trim() ? 'Align Script' : 'Start Transcription'}
               </button>
             </div>
           </div>
@@ -0,0 +1,390 @@
+'use client';
+
+/**
+ * Termbases Page
+ * Manage bilingual term lists that translations must follow
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { UserMenu } from '@/components/UserMenu';
+import type { TermbaseEntry } from '@/lib/types';
+
+interface TermbaseList {
+  Id: number;
+  Name: string;
+  SourceLanguage: string;
+  TargetLanguage: string;
+  Entries: TermbaseEntry[];
+  IsActive: boolean;
+}
+
+// Unsaved edits per termbase
+interface Draft {
+  name: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  entries: TermbaseEntry[];
+}
+
+const toDraft = (termbase: TermbaseList): Draft => ({
+  name: termbase.Name,
+  sourceLanguage: termbase.SourceLanguage || '',
+  targetLanguage: termbase.TargetLanguage || '',
+  entries: termbase.Entries,
+});
+
+export default function TermbasesPage() {
+  const router = useRouter();
+  const [termbases, setTermbases] = useState<TermbaseList[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, Draft>>({});
+  const [savingIds, setSavingIds] = useState<Set<number>>(new Set());
+  const [creating, setCreating] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTermbases = useCallback(async () => {
+    try {
+      const res = await fetch('/api/termbases');
+      const data = await res.json();
+
+      if (res.status === 401) {
+        router.push('/login');
+        return;
+      }
+
+      if (data.success) {
+        const lists: TermbaseList[] = data.data.termbases;
+        setTermbases(lists);
+        setDrafts(Object.fromEntries(lists.map((termbase) => [termbase.Id, toDraft(termbase)])));
+      } else {
+        setError(data.error || 'Failed to load termbases');
+      }
+    } catch {
+      setError('Failed to load termbases');
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchTermbases();
+  }, [fetchTermbases]);
+
+  const setSaving = (id: number, saving: boolean) => {
+    setSavingIds((prev) => {
+      const next = new Set(prev);
+      if (saving) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const updateDraft = (id: number, changes: Partial<Draft>) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const updateEntry = (id: number, index: number, changes: Partial<TermbaseEntry>) => {
+    const draft = drafts[id];
+    updateDraft(id, {
+      entries: draft.entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)),
+    });
+  };
+
+  const updateTermbase = async (id: number, updates: Record<string, unknown>) => {
+    setSaving(id, true);
+    try {
+      const res = await fetch(`/api/termbases/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        alert(data.error || 'Failed to save termbase');
+        return;
+      }
+
+      const saved: TermbaseList = data.data;
+      setTermbases((prev) => prev.map((termbase) => (termbase.Id === id ? saved : termbase)));
+      setDrafts((prev) => ({ ...prev, [id]: toDraft(saved) }));
+    } catch {
+      alert('Failed to save termbase');
+    } finally {
+      setSaving(id, false);
+    }
+  };
+
+  const handleSave = (termbase: TermbaseList) => {
+    const draft = drafts[termbase.Id];
+    if (!draft) return;
+
+    updateTermbase(termbase.Id, {
+      Name: draft.name,
+      SourceLanguage: draft.sourceLanguage,
+      TargetLanguage: draft.targetLanguage,
+      Entries: draft.entries,
+    });
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await fetch('/api/termbases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ Name: `Termbase ${termbases.length + 1}`, Entries: [] }),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        alert(data.error || 'Failed to create termbase');
+        return;
+      }
+
+      const created: TermbaseList = data.data;
+      setTermbases((prev) => [...prev, created]);
+      setDrafts((prev) => ({
+        ...prev,
+        [created.Id]: { ...toDraft(created), entries: [{ source: '', target: '' }] },
+      }));
+    } catch {
+      alert('Failed to create termbase');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (termbase: TermbaseList) => {
+    if (!confirm(`Delete "${termbase.Name}"?`)) return;
+
+    setSaving(termbase.Id, true);
+    try {
+      const res = await fetch(`/api/termbases/${termbase.Id}`, { method: 'DELETE' });
+      const data = await res.json();
+
+      if (!data.success) {
+        alert(data.error || 'Failed to delete termbase');
+        return;
+      }
+
+      setTermbases((prev) => prev.filter((entry) => entry.Id !== termbase.Id));
+    } catch {
+      alert('Failed to delete termbase');
+    } finally {
+      setSaving(termbase.Id, false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="flex items-center gap-3 text-white/50">
+          <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+          Loading termbases...
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold text-white mb-2">Unavailable</h2>
+          <p className="text-white/50 mb-6">{error}</p>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="px-6 py-2.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-white/70 transition-all"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a]">
+      <div className="relative max-w-4xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-10">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="p-2 -ml-2 rounded-lg hover:bg-white/5 text-white/40 hover:text-white/70 transition-all"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <h1 className="text-2xl font-semibold text-white tracking-tight">Termbases</h1>
+            </div>
+            <p className="text-white/40 text-sm">
+              Required translations for names and product terms, enforced when translating subtitles
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-500 text-black rounded-xl text-sm font-semibold hover:from-amber-400 hover:to-orange-400 transition-all disabled:opacity-50"
+            >
+              New Termbase
+            </button>
+            <UserMenu />
+          </div>
+        </div>
+
+        <p className="text-xs text-white/40 mb-6">
+          Active termbases apply to translations matching their languages (empty matches any).
+          Keep marks terms that must stay untranslated. Segments where a term was not used are flagged in the editor.
+        </p>
+
+        {termbases.length === 0 && (
+          <div className="bg-white/[0.02] border border-white/[0.06] rounded-2xl px-6 py-10 text-center text-sm text-white/40">
+            No termbases yet
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {termbases.map((termbase) => {
+            const draft = drafts[termbase.Id] || toDraft(termbase);
+            const saving = savingIds.has(termbase.Id);
+
+            return (
+              <div key={termbase.Id} className="bg-white/[0.02] border border-white/[0.06] rounded-2xl p-5">
+                <div className="flex items-center gap-3 mb-4">
+                  <input
+                    value={draft.name}
+                    onChange={(e) => updateDraft(termbase.Id, { name: e.target.value })}
+                    maxLength={100}
+                    className="flex-1 px-3 py-2 rounded-lg border border-white/[0.08] bg-white/[0.03] text-white text-sm font-medium focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                  />
+                  <input
+                    value={draft.sourceLanguage}
+                    onChange={(e) => updateDraft(termbase.Id, { sourceLanguage: e.target.value })}
+                    maxLength={10}
+                    placeholder="Any"
+                    title="Source language code (e.g. sv), empty for any"
+                    className="w-20 px-3 py-2 rounded-lg border border-white/[0.08] bg-white/[0.03] text-white text-sm font-mono placeholder:text-white/25 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                  />
+                  <svg className="w-4 h-4 text-white/30 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
+                  </svg>
+                  <input
+                    value={draft.targetLanguage}
+                    onChange={(e) => updateDraft(termbase.Id, { targetLanguage: e.target.value })}
+                    maxLength={10}
+                    placeholder="Any"
+                    title="Target language code (e.g. en), empty for any"
+                    className="w-20 px-3 py-2 rounded-lg border border-white/[0.08] bg-white/[0.03] text-white text-sm font-mono placeholder:text-white/25 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                  />
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={termbase.IsActive}
+                      disabled={saving}
+                      onChange={(e) => updateTermbase(termbase.Id, { IsActive: e.target.checked })}
+                      className="w-4 h-4 rounded border-white/20 bg-white/[0.03] accent-amber-500"
+                    />
+                    <span className="text-sm text-white/60">Active</span>
+                  </label>
+                </div>
+
+                <div className="space-y-2">
+                  {draft.entries.map((entry, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        value={entry.source}
+                        onChange={(e) => updateEntry(termbase.Id, index, { source: e.target.value })}
+                        placeholder="Source term"
+                        className="flex-1 px-3 py-1.5 rounded-lg border border-white/[0.08] bg-white/[0.03] text-white text-sm placeholder:text-white/25 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                      />
+                      <svg className="w-4 h-4 text-white/30 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
+                      </svg>
+                      <input
+                        value={entry.doNotTranslate ? entry.source : entry.target}
+                        onChange={(e) => updateEntry(termbase.Id, index, { target: e.target.value })}
+                        disabled={entry.doNotTranslate}
+                        placeholder="Required translation"
+                        className="flex-1 px-3 py-1.5 rounded-lg border border-white/[0.08] bg-white/[0.03] text-white text-sm placeholder:text-white/25 focus:outline-none focus:ring-2 focus:ring-amber-500/50 disabled:opacity-50"
+                      />
+                      <button
+                        onClick={() => updateEntry(termbase.Id, index, { doNotTranslate: !entry.doNotTranslate })}
+                        title={entry.doNotTranslate ? 'Kept untranslated' : 'Translated as given'}
+                        className={`px-2 py-1.5 rounded-lg text-xs border transition-colors ${
+                          entry.doNotTranslate
+                            ? 'bg-amber-500/20 text-amber-400 border-amber-500/30'
+                            : 'text-white/40 border-white/[0.08] hover:text-white/70'
+                        }`}
+                      >
+                        Keep
+                      </button>
+                      <button
+                        onClick={() => updateEntry(termbase.Id, index, { caseSensitive: !entry.caseSensitive })}
+                        title={entry.caseSensitive ? 'Case-sensitive' : 'Ignores case'}
+                        className={`px-2 py-1.5 rounded-lg text-xs font-mono border transition-colors ${
+                          entry.caseSensitive
+                            ? 'bg-amber-500/20 text-amber-400 border-amber-500/30'
+                            : 'text-white/40 border-white/[0.08] hover:text-white/70'
+                        }`}
+                      >
+                        Aa
+                      </button>
+                      <button
+                        onClick={() => updateDraft(termbase.Id, { entries: draft.entries.filter((_, i) => i !== index) })}
+                        title="Remove entry"
+                        className="p-1.5 text-white/30 hover:text-red-400 transition-colors"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateDraft(termbase.Id, { entries: [...draft.entries, { source: '', target: '' }] })}
+                    className="text-sm text-amber-400/80 hover:text-amber-400"
+                  >
+                    + Add entry
+                  </button>
+                </div>
+
+                <div className="flex items-center justify-between mt-4">
+                  <span className="text-xs text-white/30">{termbase.Entries.length} entries</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleDelete(termbase)}
+                      disabled={saving}
+                      className="px-3 py-1.5 text-sm text-red-400/70 hover:text-red-400 transition-colors disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      onClick={() => handleSave(termbase)}
+                      disabled={saving}
+                      className="px-4 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-sm text-white/80 transition-all disabled:opacity-40"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
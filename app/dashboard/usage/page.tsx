@@ -0,0 +1,144 @@
+'use client';
+
+/**
+ * Usage Page
+ * The current user's transcription audio, translation tokens and cost by month
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { UserMenu } from '@/components/UserMenu';
+import { UsageMonthTable, type UsageMonthData } from '@/components/UsageMonthTable';
+
+const PERIODS = [
+  { months: 3, label: '3 months' },
+  { months: 6, label: '6 months' },
+  { months: 12, label: '12 months' },
+];
+
+export default function UsagePage() {
+  const router = useRouter();
+  const [usage, setUsage] = useState<UsageMonthData[]>([]);
+  const [currency, setCurrency] = useState('USD');
+  const [months, setMonths] = useState(6);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/usage?months=${months}`);
+      const data = await res.json();
+
+      if (res.status === 401) {
+        router.push('/login');
+        return;
+      }
+
+      if (data.success) {
+        setUsage(data.data.months);
+        setCurrency(data.data.currency);
+      } else {
+        setError(data.error || 'Failed to load usage');
+      }
+    } catch {
+      setError('Failed to load usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [months, router]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="flex items-center gap-3 text-white/50">
+          <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+          Loading usage...
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-red-500/10 flex items-center justify-center">
+            <svg className="w-8 h-8 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+          </div>
+          <h2 className="text-xl font-semibold text-white mb-2">Unavailable</h2>
+          <p className="text-white/50 mb-6">{error}</p>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="px-6 py-2.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-white/70 transition-all"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a]">
+      <div className="relative max-w-6xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-10">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="p-2 -ml-2 rounded-lg hover:bg-white/5 text-white/40 hover:text-white/70 transition-all"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <h1 className="text-2xl font-semibold text-white tracking-tight">Usage</h1>
+            </div>
+            <p className="text-white/40 text-sm">
+              Audio transcribed and tokens translated, priced when each request was made
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <div className="flex bg-white/[0.03] border border-white/[0.08] rounded-xl p-1">
+              {PERIODS.map((period) => (
+                <button
+                  key={period.months}
+                  onClick={() => setMonths(period.months)}
+                  className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                    months === period.months ? 'bg-amber-500/20 text-amber-400' : 'text-white/50 hover:text-white/80'
+                  }`}
+                >
+                  {period.label}
+                </button>
+              ))}
+            </div>
+            <UserMenu />
+          </div>
+        </div>
+
+        {usage.length === 0 ? (
+          <div className="bg-white/[0.02] border border-white/[0.06] rounded-2xl px-6 py-10 text-center text-sm text-white/40">
+            No usage in this period
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {usage.map((month) => (
+              <UsageMonthTable key={month.month} month={month} currency={currency} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+'use client';
+
+/**
+ * Vocabulary Page
+ * Manage vocabulary lists that bias transcription towards the right spelling
+ * of names, product terms and acronyms
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { UserMenu } from '@/components/UserMenu';
+import { formatVocabularyText, parseVocabularyText } from '@/lib/utils/vocabulary';
+import type { VocabularyTerm } from '@/lib/types';
+
+interface VocabularyList {
+  Id: number;
+  Name: string;
+  Terms: VocabularyTerm[];
+  IsActive: boolean;
+  UpdatedAt?: string;
+}
+
+// Unsaved edits per list
+interface Draft {
+  name: string;
+  termsText: string;
+}
+
+export default function VocabularyPage() {
+  const router = useRouter();
+  const [vocabularies, setVocabularies] = useState<VocabularyList[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, Draft>>({});
+  const [savingIds, setSavingIds] = useState<Set<number>>(new Set());
+  const [creating, setCreating] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVocabularies = useCallback(async () => {
+    try {
+      const res = await fetch('/api/vocabularies');
+      const data = await res.json();
+
+      if (res.status === 401) {
+        router.push('/login');
+        return;
+      }
+
+      if (data.success) {
+        const lists: VocabularyList[] = data.data.vocabularies;
+        setVocabularies(lists);
+        setDrafts(Object.fromEntries(
+          lists.map((list) => [list.Id, { name: list.Name, termsText: formatVocabularyText(list.Terms) }])
+        ));
+      } else {
+        setError(data.error || 'Failed to load vocabularies');
+      }
+    } catch {
+      setError('Failed to load vocabularies');
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchVocabularies();
+  }, [fetchVocabularies]);
+
+  const setSaving = (id: number, saving: boolean) => {
+    setSavingIds((prev) => {
+      const next = new Set(prev);
+      if (saving) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const updateList = async (id: number, updates: Record<string, unknown>) => {
+    setSaving(id, true);
+    try {
+      const res = await fetch(`/api/vocabularies/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        alert(data.error || 'Failed to save vocabulary');
+        return;
+      }
+
+      const saved: VocabularyList = data.data;
+      setVocabularies((prev) => prev.map((list) => (list.Id === id ? saved : list)));
+      setDrafts((prev) => ({
+        ...prev,
+        [id]: { name: saved.Name, termsText: formatVocabularyText(saved.Terms) },
+      }));
+    } catch {
+      alert('Failed to save vocabulary');
+    } finally {
+      setSaving(id, false);
+    }
+  };
+
+  const handleSave = (list: VocabularyList) => {
+    const draft = drafts[list.Id];
+    if (!draft) return;
+
+    updateList(list.Id, {
+      Name: draft.name,
+      Terms: parseVocabularyText(draft.termsText),
+    });
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await fetch('/api/vocabularies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ Name: `Vocabulary ${vocabularies.length + 1}`, Terms: [] }),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        alert(data.error || 'Failed to create vocabulary');
+        return;
+      }
+
+      const created: VocabularyList = data.data;
+      setVocabularies((prev) => [...prev, created]);
+      setDrafts((prev) => ({ ...prev, [created.Id]: { name: created.Name, termsText: '' } }));
+    } catch {
+      alert('Failed to create vocabulary');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (list: VocabularyList) => {
+    if (!confirm(`Delete "${list.Name}"?`)) return;
+
+    setSaving(list.Id, true);
+    try {
+      const res = await fetch(`/api/vocabularies/${list.Id}`, { method: 'DELETE' });
+      const data = await res.json();
+
+      if (!data.success) {
+        alert(data.error || 'Failed to delete vocabulary');
+        return;
+      }
+
+      setVocabularies((prev) => prev.filter((entry) => entry.Id !== list.Id));
+    } catch {
+      alert('Failed to delete vocabulary');
+    } finally {
+      setSaving(list.Id, false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="flex items-center gap-3 text-white/50">
+          <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+          Loading vocabularies...
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold text-white mb-2">Unavailable</h2>
+          <p className="text-white/50 mb-6">{error}</p>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="px-6 py-2.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-white/70 transition-all"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a]">
+      <div className="relative max-w-4xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-10">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="p-2 -ml-2 rounded-lg hover:bg-white/5 text-white/40 hover:text-white/70 transition-all"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <h1 className="text-2xl font-semibold text-white tracking-tight">Vocabulary</h1>
+            </div>
+            <p className="text-white/40 text-sm">
+              Active lists are sent to the speech recognizer with every transcription
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-500 text-black rounded-xl text-sm font-semibold hover:from-amber-400 hover:to-orange-400 transition-all disabled:opacity-50"
+            >
+              New List
+            </button>
+            <UserMenu />
+          </div>
+        </div>
+
+        <p className="text-xs text-white/40 mb-6">
+          One term per line. Add known misspellings after a colon, e.g.{' '}
+          <span className="font-mono text-white/60">Kubernetes: cuber netes, kubernetis</span>, and
+          they are corrected after transcription when you choose to.
+        </p>
+
+        {vocabularies.length === 0 && (
+          <div className="bg-white/[0.02] border border-white/[0.06] rounded-2xl px-6 py-10 text-center text-sm text-white/40">
+            No vocabulary lists yet
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {vocabularies.map((list) => {
+            const draft = drafts[list.Id] || { name: list.Name, termsText: '' };
+            const saving = savingIds.has(list.Id);
+            const changed = draft.name !== list.Name || draft.termsText !== formatVocabularyText(list.Terms);
+
+            return (
+              <div key={list.Id} className="bg-white/[0.02] border border-white/[0.06] rounded-2xl p-5">
+                <div className="flex items-center gap-3 mb-3">
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDrafts((prev) => ({ ...prev, [list.Id]: { ...draft, name: e.target.value } }))}
+                    maxLength={100}
+                    className="flex-1 px-3 py-2 rounded-lg border border-white/[0.08] bg-white/[0.03] text-white text-sm font-medium focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                  />
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={list.IsActive}
+                      disabled={saving}
+                      onChange={(e) => updateList(list.Id, { IsActive: e.target.checked })}
+                      className="w-4 h-4 rounded border-white/20 bg-white/[0.03] accent-amber-500"
+                    />
+                    <span className="text-sm text-white/60">Active</span>
+                  </label>
+                </div>
+
+                <textarea
+                  value={draft.termsText}
+                  onChange={(e) => setDrafts((prev) => ({ ...prev, [list.Id]: { ...draft, termsText: e.target.value } }))}
+                  rows={6}
+                  placeholder="One term per line"
+                  className="w-full px-4 py-3 rounded-xl border border-white/[0.08] bg-white/[0.03] text-white text-sm font-mono placeholder:text-white/25 resize-y focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                />
+
+                <div className="flex items-center justify-between mt-3">
+                  <span className="text-xs text-white/30">{list.Terms.length} terms</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleDelete(list)}
+                      disabled={saving}
+                      className="px-3 py-1.5 text-sm text-red-400/70 hover:text-red-400 transition-colors disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      onClick={() => handleSave(list)}
+                      disabled={saving || !changed}
+                      className="px-4 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-sm text-white/80 transition-all disabled:opacity-40"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,10 +10,16 @@ import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { formatDuration } from '@/lib/utils/format';
 import { balanceSegmentText } from '@/lib/utils/segments';
+import { getFailureSuggestion, getFailureTitle, parseFailureReason } from '@/lib/utils/failures';
+import { containsTerm } from '@/lib/utils/glossary';
+import { parseTermbaseEntries } from '@/lib/utils/termbase';
 import ExportModal from '@/components/ExportModal';
 import TranslationModal from '@/components/TranslationModal';
+import SpeakerModal from '@/components/SpeakerModal';
+import GlossaryModal from '@/components/GlossaryModal';
+import RetranslateModal from '@/components/RetranslateModal';
 import { UserMenu } from '@/components/UserMenu';
-import type { Transcription, TranscriptionSegment, TranslatedSegment, File as FileType } from '@/lib/types';
+import type { Transcription, TranscriptionSegment, TranslatedSegment, Speaker, File as FileType } from '@/lib/types';
 
 // Language code to name and flag mapping
 const LANGUAGES: Record<string, { name: string; flag: string }> = {
@@ -70,6 +76,7 @@ interface SubtitleStyle {
 
 interface TranscriptionWithSegments extends Transcription {
   segments: TranscriptionSegment[];
+  speakers?: Speaker[];
 }
 
 export default function TranscriptionEditorPage() {
@@ -98,12 +105,19 @@ export default function TranscriptionEditorPage() {
 
   // Translation state
   const [showTranslationModal, setShowTranslationModal] = useState(false);
-  const [translations, setTranslations] = useState<{ language: string; segmentCount: number }[]>([]);
+  const [translations, setTranslations] = useState<{ language: string; segmentCount: number; sourceSegmentCount?: number }[]>([]);
   const [selectedLanguage, setSelectedLanguage] = useState<string | null>(null);
   const [translatedSegments, setTranslatedSegments] = useState<TranslatedSegment[]>([]);
   const [loadingTranslation, setLoadingTranslation] = useState(false);
   const [languageDropdownOpen, setLanguageDropdownOpen] = useState(false);
 
+  // Speaker state
+  const [showSpeakerModal, setShowSpeakerModal] = useState(false);
+
+  // Glossary state
+  const [showGlossaryModal, setShowGlossaryModal] = useState(false);
+  const [retranslateSegmentId, setRetranslateSegmentId] = useState<number | null>(null);
+
   // Export modal language state (separate from editor language)
   const [exportSelectedLanguage, setExportSelectedLanguage] = useState<string | null>(null);
   const [exportTranslatedSegments, setExportTranslatedSegments] = useState<TranslatedSegment[]>([]);
@@ -154,6 +168,35 @@ export default function TranscriptionEditorPage() {
     loadData();
   }, [id]);
 
+  // Reload transcription after speaker changes (diarize, rename, merge)
+  const reloadTranscription = useCallback(async () => {
+    if (!id) return;
+    const res = await fetch(`/api/transcriptions/${id}`);
+    if (res.ok) {
+      const { data } = await res.json();
+      setTranscription(data);
+    }
+  }, [id]);
+
+  // Speaker display names and segment counts by speaker Id
+  const speakerNames = useMemo(() => {
+    const names: Record<number, string> = {};
+    for (const speaker of transcription?.speakers || []) {
+      names[speaker.Id] = speaker.Name;
+    }
+    return names;
+  }, [transcription?.speakers]);
+
+  const speakerSegmentCounts = useMemo(() => {
+    const counts: Record<number, number> = {};
+    for (const segment of transcription?.segments || []) {
+      if (segment.SpeakerId) {
+        counts[segment.SpeakerId] = (counts[segment.SpeakerId] || 0) + 1;
+      }
+    }
+    return counts;
+  }, [transcription?.segments]);
+
   // Load translations
   const loadTranslations = useCallback(async () => {
     if (!id) return;
@@ -209,6 +252,23 @@ export default function TranscriptionEditorPage() {
     }
   }, [id]);
 
+  // Reload whichever text a glossary just changed
+  const handleGlossaryApplied = useCallback(async (language: string | null) => {
+    if (!language) {
+      await reloadTranscription();
+    } else if (language === selectedLanguage) {
+      await loadTranslatedSegments(language);
+    }
+  }, [reloadTranscription, selectedLanguage, loadTranslatedSegments]);
+
+  // Re-timing replaces a translation's cues - reload them if shown
+  const handleTranslationRetimed = useCallback(async (language: string) => {
+    await loadTranslations();
+    if (language === selectedLanguage) {
+      await loadTranslatedSegments(language);
+    }
+  }, [loadTranslations, selectedLanguage, loadTranslatedSegments]);
+
   // Handle language change (editor)
   const handleLanguageChange = useCallback(async (language: string | null) => {
     setSelectedLanguage(language);
@@ -470,6 +530,33 @@ export default function TranscriptionEditorPage() {
   };
 
   // Save segment text (original or translated)
+  // Reassign a segment to another speaker
+  const saveSegmentSpeaker = useCallback(async (segmentId: number, speakerId: number | null) => {
+    try {
+      const response = await fetch(`/api/segments/${segmentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ SpeakerId: speakerId }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to save speaker');
+      }
+
+      setTranscription(prev => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          segments: prev.segments.map(s =>
+            s.Id === segmentId ? { ...s, SpeakerId: speakerId } : s
+          ),
+        };
+      });
+    } catch (err) {
+      console.error('Save speaker error:', err);
+    }
+  }, []);
+
   const saveSegment = useCallback(async (segmentId: number, newText: string) => {
     if (!transcription) return;
 
@@ -496,7 +583,7 @@ export default function TranscriptionEditorPage() {
         // Update local state
         setTranslatedSegments(prev =>
           prev.map(s =>
-            s.Id === segmentId ? { ...s, TranslatedText: newText } : s
+            s.Id === segmentId ? { ...s, TranslatedText: newText, Untranslated: false } : s
           )
         );
       } catch (err) {
@@ -743,7 +830,11 @@ export default function TranscriptionEditorPage() {
   }, [editingTimeId, editingTimeField, editingTimeValue, saveTime]);
 
   // Export subtitle file
-  const handleExportSubtitle = async (format: string, language?: string) => {
+  const handleExportSubtitle = async (
+    format: string,
+    language?: string,
+    options?: { frameRate?: number; style?: SubtitleStyle; speakerLabels?: 'none' | 'prefix' | 'voice' }
+  ) => {
     if (!id) return;
 
     setExporting(true);
@@ -759,6 +850,9 @@ export default function TranscriptionEditorPage() {
           format,
           includeTimestamps: true,
           language, // Include language for translated exports
+          frameRate: options?.frameRate,
+          style: options?.style, // Burn-in style carried into TTML
+          speakerLabels: options?.speakerLabels,
         }),
       });
 
@@ -871,6 +965,7 @@ export default function TranscriptionEditorPage() {
 
   const videoUrl = file?.PreviewUrl || file?.StorageUrl || file?.AudioUrl;
   const isVideo = file?.FileType === 'video';
+  const failure = transcription.Status === 'failed' ? parseFailureReason(transcription.FailureReason) : undefined;
 
   return (
     <div className="min-h-screen bg-base text-text-primary">
@@ -988,6 +1083,29 @@ export default function TranscriptionEditorPage() {
                 )}
               </div>
             )}
+            <button
+              onClick={() => setShowSpeakerModal(true)}
+              className="h-9 px-3 text-sm bg-surface border border-border-default text-text-primary font-medium hover:bg-overlay hover:border-text-muted rounded-lg transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+              Speakers
+              {(transcription.speakers?.length || 0) > 0 && (
+                <span className="px-1.5 py-0.5 bg-accent/20 text-accent text-xs rounded-full font-medium">
+                  {transcription.speakers?.length}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => setShowGlossaryModal(true)}
+              className="h-9 px-3 text-sm bg-surface border border-border-default text-text-primary font-medium hover:bg-overlay hover:border-text-muted rounded-lg transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+              </svg>
+              Glossary
+            </button>
             <button
               onClick={() => setShowTranslationModal(true)}
               className="h-9 px-3 text-sm bg-surface border border-border-default text-text-primary font-medium hover:bg-overlay hover:border-text-muted rounded-lg transition-colors flex items-center gap-2"
@@ -1013,6 +1131,33 @@ export default function TranscriptionEditorPage() {
         </div>
       </header>
 
+      {/* Failure reason with a suggested action - retrying happens from the dashboard */}
+      {(transcription.Status === 'failed' || transcription.Status === 'cancelled') && (
+        <div className="bg-error-subtle border-b border-error/30 px-4 py-3">
+          <div className="flex items-start justify-between gap-4 max-w-[1920px] mx-auto">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-error">
+                {transcription.Status === 'cancelled'
+                  ? 'Transcription cancelled'
+                  : failure ? `Transcription failed: ${getFailureTitle(failure)}` : 'Transcription failed'}
+              </p>
+              {failure && <p className="text-xs text-text-muted mt-1 break-words">{failure.message}</p>}
+              <p className="text-sm text-text-secondary mt-1">
+                {failure
+                  ? getFailureSuggestion(failure.category)
+                  : 'Retry the transcription from the dashboard.'}
+              </p>
+            </div>
+            <Link
+              href="/dashboard"
+              className="shrink-0 text-sm text-secondary hover:text-secondary-hover underline"
+            >
+              Retry from Dashboard
+            </Link>
+          </div>
+        </div>
+      )}
+
       {/* Export Modal */}
       <ExportModal
         isOpen={showExportModal}
@@ -1028,8 +1173,43 @@ export default function TranscriptionEditorPage() {
         availableTranslations={translations}
         translatedPreviewText={exportPreviewText}
         onExportLanguageChange={handleExportLanguageChange}
+        hasSpeakers={(transcription.speakers?.length || 0) > 0}
+      />
+
+      {/* Speaker Modal */}
+      <SpeakerModal
+        isOpen={showSpeakerModal}
+        onClose={() => setShowSpeakerModal(false)}
+        transcriptionId={parseInt(id, 10)}
+        speakers={transcription.speakers || []}
+        segmentCounts={speakerSegmentCounts}
+        onSpeakersChanged={reloadTranscription}
       />
 
+      {/* Glossary Modal */}
+      <GlossaryModal
+        isOpen={showGlossaryModal}
+        onClose={() => setShowGlossaryModal(false)}
+        transcriptionId={parseInt(id, 10)}
+        sourceLanguage={transcription.Language || 'auto'}
+        availableTranslations={translations}
+        currentLanguage={selectedLanguage}
+        onApplied={handleGlossaryApplied}
+      />
+
+      {/* Re-translate Modal */}
+      {selectedLanguage && (
+        <RetranslateModal
+          isOpen={retranslateSegmentId !== null}
+          onClose={() => setRetranslateSegmentId(null)}
+          transcriptionId={parseInt(id, 10)}
+          language={selectedLanguage}
+          segments={translatedSegments}
+          startSegmentId={retranslateSegmentId}
+          onAccepted={() => loadTranslatedSegments(selectedLanguage)}
+        />
+      )}
+
       {/* Translation Modal */}
       <TranslationModal
         isOpen={showTranslationModal}
@@ -1037,7 +1217,9 @@ export default function TranscriptionEditorPage() {
         transcriptionId={parseInt(id, 10)}
         sourceLanguage={transcription.Language || 'auto'}
         existingTranslations={translations}
+        totalSegments={transcription.segments?.length || 0}
         onTranslationComplete={loadTranslations}
+        onTranslationRetimed={handleTranslationRetimed}
         onDeleteTranslation={handleDeleteTranslation}
       />
 
@@ -1072,16 +1254,27 @@ export default function TranscriptionEditorPage() {
                 const charCount = displayText.length;
                 const isEditingStartTime = editingTimeId === segment.Id && editingTimeField === 'start';
                 const isEditingEndTime = editingTimeId === segment.Id && editingTimeField === 'end';
+                // Termbase terms flagged at translation time, until the text is fixed
+                const missingTerms = parseTermbaseEntries(segment.MissingTerms).filter(
+                  (entry) => !containsTerm(displayText, entry.target, {
+                    caseSensitive: entry.caseSensitive,
+                    allowSuffix: !entry.doNotTranslate,
+                  })
+                );
 
                 return (
                   <div
                     key={segment.Id}
                     onClick={() => !isEditing && !isEditingStartTime && !isEditingEndTime && handleSeek(segment.StartTime + 0.01)}
-                    className={`px-4 py-3 border-b border-border-subtle/50 transition-colors ${
+                    className={`group px-4 py-3 border-b border-border-subtle/50 transition-colors ${
                       isEditing || isEditingStartTime || isEditingEndTime
                         ? 'bg-elevated border-l-2 border-l-secondary'
                         : isActive
                         ? 'bg-accent-subtle border-l-2 border-l-accent cursor-pointer hover:bg-surface'
+                        : segment.Untranslated
+                        ? 'bg-error/5 border-l-2 border-l-error/60 cursor-pointer hover:bg-surface'
+                        : missingTerms.length > 0
+                        ? 'border-l-2 border-l-amber-500/60 cursor-pointer hover:bg-surface'
                         : 'cursor-pointer hover:bg-surface'
                     }`}
                   >
@@ -1169,7 +1362,35 @@ export default function TranscriptionEditorPage() {
                             {segment.TranslatedText}
                           </p>
                         )}
+                        {segment.Untranslated && !isEditing && (
+                          <p className="mt-1 text-xs text-error" title="The AI returned no translation for this segment">
+                            Not translated - original text kept
+                          </p>
+                        )}
+                        {missingTerms.length > 0 && (
+                          <p
+                            className="mt-1 text-xs text-amber-400"
+                            title={missingTerms.map((entry) => `${entry.source} → ${entry.target}`).join('\n')}
+                          >
+                            Missing term{missingTerms.length === 1 ? '' : 's'}:{' '}
+                            {missingTerms.map((entry) => entry.target).join(', ')}
+                          </p>
+                        )}
                       </div>
+                      {!isEditing && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setRetranslateSegmentId(segment.Id);
+                          }}
+                          className="p-1 text-text-muted hover:text-accent hover:bg-overlay rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="Re-translate from this segment"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                          </svg>
+                        </button>
+                      )}
                     </div>
                   </div>
                 );
@@ -1274,12 +1495,30 @@ export default function TranscriptionEditorPage() {
                             </div>
                           </div>
                         ) : (
-                          <p
-                            onClick={(e) => startEditing(segment.Id, segment.Text, e)}
-                            className="text-text-primary leading-relaxed hover:bg-overlay/50 rounded px-2 py-1 -mx-2 -my-1 cursor-text whitespace-pre-line"
-                          >
-                            {segment.Text}
-                          </p>
+                          <>
+                            {(transcription.speakers?.length || 0) > 0 && (
+                              <select
+                                value={segment.SpeakerId ?? ''}
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={(e) => saveSegmentSpeaker(segment.Id, e.target.value ? parseInt(e.target.value, 10) : null)}
+                                className="mb-1 -ml-1 px-1 py-0.5 bg-transparent hover:bg-overlay/50 rounded text-xs font-medium text-secondary focus:outline-none focus:ring-1 focus:ring-secondary cursor-pointer"
+                                title="Speaker"
+                              >
+                                <option value="">No speaker</option>
+                                {transcription.speakers?.map((speaker) => (
+                                  <option key={speaker.Id} value={speaker.Id}>
+                                    {speakerNames[speaker.Id]}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                            <p
+                              onClick={(e) => startEditing(segment.Id, segment.Text, e)}
+                              className="text-text-primary leading-relaxed hover:bg-overlay/50 rounded px-2 py-1 -mx-2 -my-1 cursor-text whitespace-pre-line"
+                            >
+                              {segment.Text}
+                            </p>
+                          </>
                         )}
                       </div>
                     </div>
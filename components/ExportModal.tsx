@@ -22,6 +22,14 @@ interface BurnExportOptions {
   resolution: '720p' | '1080p' | '4k';
 }
 
+type SpeakerLabelMode = 'none' | 'prefix' | 'voice';
+
+interface SubtitleExportOptions {
+  frameRate?: number; // EBU-STL only
+  style?: SubtitleStyle; // TTML only
+  speakerLabels?: SpeakerLabelMode;
+}
+
 interface TranslationOption {
   language: string;
   segmentCount: number;
@@ -33,7 +41,7 @@ interface ExportModalProps {
   videoUrl?: string;
   isVideo: boolean;
   currentSegmentText?: string;
-  onExportSubtitle: (format: string, language?: string) => Promise<void>;
+  onExportSubtitle: (format: string, language?: string, options?: SubtitleExportOptions) => Promise<void>;
   onExportBurnedVideo: (options: BurnExportOptions, language?: string) => Promise<void>;
   exporting: boolean;
   exportProgress: string;
@@ -41,6 +49,7 @@ interface ExportModalProps {
   availableTranslations?: TranslationOption[];
   translatedPreviewText?: string; // Preview text for currently selected language
   onExportLanguageChange?: (language: string | null) => void; // Called when language changes in export modal
+  hasSpeakers?: boolean; // Show speaker label options when the transcription has speakers
 }
 
 const DEFAULT_STYLE: SubtitleStyle = {
@@ -84,6 +93,20 @@ const LANGUAGE_NAMES: Record<string, { name: string; flag: string }> = {
   vi: { name: 'Vietnamese', flag: '🇻🇳' },
 };
 
+// Speaker label options for subtitle file export
+const SPEAKER_LABEL_OPTIONS: { value: SpeakerLabelMode; label: string; desc: string }[] = [
+  { value: 'none', label: 'None', desc: 'Text only' },
+  { value: 'prefix', label: 'Name prefix', desc: '"Anna: ..." on speaker change' },
+  { value: 'voice', label: 'Voice tags', desc: 'VTT <v>, ASS Name, else prefix' },
+];
+
+// Frame rates supported by EBU-STL export
+const STL_FRAME_RATES = [
+  { value: 25, label: '25 fps', desc: 'PAL' },
+  { value: 29.97, label: '29.97 fps', desc: 'NTSC' },
+  { value: 30, label: '30 fps', desc: 'Web' },
+];
+
 function getLanguageInfo(code: string): { name: string; flag: string } {
   return LANGUAGE_NAMES[code.toLowerCase()] || { name: code.toUpperCase(), flag: '🌐' };
 }
@@ -102,6 +125,7 @@ export default function ExportModal({
   availableTranslations = [],
   translatedPreviewText,
   onExportLanguageChange,
+  hasSpeakers = false,
 }: ExportModalProps) {
   const [mode, setMode] = useState<'select' | 'subtitle' | 'burnin'>('select');
   const [style, setStyle] = useState<SubtitleStyle>(DEFAULT_STYLE);
@@ -109,6 +133,8 @@ export default function ExportModal({
   const videoRef = useRef<HTMLVideoElement>(null);
   const [previewText, setPreviewText] = useState('Sample subtitle text for preview');
   const [selectedLanguage, setSelectedLanguage] = useState<string>(''); // '' means original
+  const [stlFrameRate, setStlFrameRate] = useState(25);
+  const [speakerLabels, setSpeakerLabels] = useState<SpeakerLabelMode>('prefix');
 
   // Notify parent when language changes so it can load the translated segments
   useEffect(() => {
@@ -312,10 +338,18 @@ export default function ExportModal({
                       { format: 'vtt', name: 'VTT', desc: 'WebVTT - For web players' },
                       { format: 'ass', name: 'ASS', desc: 'Advanced SubStation Alpha' },
                       { format: 'txt', name: 'TXT', desc: 'Plain text transcript' },
+                      { format: 'stl', name: 'EBU-STL', desc: 'Broadcast (Tech 3264)' },
+                      { format: 'ttml', name: 'TTML', desc: 'IMSC1.1 - Styled for streaming' },
                     ].map(({ format, name, desc }) => (
                       <button
                         key={format}
-                        onClick={() => onExportSubtitle(format, selectedLanguage || undefined)}
+                        onClick={() =>
+                          onExportSubtitle(format, selectedLanguage || undefined, {
+                            ...(format === 'stl' && { frameRate: stlFrameRate }),
+                            ...(format === 'ttml' && { style }),
+                            ...(hasSpeakers && { speakerLabels }),
+                          })
+                        }
                         className="p-4 bg-surface hover:bg-overlay border border-border-subtle hover:border-accent/50 rounded-xl text-left transition-all group"
                       >
                         <div className="font-mono text-lg font-bold text-accent group-hover:text-accent-hover">
@@ -326,6 +360,55 @@ export default function ExportModal({
                       </button>
                     ))}
                   </div>
+
+                  {/* Speaker labels - only when speakers were detected or imported */}
+                  {hasSpeakers && (
+                    <div className="p-4 bg-surface border border-border-subtle rounded-xl">
+                      <label className="block text-xs font-medium text-text-muted uppercase tracking-wider mb-3">
+                        Speaker Labels
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        {SPEAKER_LABEL_OPTIONS.map(({ value, label, desc }) => (
+                          <button
+                            key={value}
+                            onClick={() => setSpeakerLabels(value)}
+                            title={desc}
+                            className={`px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all ${
+                              speakerLabels === value
+                                ? 'bg-accent text-black'
+                                : 'bg-overlay text-text-primary hover:bg-border-subtle'
+                            }`}
+                          >
+                            <span>{label}</span>
+                            <span className={speakerLabels === value ? 'text-black/60' : 'text-text-muted'}>{desc}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* EBU-STL frame rate */}
+                  <div className="p-4 bg-surface border border-border-subtle rounded-xl">
+                    <label className="block text-xs font-medium text-text-muted uppercase tracking-wider mb-3">
+                      EBU-STL Frame Rate
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {STL_FRAME_RATES.map(({ value, label, desc }) => (
+                        <button
+                          key={value}
+                          onClick={() => setStlFrameRate(value)}
+                          className={`px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all ${
+                            stlFrameRate === value
+                              ? 'bg-accent text-black'
+                              : 'bg-overlay text-text-primary hover:bg-border-subtle'
+                          }`}
+                        >
+                          <span>{label}</span>
+                          <span className={stlFrameRate === value ? 'text-black/60' : 'text-text-muted'}>{desc}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                 </div>
               )}
 
@@ -0,0 +1,318 @@
+'use client';
+
+/**
+ * Glossary Modal Component
+ * Preview glossary replacements in the transcript or a translation and apply the accepted ones
+ */
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { formatDuration } from '@/lib/utils/format';
+import type { GlossaryMatch, GlossarySegmentChange } from '@/lib/utils/glossary';
+import type { GlossaryTerm } from '@/lib/types';
+
+interface GlossaryOption {
+  Id: number;
+  Name: string;
+  Terms: GlossaryTerm[];
+  Language: string;
+  IsActive: boolean;
+}
+
+interface GlossaryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transcriptionId: number;
+  sourceLanguage: string;
+  availableTranslations: { language: string; segmentCount: number }[];
+  currentLanguage: string | null; // Translation shown in the editor, null for the original
+  onApplied: (language: string | null) => Promise<void>; // Reload the changed segments
+}
+
+/**
+ * Text with the matched ranges highlighted - either the old wording or the replacement
+ */
+function HighlightedText({ text, matches, replaced }: { text: string; matches: GlossaryMatch[]; replaced: boolean }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  matches.forEach((match, index) => {
+    parts.push(text.slice(position, match.start));
+    parts.push(
+      <mark
+        key={index}
+        className={replaced ? 'bg-success/20 text-success rounded px-0.5' : 'bg-error/20 text-error line-through rounded px-0.5'}
+      >
+        {replaced ? match.replacement : match.text}
+      </mark>
+    );
+    position = match.end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+export default function GlossaryModal({
+  isOpen,
+  onClose,
+  transcriptionId,
+  sourceLanguage,
+  availableTranslations,
+  currentLanguage,
+  onApplied,
+}: GlossaryModalProps) {
+  const [glossaries, setGlossaries] = useState<GlossaryOption[]>([]);
+  const [glossaryId, setGlossaryId] = useState<number | null>(null);
+  const [target, setTarget] = useState<string>(''); // '' = original transcript
+  const [changes, setChanges] = useState<GlossarySegmentChange[] | null>(null);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState<'loading' | 'preview' | 'apply' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  // Load active glossaries when opened, preferring one for the language being edited
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const language = currentLanguage || '';
+    setTarget(language);
+    setChanges(null);
+    setError(null);
+    setResult(null);
+    setBusy('loading');
+
+    fetch('/api/glossaries')
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error || 'Failed to load glossaries');
+        const active = (data.data.glossaries as GlossaryOption[]).filter((glossary) => glossary.IsActive);
+        const textLanguage = language || sourceLanguage;
+        const preferred = active.find((glossary) => glossary.Language === textLanguage) || active[0];
+        setGlossaries(active);
+        setGlossaryId(preferred?.Id ?? null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load glossaries'))
+      .finally(() => setBusy(null));
+  }, [isOpen, currentLanguage, sourceLanguage]);
+
+  if (!isOpen) return null;
+
+  const request = async (preview: boolean, segmentIds?: number[]) => {
+    const res = await fetch(`/api/glossaries/${glossaryId}/apply`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        transcriptionId,
+        ...(target && { language: target }),
+        preview,
+        ...(segmentIds && { segmentIds }),
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+      throw new Error(data.error || 'Failed to apply glossary');
+    }
+    return data.data as { changes: GlossarySegmentChange[]; applied: number };
+  };
+
+  const handlePreview = async () => {
+    if (!glossaryId) return;
+
+    setBusy('preview');
+    setError(null);
+    setResult(null);
+    try {
+      const { changes: previewed } = await request(true);
+      setChanges(previewed);
+      setAccepted(new Set(previewed.map((change) => change.segmentId)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview glossary');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!glossaryId || accepted.size === 0) return;
+
+    setBusy('apply');
+    setError(null);
+    try {
+      const { applied } = await request(false, [...accepted]);
+      setChanges(null);
+      setResult(`Updated ${applied} segment${applied === 1 ? '' : 's'}`);
+      await onApplied(target || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply glossary');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleChange = (segmentId: number) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (next.has(segmentId)) {
+        next.delete(segmentId);
+      } else {
+        next.add(segmentId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-elevated rounded-2xl shadow-2xl border border-border-subtle overflow-hidden w-full max-w-2xl max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border-subtle bg-surface">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-overlay rounded-lg">
+              <svg className="w-5 h-5 text-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-semibold text-text-primary">Apply Glossary</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-overlay rounded-lg transition-colors text-text-muted hover:text-text-primary"
+            disabled={busy === 'apply'}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+              {error}
+            </div>
+          )}
+          {result && (
+            <div className="p-3 bg-success/10 border border-success/30 rounded-lg text-sm text-success">
+              {result}
+            </div>
+          )}
+
+          {busy !== 'loading' && glossaries.length === 0 ? (
+            <p className="text-sm text-text-muted">
+              No active glossaries.{' '}
+              <Link href="/dashboard/glossaries" className="text-secondary hover:text-secondary-hover underline">
+                Create one
+              </Link>{' '}
+              to replace terms across the whole transcript.
+            </p>
+          ) : (
+            <div className="flex items-center gap-3">
+              <select
+                value={glossaryId ?? ''}
+                onChange={(e) => {
+                  setGlossaryId(parseInt(e.target.value, 10));
+                  setChanges(null);
+                }}
+                disabled={busy !== null}
+                className="flex-1 px-3 py-2 bg-surface border border-border-default rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+              >
+                {glossaries.map((glossary) => (
+                  <option key={glossary.Id} value={glossary.Id}>
+                    {glossary.Name} ({glossary.Terms.length} terms{glossary.Language ? `, ${glossary.Language}` : ''})
+                  </option>
+                ))}
+              </select>
+              <select
+                value={target}
+                onChange={(e) => {
+                  setTarget(e.target.value);
+                  setChanges(null);
+                }}
+                disabled={busy !== null}
+                className="w-44 px-3 py-2 bg-surface border border-border-default rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+              >
+                <option value="">Original ({sourceLanguage})</option>
+                {availableTranslations.map((translation) => (
+                  <option key={translation.language} value={translation.language}>
+                    Translation ({translation.language})
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handlePreview}
+                disabled={!glossaryId || busy !== null}
+                className="h-9 px-4 text-sm bg-overlay border border-border-default text-text-primary font-medium hover:bg-border-subtle rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busy === 'preview' ? 'Finding...' : 'Preview'}
+              </button>
+            </div>
+          )}
+
+          {changes && changes.length === 0 && (
+            <p className="text-sm text-text-muted">Nothing to replace - no glossary terms found.</p>
+          )}
+
+          {changes && changes.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs text-text-muted">
+                <span>{changes.length} segments would change</span>
+                <button
+                  onClick={() => setAccepted(
+                    accepted.size === changes.length ? new Set() : new Set(changes.map((change) => change.segmentId))
+                  )}
+                  className="text-secondary hover:text-secondary-hover"
+                >
+                  {accepted.size === changes.length ? 'Deselect all' : 'Select all'}
+                </button>
+              </div>
+              {changes.map((change) => (
+                <label
+                  key={change.segmentId}
+                  className="flex items-start gap-3 p-3 bg-surface border border-border-subtle rounded-xl cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={accepted.has(change.segmentId)}
+                    onChange={() => toggleChange(change.segmentId)}
+                    className="mt-1 w-4 h-4 accent-amber-500"
+                  />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <span className="text-xs font-mono text-text-muted">{formatDuration(change.startTime)}</span>
+                    <p className="text-sm text-text-secondary whitespace-pre-line">
+                      <HighlightedText text={change.text} matches={change.matches} replaced={false} />
+                    </p>
+                    <p className="text-sm text-text-primary whitespace-pre-line">
+                      <HighlightedText text={change.text} matches={change.matches} replaced />
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {changes && changes.length > 0 && (
+          <div className="px-6 py-4 border-t border-border-subtle bg-surface flex items-center justify-end gap-3">
+            <button
+              onClick={() => setChanges(null)}
+              disabled={busy !== null}
+              className="px-4 py-2 text-sm text-text-muted hover:text-text-primary transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={accepted.size === 0 || busy !== null}
+              className="h-9 px-4 text-sm bg-accent text-black font-medium hover:bg-accent-hover rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'apply' ? 'Applying...' : `Apply ${accepted.size} change${accepted.size === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+'use client';
+
+/**
+ * Re-translate Modal Component
+ * Generate alternative translations for a segment or range and accept them side by side
+ */
+
+import { useState, useEffect } from 'react';
+import { formatDuration } from '@/lib/utils/format';
+import { useTranslationProviders } from '@/components/TranslationModal';
+import type { TranslatedSegment } from '@/lib/types';
+
+// Matches the limit of the re-translate API
+const MAX_RANGE = 25;
+
+const INSTRUCTION_PRESETS = ['More formal', 'More casual', 'Shorter', 'Closer to the original'];
+
+interface Alternative {
+  segmentId: number;
+  segmentIndex: number;
+  sourceText: string;
+  currentText: string;
+  newText: string;
+}
+
+interface RetranslateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transcriptionId: number;
+  language: string;
+  segments: TranslatedSegment[];  // Translated segments in display order
+  startSegmentId: number | null;
+  onAccepted: () => Promise<void>;  // Reload the changed segments
+}
+
+export default function RetranslateModal({
+  isOpen,
+  onClose,
+  transcriptionId,
+  language,
+  segments,
+  startSegmentId,
+  onAccepted,
+}: RetranslateModalProps) {
+  const [endSegmentId, setEndSegmentId] = useState<number | null>(null);
+  const [instruction, setInstruction] = useState('');
+  const [model, setModel] = useState('');
+  const [alternatives, setAlternatives] = useState<Alternative[] | null>(null);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState<'generate' | 'accept' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const providers = useTranslationProviders(isOpen);
+
+  // Default to the first configured model once providers load
+  useEffect(() => {
+    if (!model && providers.length > 0) {
+      setModel(`${providers[0].id}:${providers[0].models[0].id}`);
+    }
+  }, [model, providers]);
+
+  // Start from a single segment each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setEndSegmentId(startSegmentId);
+    setAlternatives(null);
+    setError(null);
+    setResult(null);
+  }, [isOpen, startSegmentId]);
+
+  if (!isOpen || startSegmentId === null) return null;
+
+  const startPosition = segments.findIndex((segment) => segment.Id === startSegmentId);
+  if (startPosition === -1) return null;
+
+  const rangeOptions = segments.slice(startPosition, startPosition + MAX_RANGE);
+  const endPosition = Math.max(
+    startPosition,
+    segments.findIndex((segment) => segment.Id === endSegmentId)
+  );
+  const range = segments.slice(startPosition, endPosition + 1);
+
+  const handleGenerate = async () => {
+    const [provider, ...modelId] = model.split(':');
+
+    setBusy('generate');
+    setError(null);
+    setResult(null);
+    try {
+      const res = await fetch(`/api/translate/${transcriptionId}/retranslate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          language,
+          segmentIds: range.map((segment) => segment.Id),
+          instruction: instruction.trim() || undefined,
+          provider: provider || undefined,
+          model: modelId.join(':') || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Re-translation failed');
+      }
+
+      const generated = data.data.alternatives as Alternative[];
+      setAlternatives(generated);
+      setAccepted(new Set(
+        generated
+          .filter((alternative) => alternative.newText !== alternative.currentText)
+          .map((alternative) => alternative.segmentId)
+      ));
+      if (data.data.untranslated.length > 0) {
+        setError(`No alternative was returned for ${data.data.untranslated.length} segment(s)`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Re-translation failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!alternatives || accepted.size === 0) return;
+
+    setBusy('accept');
+    setError(null);
+    try {
+      const chosen = alternatives.filter((alternative) => accepted.has(alternative.segmentId));
+      const responses = await Promise.all(
+        chosen.map((alternative) =>
+          fetch(`/api/translated-segments/${alternative.segmentId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ TranslatedText: alternative.newText }),
+          })
+        )
+      );
+      const failed = responses.filter((res) => !res.ok).length;
+
+      setAlternatives(null);
+      setResult(`Updated ${chosen.length - failed} segment${chosen.length - failed === 1 ? '' : 's'}`);
+      if (failed > 0) {
+        setError(`Failed to save ${failed} segment${failed === 1 ? '' : 's'}`);
+      }
+      await onAccepted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save translations');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleAlternative = (segmentId: number) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (next.has(segmentId)) {
+        next.delete(segmentId);
+      } else {
+        next.add(segmentId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-elevated rounded-2xl shadow-2xl border border-border-subtle overflow-hidden w-full max-w-4xl max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border-subtle bg-surface">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-overlay rounded-lg">
+              <svg className="w-5 h-5 text-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-text-primary">Re-translate</h2>
+              <p className="text-xs text-text-muted">
+                {language.toUpperCase()} - segment{range.length === 1 ? '' : 's'} {startPosition + 1}
+                {range.length > 1 && `-${endPosition + 1}`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-overlay rounded-lg transition-colors text-text-muted hover:text-text-primary"
+            disabled={busy === 'accept'}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+              {error}
+            </div>
+          )}
+          {result && (
+            <div className="p-3 bg-success/10 border border-success/30 rounded-lg text-sm text-success">
+              {result}
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <label className="text-sm text-text-secondary whitespace-nowrap">Through segment</label>
+            <select
+              value={endSegmentId ?? ''}
+              onChange={(e) => {
+                setEndSegmentId(parseInt(e.target.value, 10));
+                setAlternatives(null);
+              }}
+              disabled={busy !== null}
+              className="w-56 px-3 py-2 bg-surface border border-border-default rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+            >
+              {rangeOptions.map((segment, offset) => (
+                <option key={segment.Id} value={segment.Id}>
+                  #{startPosition + offset + 1} ({formatDuration(segment.StartTime)})
+                </option>
+              ))}
+            </select>
+            <select
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              disabled={busy !== null}
+              className="flex-1 px-3 py-2 bg-surface border border-border-default rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+            >
+              {providers.map((provider) => (
+                <optgroup key={provider.id} label={provider.name}>
+                  {provider.models.map((option) => (
+                    <option key={option.id} value={`${provider.id}:${option.id}`}>
+                      {option.name}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && busy === null && handleGenerate()}
+              placeholder="Instruction (optional), e.g. more formal, shorter"
+              maxLength={500}
+              disabled={busy !== null}
+              className="w-full px-3 py-2 bg-surface border border-border-default rounded-lg text-sm text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              {INSTRUCTION_PRESETS.map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => setInstruction(preset)}
+                  disabled={busy !== null}
+                  className="px-2.5 py-1 text-xs bg-overlay border border-border-subtle text-text-secondary hover:text-text-primary rounded-full transition-colors"
+                >
+                  {preset}
+                </button>
+              ))}
+              <button
+                onClick={handleGenerate}
+                disabled={busy !== null || !model}
+                className="ml-auto h-9 px-4 text-sm bg-overlay border border-border-default text-text-primary font-medium hover:bg-border-subtle rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busy === 'generate' ? 'Translating...' : alternatives ? 'Try again' : 'Generate alternative'}
+              </button>
+            </div>
+          </div>
+
+          {alternatives && alternatives.length > 0 && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1rem_1fr_1fr] gap-3 px-3 text-xs text-text-muted">
+                <span />
+                <span>Current</span>
+                <span>Alternative</span>
+              </div>
+              {alternatives.map((alternative) => (
+                <label
+                  key={alternative.segmentId}
+                  className="grid grid-cols-[1rem_1fr_1fr] gap-3 p-3 bg-surface border border-border-subtle rounded-xl cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={accepted.has(alternative.segmentId)}
+                    onChange={() => toggleAlternative(alternative.segmentId)}
+                    className="mt-1 w-4 h-4 accent-amber-500"
+                  />
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-xs text-text-muted whitespace-pre-line" title="Original text">
+                      {alternative.sourceText}
+                    </p>
+                    <p className="text-sm text-text-secondary whitespace-pre-line">{alternative.currentText}</p>
+                  </div>
+                  <p
+                    className={`text-sm whitespace-pre-line ${
+                      alternative.newText === alternative.currentText ? 'text-text-muted' : 'text-text-primary'
+                    }`}
+                  >
+                    {alternative.newText}
+                  </p>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {alternatives && alternatives.length > 0 && (
+          <div className="px-6 py-4 border-t border-border-subtle bg-surface flex items-center justify-end gap-3">
+            <button
+              onClick={() => setAlternatives(null)}
+              disabled={busy !== null}
+              className="px-4 py-2 text-sm text-text-muted hover:text-text-primary transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleAccept}
+              disabled={accepted.size === 0 || busy !== null}
+              className="h-9 px-4 text-sm bg-accent text-black font-medium hover:bg-accent-hover rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'accept' ? 'Saving...' : `Accept ${accepted.size} alternative${accepted.size === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
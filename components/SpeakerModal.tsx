@@ -0,0 +1,296 @@
+'use client';
+
+/**
+ * Speaker Modal Component
+ * Detect speakers, rename them and merge duplicates
+ */
+
+import { useState, useEffect } from 'react';
+import type { FailureDetails, MediaJob, Speaker } from '@/lib/types';
+
+const DETECT_POLL_INTERVAL_MS = 2000;
+
+// GET /api/transcriptions/:id/diarize
+interface DetectionStatus {
+  jobId: number;
+  status: MediaJob['Status'];
+  progress: number;
+  failureReason: FailureDetails | null;
+}
+
+interface SpeakerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transcriptionId: number;
+  speakers: Speaker[];
+  segmentCounts: Record<number, number>; // Speaker Id -> number of segments
+  onSpeakersChanged: () => Promise<void>; // Reload speakers and segments after a change
+}
+
+export default function SpeakerModal({
+  isOpen,
+  onClose,
+  transcriptionId,
+  speakers,
+  segmentCounts,
+  onSpeakersChanged,
+}: SpeakerModalProps) {
+  const [names, setNames] = useState<Record<number, string>>({});
+  const [mergeTargets, setMergeTargets] = useState<Record<number, string>>({});
+  const [numSpeakers, setNumSpeakers] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Detection runs as a background job - set while it is queued or running
+  const [detectProgress, setDetectProgress] = useState<number | null>(null);
+  const detecting = detectProgress !== null;
+
+  // Pick up a detection that is still running (e.g. after a page reload)
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch(`/api/transcriptions/${transcriptionId}/diarize`)
+      .then((res) => res.json())
+      .then((data) => {
+        const status: DetectionStatus | null = data.data;
+        if (status && (status.status === 'pending' || status.status === 'processing')) {
+          setDetectProgress(status.progress || 0);
+        }
+      })
+      .catch(() => {});
+  }, [isOpen, transcriptionId]);
+
+  // Poll the detection job until it ends, then reload speakers and segments
+  useEffect(() => {
+    if (!detecting) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const res = await fetch(`/api/transcriptions/${transcriptionId}/diarize`);
+        const data = await res.json();
+        const status: DetectionStatus | null = data.data;
+        if (!status) return;
+
+        if (status.status === 'completed') {
+          setDetectProgress(null);
+          await onSpeakersChanged();
+        } else if (status.status === 'failed' || status.status === 'cancelled') {
+          setDetectProgress(null);
+          setError(status.failureReason?.message || 'Failed to detect speakers');
+        } else {
+          setDetectProgress(status.progress || 0);
+        }
+      } catch {
+        // Keep polling - the next request may succeed
+      }
+    }, DETECT_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [detecting, transcriptionId, onSpeakersChanged]);
+
+  // Reset edit state whenever the speaker list changes
+  useEffect(() => {
+    setNames(Object.fromEntries(speakers.map((speaker) => [speaker.Id, speaker.Name])));
+    setMergeTargets({});
+  }, [speakers]);
+
+  if (!isOpen) return null;
+
+  const handleRename = async (speaker: Speaker) => {
+    const name = (names[speaker.Id] || '').trim();
+    if (!name || name === speaker.Name) {
+      setNames((prev) => ({ ...prev, [speaker.Id]: speaker.Name }));
+      return;
+    }
+
+    setBusy(`rename-${speaker.Id}`);
+    setError(null);
+    try {
+      const res = await fetch(`/api/speakers/${speaker.Id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ Name: name }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to rename speaker');
+      }
+      await onSpeakersChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename speaker');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleMerge = async (speaker: Speaker) => {
+    const targetId = mergeTargets[speaker.Id];
+    if (!targetId) return;
+
+    setBusy(`merge-${speaker.Id}`);
+    setError(null);
+    try {
+      const res = await fetch(`/api/speakers/${speaker.Id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetSpeakerId: parseInt(targetId, 10) }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to merge speakers');
+      }
+      await onSpeakersChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge speakers');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDetect = async () => {
+    if (speakers.length > 0 && !confirm('Detecting speakers again replaces the current speakers and names. Continue?')) {
+      return;
+    }
+
+    setBusy('detect');
+    setError(null);
+    try {
+      const count = parseInt(numSpeakers, 10);
+      const res = await fetch(`/api/transcriptions/${transcriptionId}/diarize`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(Number.isInteger(count) && count > 0 ? { numSpeakers: count } : {}),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to detect speakers');
+      }
+      setDetectProgress(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to detect speakers');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-elevated rounded-2xl shadow-2xl border border-border-subtle overflow-visible w-full max-w-lg">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border-subtle bg-surface">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-overlay rounded-lg">
+              <svg className="w-5 h-5 text-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-semibold text-text-primary">Speakers</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-overlay rounded-lg transition-colors text-text-muted hover:text-text-primary"
+            disabled={busy === 'detect'}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+              {error}
+            </div>
+          )}
+
+          {speakers.length === 0 ? (
+            <p className="text-sm text-text-muted">
+              No speakers yet. Detect speakers to label who is talking in each segment.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {speakers.map((speaker) => (
+                <div
+                  key={speaker.Id}
+                  className="p-3 bg-surface border border-border-subtle rounded-xl space-y-2"
+                >
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="text"
+                      value={names[speaker.Id] ?? speaker.Name}
+                      onChange={(e) => setNames((prev) => ({ ...prev, [speaker.Id]: e.target.value }))}
+                      onBlur={() => handleRename(speaker)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                      }}
+                      maxLength={100}
+                      disabled={busy !== null}
+                      className="flex-1 px-3 py-1.5 bg-overlay border border-border-default rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
+                    />
+                    <span className="text-xs text-text-muted whitespace-nowrap">
+                      {segmentCounts[speaker.Id] || 0} segments
+                    </span>
+                  </div>
+                  {speakers.length > 1 && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-text-muted">Merge into</span>
+                      <select
+                        value={mergeTargets[speaker.Id] || ''}
+                        onChange={(e) => setMergeTargets((prev) => ({ ...prev, [speaker.Id]: e.target.value }))}
+                        disabled={busy !== null}
+                        className="flex-1 px-2 py-1 bg-overlay border border-border-default rounded-lg text-xs text-text-primary focus:outline-none"
+                      >
+                        <option value="">Select speaker...</option>
+                        {speakers
+                          .filter((other) => other.Id !== speaker.Id)
+                          .map((other) => (
+                            <option key={other.Id} value={other.Id}>
+                              {other.Name}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        onClick={() => handleMerge(speaker)}
+                        disabled={!mergeTargets[speaker.Id] || busy !== null}
+                        className="px-3 py-1 text-xs bg-overlay border border-border-default text-text-primary font-medium hover:bg-border-subtle rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {busy === `merge-${speaker.Id}` ? 'Merging...' : 'Merge'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Detect speakers */}
+          <div className="pt-4 border-t border-border-subtle flex items-center gap-3">
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={numSpeakers}
+              onChange={(e) => setNumSpeakers(e.target.value)}
+              placeholder="Auto"
+              title="Number of speakers (leave empty to estimate)"
+              disabled={busy !== null || detecting}
+              className="w-20 px-3 py-2 bg-surface border border-border-default rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
+            />
+            <button
+              onClick={handleDetect}
+              disabled={busy !== null || detecting}
+              className="flex-1 h-9 px-4 text-sm bg-accent text-black font-medium hover:bg-accent-hover rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {(busy === 'detect' || detecting) && (
+                <div className="w-4 h-4 border-2 border-black/30 border-t-black rounded-full animate-spin" />
+              )}
+              {busy === 'detect' || detecting
+                ? `Detecting speakers...${detectProgress ? ` ${detectProgress}%` : ''}`
+                : speakers.length > 0 ? 'Detect speakers again' : 'Detect speakers'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
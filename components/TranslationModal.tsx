@@ -6,29 +6,35 @@
  */
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { termbaseMatchesLanguages } from '@/lib/utils/termbase';
+import { DEFAULT_SUBTITLE_LAYOUT } from '@/lib/utils/reading-speed';
+import type { ProviderInfo } from '@/lib/types';
 
-// Translation providers (Berget first as default)
-const PROVIDERS = [
-  {
-    id: 'berget',
-    name: 'Berget AI',
-    flag: '🇸🇪',
-    description: 'Swedish AI - EU data residency',
-    models: [
-      { id: 'openai/gpt-oss-120b', name: 'GPT-OSS 120B', description: 'Reasoning model (Recommended)' },
-      { id: 'mistralai/Mistral-Small-3.2-24B-Instruct-2506', name: 'Mistral Small', description: 'Fast and efficient' },
-    ],
-  },
-  {
-    id: 'openai',
-    name: 'OpenAI',
-    flag: '🇺🇸',
-    description: 'GPT-4.1 - Fast and reliable',
-    models: [
-      { id: 'gpt-4.1', name: 'GPT-4.1', description: 'Best quality' },
-      { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini', description: 'Faster, lower cost' },
-    ],
-  },
+/**
+ * Translation providers configured on the server, from the provider registry
+ */
+export function useTranslationProviders(enabled: boolean): ProviderInfo[] {
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    fetch('/api/providers?kind=translation')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result) => setProviders(result?.data?.providers || []))
+      .catch(() => setProviders([]));
+  }, [enabled]);
+
+  return providers;
+}
+
+// Reading speeds offered for character budgets
+const READING_SPEEDS = [
+  { cps: 12, name: 'Slow (12 chars/s)' },
+  { cps: 15, name: 'Relaxed (15 chars/s)' },
+  { cps: 17, name: 'Standard (17 chars/s)' },
+  { cps: 20, name: 'Fast (20 chars/s)' },
 ];
 
 // Supported languages for translation
@@ -62,9 +68,19 @@ const LANGUAGES = [
   { code: 'vi', name: 'Vietnamese', flag: '🇻🇳' },
 ];
 
+interface TermbaseOption {
+  Id: number;
+  Name: string;
+  SourceLanguage: string;
+  TargetLanguage: string;
+  Entries: unknown[];
+  IsActive: boolean;
+}
+
 interface ExistingTranslation {
   language: string;
   segmentCount: number;
+  sourceSegmentCount?: number; // Source segments covered - differs from segmentCount once re-timed
 }
 
 interface TranslationModalProps {
@@ -73,7 +89,9 @@ interface TranslationModalProps {
   transcriptionId: number;
   sourceLanguage: string;
   existingTranslations: ExistingTranslation[];
+  totalSegments: number; // Segments in the transcript - fewer translated means an interrupted translation
   onTranslationComplete: () => void;
+  onTranslationRetimed: (language: string) => Promise<void>; // Reload the replaced cues
   onDeleteTranslation: (language: string) => Promise<void>;
 }
 
@@ -83,70 +101,149 @@ export default function TranslationModal({
   transcriptionId,
   sourceLanguage,
   existingTranslations,
+  totalSegments,
   onTranslationComplete,
+  onTranslationRetimed,
   onDeleteTranslation,
 }: TranslationModalProps) {
   const [mode, setMode] = useState<'select' | 'translating' | 'manage'>('select');
   const [selectedLanguage, setSelectedLanguage] = useState('');
-  const [selectedProvider, setSelectedProvider] = useState(PROVIDERS[0].id);
-  const [selectedModel, setSelectedModel] = useState(PROVIDERS[0].models[0].id);
+  const [selectedProvider, setSelectedProvider] = useState('');
+  const [selectedModel, setSelectedModel] = useState('');
   const [translating, setTranslating] = useState(false);
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [approving, setApproving] = useState<string | null>(null);
+  const [retiming, setRetiming] = useState<string | null>(null);
+  const [retime, setRetime] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [useMemory, setUseMemory] = useState(true);
+  const [charsPerSecond, setCharsPerSecond] = useState(DEFAULT_SUBTITLE_LAYOUT.charsPerSecond);
   const [languageDropdownOpen, setLanguageDropdownOpen] = useState(false);
   const [providerDropdownOpen, setProviderDropdownOpen] = useState(false);
+  const [termbases, setTermbases] = useState<TermbaseOption[]>([]);
+  const [selectedTermbases, setSelectedTermbases] = useState<Set<number>>(new Set());
+  const providers = useTranslationProviders(isOpen);
 
   // Get current provider and model info
-  const currentProvider = PROVIDERS.find((p) => p.id === selectedProvider) || PROVIDERS[0];
-  const currentModel = currentProvider.models.find((m) => m.id === selectedModel) || currentProvider.models[0];
+  const currentProvider = providers.find((p) => p.id === selectedProvider) || providers[0];
+  const currentModel = currentProvider?.models.find((m) => m.id === selectedModel) || currentProvider?.models[0];
 
   // Reset state when modal opens
   useEffect(() => {
     if (isOpen) {
       setMode(existingTranslations.length > 0 ? 'manage' : 'select');
       setSelectedLanguage('');
-      setError(null);
       setProgress(0);
       setProgressMessage('');
     }
   }, [isOpen, existingTranslations.length]);
 
-  // Update model when provider changes
+  // Messages are cleared only on open - an interrupted translation adds to the list while its error shows
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      setNotice(null);
+    }
+  }, [isOpen]);
+
+  // Load termbases when modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/termbases')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setTermbases(data.data.termbases);
+      })
+      .catch(() => setTermbases([]));
+  }, [isOpen]);
+
+  // Termbases for the chosen language pair, with the active ones preselected
+  const matchingTermbases = selectedLanguage
+    ? termbases.filter((termbase) => termbaseMatchesLanguages(termbase, sourceLanguage, selectedLanguage))
+    : [];
+
   useEffect(() => {
-    const provider = PROVIDERS.find((p) => p.id === selectedProvider);
-    if (provider && !provider.models.some((m) => m.id === selectedModel)) {
+    setSelectedTermbases(new Set(
+      termbases
+        .filter((termbase) =>
+          termbase.IsActive &&
+          selectedLanguage &&
+          termbaseMatchesLanguages(termbase, sourceLanguage, selectedLanguage)
+        )
+        .map((termbase) => termbase.Id)
+    ));
+  }, [termbases, sourceLanguage, selectedLanguage]);
+
+  const toggleTermbase = (id: number) => {
+    setSelectedTermbases((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Default to the first provider (the server's default) once loaded, and update model when provider changes
+  useEffect(() => {
+    const provider = providers.find((p) => p.id === selectedProvider);
+    if (!provider) {
+      if (providers.length > 0) {
+        setSelectedProvider(providers[0].id);
+        setSelectedModel(providers[0].models[0].id);
+      }
+      return;
+    }
+    if (!provider.models.some((m) => m.id === selectedModel)) {
       setSelectedModel(provider.models[0].id);
     }
-  }, [selectedProvider, selectedModel]);
+  }, [providers, selectedProvider, selectedModel]);
 
   // Filter out source language and already translated languages
   const availableLanguages = LANGUAGES.filter(
     (lang) =>
       lang.code !== sourceLanguage.toLowerCase() &&
-      !existingTranslations.some((t) => t.language === lang.code)
+      !existingTranslations.some((t) => t.language === lang.code) &&
+      (!currentProvider || currentProvider.languages.includes(lang.code))
   );
 
-  const handleStartTranslation = async () => {
-    if (!selectedLanguage) return;
+  /**
+   * Translate to a language, or continue an interrupted translation from its saved batches
+   */
+  const runTranslation = async (language: string, resume: boolean) => {
+    let partial: { savedSegments: number; totalSegments: number } | null = null;
 
     setMode('translating');
     setTranslating(true);
     setError(null);
+    setNotice(null);
     setProgress(0);
-    setProgressMessage('Starting translation...');
+    setProgressMessage(resume ? 'Resuming translation...' : 'Starting translation...');
 
     try {
       // Use streaming API for real-time progress updates
       const response = await fetch('/api/translate/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+        // A resumed translation continues with the settings it was started with
+        body: JSON.stringify(resume ? { transcriptionId, targetLanguage: language, resume } : {
           transcriptionId,
-          targetLanguage: selectedLanguage,
+          targetLanguage: language,
+          // Starting is disabled until providers load and one is selected
           provider: selectedProvider,
           model: selectedModel,
+          useMemory,
+          charsPerSecond,
+          retime,
+          termbaseIds: matchingTermbases
+            .filter((termbase) => selectedTermbases.has(termbase.Id))
+            .map((termbase) => termbase.Id),
         }),
       });
 
@@ -186,26 +283,56 @@ export default function TranslationModal({
               setProgress(data.progress);
               setProgressMessage(data.message);
             } else if (eventType === 'complete') {
+              const details = [
+                data.memory?.exact > 0 || data.memory?.fuzzy > 0
+                  ? `${data.memory.matchRate}% memory match (${data.memory.exact} reused, ${data.memory.fuzzy} fuzzy)`
+                  : '',
+                data.missingTermsCount > 0 ? `${data.missingTermsCount} segments are missing required terms` : '',
+                data.untranslatedCount > 0 ? `${data.untranslatedCount} segments could not be translated` : '',
+                data.overBudgetCount > 0 ? `${data.overBudgetCount} segments are still too long to read in time` : '',
+                data.retiming?.merged > 0 || data.retiming?.split > 0
+                  ? `re-timed to ${data.retiming.segments} cues (${data.retiming.merged} merged, ${data.retiming.split} split)`
+                  : '',
+                data.retimingError ? `re-timing failed (${data.retimingError}) - re-time it again from the list` : '',
+              ].filter(Boolean);
               setProgress(100);
-              setProgressMessage('Translation complete!');
+              setProgressMessage(
+                details.length > 0 ? `Translation complete - ${details.join(', ')}` : 'Translation complete!'
+              );
               setTimeout(() => {
                 onTranslationComplete();
                 onClose();
-              }, 1500);
+              }, details.length > 0 ? 3000 : 1500);
             } else if (eventType === 'error') {
+              if (data.resumable) {
+                partial = { savedSegments: data.savedSegments, totalSegments: data.totalSegments };
+              }
               throw new Error(data.error || 'Translation failed');
             }
           }
         }
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Translation failed');
-      setMode('select');
+      const message = err instanceof Error ? err.message : 'Translation failed';
+      if (partial) {
+        // Show the saved part under existing translations, where it can be resumed
+        setError(`${message}. ${partial.savedSegments} of ${partial.totalSegments} segments were saved - resume to continue.`);
+        onTranslationComplete();
+        setMode('manage');
+      } else {
+        setError(message);
+        setMode(resume ? 'manage' : 'select');
+      }
     } finally {
       setTranslating(false);
     }
   };
 
+  const handleStartTranslation = () => {
+    if (!selectedLanguage || !selectedProvider) return;
+    runTranslation(selectedLanguage, false);
+  };
+
   const handleDeleteTranslation = async (language: string) => {
     setDeleting(language);
     try {
@@ -217,6 +344,49 @@ export default function TranslationModal({
     }
   };
 
+  const handleApproveTranslation = async (language: string) => {
+    setApproving(language);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/translate/${transcriptionId}/memory?language=${encodeURIComponent(language)}`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to add translation to memory');
+      }
+      setNotice(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add translation to memory');
+    } finally {
+      setApproving(null);
+    }
+  };
+
+  const handleRetimeTranslation = async (language: string) => {
+    setRetiming(language);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/translate/${transcriptionId}/retime?language=${encodeURIComponent(language)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ charsPerSecond }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to re-time translation');
+      }
+      setNotice(data.message);
+      await onTranslationRetimed(language);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to re-time translation');
+    } finally {
+      setRetiming(null);
+    }
+  };
+
   const getLanguageInfo = (code: string) => {
     return LANGUAGES.find((l) => l.code === code) || { code, name: code.toUpperCase(), flag: '🌐' };
   };
@@ -270,6 +440,11 @@ export default function TranslationModal({
               {error}
             </div>
           )}
+          {notice && (
+            <div className="mb-4 p-4 bg-success/10 border border-success/30 rounded-xl text-success text-sm">
+              {notice}
+            </div>
+          )}
 
           {/* Translation Progress */}
           {mode === 'translating' && (
@@ -295,6 +470,7 @@ export default function TranslationModal({
                   <p className="text-sm text-text-muted mb-3">Existing translations:</p>
                   {existingTranslations.map((translation) => {
                     const langInfo = getLanguageInfo(translation.language);
+                    const coveredSegments = translation.sourceSegmentCount ?? translation.segmentCount;
                     return (
                       <div
                         key={translation.language}
@@ -304,26 +480,62 @@ export default function TranslationModal({
                           <span className="text-2xl">{langInfo.flag}</span>
                           <div>
                             <p className="font-medium text-text-primary">{langInfo.name}</p>
-                            <p className="text-xs text-text-muted">{translation.segmentCount} segments</p>
+                            <p className="text-xs text-text-muted">
+                              {coveredSegments < totalSegments
+                                ? `Incomplete - ${coveredSegments} of ${totalSegments} segments`
+                                : `${translation.segmentCount} segments`}
+                            </p>
                           </div>
                         </div>
-                        <button
-                          onClick={() => handleDeleteTranslation(translation.language)}
-                          disabled={deleting === translation.language}
-                          className="p-2 text-text-muted hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-all"
-                          title="Delete translation"
-                        >
-                          {deleting === translation.language ? (
-                            <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
-                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                            </svg>
+                        <div className="flex items-center gap-1">
+                          {coveredSegments < totalSegments ? (
+                            <button
+                              onClick={() => runTranslation(translation.language, true)}
+                              className="px-3 py-1.5 text-sm bg-accent text-black font-medium hover:bg-accent-hover rounded-lg transition-colors"
+                              title="Continue from the first untranslated segment"
+                            >
+                              Resume
+                            </button>
                           ) : (
-                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                            </svg>
+                            <button
+                              onClick={() => handleRetimeTranslation(translation.language)}
+                              disabled={retiming === translation.language}
+                              className="p-2 text-text-muted hover:text-accent hover:bg-accent/10 rounded-lg transition-all disabled:opacity-50"
+                              title="Re-time - merge cues that read too fast and split ones too long for the screen"
+                            >
+                              <svg className={`w-5 h-5 ${retiming === translation.language ? 'animate-pulse' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                              </svg>
+                            </button>
                           )}
-                        </button>
+                          <button
+                            onClick={() => handleApproveTranslation(translation.language)}
+                            disabled={approving === translation.language}
+                            className="p-2 text-text-muted hover:text-success hover:bg-success/10 rounded-lg transition-all disabled:opacity-50"
+                            title="Approve - add to translation memory for reuse in future translations"
+                          >
+                            <svg className={`w-5 h-5 ${approving === translation.language ? 'animate-pulse' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                          </button>
+                          <button
+                            onClick={() => handleDeleteTranslation(translation.language)}
+                            disabled={deleting === translation.language}
+                            className="p-2 text-text-muted hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-all"
+                            title="Delete translation"
+                          >
+                            {deleting === translation.language ? (
+                              <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                              </svg>
+                            ) : (
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                            )}
+                          </button>
+                        </div>
                       </div>
                     );
                   })}
@@ -421,13 +633,17 @@ export default function TranslationModal({
                   onClick={() => setProviderDropdownOpen(!providerDropdownOpen)}
                   className="w-full px-4 py-3 rounded-xl border border-border-subtle bg-surface text-text-primary text-left flex items-center justify-between hover:bg-overlay transition-all focus:outline-none focus:ring-2 focus:ring-accent/50"
                 >
-                  <span className="flex items-center gap-3">
-                    <span className="text-xl">{currentProvider.flag}</span>
-                    <div>
-                      <p className="font-medium">{currentProvider.name} - {currentModel.name}</p>
-                      <p className="text-xs text-text-muted">{currentModel.description}</p>
-                    </div>
-                  </span>
+                  {currentProvider && currentModel ? (
+                    <span className="flex items-center gap-3">
+                      <span className="text-xl">{currentProvider.flag}</span>
+                      <div>
+                        <p className="font-medium">{currentProvider.name} - {currentModel.name}</p>
+                        <p className="text-xs text-text-muted">{currentModel.description}</p>
+                      </div>
+                    </span>
+                  ) : (
+                    <span className="text-text-muted">No translation providers configured</span>
+                  )}
                   <svg
                     className={`w-5 h-5 text-text-muted transition-transform ${providerDropdownOpen ? 'rotate-180' : ''}`}
                     fill="none"
@@ -440,7 +656,7 @@ export default function TranslationModal({
 
                 {providerDropdownOpen && (
                   <div className="absolute z-50 w-full mt-2 py-2 bg-elevated border border-border-subtle rounded-xl shadow-xl max-h-80 overflow-y-auto">
-                    {PROVIDERS.map((provider) => (
+                    {providers.map((provider) => (
                       <div key={provider.id}>
                         {/* Provider header */}
                         <div className="px-4 py-2 bg-surface/50">
@@ -484,10 +700,95 @@ export default function TranslationModal({
                 )}
               </div>
 
+              {/* Termbases */}
+              {selectedLanguage && (
+                <div>
+                  <label className="block text-xs font-medium text-text-muted uppercase tracking-wider mb-2">
+                    Termbases
+                  </label>
+                  {matchingTermbases.length === 0 ? (
+                    <p className="text-sm text-text-muted">
+                      No termbases for this language.{' '}
+                      <Link href="/dashboard/termbases" className="text-secondary hover:text-secondary-hover underline">
+                        Manage termbases
+                      </Link>
+                    </p>
+                  ) : (
+                    <div className="space-y-1.5">
+                      {matchingTermbases.map((termbase) => (
+                        <label key={termbase.Id} className="flex items-center gap-3 cursor-pointer text-sm text-text-primary">
+                          <input
+                            type="checkbox"
+                            checked={selectedTermbases.has(termbase.Id)}
+                            onChange={() => toggleTermbase(termbase.Id)}
+                            className="w-4 h-4 accent-amber-500"
+                          />
+                          <span className="flex-1">{termbase.Name}</span>
+                          <span className="text-xs text-text-muted">{termbase.Entries.length} terms</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Translation memory */}
+              <label className="flex items-center gap-3 cursor-pointer text-sm text-text-primary">
+                <input
+                  type="checkbox"
+                  checked={useMemory}
+                  onChange={(e) => setUseMemory(e.target.checked)}
+                  className="w-4 h-4 accent-amber-500"
+                />
+                <span>
+                  Reuse translation memory
+                  <span className="block text-xs text-text-muted">
+                    Exact matches from approved translations are reused, similar ones guide the AI
+                  </span>
+                </span>
+              </label>
+
+              {/* Re-timing */}
+              <label className="flex items-center gap-3 cursor-pointer text-sm text-text-primary">
+                <input
+                  type="checkbox"
+                  checked={retime}
+                  onChange={(e) => setRetime(e.target.checked)}
+                  className="w-4 h-4 accent-amber-500"
+                />
+                <span>
+                  Re-time for the target language
+                  <span className="block text-xs text-text-muted">
+                    Merge subtitles that read too fast and split ones too long for the screen
+                  </span>
+                </span>
+              </label>
+
+              {/* Reading speed */}
+              <div className="flex items-center justify-between gap-3 text-sm text-text-primary">
+                <span>
+                  Reading speed
+                  <span className="block text-xs text-text-muted">
+                    Translations too long for their subtitle duration are condensed
+                  </span>
+                </span>
+                <select
+                  value={charsPerSecond}
+                  onChange={(e) => setCharsPerSecond(parseInt(e.target.value, 10))}
+                  className="px-3 py-2 bg-surface border border-border-default rounded-lg text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+                >
+                  {READING_SPEEDS.map((speed) => (
+                    <option key={speed.cps} value={speed.cps}>
+                      {speed.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               {/* Start button */}
               <button
                 onClick={handleStartTranslation}
-                disabled={!selectedLanguage}
+                disabled={!selectedLanguage || !selectedProvider}
                 className="w-full py-3 bg-accent hover:bg-accent-hover disabled:bg-overlay disabled:text-text-muted text-black font-semibold rounded-xl transition-all disabled:cursor-not-allowed"
               >
                 Start Translation
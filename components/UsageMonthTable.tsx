@@ -0,0 +1,120 @@
+'use client';
+
+/**
+ * Usage Month Table Component
+ * One month of the usage ledger: totals, then a row per provider and model
+ * and, for the admin report, a row per user
+ */
+
+import { formatDurationLong } from '@/lib/utils/format';
+import { formatCost, formatTokenCount, type ModelUsage, type UsageTotals } from '@/lib/utils/usage';
+
+export interface UsageMonthData extends UsageTotals {
+  month: string;
+  models: ModelUsage[];
+  users?: (UsageTotals & { userId: number; name?: string | null; email?: string | null })[];
+}
+
+interface UsageMonthTableProps {
+  month: UsageMonthData;
+  currency: string;
+  showUsers?: boolean;
+}
+
+const KIND_LABELS: Record<ModelUsage['kind'], string> = {
+  asr: 'Transcription',
+  translation: 'Translation',
+};
+
+/**
+ * "October 2026" from "2026-10"
+ */
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function UsageCells({ totals, currency }: { totals: UsageTotals; currency: string }) {
+  return (
+    <>
+      <td className="px-6 py-3 text-right text-sm text-white/70 font-mono">{totals.requests}</td>
+      <td className="px-6 py-3 text-right text-sm text-white/70 font-mono">
+        {totals.audioSeconds > 0 ? formatDurationLong(totals.audioSeconds) : '—'}
+      </td>
+      <td className="px-6 py-3 text-right text-sm text-white/70 font-mono">
+        {totals.promptTokens + totals.completionTokens > 0
+          ? `${formatTokenCount(totals.promptTokens)} / ${formatTokenCount(totals.completionTokens)}`
+          : '—'}
+      </td>
+      <td className="px-6 py-3 text-right font-mono">
+        <span className="text-sm text-white">{formatCost(totals.cost, currency)}</span>
+        {totals.unpriced > 0 && (
+          <div className="text-xs text-amber-400/80">{totals.unpriced} unpriced</div>
+        )}
+      </td>
+    </>
+  );
+}
+
+function HeaderCells({ label }: { label: string }) {
+  return (
+    <tr className="border-b border-white/[0.06]">
+      <th className="text-left px-6 py-3 text-xs font-medium text-white/30 uppercase tracking-wider">{label}</th>
+      <th className="text-right px-6 py-3 text-xs font-medium text-white/30 uppercase tracking-wider">Requests</th>
+      <th className="text-right px-6 py-3 text-xs font-medium text-white/30 uppercase tracking-wider">Audio</th>
+      <th className="text-right px-6 py-3 text-xs font-medium text-white/30 uppercase tracking-wider">Tokens in / out</th>
+      <th className="text-right px-6 py-3 text-xs font-medium text-white/30 uppercase tracking-wider">Cost</th>
+    </tr>
+  );
+}
+
+export function UsageMonthTable({ month, currency, showUsers = false }: UsageMonthTableProps) {
+  return (
+    <div className="bg-white/[0.02] border border-white/[0.06] rounded-2xl overflow-hidden">
+      <div className="px-6 py-4 flex items-center justify-between border-b border-white/[0.06]">
+        <h2 className="text-lg font-medium text-white">{formatMonth(month.month)}</h2>
+        <span className="text-lg font-mono text-white">{formatCost(month.cost, currency)}</span>
+      </div>
+
+      <table className="w-full">
+        <thead>
+          <HeaderCells label="Provider & Model" />
+        </thead>
+        <tbody className="divide-y divide-white/[0.04]">
+          {month.models.map((usage) => (
+            <tr key={`${usage.kind}:${usage.provider}:${usage.model}`} className="hover:bg-white/[0.02] transition-colors">
+              <td className="px-6 py-3">
+                <div className="text-sm font-medium text-white">{usage.provider} · {usage.model}</div>
+                <div className="text-xs text-white/40">{KIND_LABELS[usage.kind]}</div>
+              </td>
+              <UsageCells totals={usage} currency={currency} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {showUsers && month.users && month.users.length > 0 && (
+        <table className="w-full border-t border-white/[0.06]">
+          <thead>
+            <HeaderCells label="User" />
+          </thead>
+          <tbody className="divide-y divide-white/[0.04]">
+            {month.users.map((usage) => (
+              <tr key={usage.userId} className="hover:bg-white/[0.02] transition-colors">
+                <td className="px-6 py-3">
+                  <div className="text-sm font-medium text-white">{usage.name || `User ${usage.userId}`}</div>
+                  {usage.email && <div className="text-xs text-white/40 font-mono">{usage.email}</div>}
+                </td>
+                <UsageCells totals={usage} currency={currency} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@
  * Studio Dark Design - Drag-and-drop upload with FFmpeg processing status
  */
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useId } from 'react';
 import { cn } from '@/lib/utils/cn';
 
 export interface UploadedFile {
@@ -16,6 +16,7 @@ export interface UploadedFile {
   error?: string;
   fileId?: number;
   publicUrl?: string;
+  transcriptionId?: number; // Set when a subtitle file was imported
 }
 
 interface FileUploaderProps {
@@ -25,11 +26,23 @@ interface FileUploaderProps {
   maxSizeMB?: number;
   acceptedTypes?: string[];
   className?: string;
+  // Subtitle import mode: attach SRT/VTT/ASS files to an already uploaded media file
+  importFileId?: number;
+  importLanguage?: string;
+  onImportComplete?: (transcriptionId: number) => void;
 }
 
 const ACCEPTED_AUDIO = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/m4a', 'audio/aiff', 'audio/ogg', 'audio/flac'];
 const ACCEPTED_VIDEO = ['video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/x-matroska', 'video/webm'];
 const DEFAULT_ACCEPTED = [...ACCEPTED_AUDIO, ...ACCEPTED_VIDEO];
+// Subtitle files often have no reliable MIME type, so they are matched by extension
+const ACCEPTED_SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa'];
+const MAX_SUBTITLE_SIZE_MB = 5;
+
+function isSubtitleFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return ACCEPTED_SUBTITLE_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
@@ -46,7 +59,12 @@ export function FileUploader({
   maxSizeMB = 5120, // 5GB max for video files
   acceptedTypes = DEFAULT_ACCEPTED,
   className,
+  importFileId,
+  importLanguage,
+  onImportComplete,
 }: FileUploaderProps) {
+  const isImportMode = importFileId !== undefined;
+  const inputId = useId();
   const [isDragging, setIsDragging] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const pollingRef = useRef<Map<number, NodeJS.Timeout>>(new Map());
@@ -104,10 +122,10 @@ export function FileUploader({
       if (files.length > maxFiles) return;
 
       const validFiles: File[] = [];
-      const maxSizeBytes = maxSizeMB * 1024 * 1024;
+      const maxSizeBytes = (isImportMode ? MAX_SUBTITLE_SIZE_MB : maxSizeMB) * 1024 * 1024;
 
       for (const file of files) {
-        if (!acceptedTypes.includes(file.type)) continue;
+        if (isImportMode ? !isSubtitleFile(file) : !acceptedTypes.includes(file.type)) continue;
         if (file.size > maxSizeBytes) continue;
         validFiles.push(file);
       }
@@ -131,7 +149,11 @@ export function FileUploader({
         validFiles.map(async (file, i) => {
           const uploadIndex = startIndex + i;
           try {
-            await uploadFile(file, uploadIndex);
+            if (isImportMode) {
+              await importSubtitleFile(file, uploadIndex);
+            } else {
+              await uploadFile(file, uploadIndex);
+            }
           } catch (error) {
             console.error('Upload error:', error);
             updateFileStatus(uploadIndex, {
@@ -142,9 +164,42 @@ export function FileUploader({
         })
       );
     },
-    [maxFiles, maxSizeMB, acceptedTypes, uploadedFiles.length, onUploadStart]
+    [maxFiles, maxSizeMB, acceptedTypes, uploadedFiles.length, onUploadStart, isImportMode, importFileId, importLanguage]
   );
 
+  const importSubtitleFile = async (file: File, index: number) => {
+    updateFileStatus(index, { status: 'uploading', progress: 30, statusText: 'Importing subtitles...' });
+
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('fileId', String(importFileId));
+    if (importLanguage) {
+      formData.append('language', importLanguage);
+    }
+
+    const response = await fetch('/api/transcriptions/import', {
+      method: 'POST',
+      body: formData,
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to import subtitles');
+    }
+
+    const transcriptionId = result.data.Id;
+
+    updateFileStatus(index, {
+      status: 'completed',
+      progress: 100,
+      statusText: result.message || 'Imported',
+      fileId: importFileId,
+      transcriptionId,
+    });
+
+    onImportComplete?.(transcriptionId);
+  };
+
   const uploadFile = async (file: File, index: number) => {
     updateFileStatus(index, { status: 'uploading', progress: 5, statusText: 'Uploading...' });
 
@@ -274,16 +329,19 @@ export function FileUploader({
       >
         <input
           type="file"
-          id="file-upload"
-          multiple
-          accept={acceptedTypes.join(',')}
+          id={inputId}
+          multiple={!isImportMode}
+          accept={isImportMode ? ACCEPTED_SUBTITLE_EXTENSIONS.join(',') : acceptedTypes.join(',')}
           onChange={handleFileSelect}
           className="sr-only"
         />
 
         <label
-          htmlFor="file-upload"
-          className="flex flex-col items-center justify-center px-8 py-12 cursor-pointer"
+          htmlFor={inputId}
+          className={cn(
+            'flex flex-col items-center justify-center px-8 cursor-pointer',
+            isImportMode ? 'py-6' : 'py-12'
+          )}
         >
           <div className={cn(
             'w-14 h-14 rounded-2xl flex items-center justify-center mb-4 transition-colors',
@@ -308,10 +366,16 @@ export function FileUploader({
             'text-base font-medium mb-1 transition-colors',
             isDragging ? 'text-accent' : 'text-text-secondary'
           )}>
-            {isDragging ? 'Drop files here' : 'Drop files or click to upload'}
+            {isDragging
+              ? 'Drop files here'
+              : isImportMode
+                ? 'Drop a subtitle file or click to import'
+                : 'Drop files or click to upload'}
           </p>
           <p className="text-sm text-text-muted">
-            MP3, WAV, M4A, MP4, MOV up to {maxSizeMB >= 1024 ? `${maxSizeMB / 1024}GB` : `${maxSizeMB}MB`}
+            {isImportMode
+              ? `SRT, VTT, ASS up to ${MAX_SUBTITLE_SIZE_MB}MB`
+              : `MP3, WAV, M4A, MP4, MOV up to ${maxSizeMB >= 1024 ? `${maxSizeMB / 1024}GB` : `${maxSizeMB}MB`}`}
           </p>
         </label>
       </div>
@@ -396,7 +460,7 @@ export function FileUploader({
                       <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 20 20">
                         <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
                       </svg>
-                      Ready for transcription
+                      {isImportMode ? upload.statusText : 'Ready for transcription'}
                     </p>
                   )}
 
@@ -0,0 +1,23 @@
+/**
+ * Next.js Instrumentation
+ * Starts the background job worker when the Node.js server boots
+ */
+
+export async function register() {
+  // Skip the edge runtime and `next build`
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NEXT_PHASE === 'phase-production-build') {
+    return;
+  }
+
+  const { getJobWorkerMode, startJobWorker } = await import('./lib/jobs/worker');
+
+  // JOB_WORKER=external leaves jobs to a separate `npm run worker` process
+  if (getJobWorkerMode() !== 'in-process') {
+    return;
+  }
+
+  // Not awaited - recovery talks to NocoDB and must not delay server startup
+  startJobWorker().catch((error) => {
+    console.error('Failed to start job worker:', error);
+  });
+}
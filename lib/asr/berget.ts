@@ -12,6 +12,8 @@ export interface BergetTranscriptionOptions {
   prompt?: string;
   temperature?: number;
   responseFormat?: 'json' | 'verbose_json' | 'text';
+  wordTimestamps?: boolean; // Berget always includes words in verbose_json, kept for a uniform interface
+  signal?: AbortSignal;
 }
 
 export interface BergetWord {
@@ -36,6 +38,14 @@ export interface BergetTranscriptionResult {
   duration?: number;
 }
 
+// Languages the provider transcribes (ISO 639-1)
+export const BERGET_LANGUAGES = [
+  'sv', // Swedish - primary and best supported
+  'en', 'zh', 'de', 'es', 'ru', 'ko', 'fr', 'ja', 'pt', 'tr',
+  'pl', 'ca', 'nl', 'ar', 'it', 'id', 'hi', 'fi', 'vi',
+  'he', 'uk', 'el', 'ms', 'cs', 'ro', 'da', 'hu', 'ta', 'no',
+];
+
 /**
  * Berget AI ASR Client
  * Uses KB Whisper for high-quality Swedish transcription
@@ -67,6 +77,7 @@ export class BergetASR {
         language,
         prompt,
         responseFormat = 'verbose_json',
+        signal,
       } = options;
 
       // Create file object for upload
@@ -88,7 +99,7 @@ export class BergetASR {
       // Note: Berget doesn't support temperature parameter, so we skip it
 
       // Call Berget API (OpenAI compatible)
-      const response = await this.client.audio.transcriptions.create(requestOptions);
+      const response = await this.client.audio.transcriptions.create(requestOptions, { signal });
 
       // Parse response - Berget always returns verbose JSON with segments and words
       const verboseResponse = response as any;
@@ -125,7 +136,8 @@ export class BergetASR {
     } catch (error) {
       console.error('Berget transcription error:', error);
       throw new Error(
-        `Berget transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Berget transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
       );
     }
   }
@@ -141,7 +153,7 @@ export class BergetASR {
     try {
       // For now, fetch the file and transcribe
       // TODO: Investigate if Berget's file_url parameter works with the OpenAI SDK
-      const response = await fetch(audioUrl);
+      const response = await fetch(audioUrl, { signal: options.signal });
       if (!response.ok) {
         throw new Error(`Failed to fetch audio: ${response.statusText}`);
       }
@@ -151,7 +163,8 @@ export class BergetASR {
     } catch (error) {
       console.error('Berget transcription from URL error:', error);
       throw new Error(
-        `Failed to transcribe from URL: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Failed to transcribe from URL: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
       );
     }
   }
@@ -161,12 +174,7 @@ export class BergetASR {
    * KB Whisper is optimized for Swedish but supports all Whisper languages
    */
   getSupportedLanguages(): string[] {
-    return [
-      'sv', // Swedish - primary and best supported
-      'en', 'zh', 'de', 'es', 'ru', 'ko', 'fr', 'ja', 'pt', 'tr',
-      'pl', 'ca', 'nl', 'ar', 'it', 'id', 'hi', 'fi', 'vi',
-      'he', 'uk', 'el', 'ms', 'cs', 'ro', 'da', 'hu', 'ta', 'no',
-    ];
+    return BERGET_LANGUAGES;
   }
 }
 
@@ -0,0 +1,136 @@
+/**
+ * Long Audio Chunking
+ * Plan overlapping chunks cut at silences and stitch the per-chunk transcripts back together
+ *
+ * Each chunk owns the time range between its two cut points and is extracted with
+ * half the overlap on either side, so a word cut in half at one edge is complete
+ * in the neighbouring chunk. When stitching, a word (or a segment without word
+ * timings) is kept only by the chunk that owns its start time.
+ */
+
+import type { SilenceInterval } from '@/lib/media/ffmpeg';
+import type { TranscriptionSegment } from './index';
+
+export interface AudioChunk {
+  index: number;
+  start: number;     // Extracted audio range (seconds)
+  end: number;
+  keepFrom: number;  // Range whose transcript this chunk contributes
+  keepUntil: number;
+}
+
+export interface ChunkPlanOptions {
+  maxChunkSeconds: number;  // Longest owned range per chunk
+  overlapSeconds: number;   // Extra audio shared by neighbouring chunks
+}
+
+export interface ChunkTranscript {
+  chunk: AudioChunk;
+  segments: TranscriptionSegment[];  // Times relative to the chunk start
+}
+
+/**
+ * Choose cut points at the longest silence in the second half of each window,
+ * falling back to a hard cut when a window has no silence
+ */
+export function planChunks(
+  duration: number,
+  silences: SilenceInterval[],
+  options: ChunkPlanOptions
+): AudioChunk[] {
+  const { maxChunkSeconds, overlapSeconds } = options;
+  const cuts: number[] = [];
+  let position = 0;
+
+  while (duration - position > maxChunkSeconds) {
+    const earliest = position + maxChunkSeconds / 2;
+    const latest = position + maxChunkSeconds;
+
+    let best: SilenceInterval | undefined;
+    for (const silence of silences) {
+      const middle = (silence.start + silence.end) / 2;
+      if (middle < earliest || middle > latest) continue;
+      if (!best || silence.end - silence.start > best.end - best.start) {
+        best = silence;
+      }
+    }
+
+    position = best ? (best.start + best.end) / 2 : latest;
+    cuts.push(position);
+  }
+
+  const bounds = [0, ...cuts, duration];
+  const halfOverlap = overlapSeconds / 2;
+
+  return bounds.slice(0, -1).map((keepFrom, index) => {
+    const keepUntil = bounds[index + 1];
+    return {
+      index,
+      start: Math.max(0, keepFrom - halfOverlap),
+      end: Math.min(duration, keepUntil + halfOverlap),
+      keepFrom,
+      // The last chunk keeps everything, even words reported past the probed duration
+      keepUntil: index === bounds.length - 2 ? Infinity : keepUntil,
+    };
+  });
+}
+
+/**
+ * Shift a chunk's segments to absolute time and drop what belongs to a neighbour
+ */
+function trimChunkSegments({ chunk, segments }: ChunkTranscript): TranscriptionSegment[] {
+  const owns = (time: number) => time >= chunk.keepFrom && time < chunk.keepUntil;
+  const trimmed: TranscriptionSegment[] = [];
+
+  for (const segment of segments) {
+    const startTime = segment.startTime + chunk.start;
+    const endTime = segment.endTime + chunk.start;
+    const words = segment.words?.map((word) => ({
+      ...word,
+      start: word.start + chunk.start,
+      end: word.end + chunk.start,
+    }));
+
+    if (!words || words.length === 0) {
+      if (owns((startTime + endTime) / 2)) {
+        trimmed.push({ ...segment, startTime, endTime, words });
+      }
+      continue;
+    }
+
+    const keep = words.map((word) => owns(word.start));
+    const kept = words.filter((_, i) => keep[i]);
+    if (kept.length === 0) continue;
+
+    if (kept.length === words.length) {
+      trimmed.push({ ...segment, startTime, endTime, words });
+      continue;
+    }
+
+    // Rebuild the text from the kept words; text tokens keep punctuation when they line up
+    const tokens = segment.text.trim().split(/\s+/);
+    const text = tokens.length === words.length
+      ? tokens.filter((_, i) => keep[i]).join(' ')
+      : kept.map((word) => word.word.trim()).join(' ');
+
+    trimmed.push({
+      ...segment,
+      startTime: keep[0] ? startTime : kept[0].start,
+      endTime: keep[keep.length - 1] ? endTime : kept[kept.length - 1].end,
+      text,
+      words: kept,
+    });
+  }
+
+  return trimmed;
+}
+
+/**
+ * Combine chunk transcripts into one timeline without the overlap's duplicates
+ */
+export function stitchChunkSegments(transcripts: ChunkTranscript[]): TranscriptionSegment[] {
+  return [...transcripts]
+    .sort((a, b) => a.chunk.index - b.chunk.index)
+    .flatMap(trimChunkSegments)
+    .map((segment, index) => ({ ...segment, id: index }));
+}
@@ -11,6 +11,14 @@ export interface GroqTranscriptionOptions {
   prompt?: string;
   temperature?: number;
   responseFormat?: 'json' | 'verbose_json' | 'text';
+  wordTimestamps?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface GroqWord {
+  word: string;
+  start: number;
+  end: number;
 }
 
 export interface GroqSegment {
@@ -18,6 +26,7 @@ export interface GroqSegment {
   startTime: number;
   endTime: number;
   text: string;
+  words?: GroqWord[];
   confidence?: number;
 }
 
@@ -28,6 +37,13 @@ export interface GroqTranscriptionResult {
   duration?: number;
 }
 
+// Languages the provider transcribes (ISO 639-1)
+export const GROQ_LANGUAGES = [
+  'en', 'zh', 'de', 'es', 'ru', 'ko', 'fr', 'ja', 'pt', 'tr',
+  'pl', 'ca', 'nl', 'ar', 'sv', 'it', 'id', 'hi', 'fi', 'vi',
+  'he', 'uk', 'el', 'ms', 'cs', 'ro', 'da', 'hu', 'ta', 'no',
+];
+
 /**
  * Groq ASR Client
  */
@@ -59,6 +75,8 @@ export class GroqASR {
         prompt,
         temperature = 0,
         responseFormat = 'verbose_json',
+        wordTimestamps = false,
+        signal,
       } = options;
 
       // Create form data for file upload
@@ -74,8 +92,8 @@ export class GroqASR {
         prompt,
         temperature,
         response_format: responseFormat,
-        timestamp_granularities: ['segment'],
-      });
+        timestamp_granularities: wordTimestamps ? ['word', 'segment'] : ['segment'],
+      }, { signal });
 
       // Parse response based on format
       if (responseFormat === 'verbose_json') {
@@ -86,15 +104,30 @@ export class GroqASR {
           console.log('Groq first segment:', verboseResponse.segments[0]);
         }
 
+        // Groq returns words as a flat list; attach each word to the segment it starts in
+        const words: GroqWord[] = (verboseResponse.words || []).map((w: any) => ({
+          word: w.word,
+          start: w.start,
+          end: w.end,
+        }));
+
         return {
           text: verboseResponse.text,
-          segments: verboseResponse.segments?.map((seg: any) => ({
-            id: seg.id,
-            startTime: seg.start,
-            endTime: seg.end,
-            text: seg.text,
-            confidence: seg.avg_logprob ? Math.exp(seg.avg_logprob) : undefined,
-          })) as GroqSegment[],
+          segments: verboseResponse.segments?.map((seg: any, index: number, all: any[]) => {
+            const isFirst = index === 0;
+            const isLast = index === all.length - 1;
+            const segmentWords = words.filter(
+              (w) => (isFirst || w.start >= seg.start) && (isLast || w.start < all[index + 1].start)
+            );
+            return {
+              id: seg.id,
+              startTime: seg.start,
+              endTime: seg.end,
+              text: seg.text,
+              ...(segmentWords.length > 0 && { words: segmentWords }),
+              confidence: seg.avg_logprob ? Math.exp(seg.avg_logprob) : undefined,
+            };
+          }) as GroqSegment[],
           language: verboseResponse.language,
           duration: verboseResponse.duration,
         };
@@ -107,7 +140,8 @@ export class GroqASR {
     } catch (error) {
       console.error('Groq transcription error:', error);
       throw new Error(
-        `Groq transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Groq transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
       );
     }
   }
@@ -121,7 +155,7 @@ export class GroqASR {
   ): Promise<GroqTranscriptionResult> {
     try {
       // Fetch audio file from URL
-      const response = await fetch(audioUrl);
+      const response = await fetch(audioUrl, { signal: options.signal });
       if (!response.ok) {
         throw new Error(`Failed to fetch audio: ${response.statusText}`);
       }
@@ -131,7 +165,8 @@ export class GroqASR {
     } catch (error) {
       console.error('Groq transcription from URL error:', error);
       throw new Error(
-        `Failed to transcribe from URL: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Failed to transcribe from URL: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
       );
     }
   }
@@ -140,11 +175,7 @@ export class GroqASR {
    * Get supported languages
    */
   getSupportedLanguages(): string[] {
-    return [
-      'en', 'zh', 'de', 'es', 'ru', 'ko', 'fr', 'ja', 'pt', 'tr',
-      'pl', 'ca', 'nl', 'ar', 'sv', 'it', 'id', 'hi', 'fi', 'vi',
-      'he', 'uk', 'el', 'ms', 'cs', 'ro', 'da', 'hu', 'ta', 'no',
-    ];
+    return GROQ_LANGUAGES;
   }
 }
 
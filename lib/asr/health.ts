@@ -0,0 +1,250 @@
+/**
+ * ASR Provider Health
+ * Records every provider request in the AsrAttempts table and derives a
+ * circuit-breaker state from each provider's latest attempts, so the web
+ * server and external workers agree on which providers are down
+ *
+ * closed    - provider is used normally
+ * open      - the last FAILURE_THRESHOLD attempts failed; skipped until the cooldown ends,
+ *             and while a trial request is running
+ * half_open - cooldown over; one request claims the trial (claimProviderTrial) and its
+ *             outcome closes or reopens the circuit - the others skip the provider meanwhile
+ */
+
+import NocoDBClient, { getNocoDBClient, sanitizeNocoDBValue } from '@/lib/db/nocodb';
+import type { ASRAttempt, FailureCategory, FailureDetails } from '@/lib/types';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailureAt?: string;
+  retryAt?: string;  // When an open circuit lets a trial request through
+}
+
+export interface ProviderStats {
+  provider: string;
+  attempts: number;
+  failures: number;
+  errorRate: number;  // 0-1
+  averageDurationMs: number;
+  categories: Partial<Record<FailureCategory, number>>;
+  lastFailureAt?: string;
+  health: ProviderHealth;
+}
+
+export interface RecordAttemptInput {
+  provider: string;
+  model: string;
+  language?: string;
+  transcriptionId?: number;
+  durationMs: number;
+  failure?: FailureDetails;  // Omitted for successful attempts
+}
+
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 2 * 60 * 1000;
+const TRIAL_TIMEOUT_MS = 15 * 60 * 1000; // A trial transcribes a whole recording; after this it is presumed lost
+const STATS_PAGE_SIZE = 1000;
+const MAX_STATS_ROWS = 20000;
+
+// Failures caused by the media or the worker rather than the provider
+const NON_PROVIDER_CATEGORIES: FailureCategory[] = ['source_unavailable', 'unsupported_audio', 'interrupted'];
+
+/**
+ * Whether a failure says something about the provider's health
+ */
+export function isProviderFailure(category?: FailureCategory | null): boolean {
+  return Boolean(category) && !NON_PROVIDER_CATEGORIES.includes(category as FailureCategory);
+}
+
+/**
+ * Store an attempt - never throws, health tracking must not break transcription
+ */
+export async function recordASRAttempt(input: RecordAttemptInput): Promise<void> {
+  try {
+    const db = getNocoDBClient();
+    const { baseId, tableId } = await NocoDBClient.getIds('AsrAttempts');
+
+    await db.dbTableRow.create('noco', baseId, tableId, {
+      Provider: input.provider,
+      Model: input.model,
+      Language: input.language || null,
+      TranscriptionId: input.transcriptionId ?? null,
+      Success: !input.failure,
+      Category: input.failure?.category ?? null,
+      HttpStatus: input.failure?.httpStatus ?? null,
+      DurationMs: Math.round(input.durationMs),
+    });
+  } catch (error) {
+    console.error(`Failed to record ASR attempt for ${input.provider}:`, error);
+  }
+}
+
+/**
+ * Circuit state from the provider's latest attempts
+ */
+function getHealthFromAttempts(provider: string, latest: ASRAttempt[]): ProviderHealth {
+  const requests = latest.filter((attempt) => !attempt.Trial);
+  let consecutiveFailures = 0;
+  for (const attempt of requests) {
+    if (attempt.Success) break;
+    if (isProviderFailure(attempt.Category)) consecutiveFailures++;
+  }
+
+  const lastFailure = requests.find((attempt) => !attempt.Success && isProviderFailure(attempt.Category));
+  const health: ProviderHealth = {
+    provider,
+    state: 'closed',
+    consecutiveFailures,
+    ...(lastFailure && { lastFailureAt: lastFailure.CreatedAt }),
+  };
+
+  if (consecutiveFailures >= FAILURE_THRESHOLD && lastFailure) {
+    const retryAt = new Date(new Date(lastFailure.CreatedAt).getTime() + COOLDOWN_MS);
+    health.state = retryAt.getTime() > Date.now() ? 'open' : 'half_open';
+    health.retryAt = retryAt.toISOString();
+
+    // A trial already running keeps the circuit open until its outcome is recorded
+    const trial = getActiveTrial(latest, lastFailure);
+    if (health.state === 'half_open' && trial) {
+      health.state = 'open';
+      health.retryAt = new Date(new Date(trial.CreatedAt).getTime() + TRIAL_TIMEOUT_MS).toISOString();
+    }
+  }
+
+  return health;
+}
+
+/**
+ * The earliest trial claimed since the last failure that has not timed out
+ */
+function getActiveTrial(latest: ASRAttempt[], lastFailure: ASRAttempt): ASRAttempt | undefined {
+  const cutoff = Date.now() - TRIAL_TIMEOUT_MS;
+  return latest
+    .filter((attempt) =>
+      attempt.Trial && attempt.Id > lastFailure.Id && new Date(attempt.CreatedAt).getTime() > cutoff
+    )
+    .sort((a, b) => a.Id - b.Id)[0];
+}
+
+/**
+ * Claim the single trial request of a half-open provider
+ * Stores a trial marker and keeps it only when it is the earliest one - like job
+ * claims, this is best-effort when several processes race. Returns false when
+ * another request is already the trial (or the provider is not half-open anymore)
+ */
+export async function claimProviderTrial(provider: string, model: string): Promise<boolean> {
+  try {
+    const db = getNocoDBClient();
+    const { baseId, tableId } = await NocoDBClient.getIds('AsrAttempts');
+
+    const marker = await db.dbTableRow.create('noco', baseId, tableId, {
+      Provider: provider,
+      Model: model,
+      Success: false,
+      Trial: true,
+      DurationMs: 0,
+    }) as ASRAttempt;
+
+    const result = await db.dbTableRow.list('noco', baseId, tableId, {
+      where: `(Provider,eq,${sanitizeNocoDBValue(provider)})`,
+      sort: '-Id',
+      limit: FAILURE_THRESHOLD * 3,
+    });
+    const latest = (result.list || []) as ASRAttempt[];
+    const lastFailure = latest.find(
+      (attempt) => !attempt.Trial && !attempt.Success && isProviderFailure(attempt.Category)
+    );
+    const trial = lastFailure && getActiveTrial(latest, lastFailure);
+
+    if (trial?.Id === marker.Id) return true;
+
+    await db.dbTableRow.delete('noco', baseId, tableId, marker.Id);
+    return !lastFailure;
+  } catch (error) {
+    // Unknown health counts as closed, as in getProviderHealth
+    console.error(`Failed to claim ASR trial for ${provider}:`, error);
+    return true;
+  }
+}
+
+/**
+ * Current circuit state of a provider
+ * Unknown health (e.g. the AsrAttempts table is missing) counts as closed
+ */
+export async function getProviderHealth(provider: string): Promise<ProviderHealth> {
+  try {
+    const db = getNocoDBClient();
+    const { baseId, tableId } = await NocoDBClient.getIds('AsrAttempts');
+
+    const result = await db.dbTableRow.list('noco', baseId, tableId, {
+      where: `(Provider,eq,${sanitizeNocoDBValue(provider)})`,
+      sort: '-Id',
+      limit: FAILURE_THRESHOLD * 3,
+    });
+
+    return getHealthFromAttempts(provider, (result.list || []) as ASRAttempt[]);
+  } catch (error) {
+    console.error(`Failed to read ASR health for ${provider}:`, error);
+    return { provider, state: 'closed', consecutiveFailures: 0 };
+  }
+}
+
+/**
+ * Attempts, error rates and failure categories per provider since the given time
+ */
+export async function getProviderStats(since: Date): Promise<ProviderStats[]> {
+  const db = getNocoDBClient();
+  const { baseId, tableId } = await NocoDBClient.getIds('AsrAttempts');
+  const attempts: ASRAttempt[] = [];
+
+  // Newest first, stop at the first page that reaches past the window
+  for (let offset = 0; offset < MAX_STATS_ROWS; offset += STATS_PAGE_SIZE) {
+    const page = await db.dbTableRow.list('noco', baseId, tableId, {
+      sort: '-Id',
+      limit: STATS_PAGE_SIZE,
+      offset,
+    });
+    const rows = (page.list || []) as ASRAttempt[];
+    const inWindow = rows.filter((attempt) => new Date(attempt.CreatedAt) >= since);
+    attempts.push(...inWindow);
+
+    if (rows.length < STATS_PAGE_SIZE || inWindow.length < rows.length) break;
+  }
+
+  const byProvider = new Map<string, ASRAttempt[]>();
+  for (const attempt of attempts) {
+    const list = byProvider.get(attempt.Provider) || [];
+    list.push(attempt);
+    byProvider.set(attempt.Provider, list);
+  }
+
+  return [...byProvider.entries()]
+    .map(([provider, rows]) => {
+      // Trial markers only feed the circuit state
+      const list = rows.filter((attempt) => !attempt.Trial);
+      const failed = list.filter((attempt) => !attempt.Success);
+      const categories: Partial<Record<FailureCategory, number>> = {};
+      for (const attempt of failed) {
+        const category = attempt.Category || 'unknown';
+        categories[category] = (categories[category] || 0) + 1;
+      }
+
+      return {
+        provider,
+        attempts: list.length,
+        failures: failed.length,
+        errorRate: list.length > 0 ? failed.length / list.length : 0,
+        averageDurationMs: list.length > 0
+          ? Math.round(list.reduce((sum, attempt) => sum + (attempt.DurationMs || 0), 0) / list.length)
+          : 0,
+        categories,
+        ...(failed[0] && { lastFailureAt: failed[0].CreatedAt }),
+        health: getHealthFromAttempts(provider, rows.slice(0, FAILURE_THRESHOLD * 3)),
+      };
+    })
+    .sort((a, b) => b.attempts - a.attempts);
+}
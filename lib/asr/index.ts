@@ -3,10 +3,29 @@
  * Provides a unified interface for different ASR providers
  */
 
-import { GroqASR, createGroqASR, type GroqTranscriptionOptions, type GroqTranscriptionResult, type GroqSegment } from './groq';
-import { BergetASR, createBergetASR, type BergetTranscriptionOptions, type BergetTranscriptionResult, type BergetSegment } from './berget';
+import { stat } from 'fs/promises';
+import type { GroqTranscriptionOptions, GroqTranscriptionResult, GroqSegment, GroqWord } from './groq';
+import type { BergetTranscriptionOptions, BergetTranscriptionResult, BergetSegment } from './berget';
+import type { OpenAITranscriptionOptions, OpenAITranscriptionResult, OpenAISegment } from './openai';
+import {
+  getASRProviderDefinition,
+  listASRProviderDefinitions,
+  type ASRClient,
+} from './registry';
+import { planChunks, stitchChunkSegments, type ChunkTranscript } from './chunking';
+import { claimProviderTrial, getProviderHealth, recordASRAttempt } from './health';
+import { classifyFailure } from '@/lib/utils/failures';
+import {
+  saveStreamToTempFile,
+  readFileToBuffer,
+  cleanupTempFile,
+  getMediaInfo,
+  detectSilences,
+  extractAudioChunk,
+} from '@/lib/media/ffmpeg';
 
-export type ASRProvider = 'groq' | 'berget' | 'openai';
+// Id of a provider in the registry (berget, groq and openai are built in)
+export type ASRProvider = string;
 
 export interface TranscriptionOptions {
   provider?: ASRProvider;
@@ -14,8 +33,44 @@ export interface TranscriptionOptions {
   language?: string;
   prompt?: string;
   temperature?: number;
+  wordTimestamps?: boolean; // Request word-level timings (needed for script alignment)
+  signal?: AbortSignal; // Aborts the download and the provider request (job cancellation)
+  onChunkProgress?: (completed: number, total: number) => void | Promise<void>; // Long audio only
+  fallback?: boolean; // Try the language's fallback chain (when configured) if the provider fails (default true, URL only)
+  transcriptionId?: number; // Stored with provider attempts
 }
 
+// A provider/model pair to try, in fallback order
+export interface ASRCandidate {
+  provider: ASRProvider;
+  model: string;
+}
+
+export interface ChunkingConfig {
+  maxUploadBytes?: number;   // Larger files are chunked (default: the provider's upload limit)
+  chunkSeconds: number;      // Longest stretch of audio per request
+  overlapSeconds: number;    // Audio shared by neighbouring chunks, de-duplicated when stitching
+  concurrency: number;       // Chunks transcribed at the same time
+}
+
+// A provider/model pair offered in the model picker
+export interface ASRModelOption {
+  id: string;           // "provider:model"
+  provider: ASRProvider;
+  model: string;
+  name: string;
+  providerName: string;
+}
+
+// Upload limit for providers that do not declare one
+const DEFAULT_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+const DEFAULT_CHUNKING: ChunkingConfig = {
+  chunkSeconds: 10 * 60, // ~5 MB at the 64kbps transcription bitrate
+  overlapSeconds: 4,
+  concurrency: 3,
+};
+
 // Unified segment type that works with all providers
 export interface TranscriptionSegment {
   id?: number;
@@ -31,52 +86,56 @@ export interface TranscriptionResult {
   segments?: TranscriptionSegment[];
   language?: string;
   duration?: number;
-  provider: ASRProvider;
+  provider: ASRProvider; // Provider that produced the result, which may be a fallback
+  model: string;
+}
+
+/**
+ * A provider's failure, tagged so failure reasons name the provider that failed
+ */
+export class ASRProviderError extends Error {
+  constructor(readonly provider: ASRProvider, readonly model: string, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = 'ASRProviderError';
+  }
 }
 
-// Common interface for ASR clients
-interface ASRClient {
-  transcribe(audioFile: File | Buffer, options: any): Promise<any>;
-  transcribeFromUrl(audioUrl: string, options: any): Promise<any>;
-  getSupportedLanguages(): string[];
+/**
+ * Most frequent value (chunks of a long recording may detect different languages)
+ */
+function getMostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
 }
 
 /**
  * Main ASR Service
  */
 export class ASRService {
-  private groqClient?: GroqASR;
-  private bergetClient?: BergetASR;
+  private clients = new Map<ASRProvider, ASRClient>();
   private defaultProvider: ASRProvider;
+  private chunking: ChunkingConfig;
 
-  constructor(defaultProvider: ASRProvider = 'berget') {
+  constructor(defaultProvider: ASRProvider = 'berget', chunking: Partial<ChunkingConfig> = {}) {
     this.defaultProvider = defaultProvider;
+    this.chunking = { ...DEFAULT_CHUNKING, ...chunking };
   }
 
   /**
-   * Get ASR client for specified provider
+   * Get ASR client for specified provider, created through the registry on first use
    */
   private getClient(provider: ASRProvider): ASRClient {
-    switch (provider) {
-      case 'groq':
-        if (!this.groqClient) {
-          this.groqClient = createGroqASR();
-        }
-        return this.groqClient;
-
-      case 'berget':
-        if (!this.bergetClient) {
-          this.bergetClient = createBergetASR();
-        }
-        return this.bergetClient;
-
-      case 'openai':
-        // TODO: Implement OpenAI ASR client
-        throw new Error('OpenAI ASR is not yet implemented');
-
-      default:
+    let client = this.clients.get(provider);
+    if (!client) {
+      const definition = getASRProviderDefinition(provider);
+      if (!definition) {
         throw new Error(`Unknown ASR provider: ${provider}`);
+      }
+      client = definition.createClient();
+      this.clients.set(provider, client);
     }
+    return client;
   }
 
   /**
@@ -87,43 +146,227 @@ export class ASRService {
     options: TranscriptionOptions = {}
   ): Promise<TranscriptionResult> {
     const provider = options.provider || this.defaultProvider;
+    const model = options.model || getDefaultASRModel(provider);
     const client = this.getClient(provider);
 
-    const result = await client.transcribe(audioFile, {
-      model: options.model,
-      language: options.language,
-      prompt: options.prompt,
-      temperature: options.temperature,
-      responseFormat: 'verbose_json',
-    });
+    const result = await client.transcribe(audioFile, this.getClientOptions({ ...options, model }));
 
     return {
       ...result,
       provider,
+      model,
     };
   }
 
   /**
    * Transcribe from URL
+   * Audio over the provider's upload limit is split at silences and transcribed in chunks.
+   * When the provider fails and ASR_FALLBACK_CHAIN is set, the next healthy provider in the
+   * language's chain is tried - audio never leaves the chosen provider otherwise.
    */
   async transcribeFromUrl(
     audioUrl: string,
     options: TranscriptionOptions = {}
   ): Promise<TranscriptionResult> {
     const provider = options.provider || this.defaultProvider;
+    const requested: ASRCandidate = { provider, model: options.model || getDefaultASRModel(provider) };
+    const candidates = options.fallback === false
+      ? [requested]
+      : getFallbackChain(requested, options.language).filter(
+          (candidate, index) => index === 0 || this.isProviderAvailable(candidate.provider)
+        );
+
+    // Stream to disk - multi-hour recordings should not be held in memory
+    const response = await fetch(audioUrl, { signal: options.signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to fetch audio: ${response.statusText}`);
+    }
+
+    const extension = new URL(audioUrl).pathname.split('.').pop()?.toLowerCase() || 'mp3';
+    const audioPath = await saveStreamToTempFile(response.body, extension);
+
+    try {
+      return await this.transcribeWithFallback(audioPath, candidates, options);
+    } finally {
+      cleanupTempFile(audioPath);
+    }
+  }
+
+  /**
+   * Try candidates in order, skipping providers whose circuit is open
+   * A half-open provider is only tried by the request that claims its trial
+   * Every attempt is recorded for health tracking
+   */
+  private async transcribeWithFallback(
+    audioPath: string,
+    candidates: ASRCandidate[],
+    options: TranscriptionOptions
+  ): Promise<TranscriptionResult> {
+    const health = await Promise.all(candidates.map((candidate) => getProviderHealth(candidate.provider)));
+    const healthy = candidates.filter((_, index) => health[index].state !== 'open');
+
+    // With every circuit open, trying anyway beats failing without a request
+    const attempts = healthy.length > 0 ? healthy : candidates;
+    if (attempts[0] !== candidates[0]) {
+      console.warn(`ASR provider ${candidates[0].provider} is unhealthy, starting with ${attempts[0].provider}`);
+    }
+
+    let lastError: ASRProviderError | undefined;
+
+    for (const candidate of attempts) {
+      options.signal?.throwIfAborted();
+
+      const state = health[candidates.indexOf(candidate)].state;
+      if (state === 'half_open' && healthy.length > 0 && !(await claimProviderTrial(candidate.provider, candidate.model))) {
+        console.warn(`ASR provider ${candidate.provider} is recovering and already being tried, skipping it`);
+        lastError ??= new ASRProviderError(
+          candidate.provider,
+          candidate.model,
+          new Error('Provider is recovering from an outage and another request is testing it')
+        );
+        continue;
+      }
+
+      const startedAt = Date.now();
+      const attempt = {
+        provider: candidate.provider,
+        model: candidate.model,
+        language: options.language,
+        transcriptionId: options.transcriptionId,
+      };
+
+      try {
+        const result = await this.transcribeFile(audioPath, { ...options, ...candidate });
+        await recordASRAttempt({ ...attempt, durationMs: Date.now() - startedAt });
+        return result;
+      } catch (error) {
+        // Cancelled - not the provider's fault and nothing else should run
+        if (options.signal?.aborted) throw error;
+
+        const failure = classifyFailure(error, candidate.provider);
+        await recordASRAttempt({ ...attempt, durationMs: Date.now() - startedAt, failure });
+        lastError = new ASRProviderError(candidate.provider, candidate.model, error);
+
+        // Another provider won't help when the audio itself could not be read
+        if (failure.category === 'source_unavailable') break;
+
+        console.warn(`ASR provider ${candidate.provider}/${candidate.model} failed (${failure.category})`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Transcribe a downloaded file with one provider
+   */
+  private async transcribeFile(
+    audioPath: string,
+    options: TranscriptionOptions & ASRCandidate
+  ): Promise<TranscriptionResult> {
+    const { provider, model } = options;
     const client = this.getClient(provider);
+    const { size } = await stat(audioPath);
+    const maxUploadBytes =
+      this.chunking.maxUploadBytes ?? getASRProviderDefinition(provider)?.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
 
-    const result = await client.transcribeFromUrl(audioUrl, {
-      model: options.model,
-      language: options.language,
-      prompt: options.prompt,
-      temperature: options.temperature,
-      responseFormat: 'verbose_json',
-    });
+    if (size > maxUploadBytes) {
+      return this.transcribeInChunks(client, provider, audioPath, options);
+    }
+
+    const result = await client.transcribe(await readFileToBuffer(audioPath), this.getClientOptions(options));
 
     return {
       ...result,
       provider,
+      model,
+    };
+  }
+
+  /**
+   * Transcribe a long recording as overlapping chunks with bounded parallelism
+   */
+  private async transcribeInChunks(
+    client: ASRClient,
+    provider: ASRProvider,
+    audioPath: string,
+    options: TranscriptionOptions & ASRCandidate
+  ): Promise<TranscriptionResult> {
+    const { duration } = await getMediaInfo(audioPath);
+    const silences = await detectSilences(audioPath);
+    const chunks = planChunks(duration, silences, {
+      maxChunkSeconds: this.chunking.chunkSeconds,
+      overlapSeconds: this.chunking.overlapSeconds,
+    });
+
+    console.log(
+      `Transcribing ${Math.round(duration)}s of audio with ${provider} in ${chunks.length} chunks ` +
+      `(${silences.length} silences found)`
+    );
+
+    const clientOptions = this.getClientOptions(options);
+    const transcripts: ChunkTranscript[] = [];
+    const languages: string[] = [];
+    let nextChunk = 0;
+    let completed = 0;
+    let failed = false;
+
+    await options.onChunkProgress?.(0, chunks.length);
+
+    const worker = async () => {
+      while (!failed && nextChunk < chunks.length) {
+        const chunk = chunks[nextChunk++];
+        options.signal?.throwIfAborted();
+
+        const chunkPath = await extractAudioChunk(audioPath, chunk.start, chunk.end - chunk.start);
+        try {
+          const result = await client.transcribe(await readFileToBuffer(chunkPath), clientOptions);
+          transcripts.push({ chunk, segments: result.segments || [] });
+          if (result.language) languages.push(result.language);
+        } finally {
+          cleanupTempFile(chunkPath);
+        }
+
+        completed++;
+        await options.onChunkProgress?.(completed, chunks.length);
+      }
+    };
+
+    // Let running chunks finish (and clean up) before reporting the first failure
+    const outcomes = await Promise.allSettled(
+      Array.from({ length: Math.min(this.chunking.concurrency, chunks.length) }, () =>
+        worker().catch((error) => {
+          failed = true;
+          throw error;
+        })
+      )
+    );
+    const rejected = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    if (rejected) {
+      throw rejected.reason;
+    }
+
+    const segments = stitchChunkSegments(transcripts);
+
+    return {
+      text: segments.map((segment) => segment.text.trim()).filter(Boolean).join(' '),
+      segments,
+      language: getMostCommon(languages),
+      duration,
+      provider,
+      model: options.model,
+    };
+  }
+
+  private getClientOptions(options: TranscriptionOptions) {
+    return {
+      model: options.model,
+      language: options.language,
+      prompt: options.prompt,
+      temperature: options.temperature,
+      responseFormat: 'verbose_json' as const,
+      wordTimestamps: options.wordTimestamps,
+      signal: options.signal,
     };
   }
 
@@ -131,9 +374,7 @@ export class ASRService {
    * Get supported languages for a provider
    */
   getSupportedLanguages(provider?: ASRProvider): string[] {
-    const targetProvider = provider || this.defaultProvider;
-    const client = this.getClient(targetProvider);
-    return client.getSupportedLanguages();
+    return getASRProviderDefinition(provider || this.defaultProvider)?.languages || [];
   }
 
   /**
@@ -149,14 +390,98 @@ export class ASRService {
   }
 }
 
+/**
+ * Models of the providers configured on this server, for the model picker
+ */
+export function listASRModels(): ASRModelOption[] {
+  return listASRProviderDefinitions(true).flatMap((provider) =>
+    provider.getModels().map(({ id: model, name }) => ({
+      id: `${provider.id}:${model}`,
+      provider: provider.id,
+      model,
+      name,
+      providerName: provider.name,
+    }))
+  );
+}
+
+/**
+ * Parse fallback chains: "sv=berget:kb-whisper,groq:whisper-large-v3;*=groq,berget"
+ * Entries without a model use the provider's default model
+ */
+export function parseFallbackChains(value: string): Record<string, ASRCandidate[]> {
+  const chains: Record<string, ASRCandidate[]> = {};
+
+  for (const rule of value.split(';')) {
+    const [language, list] = rule.split('=').map((part) => part.trim());
+    if (!language || !list) continue;
+
+    chains[language.toLowerCase()] = list
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [provider, ...model] = entry.split(':');
+        return {
+          provider: provider as ASRProvider,
+          model: model.join(':') || getDefaultASRModel(provider as ASRProvider),
+        };
+      });
+  }
+
+  return chains;
+}
+
+/**
+ * Providers to try for a language: the requested one first, then the chain configured in
+ * ASR_FALLBACK_CHAIN with one model per provider. Without it (or "off") only the requested one -
+ * fallback is opt-in since it can send audio to a provider in another jurisdiction
+ */
+export function getFallbackChain(requested: ASRCandidate, language?: string): ASRCandidate[] {
+  const setting = process.env.ASR_FALLBACK_CHAIN?.trim();
+  if (!setting || setting === 'off') return [requested];
+
+  const chains = parseFallbackChains(setting);
+  const chain = (language && chains[language.toLowerCase()]) || chains['*'] || [];
+  const result = [requested];
+
+  for (const candidate of chain) {
+    if (!result.some((entry) => entry.provider === candidate.provider)) {
+      result.push(candidate);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Model used when a provider is chosen without one (e.g. retrying with another provider)
+ */
+export function getDefaultASRModel(provider: ASRProvider): string {
+  return getASRProviderDefinition(provider)?.getModels()[0]?.id || 'kb-whisper';
+}
+
 /**
  * Create ASR service instance
  */
 export function createASRService(): ASRService {
   const defaultProvider = (process.env.DEFAULT_ASR_PROVIDER as ASRProvider) || 'groq';
-  return new ASRService(defaultProvider);
+  const maxUploadMb = parseFloat(process.env.ASR_MAX_UPLOAD_MB || '');
+  const chunkSeconds = parseInt(process.env.ASR_CHUNK_SECONDS || '', 10);
+  const concurrency = parseInt(process.env.ASR_CHUNK_CONCURRENCY || '', 10);
+
+  return new ASRService(defaultProvider, {
+    ...(maxUploadMb > 0 && { maxUploadBytes: maxUploadMb * 1024 * 1024 }),
+    ...(chunkSeconds > 0 && { chunkSeconds }),
+    ...(concurrency > 0 && { concurrency }),
+  });
 }
 
+// Re-export the registry
+export { registerASRProvider, getASRProviderDefinition, listASRProviderDefinitions } from './registry';
+export type { ASRProviderDefinition, ASRClient } from './registry';
+
 // Re-export types
-export type { GroqTranscriptionOptions, GroqTranscriptionResult, GroqSegment };
+export type { GroqTranscriptionOptions, GroqTranscriptionResult, GroqSegment, GroqWord };
 export type { BergetTranscriptionOptions, BergetTranscriptionResult, BergetSegment };
+export type { OpenAITranscriptionOptions, OpenAITranscriptionResult, OpenAISegment };
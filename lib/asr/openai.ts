@@ -0,0 +1,259 @@
+/**
+ * OpenAI-compatible ASR Service
+ * Targets any `/audio/transcriptions` endpoint that speaks the OpenAI API:
+ * OpenAI itself or a self-hosted faster-whisper / whisper.cpp server
+ */
+
+import OpenAI from 'openai';
+
+export interface OpenAIASRConfig {
+  baseUrl: string;
+  apiKey?: string;     // Optional - local servers usually don't check it
+  models: string[];    // First one is the default
+  name: string;        // Shown in the model picker
+}
+
+export interface OpenAITranscriptionOptions {
+  model?: string;
+  language?: string;
+  prompt?: string;
+  temperature?: number;
+  responseFormat?: 'json' | 'verbose_json' | 'text';
+  wordTimestamps?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface OpenAIWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface OpenAISegment {
+  id?: number;
+  startTime: number;
+  endTime: number;
+  text: string;
+  words?: OpenAIWord[];
+  confidence?: number;
+}
+
+export interface OpenAITranscriptionResult {
+  text: string;
+  segments?: OpenAISegment[];
+  language?: string;
+  duration?: number;
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'whisper-1';
+
+// Languages the provider transcribes (ISO 639-1)
+export const OPENAI_ASR_LANGUAGES = [
+  'en', 'zh', 'de', 'es', 'ru', 'ko', 'fr', 'ja', 'pt', 'tr',
+  'pl', 'ca', 'nl', 'ar', 'sv', 'it', 'id', 'hi', 'fi', 'vi',
+  'he', 'uk', 'el', 'ms', 'cs', 'ro', 'da', 'hu', 'ta', 'no',
+];
+
+/**
+ * OpenAI-compatible ASR Client
+ */
+export class OpenAICompatibleASR {
+  private client: OpenAI;
+  private defaultModel: string;
+
+  constructor(config: OpenAIASRConfig) {
+    this.client = new OpenAI({
+      // The SDK requires a key even when the server ignores it
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseUrl,
+    });
+    this.defaultModel = config.models[0] || DEFAULT_MODEL;
+  }
+
+  /**
+   * Transcribe audio file
+   */
+  async transcribe(
+    audioFile: File | Buffer,
+    options: OpenAITranscriptionOptions = {}
+  ): Promise<OpenAITranscriptionResult> {
+    try {
+      const {
+        model = this.defaultModel,
+        language,
+        prompt,
+        temperature = 0,
+        responseFormat = 'verbose_json',
+        wordTimestamps = false,
+        signal,
+      } = options;
+
+      const file = audioFile instanceof Buffer
+        ? new File([new Uint8Array(audioFile)], 'audio.mp3', { type: 'audio/mpeg' })
+        : audioFile;
+
+      // Only send optional parameters that are set - some servers reject unknown or null fields
+      const requestOptions: any = {
+        file: file as any,
+        model,
+        response_format: responseFormat,
+        temperature,
+      };
+      if (language) requestOptions.language = language;
+      if (prompt) requestOptions.prompt = prompt;
+      if (responseFormat === 'verbose_json') {
+        requestOptions.timestamp_granularities = wordTimestamps ? ['word', 'segment'] : ['segment'];
+      }
+
+      const response = await this.client.audio.transcriptions.create(requestOptions, { signal });
+
+      if (typeof response === 'string') {
+        return { text: response };
+      }
+
+      const verboseResponse = response as any;
+      console.log('OpenAI-compatible segments count:', verboseResponse.segments?.length || 0);
+
+      // Words come either per segment (faster-whisper) or as a flat list (OpenAI)
+      const flatWords: OpenAIWord[] = (verboseResponse.words || []).map((w: any) => ({
+        word: w.word,
+        start: w.start,
+        end: w.end,
+      }));
+
+      const segments: OpenAISegment[] = (verboseResponse.segments || []).map(
+        (seg: any, index: number, all: any[]) => {
+          const isFirst = index === 0;
+          const isLast = index === all.length - 1;
+          const segmentWords: OpenAIWord[] = seg.words?.length
+            ? seg.words.map((w: any) => ({ word: w.word, start: w.start, end: w.end }))
+            : flatWords.filter(
+                (w) => (isFirst || w.start >= seg.start) && (isLast || w.start < all[index + 1].start)
+              );
+
+          return {
+            id: index,
+            startTime: seg.start,
+            endTime: seg.end,
+            text: seg.text?.trim() || '',
+            ...(segmentWords.length > 0 && { words: segmentWords }),
+            confidence: seg.avg_logprob ? Math.exp(seg.avg_logprob) : undefined,
+          };
+        }
+      );
+
+      const duration = verboseResponse.duration ||
+        (segments.length > 0 ? segments[segments.length - 1].endTime : undefined);
+
+      // Models that only return text (e.g. json format) still produce one timed segment
+      if (segments.length === 0 && verboseResponse.text?.trim()) {
+        segments.push({
+          id: 0,
+          startTime: 0,
+          endTime: duration || 0,
+          text: verboseResponse.text.trim(),
+        });
+      }
+
+      return {
+        text: verboseResponse.text || segments.map((s) => s.text).join(' '),
+        segments,
+        language: verboseResponse.language,
+        duration,
+      };
+    } catch (error) {
+      console.error('OpenAI-compatible transcription error:', error);
+      throw new Error(
+        `OpenAI-compatible transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Transcribe from URL
+   */
+  async transcribeFromUrl(
+    audioUrl: string,
+    options: OpenAITranscriptionOptions = {}
+  ): Promise<OpenAITranscriptionResult> {
+    try {
+      const response = await fetch(audioUrl, { signal: options.signal });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch audio: ${response.statusText}`);
+      }
+
+      const buffer = Buffer.from(await response.arrayBuffer());
+      return this.transcribe(buffer, options);
+    } catch (error) {
+      console.error('OpenAI-compatible transcription from URL error:', error);
+      throw new Error(
+        `Failed to transcribe from URL: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Get supported languages (all Whisper languages)
+   */
+  getSupportedLanguages(): string[] {
+    return OPENAI_ASR_LANGUAGES;
+  }
+}
+
+/**
+ * Read the provider configuration from env
+ * OPENAI_ASR_BASE_URL, OPENAI_ASR_API_KEY, OPENAI_ASR_MODELS, OPENAI_ASR_NAME
+ * Returns null when neither a base URL nor a key is set - OPENAI_API_KEY is for
+ * translation and never enables ASR on its own
+ */
+export function getOpenAIASRConfig(): OpenAIASRConfig | null {
+  const baseUrl = process.env.OPENAI_ASR_BASE_URL;
+  const apiKey = process.env.OPENAI_ASR_API_KEY;
+
+  if (!baseUrl && !apiKey) {
+    return null;
+  }
+
+  const models = (process.env.OPENAI_ASR_MODELS || DEFAULT_MODEL)
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+
+  return {
+    // The OpenAI SDK adds the endpoint path itself
+    baseUrl: (baseUrl || DEFAULT_BASE_URL).replace(/\/audio\/transcriptions\/?$/, ''),
+    apiKey,
+    models: models.length > 0 ? models : [DEFAULT_MODEL],
+    name: process.env.OPENAI_ASR_NAME || (baseUrl ? 'Self-hosted' : 'OpenAI'),
+  };
+}
+
+/**
+ * Whether OpenAI-compatible ASR points at a server other than OpenAI's own (self-hosted Whisper)
+ */
+export function isSelfHostedOpenAIASR(): boolean {
+  const config = getOpenAIASRConfig();
+  if (!config) return false;
+
+  try {
+    return new URL(config.baseUrl).hostname !== new URL(DEFAULT_BASE_URL).hostname;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Create OpenAI-compatible ASR client instance
+ */
+export function createOpenAIASR(): OpenAICompatibleASR {
+  const config = getOpenAIASRConfig();
+
+  if (!config) {
+    throw new Error('OPENAI_ASR_BASE_URL or OPENAI_ASR_API_KEY environment variable is not set');
+  }
+
+  return new OpenAICompatibleASR(config);
+}
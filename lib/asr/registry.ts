@@ -0,0 +1,103 @@
+/**
+ * ASR Provider Registry
+ * Providers declare their models, languages and capabilities here; ASRService
+ * creates clients through the registry, so adding a provider is one registration
+ */
+
+import { createBergetASR, BERGET_LANGUAGES } from './berget';
+import { createGroqASR, GROQ_LANGUAGES } from './groq';
+import { createOpenAIASR, getOpenAIASRConfig, OPENAI_ASR_LANGUAGES } from './openai';
+import type { ProviderCapabilities, ProviderModelInfo } from '@/lib/types';
+import type { TranscriptionOptions, TranscriptionResult } from './index';
+
+// What a client returns - ASRService adds the provider and model that served it
+export type ASRClientResult = Omit<TranscriptionResult, 'provider' | 'model'>;
+
+// Common interface for ASR clients
+export interface ASRClient {
+  transcribe(audioFile: File | Buffer, options: TranscriptionOptions): Promise<ASRClientResult>;
+  transcribeFromUrl(audioUrl: string, options: TranscriptionOptions): Promise<ASRClientResult>;
+  getSupportedLanguages(): string[];
+}
+
+export interface ASRProviderDefinition {
+  id: string;
+  name: string;
+  flag: string;
+  description: string;
+  languages: string[];
+  capabilities: ProviderCapabilities;
+  maxUploadBytes: number;              // Request size limit of the transcription endpoint
+  isConfigured(): boolean;             // Credentials or endpoint set in env
+  getModels(): ProviderModelInfo[];    // First one is the default
+  createClient(): ASRClient;           // Throws when not configured
+}
+
+const providers = new Map<string, ASRProviderDefinition>();
+
+/**
+ * Add a provider, replacing any registered under the same id
+ */
+export function registerASRProvider(definition: ASRProviderDefinition): void {
+  providers.set(definition.id, definition);
+}
+
+/**
+ * Registered provider by id
+ */
+export function getASRProviderDefinition(id: string): ASRProviderDefinition | undefined {
+  return providers.get(id);
+}
+
+/**
+ * All registered providers in registration order, optionally only configured ones
+ */
+export function listASRProviderDefinitions(configuredOnly = false): ASRProviderDefinition[] {
+  const all = [...providers.values()];
+  return configuredOnly ? all.filter((provider) => provider.isConfigured()) : all;
+}
+
+registerASRProvider({
+  id: 'berget',
+  name: 'Berget AI',
+  flag: '🇸🇪',
+  description: 'KB Whisper - Swedish-optimized, EU data residency',
+  languages: BERGET_LANGUAGES,
+  capabilities: { wordTimestamps: true, diarization: false, jsonMode: true },
+  maxUploadBytes: 25 * 1024 * 1024,
+  isConfigured: () => Boolean(process.env.BERGET_API_KEY),
+  getModels: () => [{ id: 'kb-whisper', name: 'KB Whisper' }],
+  createClient: createBergetASR,
+});
+
+registerASRProvider({
+  id: 'groq',
+  name: 'Groq',
+  flag: '🇺🇸',
+  description: 'Whisper v3 - Fast multilingual transcription',
+  languages: GROQ_LANGUAGES,
+  capabilities: { wordTimestamps: true, diarization: false, jsonMode: true },
+  maxUploadBytes: 25 * 1024 * 1024,
+  isConfigured: () => Boolean(process.env.GROQ_API_KEY),
+  getModels: () => [
+    { id: 'whisper-large-v3', name: 'Whisper Large v3' },
+    { id: 'whisper-large-v3-turbo', name: 'Whisper Large v3 Turbo' },
+  ],
+  createClient: createGroqASR,
+});
+
+// Name and models come from env (OPENAI_ASR_*), so they are read on each call
+registerASRProvider({
+  id: 'openai',
+  get name() {
+    return getOpenAIASRConfig()?.name || 'OpenAI';
+  },
+  flag: '🖥️',
+  description: 'OpenAI or a self-hosted OpenAI-compatible Whisper server',
+  languages: OPENAI_ASR_LANGUAGES,
+  capabilities: { wordTimestamps: true, diarization: false, jsonMode: true },
+  maxUploadBytes: 25 * 1024 * 1024,
+  isConfigured: () => getOpenAIASRConfig() !== null,
+  getModels: () => (getOpenAIASRConfig()?.models || ['whisper-1']).map((id) => ({ id, name: id })),
+  createClient: createOpenAIASR,
+});
@@ -0,0 +1,107 @@
+/**
+ * Speaker Diarization Abstraction Layer
+ * Assigns a speaker to each transcription segment ("who spoke when")
+ */
+
+import { LocalDiarizer, createLocalDiarizer } from './local';
+
+export type DiarizationProvider = 'local';
+
+export const DIARIZATION_PROVIDERS: DiarizationProvider[] = ['local'];
+
+export interface DiarizationSegment {
+  startTime: number;
+  endTime: number;
+}
+
+export interface DiarizationOptions {
+  provider?: DiarizationProvider;
+  numSpeakers?: number; // Exact speaker count when known
+  maxSpeakers?: number; // Upper bound when the count is estimated
+  mergeThreshold?: number; // Local provider: higher = fewer speakers
+  signal?: AbortSignal; // Aborts the audio download (job cancellation)
+}
+
+export interface DiarizationResult {
+  labels: number[]; // Speaker index per input segment, numbered by first appearance
+  speakerCount: number;
+  provider: DiarizationProvider;
+}
+
+// Common interface for diarization clients
+interface DiarizationClient {
+  diarizeFromUrl(
+    audioUrl: string,
+    segments: DiarizationSegment[],
+    options: DiarizationOptions
+  ): Promise<Omit<DiarizationResult, 'provider'>>;
+}
+
+/**
+ * Main Diarization Service
+ */
+export class DiarizationService {
+  private localClient?: LocalDiarizer;
+  private defaultProvider: DiarizationProvider;
+
+  constructor(defaultProvider: DiarizationProvider = 'local') {
+    this.defaultProvider = defaultProvider;
+  }
+
+  /**
+   * Get diarization client for specified provider
+   */
+  private getClient(provider: DiarizationProvider): DiarizationClient {
+    switch (provider) {
+      case 'local':
+        if (!this.localClient) {
+          this.localClient = createLocalDiarizer();
+        }
+        return this.localClient;
+
+      default:
+        throw new Error(`Unknown diarization provider: ${provider}`);
+    }
+  }
+
+  /**
+   * Diarize audio from URL, returning one speaker index per segment
+   */
+  async diarizeFromUrl(
+    audioUrl: string,
+    segments: DiarizationSegment[],
+    options: DiarizationOptions = {}
+  ): Promise<DiarizationResult> {
+    const provider = options.provider || this.defaultProvider;
+    const client = this.getClient(provider);
+
+    const result = await client.diarizeFromUrl(audioUrl, segments, options);
+
+    return {
+      ...result,
+      provider,
+    };
+  }
+}
+
+/**
+ * Stable label for a speaker index (SPEAKER_01, SPEAKER_02, ...)
+ */
+export function speakerLabel(index: number): string {
+  return `SPEAKER_${String(index + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Default display name for a speaker index
+ */
+export function defaultSpeakerName(index: number): string {
+  return `Speaker ${index + 1}`;
+}
+
+/**
+ * Create diarization service instance
+ */
+export function createDiarizationService(): DiarizationService {
+  const defaultProvider = (process.env.DIARIZATION_PROVIDER as DiarizationProvider) || 'local';
+  return new DiarizationService(defaultProvider);
+}
@@ -0,0 +1,535 @@
+/**
+ * Local Speaker Diarization
+ * Deterministic, offline speaker clustering based on MFCC voice statistics
+ * - Audio is decoded to 16kHz mono PCM with FFmpeg
+ * - Each segment is modelled as a diagonal Gaussian over its voiced MFCC frames
+ * - Segments are grouped with agglomerative clustering on a likelihood-ratio distance
+ */
+
+import { open } from 'fs/promises';
+import {
+  extractPcmForAnalysis,
+  saveStreamToTempFile,
+  cleanupTempFile,
+} from '@/lib/media/ffmpeg';
+import type { DiarizationOptions, DiarizationResult, DiarizationSegment } from './index';
+
+const SAMPLE_RATE = 16000;
+const FRAME_LENGTH = 400; // 25ms analysis window
+const FRAME_HOP = 160; // 10ms between frames
+const FFT_SIZE = 512;
+const MEL_FILTERS = 26;
+const CEPSTRAL_COEFFS = 13; // c0 (loudness) is left out so level changes do not split speakers
+const DIMENSIONS = CEPSTRAL_COEFFS - 1;
+const PRE_EMPHASIS = 0.97;
+const CHUNK_BYTES = 64 * 1024;
+
+// Frames quieter than about -50 dBFS are treated as silence
+const SILENCE_POWER = 1e-5;
+// Segments with less voiced audio than this are too noisy to cluster on their own
+const MIN_VOICED_FRAMES = 30;
+// Clustering is quadratic in the number of segments; longer recordings cluster on the longest ones
+const MAX_CLUSTER_SEGMENTS = 2000;
+// Variance floor so near-constant coefficients cannot dominate the likelihood
+const MIN_VARIANCE = 1e-4;
+
+export const DEFAULT_MAX_SPEAKERS = 8;
+// Per-frame likelihood loss (nats) above which two clusters are kept as different speakers
+export const DEFAULT_MERGE_THRESHOLD = 0.5;
+
+/**
+ * Precomputed analysis tables (window, FFT twiddles, mel filterbank, DCT)
+ */
+interface AnalysisTables {
+  window: Float64Array;
+  bitReversed: Uint32Array;
+  cosTable: Float64Array;
+  sinTable: Float64Array;
+  melFilters: { start: number; weights: Float64Array }[];
+  dct: Float64Array; // CEPSTRAL_COEFFS x MEL_FILTERS
+}
+
+let tables: AnalysisTables | null = null;
+
+function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+/**
+ * Build analysis tables once per process
+ */
+function getTables(): AnalysisTables {
+  if (tables) return tables;
+
+  // Hamming window
+  const window = new Float64Array(FRAME_LENGTH);
+  for (let i = 0; i < FRAME_LENGTH; i++) {
+    window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_LENGTH - 1));
+  }
+
+  // Radix-2 FFT bit reversal and twiddle factors
+  const bits = Math.log2(FFT_SIZE);
+  const bitReversed = new Uint32Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    let reversed = 0;
+    for (let b = 0; b < bits; b++) {
+      reversed = (reversed << 1) | ((i >> b) & 1);
+    }
+    bitReversed[i] = reversed;
+  }
+  const cosTable = new Float64Array(FFT_SIZE / 2);
+  const sinTable = new Float64Array(FFT_SIZE / 2);
+  for (let i = 0; i < FFT_SIZE / 2; i++) {
+    cosTable[i] = Math.cos((2 * Math.PI * i) / FFT_SIZE);
+    sinTable[i] = -Math.sin((2 * Math.PI * i) / FFT_SIZE);
+  }
+
+  // Triangular mel filters between 64 Hz and Nyquist
+  const binCount = FFT_SIZE / 2 + 1;
+  const lowMel = hzToMel(64);
+  const highMel = hzToMel(SAMPLE_RATE / 2);
+  const edges: number[] = [];
+  for (let i = 0; i < MEL_FILTERS + 2; i++) {
+    const hz = melToHz(lowMel + ((highMel - lowMel) * i) / (MEL_FILTERS + 1));
+    edges.push((hz * FFT_SIZE) / SAMPLE_RATE);
+  }
+  const melFilters = [];
+  for (let f = 0; f < MEL_FILTERS; f++) {
+    const [left, center, right] = [edges[f], edges[f + 1], edges[f + 2]];
+    const start = Math.max(0, Math.ceil(left));
+    const end = Math.min(binCount - 1, Math.floor(right));
+    const weights = new Float64Array(Math.max(0, end - start + 1));
+    for (let bin = start; bin <= end; bin++) {
+      weights[bin - start] = bin <= center
+        ? (bin - left) / (center - left)
+        : (right - bin) / (right - center);
+    }
+    melFilters.push({ start, weights });
+  }
+
+  // DCT-II basis for the cepstrum
+  const dct = new Float64Array(CEPSTRAL_COEFFS * MEL_FILTERS);
+  for (let c = 0; c < CEPSTRAL_COEFFS; c++) {
+    for (let f = 0; f < MEL_FILTERS; f++) {
+      dct[c * MEL_FILTERS + f] = Math.cos((Math.PI * c * (f + 0.5)) / MEL_FILTERS);
+    }
+  }
+
+  tables = { window, bitReversed, cosTable, sinTable, melFilters, dct };
+  return tables;
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+function fft(re: Float64Array, im: Float64Array, t: AnalysisTables): void {
+  for (let i = 0; i < FFT_SIZE; i++) {
+    const j = t.bitReversed[i];
+    if (j > i) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= FFT_SIZE; size <<= 1) {
+    const half = size >> 1;
+    const step = FFT_SIZE / size;
+    for (let start = 0; start < FFT_SIZE; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = t.cosTable[k * step];
+        const sin = t.sinTable[k * step];
+        const a = start + k;
+        const b = a + half;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+/**
+ * Compute MFCCs (without c0) for one frame into `out`
+ * Returns false when the frame is silent and was skipped
+ */
+function frameCepstrum(
+  frame: Float32Array,
+  out: Float64Array,
+  re: Float64Array,
+  im: Float64Array,
+  melEnergies: Float64Array
+): boolean {
+  let power = 0;
+  for (let i = 0; i < FRAME_LENGTH; i++) power += frame[i] * frame[i];
+  if (power / FRAME_LENGTH < SILENCE_POWER) return false;
+
+  const t = getTables();
+  re.fill(0);
+  im.fill(0);
+  re[0] = frame[0] * t.window[0];
+  for (let i = 1; i < FRAME_LENGTH; i++) {
+    re[i] = (frame[i] - PRE_EMPHASIS * frame[i - 1]) * t.window[i];
+  }
+  fft(re, im, t);
+
+  for (let f = 0; f < MEL_FILTERS; f++) {
+    const { start, weights } = t.melFilters[f];
+    let energy = 0;
+    for (let w = 0; w < weights.length; w++) {
+      const bin = start + w;
+      energy += weights[w] * (re[bin] * re[bin] + im[bin] * im[bin]);
+    }
+    melEnergies[f] = Math.log(energy + 1e-10);
+  }
+
+  for (let c = 1; c < CEPSTRAL_COEFFS; c++) {
+    let sum = 0;
+    for (let f = 0; f < MEL_FILTERS; f++) sum += t.dct[c * MEL_FILTERS + f] * melEnergies[f];
+    out[c - 1] = sum;
+  }
+  return true;
+}
+
+/**
+ * Sufficient statistics of a diagonal Gaussian over MFCC frames
+ * Segment statistics add up exactly when segments are merged into a speaker cluster
+ */
+export interface VoiceStats {
+  frames: number;
+  sum: Float64Array;
+  squares: Float64Array;
+}
+
+function emptyStats(): VoiceStats {
+  return { frames: 0, sum: new Float64Array(DIMENSIONS), squares: new Float64Array(DIMENSIONS) };
+}
+
+function addStats(target: VoiceStats, source: VoiceStats): void {
+  target.frames += source.frames;
+  for (let d = 0; d < DIMENSIONS; d++) {
+    target.sum[d] += source.sum[d];
+    target.squares[d] += source.squares[d];
+  }
+}
+
+/**
+ * Log-determinant of the diagonal covariance
+ */
+function logDeterminant(stats: VoiceStats): number {
+  let total = 0;
+  for (let d = 0; d < DIMENSIONS; d++) {
+    const mean = stats.sum[d] / stats.frames;
+    total += Math.log(Math.max(stats.squares[d] / stats.frames - mean * mean, MIN_VARIANCE));
+  }
+  return total;
+}
+
+/**
+ * Stream a raw PCM file and collect MFCC statistics per segment
+ * Frames are only counted when voiced; silent segments end up with zero frames
+ */
+export async function computeSegmentStats(
+  pcmPath: string,
+  segments: DiarizationSegment[]
+): Promise<VoiceStats[]> {
+  const stats = segments.map(() => emptyStats());
+
+  // Visit segments in time order so each frame only scans nearby segments
+  const order = segments.map((_, index) => index).sort((a, b) => segments[a].startTime - segments[b].startTime);
+  let first = 0;
+
+  const cepstrum = new Float64Array(DIMENSIONS);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const melEnergies = new Float64Array(MEL_FILTERS);
+
+  const handle = await open(pcmPath, 'r');
+  const chunk = Buffer.alloc(CHUNK_BYTES);
+  let carry = new Float32Array(0);
+  let frameIndex = 0;
+
+  try {
+    while (true) {
+      const { bytesRead } = await handle.read(chunk, 0, CHUNK_BYTES, null);
+      if (bytesRead === 0) break;
+
+      const sampleCount = bytesRead >> 1;
+      const samples = new Float32Array(carry.length + sampleCount);
+      samples.set(carry);
+      for (let i = 0; i < sampleCount; i++) {
+        samples[carry.length + i] = chunk.readInt16LE(i * 2) / 32768;
+      }
+
+      let offset = 0;
+      for (; offset + FRAME_LENGTH <= samples.length; offset += FRAME_HOP, frameIndex++) {
+        const time = (frameIndex * FRAME_HOP + FRAME_LENGTH / 2) / SAMPLE_RATE;
+
+        while (first < order.length && segments[order[first]].endTime <= time) first++;
+        if (first >= order.length) continue;
+        if (segments[order[first]].startTime > time) continue;
+
+        if (!frameCepstrum(samples.subarray(offset, offset + FRAME_LENGTH), cepstrum, re, im, melEnergies)) {
+          continue;
+        }
+
+        for (let k = first; k < order.length && segments[order[k]].startTime <= time; k++) {
+          const segmentStats = stats[order[k]];
+          if (segments[order[k]].endTime <= time) continue;
+          segmentStats.frames++;
+          for (let d = 0; d < DIMENSIONS; d++) {
+            segmentStats.sum[d] += cepstrum[d];
+            segmentStats.squares[d] += cepstrum[d] * cepstrum[d];
+          }
+        }
+      }
+
+      carry = samples.slice(offset);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  return stats;
+}
+
+/**
+ * Agglomerative clustering on voice statistics: repeatedly merge the two clusters whose
+ * merge loses the least likelihood per frame, until the cheapest merge exceeds the threshold
+ * Cost = 0.5 * (log|S| - (N1 * log|S1| + N2 * log|S2|) / N), the per-frame generalized likelihood ratio
+ * (unlike plain BIC it does not grow with segment length, so long segments do not split speakers)
+ * Deterministic: ties resolve to the lowest index
+ */
+function agglomerate(
+  items: VoiceStats[],
+  options: { numSpeakers?: number; maxSpeakers: number; threshold: number }
+): number[] {
+  const n = items.length;
+  if (n <= 1) return items.map(() => 0);
+
+  const clusters = items.map((item) => {
+    const cluster = emptyStats();
+    addStats(cluster, item);
+    return cluster;
+  });
+  const logDets = clusters.map(logDeterminant);
+  const active = new Uint8Array(n).fill(1);
+  const members: number[][] = items.map((_, index) => [index]);
+  const bestIndex = new Int32Array(n).fill(-1);
+  const bestCost = new Float64Array(n).fill(Infinity);
+
+  const mergeCost = (a: number, b: number): number => {
+    const merged = emptyStats();
+    addStats(merged, clusters[a]);
+    addStats(merged, clusters[b]);
+    return 0.5 * (
+      logDeterminant(merged) -
+      (clusters[a].frames * logDets[a] + clusters[b].frames * logDets[b]) / merged.frames
+    );
+  };
+
+  const refreshRow = (row: number) => {
+    bestIndex[row] = -1;
+    bestCost[row] = Infinity;
+    for (let k = 0; k < n; k++) {
+      if (k === row || !active[k]) continue;
+      const cost = mergeCost(row, k);
+      if (cost < bestCost[row]) {
+        bestCost[row] = cost;
+        bestIndex[row] = k;
+      }
+    }
+  };
+  for (let i = 0; i < n; i++) refreshRow(i);
+
+  const target = options.numSpeakers ? Math.min(Math.max(1, options.numSpeakers), n) : 1;
+  const maxClusters = Math.min(Math.max(1, options.maxSpeakers), n);
+  let activeCount = n;
+
+  while (activeCount > target) {
+    let i = -1;
+    for (let row = 0; row < n; row++) {
+      if (active[row] && bestIndex[row] >= 0 && (i === -1 || bestCost[row] < bestCost[i])) {
+        i = row;
+      }
+    }
+    if (i === -1) break;
+
+    // Without a fixed speaker count, stop once the closest clusters are clearly different voices
+    if (!options.numSpeakers && activeCount <= maxClusters && bestCost[i] > options.threshold) break;
+
+    const j = bestIndex[i];
+    addStats(clusters[i], clusters[j]);
+    logDets[i] = logDeterminant(clusters[i]);
+    active[j] = 0;
+    members[i].push(...members[j]);
+    activeCount--;
+
+    refreshRow(i);
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === i) continue;
+      if (bestIndex[k] === i || bestIndex[k] === j) {
+        refreshRow(k);
+      } else {
+        const cost = mergeCost(k, i);
+        if (cost < bestCost[k]) {
+          bestCost[k] = cost;
+          bestIndex[k] = i;
+        }
+      }
+    }
+  }
+
+  const labels = new Array<number>(n).fill(0);
+  let cluster = 0;
+  for (let i = 0; i < n; i++) {
+    if (!active[i]) continue;
+    for (const member of members[i]) labels[member] = cluster;
+    cluster++;
+  }
+  return labels;
+}
+
+/**
+ * Log-likelihood of a segment's frames under a cluster's diagonal Gaussian
+ */
+function segmentLikelihood(segment: VoiceStats, cluster: VoiceStats): number {
+  let total = 0;
+  for (let d = 0; d < DIMENSIONS; d++) {
+    const mean = cluster.sum[d] / cluster.frames;
+    const variance = Math.max(cluster.squares[d] / cluster.frames - mean * mean, MIN_VARIANCE);
+    const squaredError = segment.squares[d] - 2 * mean * segment.sum[d] + segment.frames * mean * mean;
+    total -= 0.5 * (segment.frames * Math.log(2 * Math.PI * variance) + squaredError / variance);
+  }
+  return total;
+}
+
+/**
+ * Assign a speaker index to every segment from its voice statistics
+ * Short or silent segments inherit the most likely speaker instead of forming their own cluster
+ */
+export function clusterSegments(
+  segments: DiarizationSegment[],
+  stats: VoiceStats[],
+  options: DiarizationOptions = {}
+): number[] {
+  const n = segments.length;
+  if (n === 0) return [];
+
+  const audible = stats.map((item, index) => (item.frames > 0 ? index : -1)).filter((index) => index >= 0);
+  if (audible.length === 0) return segments.map(() => 0);
+
+  // Cluster on the segments with the most voiced audio; fall back to anything audible
+  let anchors = audible.filter((index) => stats[index].frames >= MIN_VOICED_FRAMES);
+  if (anchors.length === 0) anchors = audible;
+  if (anchors.length > MAX_CLUSTER_SEGMENTS) {
+    anchors = [...anchors]
+      .sort((a, b) => stats[b].frames - stats[a].frames || a - b)
+      .slice(0, MAX_CLUSTER_SEGMENTS)
+      .sort((a, b) => a - b);
+  }
+
+  const anchorLabels = agglomerate(anchors.map((index) => stats[index]), {
+    numSpeakers: options.numSpeakers,
+    maxSpeakers: options.maxSpeakers ?? DEFAULT_MAX_SPEAKERS,
+    threshold: options.mergeThreshold ?? DEFAULT_MERGE_THRESHOLD,
+  });
+
+  const labels = new Array<number>(n).fill(-1);
+  const clusterCount = Math.max(...anchorLabels) + 1;
+  const clusters = Array.from({ length: clusterCount }, () => emptyStats());
+  anchors.forEach((index, position) => {
+    labels[index] = anchorLabels[position];
+    addStats(clusters[anchorLabels[position]], stats[index]);
+  });
+
+  // Remaining audible segments go to the speaker that explains them best
+  for (const index of audible) {
+    if (labels[index] !== -1) continue;
+    let best = 0;
+    let bestLikelihood = -Infinity;
+    clusters.forEach((cluster, c) => {
+      const likelihood = segmentLikelihood(stats[index], cluster);
+      if (likelihood > bestLikelihood) {
+        bestLikelihood = likelihood;
+        best = c;
+      }
+    });
+    labels[index] = best;
+  }
+
+  // Silent segments take the speaker of the previous labelled segment in time
+  const order = segments.map((_, index) => index).sort((a, b) => segments[a].startTime - segments[b].startTime || a - b);
+  let previous = -1;
+  for (const index of order) {
+    if (labels[index] === -1 && previous !== -1) labels[index] = previous;
+    if (labels[index] !== -1) previous = labels[index];
+  }
+  const firstLabel = labels[order.find((index) => labels[index] !== -1)!];
+  for (const index of order) {
+    if (labels[index] !== -1) break;
+    labels[index] = firstLabel;
+  }
+
+  // Number speakers in order of first appearance
+  const renumbered = new Map<number, number>();
+  const result = new Array<number>(n);
+  for (const index of order) {
+    if (!renumbered.has(labels[index])) renumbered.set(labels[index], renumbered.size);
+    result[index] = renumbered.get(labels[index])!;
+  }
+  return result;
+}
+
+/**
+ * Local diarization client (no network access beyond fetching the audio)
+ */
+export class LocalDiarizer {
+  /**
+   * Diarize audio from a URL against the given segments
+   */
+  async diarizeFromUrl(
+    audioUrl: string,
+    segments: DiarizationSegment[],
+    options: DiarizationOptions = {}
+  ): Promise<Omit<DiarizationResult, 'provider'>> {
+    // Stream to disk, like ASR - long recordings should not be held in memory
+    const response = await fetch(audioUrl, { signal: options.signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to fetch audio from URL: ${response.statusText}`);
+    }
+
+    const extension = new URL(audioUrl).pathname.split('.').pop()?.toLowerCase() || 'mp3';
+    const audioPath = await saveStreamToTempFile(response.body, extension);
+    let pcmPath: string | null = null;
+
+    try {
+      pcmPath = await extractPcmForAnalysis(audioPath, SAMPLE_RATE);
+      const stats = await computeSegmentStats(pcmPath, segments);
+      const labels = clusterSegments(segments, stats, options);
+
+      return {
+        labels,
+        speakerCount: labels.length > 0 ? Math.max(...labels) + 1 : 0,
+      };
+    } catch (error) {
+      throw new Error(`Local diarization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      cleanupTempFile(audioPath);
+      if (pcmPath) cleanupTempFile(pcmPath);
+    }
+  }
+}
+
+/**
+ * Create local diarization client
+ */
+export function createLocalDiarizer(): LocalDiarizer {
+  return new LocalDiarizer();
+}
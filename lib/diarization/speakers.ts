@@ -0,0 +1,92 @@
+/**
+ * Speaker Records
+ * Create, list and remove Speakers rows for a transcription
+ */
+
+import NocoDBClient, { sanitizeNumericId, type NocoDBApi } from '@/lib/db/nocodb';
+import { speakerLabel, defaultSpeakerName } from './index';
+import type { Speaker } from '@/lib/types';
+
+const BATCH_SIZE = 50;
+
+/**
+ * Create one Speakers row per entry
+ * Returns the new row Ids in the same order as the input
+ */
+export async function createSpeakers(
+  db: NocoDBApi,
+  transcriptionId: number,
+  speakers: { label: string; name: string }[]
+): Promise<number[]> {
+  const { baseId, tableId: speakersTableId } = await NocoDBClient.getIds('Speakers');
+  const ids: number[] = [];
+
+  for (let i = 0; i < speakers.length; i += BATCH_SIZE) {
+    const batch = speakers.slice(i, i + BATCH_SIZE);
+    const created = await Promise.all(
+      batch.map((speaker) =>
+        db.dbTableRow.create('noco', baseId, speakersTableId, {
+          TranscriptionId: transcriptionId,
+          Label: speaker.label,
+          Name: speaker.name,
+        })
+      )
+    );
+    ids.push(...created.map((row: any) => row.Id as number));
+  }
+
+  return ids;
+}
+
+/**
+ * Create Speakers rows for diarization output (SPEAKER_01 / "Speaker 1", ...)
+ * Returns the row Id for each speaker index
+ */
+export async function createDiarizedSpeakers(
+  db: NocoDBApi,
+  transcriptionId: number,
+  speakerCount: number
+): Promise<number[]> {
+  return createSpeakers(
+    db,
+    transcriptionId,
+    Array.from({ length: speakerCount }, (_, index) => ({
+      label: speakerLabel(index),
+      name: defaultSpeakerName(index),
+    }))
+  );
+}
+
+/**
+ * List speakers of a transcription in label order
+ */
+export async function listSpeakers(db: NocoDBApi, transcriptionId: number | string): Promise<Speaker[]> {
+  const { baseId, tableId: speakersTableId } = await NocoDBClient.getIds('Speakers');
+  const safeId = sanitizeNumericId(transcriptionId);
+
+  const speakers = await db.dbTableRow.list('noco', baseId, speakersTableId, {
+    where: `(TranscriptionId,eq,${safeId})`,
+    sort: 'Label',
+    limit: 1000,
+  });
+
+  return (speakers.list || []) as Speaker[];
+}
+
+/**
+ * Delete all speakers of a transcription
+ * Returns the number of deleted rows
+ */
+export async function deleteSpeakers(db: NocoDBApi, transcriptionId: number | string): Promise<number> {
+  const { baseId, tableId: speakersTableId } = await NocoDBClient.getIds('Speakers');
+  const speakers = await listSpeakers(db, transcriptionId);
+
+  for (let i = 0; i < speakers.length; i += BATCH_SIZE) {
+    const batch = speakers.slice(i, i + BATCH_SIZE);
+    await Promise.all(
+      batch.map((speaker) => db.dbTableRow.delete('noco', baseId, speakersTableId, speaker.Id))
+    );
+  }
+
+  return speakers.length;
+}
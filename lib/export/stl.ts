@@ -0,0 +1,491 @@
+/**
+ * EBU-STL Export
+ * Binary subtitle format defined in EBU Tech 3264-E
+ *
+ * File layout: one 1024-byte GSI (General Subtitle Information) block
+ * followed by 128-byte TTI (Text and Timing Information) blocks.
+ * Text is encoded with character code table 00 (Latin, ISO 6937 style),
+ * where accented letters are written as a diacritic byte followed by the base letter.
+ */
+
+import type { TranscriptionSegment } from '@/lib/types';
+
+export type STLFrameRate = 25 | 29.97 | 30;
+
+export const STL_FRAME_RATES: STLFrameRate[] = [25, 29.97, 30];
+
+export interface STLOptions {
+  frameRate?: STLFrameRate;
+  title?: string;
+  language?: string; // ISO 639-1 code, e.g. 'sv'
+}
+
+export interface ParsedSTLSubtitle {
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+export interface ParsedSTL {
+  frameRate: STLFrameRate;
+  title: string;
+  language?: string;
+  subtitles: ParsedSTLSubtitle[];
+}
+
+const GSI_BLOCK_SIZE = 1024;
+const TTI_BLOCK_SIZE = 128;
+const TEXT_FIELD_SIZE = 112;
+
+const TF_NEWLINE = 0x8a;
+const TF_UNUSED = 0x8f;
+const EBN_LAST = 0xff;
+const JUSTIFICATION_CENTERED = 0x02;
+const LAST_TELETEXT_ROW = 22;
+
+/**
+ * Language codes from EBU Tech 3264 Appendix 3 (Latin-script languages only)
+ */
+const STL_LANGUAGE_CODES: Record<string, number> = {
+  sq: 0x01, ca: 0x03, hr: 0x04, cy: 0x05, cs: 0x06, da: 0x07, de: 0x08,
+  en: 0x09, es: 0x0a, et: 0x0c, eu: 0x0d, fo: 0x0e, fr: 0x0f, fy: 0x10,
+  ga: 0x11, gd: 0x12, gl: 0x13, is: 0x14, it: 0x15, se: 0x16, la: 0x17,
+  lv: 0x18, lb: 0x19, lt: 0x1a, hu: 0x1b, mt: 0x1c, nl: 0x1d, no: 0x1e,
+  nb: 0x1e, nn: 0x1e, pl: 0x20, pt: 0x21, ro: 0x22, rm: 0x23, sr: 0x24,
+  sk: 0x25, sl: 0x26, fi: 0x27, sv: 0x28, tr: 0x29,
+};
+
+/**
+ * Non-spacing diacritic bytes (0xC1-0xCF) keyed by Unicode combining mark
+ */
+const DIACRITIC_BYTES: Record<string, number> = {
+  '\u0300': 0xc1, // grave
+  '\u0301': 0xc2, // acute
+  '\u0302': 0xc3, // circumflex
+  '\u0303': 0xc4, // tilde
+  '\u0304': 0xc5, // macron
+  '\u0306': 0xc6, // breve
+  '\u0307': 0xc7, // dot above
+  '\u0308': 0xc8, // diaeresis
+  '\u030A': 0xca, // ring above
+  '\u0327': 0xcb, // cedilla
+  '\u030B': 0xcd, // double acute
+  '\u0328': 0xce, // ogonek
+  '\u030C': 0xcf, // caron
+};
+
+/**
+ * Characters with a dedicated code point in table 00
+ */
+const SPECIAL_CHAR_BYTES: Record<string, number> = {
+  '¡': 0xa1, '¢': 0xa2, '£': 0xa3, '$': 0xa4, '¥': 0xa5, '§': 0xa7,
+  '¤': 0xa8, '‘': 0xa9, '“': 0xaa, '«': 0xab, '°': 0xb0, '±': 0xb1,
+  '²': 0xb2, '³': 0xb3, '×': 0xb4, 'µ': 0xb5, '¶': 0xb6, '·': 0xb7, '÷': 0xb8,
+  '’': 0xb9, '”': 0xba, '»': 0xbb, '¼': 0xbc, '½': 0xbd, '¾': 0xbe,
+  '¿': 0xbf, '―': 0xd0, '—': 0xd0, '¹': 0xd1, '®': 0xd2, '©': 0xd3,
+  '™': 0xd4, '♪': 0xd5, 'Ω': 0xe0, 'Æ': 0xe1, 'Đ': 0xe2, 'ª': 0xe3, 'Ħ': 0xe4,
+  'Ĳ': 0xe6, 'Ŀ': 0xe7, 'Ł': 0xe8, 'Ø': 0xe9, 'Œ': 0xea, 'º': 0xeb, 'Þ': 0xec,
+  'Ŧ': 0xed, 'Ŋ': 0xee, 'ŉ': 0xef, 'ĸ': 0xf0, 'æ': 0xf1, 'đ': 0xf2, 'ð': 0xf3,
+  'ħ': 0xf4, 'ı': 0xf5, 'ĳ': 0xf6, 'ŀ': 0xf7, 'ł': 0xf8, 'ø': 0xf9, 'œ': 0xfa,
+  'ß': 0xfb, 'þ': 0xfc, 'ŧ': 0xfd, 'ŋ': 0xfe,
+};
+
+/**
+ * Code page 850 bytes for the accented letters we expect in GSI text fields
+ */
+const CP850_BYTES: Record<string, number> = {
+  'Ç': 0x80, 'ü': 0x81, 'é': 0x82, 'â': 0x83, 'ä': 0x84, 'à': 0x85, 'å': 0x86,
+  'ç': 0x87, 'ê': 0x88, 'ë': 0x89, 'è': 0x8a, 'ï': 0x8b, 'î': 0x8c, 'ì': 0x8d,
+  'Ä': 0x8e, 'Å': 0x8f, 'É': 0x90, 'æ': 0x91, 'Æ': 0x92, 'ô': 0x93, 'ö': 0x94,
+  'ò': 0x95, 'û': 0x96, 'ù': 0x97, 'ÿ': 0x98, 'Ö': 0x99, 'Ü': 0x9a, 'ø': 0x9b,
+  'Ø': 0x9d, 'á': 0xa0, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3, 'ñ': 0xa4, 'Ñ': 0xa5,
+};
+
+const DECODE_DIACRITICS = invertMap(DIACRITIC_BYTES);
+const DECODE_SPECIAL_CHARS = invertMap(SPECIAL_CHAR_BYTES);
+const DECODE_CP850 = invertMap(CP850_BYTES);
+
+function invertMap(map: Record<string, number>): Map<number, string> {
+  const inverted = new Map<number, string>();
+  for (const [char, byte] of Object.entries(map)) {
+    // Keep the first mapping when several characters share a byte
+    if (!inverted.has(byte)) {
+      inverted.set(byte, char);
+    }
+  }
+  return inverted;
+}
+
+/**
+ * Encode text to character code table 00 bytes
+ * Unsupported characters are replaced with '?'
+ */
+function encodeTeletextText(text: string): number[] {
+  const bytes: number[] = [];
+  const normalized = text
+    .replace(/\u2026/g, '...')
+    .replace(/[\u2010-\u2013\u2212]/g, '-')
+    .replace(/[\u00A0\u2000-\u200B\u202F\u205F\u3000]/g, ' ');
+
+  for (const char of normalized) {
+    const code = char.charCodeAt(0);
+
+    if (SPECIAL_CHAR_BYTES[char] !== undefined) {
+      bytes.push(SPECIAL_CHAR_BYTES[char]);
+    } else if (code >= 0x20 && code < 0x7f) {
+      bytes.push(code);
+    } else {
+      // Decompose accented letters into base letter + combining mark
+      const [base, ...marks] = Array.from(char.normalize('NFD'));
+      const diacritic = marks.length === 1 ? DIACRITIC_BYTES[marks[0]] : undefined;
+      const baseCode = base.charCodeAt(0);
+
+      if (diacritic !== undefined && baseCode >= 0x20 && baseCode < 0x7f) {
+        bytes.push(diacritic, baseCode);
+      } else {
+        bytes.push(0x3f);
+      }
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode character code table 00 bytes to text
+ * Teletext control codes are dropped and line breaks become '\n'
+ */
+function decodeTeletextText(bytes: Uint8Array): string {
+  let text = '';
+  let pendingDiacritic: string | null = null;
+
+  for (const byte of bytes) {
+    if (byte === TF_UNUSED) continue;
+
+    if (byte === TF_NEWLINE) {
+      if (!text.endsWith('\n')) {
+        text += '\n';
+      }
+      continue;
+    }
+
+    // Teletext colour/attribute codes and other control bytes
+    if (byte < 0x20 || (byte >= 0x7f && byte < 0xa0)) continue;
+
+    const diacritic = DECODE_DIACRITICS.get(byte);
+    if (diacritic) {
+      pendingDiacritic = diacritic;
+      continue;
+    }
+
+    const char = byte < 0x7f ? String.fromCharCode(byte) : DECODE_SPECIAL_CHARS.get(byte) ?? '?';
+    text += pendingDiacritic ? (char + pendingDiacritic).normalize('NFC') : char;
+    pendingDiacritic = null;
+  }
+
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Encode a GSI text field in code page 850
+ */
+function encodeCP850(text: string): number[] {
+  return Array.from(text).map((char) => {
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 && code < 0x7f) return code;
+    if (CP850_BYTES[char] !== undefined) return CP850_BYTES[char];
+    const base = char.normalize('NFD').charCodeAt(0);
+    return base >= 0x20 && base < 0x7f ? base : 0x3f;
+  });
+}
+
+/**
+ * Decode a GSI text field from code page 850
+ */
+function decodeCP850(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((byte) => (byte < 0x80 ? String.fromCharCode(byte) : DECODE_CP850.get(byte) ?? '?'))
+    .join('')
+    .trim();
+}
+
+/**
+ * Frames per second used for timecode arithmetic (30 for both 29.97 and 30)
+ */
+function getTimecodeBase(frameRate: STLFrameRate): number {
+  return frameRate === 25 ? 25 : 30;
+}
+
+/**
+ * Convert seconds to an [hours, minutes, seconds, frames] timecode
+ * 29.97 uses drop-frame numbering so timecodes stay in sync with wall-clock time
+ */
+function secondsToTimecode(seconds: number, frameRate: STLFrameRate): [number, number, number, number] {
+  const base = getTimecodeBase(frameRate);
+  let frameNumber = Math.round(Math.max(0, seconds) * frameRate);
+
+  if (frameRate === 29.97) {
+    const framesPer10Minutes = 17982;
+    const framesPerMinute = 1798;
+    const tenMinuteBlocks = Math.floor(frameNumber / framesPer10Minutes);
+    const remainder = frameNumber % framesPer10Minutes;
+    frameNumber += 18 * tenMinuteBlocks;
+    if (remainder > 2) {
+      frameNumber += 2 * Math.floor((remainder - 2) / framesPerMinute);
+    }
+  }
+
+  const frames = frameNumber % base;
+  const totalSeconds = Math.floor(frameNumber / base);
+  const s = totalSeconds % 60;
+  const m = Math.floor(totalSeconds / 60) % 60;
+  const h = Math.floor(totalSeconds / 3600) % 24;
+  return [h, m, s, frames];
+}
+
+/**
+ * Convert an [hours, minutes, seconds, frames] timecode back to seconds
+ */
+function timecodeToSeconds(timecode: ArrayLike<number>, frameRate: STLFrameRate): number {
+  const [h, m, s, f] = [timecode[0], timecode[1], timecode[2], timecode[3]];
+  const base = getTimecodeBase(frameRate);
+  let frameNumber = (h * 3600 + m * 60 + s) * base + f;
+
+  if (frameRate === 29.97) {
+    const totalMinutes = h * 60 + m;
+    frameNumber -= 2 * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+
+  return Math.round((frameNumber / frameRate) * 1000) / 1000;
+}
+
+/**
+ * Format a timecode as HHMMSSFF for GSI fields
+ */
+function formatGSITimecode(timecode: [number, number, number, number]): string {
+  return timecode.map((part) => part.toString().padStart(2, '0')).join('');
+}
+
+/**
+ * Format a date as YYMMDD for GSI fields
+ */
+function formatGSIDate(date: Date): string {
+  return [date.getFullYear() % 100, date.getMonth() + 1, date.getDate()]
+    .map((part) => part.toString().padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Write a space-padded field into the GSI block
+ */
+function writeGSIField(block: Buffer, offset: number, length: number, value: string | number[]): void {
+  const bytes = typeof value === 'string' ? encodeCP850(value) : value;
+  for (let i = 0; i < length && i < bytes.length; i++) {
+    block[offset + i] = bytes[i];
+  }
+}
+
+/**
+ * Split encoded text into 112-byte text fields without separating
+ * a diacritic byte from the letter it modifies
+ */
+function splitTextField(bytes: number[]): number[][] {
+  const chunks: number[][] = [];
+  let start = 0;
+
+  while (start < bytes.length) {
+    let end = Math.min(start + TEXT_FIELD_SIZE, bytes.length);
+    if (end < bytes.length && DECODE_DIACRITICS.has(bytes[end - 1])) {
+      end--;
+    }
+    chunks.push(bytes.slice(start, end));
+    start = end;
+  }
+
+  return chunks.length > 0 ? chunks : [[]];
+}
+
+/**
+ * Build the GSI header block
+ */
+function buildGSIBlock(
+  options: Required<Pick<STLOptions, 'frameRate' | 'title'>> & { language?: string },
+  stats: { blockCount: number; subtitleCount: number; maxRowLength: number; firstCue: number }
+): Buffer {
+  const block = Buffer.alloc(GSI_BLOCK_SIZE, 0x20);
+  const today = formatGSIDate(new Date());
+  const languageCode = options.language
+    ? STL_LANGUAGE_CODES[options.language.toLowerCase().split('-')[0]] ?? 0
+    : 0;
+
+  writeGSIField(block, 0, 3, '850'); // CPN - code page number
+  writeGSIField(block, 3, 8, options.frameRate === 25 ? 'STL25.01' : 'STL30.01'); // DFC - disk format code
+  writeGSIField(block, 11, 1, '1'); // DSC - display standard (Level-1 teletext)
+  writeGSIField(block, 12, 2, '00'); // CCT - character code table (Latin)
+  writeGSIField(block, 14, 2, languageCode.toString(16).toUpperCase().padStart(2, '0')); // LC
+  writeGSIField(block, 16, 32, options.title); // OPT - original programme title
+  writeGSIField(block, 224, 6, today); // CD - creation date
+  writeGSIField(block, 230, 6, today); // RD - revision date
+  writeGSIField(block, 236, 2, '00'); // RN - revision number
+  writeGSIField(block, 238, 5, stats.blockCount.toString().padStart(5, '0')); // TNB
+  writeGSIField(block, 243, 5, stats.subtitleCount.toString().padStart(5, '0')); // TNS
+  writeGSIField(block, 248, 3, '001'); // TNG - number of subtitle groups
+  writeGSIField(block, 251, 2, Math.min(99, Math.max(40, stats.maxRowLength)).toString()); // MNC
+  writeGSIField(block, 253, 2, '23'); // MNR - maximum number of displayable rows
+  writeGSIField(block, 255, 1, '1'); // TCS - time code status (intended for use)
+  writeGSIField(block, 256, 8, '00000000'); // TCP - time code start of programme
+  writeGSIField(block, 264, 8, formatGSITimecode(secondsToTimecode(stats.firstCue, options.frameRate))); // TCF
+  writeGSIField(block, 272, 1, '1'); // TND - total number of disks
+  writeGSIField(block, 273, 1, '1'); // DSN - disk sequence number
+
+  return block;
+}
+
+/**
+ * Build one TTI block
+ */
+function buildTTIBlock(
+  subtitleNumber: number,
+  extensionBlockNumber: number,
+  timecodeIn: [number, number, number, number],
+  timecodeOut: [number, number, number, number],
+  verticalPosition: number,
+  textField: number[]
+): Buffer {
+  const block = Buffer.alloc(TTI_BLOCK_SIZE, TF_UNUSED);
+
+  block[0] = 0x00; // SGN - subtitle group number
+  block.writeUInt16LE(subtitleNumber & 0xffff, 1); // SN - subtitle number
+  block[3] = extensionBlockNumber; // EBN
+  block[4] = 0x00; // CS - cumulative status (not part of a cumulative set)
+  block.set(timecodeIn, 5); // TCI
+  block.set(timecodeOut, 9); // TCO
+  block[13] = verticalPosition; // VP
+  block[14] = JUSTIFICATION_CENTERED; // JC
+  block[15] = 0x00; // CF - subtitle data, not a comment
+  block.set(textField, 16); // TF
+
+  return block;
+}
+
+/**
+ * Generate EBU-STL binary subtitle file
+ */
+export function generateSTL(
+  segments: TranscriptionSegment[],
+  options: STLOptions = {}
+): Buffer {
+  const { frameRate = 25, title = 'Subtitles', language } = options;
+
+  const ttiBlocks: Buffer[] = [];
+  let maxRowLength = 0;
+
+  segments.forEach((segment, index) => {
+    const lines = segment.Text.trim()
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+
+    maxRowLength = Math.max(maxRowLength, ...lines.map((line) => line.length));
+
+    // Rows are separated by two line breaks so double-height teletext does not overlap
+    const textBytes: number[] = [];
+    lines.forEach((line, lineIndex) => {
+      if (lineIndex > 0) {
+        textBytes.push(TF_NEWLINE, TF_NEWLINE);
+      }
+      textBytes.push(...encodeTeletextText(line));
+    });
+
+    // Bottom-align: the last row sits on row 22, earlier rows two rows above each other
+    const verticalPosition = Math.max(1, LAST_TELETEXT_ROW - (Math.max(lines.length, 1) - 1) * 2);
+    const timecodeIn = secondsToTimecode(segment.StartTime, frameRate);
+    const timecodeOut = secondsToTimecode(segment.EndTime, frameRate);
+
+    const textFields = splitTextField(textBytes);
+    textFields.forEach((textField, blockIndex) => {
+      const isLast = blockIndex === textFields.length - 1;
+      ttiBlocks.push(
+        buildTTIBlock(index, isLast ? EBN_LAST : blockIndex, timecodeIn, timecodeOut, verticalPosition, textField)
+      );
+    });
+  });
+
+  const gsiBlock = buildGSIBlock(
+    { frameRate, title, language },
+    {
+      blockCount: ttiBlocks.length,
+      subtitleCount: segments.length,
+      maxRowLength,
+      firstCue: segments[0]?.StartTime ?? 0,
+    }
+  );
+
+  return Buffer.concat([gsiBlock, ...ttiBlocks]);
+}
+
+/**
+ * Parse an EBU-STL file
+ * Supports the subset written by generateSTL (Latin character table, no cumulative sets)
+ * and is primarily used to round-trip exported files.
+ * The disk format code cannot tell 29.97 from 30 fps, so pass frameRate for 29.97 files.
+ */
+export function parseSTL(data: Uint8Array, frameRate?: STLFrameRate): ParsedSTL {
+  if (data.length < GSI_BLOCK_SIZE) {
+    throw new Error('Invalid STL file: missing GSI block');
+  }
+
+  const gsi = data.subarray(0, GSI_BLOCK_SIZE);
+  const diskFormatCode = decodeCP850(gsi.subarray(3, 11));
+
+  if (diskFormatCode !== 'STL25.01' && diskFormatCode !== 'STL30.01') {
+    throw new Error(`Invalid STL file: unsupported disk format code "${diskFormatCode}"`);
+  }
+
+  const nominalFrameRate: STLFrameRate = diskFormatCode === 'STL25.01' ? 25 : 30;
+  if (frameRate && getTimecodeBase(frameRate) !== nominalFrameRate) {
+    throw new Error(`STL file is ${nominalFrameRate} fps, not ${frameRate} fps`);
+  }
+  const effectiveFrameRate = frameRate ?? nominalFrameRate;
+
+  const characterCodeTable = decodeCP850(gsi.subarray(12, 14));
+  if (characterCodeTable !== '00') {
+    throw new Error(`Unsupported STL character code table: ${characterCodeTable}`);
+  }
+
+  const languageCode = parseInt(decodeCP850(gsi.subarray(14, 16)), 16);
+  const language = Object.entries(STL_LANGUAGE_CODES).find(([, code]) => code === languageCode)?.[0];
+  const title = decodeCP850(gsi.subarray(16, 48));
+
+  const subtitles: ParsedSTLSubtitle[] = [];
+  let pendingText: number[] = [];
+
+  for (let offset = GSI_BLOCK_SIZE; offset + TTI_BLOCK_SIZE <= data.length; offset += TTI_BLOCK_SIZE) {
+    const block = data.subarray(offset, offset + TTI_BLOCK_SIZE);
+    const extensionBlockNumber = block[3];
+    const isComment = block[15] === 0x01;
+
+    // User data blocks (EBN 0xFE) and comments carry no subtitle text
+    if (extensionBlockNumber === 0xfe || isComment) {
+      pendingText = [];
+      continue;
+    }
+
+    pendingText.push(...block.subarray(16, TTI_BLOCK_SIZE));
+
+    if (extensionBlockNumber === EBN_LAST) {
+      subtitles.push({
+        startTime: timecodeToSeconds(block.subarray(5, 9), effectiveFrameRate),
+        endTime: timecodeToSeconds(block.subarray(9, 13), effectiveFrameRate),
+        text: decodeTeletextText(Uint8Array.from(pendingText)),
+      });
+      pendingText = [];
+    }
+  }
+
+  return { frameRate: effectiveFrameRate, title, language, subtitles };
+}
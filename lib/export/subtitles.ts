@@ -4,8 +4,20 @@
  */
 
 import type { TranscriptionSegment } from '@/lib/types';
+import { generateSTL, type STLFrameRate } from './stl';
 
-export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'txt' | 'json';
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'txt' | 'json' | 'stl' | 'ttml';
+
+// How speakers are marked: not at all, "Name: " before each speaker change, or native
+// voice fields where the format has them (VTT <v>, ASS Name) with prefixes elsewhere
+export type SpeakerLabelMode = 'none' | 'prefix' | 'voice';
+
+export const SPEAKER_LABEL_MODES: SpeakerLabelMode[] = ['none', 'prefix', 'voice'];
+
+export interface SpeakerLabelOptions {
+  mode: SpeakerLabelMode;
+  names: Record<number, string>; // Speaker Id -> display name
+}
 
 /**
  * Normalize text for subtitle rendering
@@ -33,6 +45,31 @@ function normalizeTextForSubtitles(text: string): string {
     .replace(/\u00F7/g, '/'); // Division sign to slash
 }
 
+/**
+ * Look up the display name of a segment's speaker
+ */
+function getSpeakerName(segment: TranscriptionSegment, names?: Record<number, string>): string | undefined {
+  if (!names || segment.SpeakerId === undefined || segment.SpeakerId === null) return undefined;
+  return names[segment.SpeakerId];
+}
+
+/**
+ * Prefix segment text with "Name: " whenever the speaker changes
+ */
+export function applySpeakerPrefixes(
+  segments: TranscriptionSegment[],
+  names: Record<number, string>
+): TranscriptionSegment[] {
+  let previousName: string | undefined;
+
+  return segments.map((segment) => {
+    const name = getSpeakerName(segment, names);
+    const changed = name !== undefined && name !== previousName;
+    previousName = name;
+    return changed ? { ...segment, Text: `${name}: ${segment.Text.trim()}` } : segment;
+  });
+}
+
 /**
  * Format time for SRT (HH:MM:SS,mmm)
  */
@@ -79,16 +116,40 @@ export function generateSRT(segments: TranscriptionSegment[]): string {
     .join('\n');
 }
 
+/**
+ * Cue settings stored with an imported segment, as they follow the timing line (" line:90% align:start")
+ * Malformed values are left out rather than risk breaking the cue
+ */
+function formatVTTCueSettings(value?: string | null): string {
+  if (!value) return '';
+
+  let settings: unknown;
+  try {
+    settings = JSON.parse(value);
+  } catch {
+    return '';
+  }
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) return '';
+
+  return Object.entries(settings as Record<string, unknown>)
+    .filter(([key, setting]) => /^[a-z]+$/i.test(key) && typeof setting === 'string' && /^[^\s<>]+$/.test(setting) && !setting.includes('-->'))
+    .map(([key, setting]) => ` ${key}:${setting}`)
+    .join('');
+}
+
 /**
  * Generate WebVTT format
+ * With speaker names, each cue is wrapped in a <v Name> voice tag; imported cue settings are kept
  */
-export function generateVTT(segments: TranscriptionSegment[]): string {
+export function generateVTT(segments: TranscriptionSegment[], speakerNames?: Record<number, string>): string {
   const header = 'WEBVTT\n\n';
   const cues = segments
     .map((segment, index) => {
       const start = formatVTTTime(segment.StartTime);
       const end = formatVTTTime(segment.EndTime);
-      return `${index + 1}\n${start} --> ${end}\n${segment.Text.trim()}\n`;
+      const name = getSpeakerName(segment, speakerNames);
+      const voice = name ? `<v ${name.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}>` : '';
+      return `${index + 1}\n${start} --> ${end}${formatVTTCueSettings(segment.CueSettings)}\n${voice}${segment.Text.trim()}\n`;
     })
     .join('\n');
   return header + cues;
@@ -122,6 +183,7 @@ export interface ASSStyleOptions {
   backgroundOpacity?: number; // 0-100
   paddingX?: number;
   paddingY?: number;
+  speakerNames?: Record<number, string>; // Speaker Id -> name for the Dialogue Name field
   // Legacy options (ASS format)
   primaryColor?: string;
   outlineColor?: string;
@@ -227,13 +289,172 @@ Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
       // This lets libass handle multi-line rendering naturally without separate dialogue events
       text = text.replace(/\n/g, '\\N');
 
-      return `Dialogue: 0,${start},${end},Default,,0,0,0,,${text}`;
+      // Name is a comma-separated field, so commas in speaker names are dropped
+      const name = (getSpeakerName(segment, options.speakerNames) || '').replace(/,/g, '');
+
+      return `Dialogue: 0,${start},${end},Default,${name},0,0,0,,${text}`;
     })
     .join('\n');
 
   return header + events + '\n';
 }
 
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// TTML named colors (TTML2 §10.3.5), as #rrggbb so opacity can be applied
+const TTML_NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  silver: '#c0c0c0',
+  gray: '#808080',
+  white: '#ffffff',
+  maroon: '#800000',
+  red: '#ff0000',
+  purple: '#800080',
+  fuchsia: '#ff00ff',
+  magenta: '#ff00ff',
+  green: '#008000',
+  lime: '#00ff00',
+  olive: '#808000',
+  yellow: '#ffff00',
+  navy: '#000080',
+  blue: '#0000ff',
+  teal: '#008080',
+  aqua: '#00ffff',
+  cyan: '#00ffff',
+};
+
+/**
+ * Check a style color is #rrggbb or a TTML named color - anything else
+ * would be written into the document as is
+ */
+export function isTTMLColor(color: unknown): color is string {
+  return typeof color === 'string' &&
+    (/^#[0-9a-f]{6}$/i.test(color) || color.toLowerCase() in TTML_NAMED_COLORS);
+}
+
+// Accepted ranges of the numeric style options
+export const TTML_STYLE_RANGES = {
+  fontSize: { min: 8, max: 200 },
+  backgroundOpacity: { min: 0, max: 100 },
+  paddingX: { min: 0, max: 100 },
+} as const;
+
+export type TTMLNumericStyleOption = keyof typeof TTML_STYLE_RANGES;
+
+/**
+ * Check a numeric style option is a finite number within its range
+ */
+export function isTTMLStyleNumber(key: TTMLNumericStyleOption, value: unknown): value is number {
+  const { min, max } = TTML_STYLE_RANGES[key];
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Convert a #rrggbb or named color and opacity to TTML #rrggbbaa format
+ * @param opacity - Opacity value 0-100 (100 = fully opaque)
+ */
+function colorToTTML(color: string, opacity: number = 100): string {
+  const hex = (TTML_NAMED_COLORS[color.toLowerCase()] || color).replace('#', '').toLowerCase();
+  const alpha = Math.round((Math.min(Math.max(opacity, 0), 100) / 100) * 255);
+  return `#${hex}${alpha.toString(16).padStart(2, '0')}`;
+}
+
+export interface TTMLStyleOptions {
+  title?: string;
+  language?: string;         // xml:lang, ISO code
+  fontSize?: number;         // Pixels at 1080p, same scale as burn-in
+  fontColor?: string;        // #rrggbb or a TTML named color
+  showBackground?: boolean;
+  backgroundColor?: string;  // #rrggbb or a TTML named color
+  backgroundOpacity?: number; // 0-100
+  paddingX?: number;
+}
+
+/**
+ * Generate TTML (IMSC1.1 Text Profile) with styling
+ * Sizes and margins mirror the burn-in ASS style so streaming output matches burned video,
+ * including its bottom-centred placement; invalid colors and numbers fall back to the defaults
+ */
+export function generateTTML(
+  segments: TranscriptionSegment[],
+  options: TTMLStyleOptions = {}
+): string {
+  const {
+    title = 'Subtitles',
+    language = 'en',
+    showBackground = true,
+  } = options;
+  const fontSize = isTTMLStyleNumber('fontSize', options.fontSize) ? options.fontSize : 48;
+  const backgroundOpacity = isTTMLStyleNumber('backgroundOpacity', options.backgroundOpacity)
+    ? options.backgroundOpacity
+    : 80;
+  const paddingX = isTTMLStyleNumber('paddingX', options.paddingX) ? options.paddingX : 10;
+  const fontColor = isTTMLColor(options.fontColor) ? options.fontColor : '#FFFFFF';
+  const backgroundColor = isTTMLColor(options.backgroundColor) ? options.backgroundColor : '#000000';
+
+  // Burn-in renders at 1920x1080 with a 50px vertical margin; express everything relative to that
+  const rootHeight = 1080;
+  const marginPercent = (50 / rootHeight) * 100;
+  const regionHeightPercent = 20;
+  const regionTop = 100 - marginPercent - regionHeightPercent;
+  const fontSizePercent = (fontSize / rootHeight) * 100;
+  // Default cell resolution is 32x15, so one cell is 72px tall at 1080p
+  const linePadding = paddingX / (rootHeight / 15);
+
+  const backgroundAttr = showBackground
+    ? ` tts:backgroundColor="${colorToTTML(backgroundColor, backgroundOpacity)}"`
+    : '';
+
+  const header = `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml"
+    xmlns:ttp="http://www.w3.org/ns/ttml#parameter"
+    xmlns:tts="http://www.w3.org/ns/ttml#styling"
+    xmlns:ttm="http://www.w3.org/ns/ttml#metadata"
+    xmlns:ebutts="urn:ebu:tt:style"
+    ttp:contentProfiles="http://www.w3.org/ns/ttml/profile/imsc1.1/text"
+    ttp:timeBase="media"
+    xml:lang="${escapeXML(language)}">
+  <head>
+    <metadata>
+      <ttm:title>${escapeXML(title)}</ttm:title>
+    </metadata>
+    <styling>
+      <style xml:id="default" tts:fontFamily="proportionalSansSerif" tts:fontSize="${fontSizePercent.toFixed(2)}rh" tts:lineHeight="125%" tts:color="${colorToTTML(fontColor)}" tts:textAlign="center" ebutts:linePadding="${linePadding.toFixed(2)}c"/>
+      <style xml:id="background"${backgroundAttr}/>
+    </styling>
+    <layout>
+      <region xml:id="bottom" tts:origin="10% ${regionTop.toFixed(2)}%" tts:extent="80% ${regionHeightPercent}%" tts:displayAlign="after"/>
+    </layout>
+  </head>
+  <body style="default">
+    <div region="bottom">
+`;
+
+  const paragraphs = segments
+    .map((segment) => {
+      const begin = formatVTTTime(segment.StartTime);
+      const end = formatVTTTime(segment.EndTime);
+      const lines = segment.Text.trim()
+        .split('\n')
+        .map((line) => escapeXML(line.trim()))
+        .join('<br/>');
+      return `      <p begin="${begin}" end="${end}"><span style="background">${lines}</span></p>`;
+    })
+    .join('\n');
+
+  return header + paragraphs + '\n    </div>\n  </body>\n</tt>\n';
+}
+
 /**
  * Generate plain text transcript
  */
@@ -251,20 +472,25 @@ export function generateTXT(segments: TranscriptionSegment[], includeTimestamps
 
 /**
  * Generate JSON format
+ * With speaker names, each entry carries a speaker field
  */
-export function generateJSON(segments: TranscriptionSegment[]): string {
+export function generateJSON(segments: TranscriptionSegment[], speakerNames?: Record<number, string>): string {
   const data = segments.map((segment, index) => ({
     index: index + 1,
     startTime: segment.StartTime,
     endTime: segment.EndTime,
     text: segment.Text.trim(),
     confidence: segment.Confidence,
+    ...(speakerNames && { speaker: getSpeakerName(segment, speakerNames) ?? null }),
   }));
   return JSON.stringify(data, null, 2);
 }
 
 /**
  * Generate subtitles in specified format
+ * Binary formats (stl) are returned as a Buffer, all others as a string
+ * Speaker labels use voice fields for vtt/ass in 'voice' mode, a speaker field in json,
+ * and "Name: " prefixes otherwise
  */
 export function generateSubtitles(
   segments: TranscriptionSegment[],
@@ -272,19 +498,42 @@ export function generateSubtitles(
   options?: {
     title?: string;
     includeTimestamps?: boolean;
+    frameRate?: STLFrameRate;
+    language?: string;
+    style?: Omit<TTMLStyleOptions, 'title' | 'language'>;
+    speakers?: SpeakerLabelOptions;
   }
-): string {
+): string | Buffer {
+  const speakers = options?.speakers?.mode !== 'none' ? options?.speakers : undefined;
+  const useVoiceFields = speakers?.mode === 'voice' && (format === 'vtt' || format === 'ass');
+  const voiceNames = useVoiceFields ? speakers.names : undefined;
+  const labelled = speakers && !useVoiceFields && format !== 'json'
+    ? applySpeakerPrefixes(segments, speakers.names)
+    : segments;
+
   switch (format) {
     case 'srt':
-      return generateSRT(segments);
+      return generateSRT(labelled);
     case 'vtt':
-      return generateVTT(segments);
+      return generateVTT(labelled, voiceNames);
     case 'ass':
-      return generateASS(segments, { title: options?.title });
+      return generateASS(labelled, { title: options?.title, speakerNames: voiceNames });
     case 'txt':
-      return generateTXT(segments, options?.includeTimestamps);
+      return generateTXT(labelled, options?.includeTimestamps);
     case 'json':
-      return generateJSON(segments);
+      return generateJSON(segments, speakers?.names);
+    case 'stl':
+      return generateSTL(labelled, {
+        title: options?.title,
+        frameRate: options?.frameRate,
+        language: options?.language,
+      });
+    case 'ttml':
+      return generateTTML(labelled, {
+        ...options?.style,
+        title: options?.title,
+        language: options?.language,
+      });
     default:
       throw new Error(`Unsupported format: ${format}`);
   }
@@ -305,6 +554,10 @@ export function getSubtitleMimeType(format: SubtitleFormat): string {
       return 'text/plain';
     case 'json':
       return 'application/json';
+    case 'stl':
+      return 'application/x-ebu-stl';
+    case 'ttml':
+      return 'application/ttml+xml';
     default:
       return 'text/plain';
   }
@@ -0,0 +1,129 @@
+/**
+ * Glossary Records
+ * Ownership checks and applying a glossary to transcription or translation segments
+ */
+
+import { NextResponse } from 'next/server';
+import NocoDBClient, { sanitizeNocoDBValue, sanitizeNumericId, type NocoDBApi } from '@/lib/db/nocodb';
+import { previewGlossaryChanges, type GlossarySegmentChange } from '@/lib/utils/glossary';
+import { changesWordCount } from '@/lib/utils/segments';
+import type { APIResponse, Glossary, GlossaryTerm, TranscriptionSegment, TranslatedSegment } from '@/lib/types';
+
+const BATCH_SIZE = 50;
+
+/**
+ * Read a glossary and check it belongs to the user
+ * Returns an error response when it doesn't
+ */
+export async function getOwnedGlossary(
+  db: NocoDBApi,
+  id: string | number,
+  userId: string
+): Promise<{ glossary: Glossary | null; error: NextResponse | null }> {
+  const { baseId, tableId: glossariesTableId } = await NocoDBClient.getIds('Glossaries');
+
+  const glossary = await db.dbTableRow.read(
+    'noco',
+    baseId,
+    glossariesTableId,
+    id
+  ).catch(() => null) as Glossary | null;
+
+  if (!glossary) {
+    return {
+      glossary: null,
+      error: NextResponse.json<APIResponse>(
+        { success: false, error: 'Glossary not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (String(glossary.UserId) !== userId) {
+    return {
+      glossary: null,
+      error: NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { glossary, error: null };
+}
+
+/**
+ * Changes the glossary would make to a transcription, or to one of its translations
+ * when a target language is given
+ */
+export async function previewGlossaryForTranscription(
+  db: NocoDBApi,
+  transcriptionId: number,
+  terms: GlossaryTerm[],
+  targetLanguage?: string
+): Promise<GlossarySegmentChange[]> {
+  const safeTranscriptionId = sanitizeNumericId(transcriptionId);
+
+  if (targetLanguage) {
+    const { baseId, tableId } = await NocoDBClient.getIds('TranslatedSegments');
+    const result = await db.dbTableRow.list('noco', baseId, tableId, {
+      where: `(TranscriptionId,eq,${safeTranscriptionId})~and(TargetLanguage,eq,${sanitizeNocoDBValue(targetLanguage)})`,
+      sort: 'SegmentIndex',
+      limit: 10000,
+    });
+
+    return previewGlossaryChanges(
+      ((result.list || []) as TranslatedSegment[]).map((segment) => ({
+        id: segment.Id,
+        startTime: segment.StartTime,
+        endTime: segment.EndTime,
+        text: segment.TranslatedText || '',
+      })),
+      terms
+    );
+  }
+
+  const { baseId, tableId } = await NocoDBClient.getIds('TranscriptionSegments');
+  const result = await db.dbTableRow.list('noco', baseId, tableId, {
+    where: `(TranscriptionId,eq,${safeTranscriptionId})`,
+    sort: 'StartTime',
+    limit: 10000,
+  });
+
+  return previewGlossaryChanges(
+    ((result.list || []) as TranscriptionSegment[]).map((segment) => ({
+      id: segment.Id,
+      startTime: segment.StartTime,
+      endTime: segment.EndTime,
+      text: segment.Text || '',
+    })),
+    terms
+  );
+}
+
+/**
+ * Write previewed changes to their segments
+ */
+export async function applyGlossaryChanges(
+  db: NocoDBApi,
+  changes: GlossarySegmentChange[],
+  targetLanguage?: string
+): Promise<void> {
+  const { baseId, tableId } = await NocoDBClient.getIds(
+    targetLanguage ? 'TranslatedSegments' : 'TranscriptionSegments'
+  );
+  const field = targetLanguage ? 'TranslatedText' : 'Text';
+
+  for (let i = 0; i < changes.length; i += BATCH_SIZE) {
+    const batch = changes.slice(i, i + BATCH_SIZE);
+    await Promise.all(
+      batch.map((change) =>
+        db.dbTableRow.update('noco', baseId, tableId, change.segmentId, {
+          [field]: change.newText,
+          // Word timings no longer line up when a replacement changes the number of words
+          ...(!targetLanguage && changesWordCount(change.text, change.newText) && { Words: null }),
+        })
+      )
+    );
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Subtitle Import Utilities
+ * Parse existing SRT, WebVTT and ASS/SSA files into segments
+ */
+
+import type { RawSegment } from '@/lib/utils/segments';
+
+export type ImportFormat = 'srt' | 'vtt' | 'ass';
+
+export const IMPORT_EXTENSIONS: Record<string, ImportFormat> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  ass: 'ass',
+  ssa: 'ass',
+};
+
+export interface ImportedSegment extends RawSegment {
+  speaker?: string;
+  settings?: Record<string, string>; // WebVTT cue settings (position, line, align, ...)
+}
+
+/**
+ * Parse a timestamp like 01:02:03,456 / 01:02:03.456 / 02:03.456 / 1:02:03.45
+ */
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+
+  const [, h = '0', m, s, fraction = '0'] = match;
+  // Fractions are digits after the separator: "45" means 0.45s, "456" means 0.456s
+  const fractionSeconds = parseInt(fraction, 10) / Math.pow(10, fraction.length);
+  return parseInt(h, 10) * 3600 + parseInt(m, 10) * 60 + parseInt(s, 10) + fractionSeconds;
+}
+
+/**
+ * Strip basic HTML-style formatting tags used in SRT and WebVTT
+ */
+function stripMarkupTags(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Normalize line endings and strip a leading byte order mark
+ */
+function normalizeContent(content: string): string {
+  return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Parse SRT (SubRip) content
+ */
+export function parseSRT(content: string): ImportedSegment[] {
+  const segments: ImportedSegment[] = [];
+  const blocks = normalizeContent(content).split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.trim().length > 0);
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->');
+    const startTime = parseTimestamp(startRaw);
+    // SRT allows coordinates after the end time (X1:... Y1:...), keep only the timestamp
+    const endTime = parseTimestamp(endRaw.trim().split(/\s+/)[0]);
+    if (startTime === null || endTime === null) continue;
+
+    const text = stripMarkupTags(lines.slice(timingIndex + 1).join('\n')).trim();
+    if (!text) continue;
+
+    segments.push({ id: segments.length, startTime, endTime, text });
+  }
+
+  return segments;
+}
+
+/**
+ * Parse WebVTT content, including cue settings and voice tags
+ */
+export function parseVTT(content: string): ImportedSegment[] {
+  const normalized = normalizeContent(content);
+  if (!normalized.trimStart().startsWith('WEBVTT')) {
+    throw new Error('Invalid WebVTT file: missing WEBVTT header');
+  }
+
+  const segments: ImportedSegment[] = [];
+  const blocks = normalized.split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const firstLine = lines[0].trim();
+
+    // Skip header, NOTE, STYLE and REGION blocks
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(firstLine)) continue;
+
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startRaw, rest] = lines[timingIndex].split('-->');
+    const [endRaw, ...settingTokens] = rest.trim().split(/\s+/);
+    const startTime = parseTimestamp(startRaw);
+    const endTime = parseTimestamp(endRaw);
+    if (startTime === null || endTime === null) continue;
+
+    const settings: Record<string, string> = {};
+    for (const token of settingTokens) {
+      const separator = token.indexOf(':');
+      if (separator > 0) {
+        settings[token.slice(0, separator)] = token.slice(separator + 1);
+      }
+    }
+
+    const rawText = lines.slice(timingIndex + 1).join('\n');
+    const speaker = rawText.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/)?.[1]?.trim();
+    const text = stripMarkupTags(rawText).trim();
+    if (!text) continue;
+
+    segments.push({
+      id: segments.length,
+      startTime,
+      endTime,
+      text,
+      ...(speaker && { speaker }),
+      ...(Object.keys(settings).length > 0 && { settings }),
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Parse ASS/SSA content (Dialogue lines from the [Events] section)
+ */
+export function parseASS(content: string): ImportedSegment[] {
+  const segments: ImportedSegment[] = [];
+  const lines = normalizeContent(content).split('\n');
+
+  // Default v4+ field order, overridden by the section's Format line
+  let fields = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+  let inEvents = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (/^\[.+\]$/.test(trimmed)) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (trimmed.startsWith('Format:')) {
+      fields = trimmed.slice('Format:'.length).split(',').map((field) => field.trim());
+      continue;
+    }
+    if (!trimmed.startsWith('Dialogue:')) continue;
+
+    // Text is the last field and may itself contain commas
+    const values = trimmed.slice('Dialogue:'.length).split(',');
+    const head = values.slice(0, fields.length - 1).map((value) => value.trim());
+    const record: Record<string, string> = {};
+    fields.slice(0, -1).forEach((field, index) => {
+      record[field] = head[index] ?? '';
+    });
+    record[fields[fields.length - 1]] = values.slice(fields.length - 1).join(',');
+
+    const startTime = parseTimestamp(record.Start ?? '');
+    const endTime = parseTimestamp(record.End ?? '');
+    if (startTime === null || endTime === null) continue;
+
+    const text = (record.Text ?? '')
+      .replace(/\{[^}]*\}/g, '') // Override tags like {\i1}
+      .replace(/\\N/g, '\n')
+      .replace(/\\n/g, ' ')
+      .replace(/\\h/g, ' ')
+      .split('\n')
+      .map((textLine) => textLine.trim())
+      .filter((textLine) => textLine.length > 0)
+      .join('\n');
+    if (!text) continue;
+
+    segments.push({
+      id: segments.length,
+      startTime,
+      endTime,
+      text,
+      ...(record.Name && { speaker: record.Name }),
+    });
+  }
+
+  // Dialogue lines are not required to be in time order
+  return segments
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((segment, index) => ({ ...segment, id: index }));
+}
+
+/**
+ * Detect subtitle format from filename, falling back to content sniffing
+ */
+export function detectSubtitleFormat(filename: string, content: string): ImportFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  if (IMPORT_EXTENSIONS[extension]) {
+    return IMPORT_EXTENSIONS[extension];
+  }
+
+  const normalized = normalizeContent(content).trimStart();
+  if (normalized.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[Script Info\]/i.test(normalized)) return 'ass';
+  if (/^\d+\n[\d:,.]+\s*-->/.test(normalized)) return 'srt';
+  return null;
+}
+
+/**
+ * Parse subtitle content in the given format
+ */
+export function parseSubtitleFile(content: string, format: ImportFormat): ImportedSegment[] {
+  switch (format) {
+    case 'srt':
+      return parseSRT(content);
+    case 'vtt':
+      return parseVTT(content);
+    case 'ass':
+      return parseASS(content);
+    default:
+      throw new Error(`Unsupported import format: ${format}`);
+  }
+}
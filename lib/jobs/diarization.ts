@@ -0,0 +1,80 @@
+/**
+ * Diarization Job
+ * Detects speakers in a completed transcription's audio and labels its existing segments
+ */
+
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import { createDiarizationService } from '@/lib/diarization';
+import { createDiarizedSpeakers, deleteSpeakers } from '@/lib/diarization/speakers';
+import type { JobHandler } from './index';
+import type { TranscriptionSegment } from '@/lib/types';
+
+const BATCH_SIZE = 50;
+
+export interface DiarizationJobPayload {
+  sourceFileUrl: string;
+  numSpeakers?: number;  // Exact speaker count when known, otherwise estimated
+}
+
+export const diarizationJobHandler: JobHandler<DiarizationJobPayload> = {
+  async run(payload, { job, progress, signal }) {
+    const transcriptionId = job.TranscriptionId;
+    if (!transcriptionId) {
+      throw new Error(`Job ${job.Id} has no transcription`);
+    }
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: segmentsTableId } = await NocoDBClient.getIds('TranscriptionSegments');
+
+    // Segments as they are now - edits made while the job was queued are labelled too
+    const segmentsResult = await db.dbTableRow.list('noco', baseId, segmentsTableId, {
+      where: `(TranscriptionId,eq,${transcriptionId})`,
+      sort: 'StartTime',
+      limit: 10000,
+    });
+    const segments = (segmentsResult.list || []) as TranscriptionSegment[];
+
+    if (segments.length === 0) {
+      throw new Error('No segments found for this transcription');
+    }
+
+    await progress('diarizing', 10);
+
+    const diarizer = createDiarizationService();
+    const { labels, speakerCount, provider } = await diarizer.diarizeFromUrl(
+      payload.sourceFileUrl,
+      segments.map((segment) => ({ startTime: segment.StartTime, endTime: segment.EndTime })),
+      { numSpeakers: payload.numSpeakers, signal }
+    );
+
+    signal.throwIfAborted();
+    await progress('saving_segments', 80);
+
+    // Replace previous speakers
+    const removed = await deleteSpeakers(db, transcriptionId);
+    const speakerIds = await createDiarizedSpeakers(db, transcriptionId, speakerCount);
+
+    for (let i = 0; i < segments.length; i += BATCH_SIZE) {
+      const batch = segments.slice(i, i + BATCH_SIZE);
+      await Promise.all(
+        batch.map((segment, offset) =>
+          db.dbTableRow.update('noco', baseId, segmentsTableId, segment.Id, {
+            SpeakerId: speakerIds[labels[i + offset]],
+          })
+        )
+      );
+    }
+
+    await progress('finalizing', 95);
+
+    console.log(
+      `Diarized transcription ${transcriptionId} with ${provider}: ${speakerCount} speakers ` +
+      `(replaced ${removed})`
+    );
+  },
+
+  // The transcription stays usable - the failure is kept on the job, which the editor polls
+  async onFailed(job, failure) {
+    console.error(`Speaker detection failed for transcription ${job.TranscriptionId}: ${failure.message}`);
+  },
+};
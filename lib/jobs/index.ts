@@ -0,0 +1,40 @@
+/**
+ * Background Jobs
+ * Durable, retried processing for uploads and transcriptions (MediaJobs table)
+ *
+ * API routes enqueue a job and return immediately. A JobWorker - in-process via
+ * instrumentation.ts or standalone via `npm run worker` - claims and runs it.
+ */
+
+import { createJob, type EnqueueJobInput } from './queue';
+import { wakeJobWorker } from './worker';
+import type { FailureDetails, JobStep, MediaJob } from '@/lib/types';
+
+export interface JobContext {
+  job: MediaJob;
+  /** Report the current step and overall progress (0-100) */
+  progress(step: JobStep, progress: number): Promise<void>;
+  /** Aborted when the job is cancelled - pass to network calls and check between steps */
+  signal: AbortSignal;
+}
+
+export interface JobHandler<P> {
+  /** Process the job - throwing schedules a retry while attempts remain */
+  run(payload: P, context: JobContext): Promise<void>;
+  /** Mark the job's record as failed once no attempts remain (or the failure is not retryable) */
+  onFailed(job: MediaJob, failure: FailureDetails): Promise<void>;
+  /** External provider the payload is sent to, recorded with failures */
+  getProvider?(payload: P): string | undefined;
+  /** Clean up after a cancelled run */
+  onCancelled?(job: MediaJob): Promise<void>;
+}
+
+/**
+ * Queue a job and nudge the in-process worker (if any) to pick it up
+ */
+export async function enqueueJob(input: EnqueueJobInput): Promise<MediaJob> {
+  const job = await createJob(input);
+  console.log(`Queued ${input.type} job ${job.Id} for file ${input.fileId}`);
+  wakeJobWorker();
+  return job;
+}
@@ -0,0 +1,151 @@
+/**
+ * Media Processing Job
+ * Converts an uploaded original: 480p preview and thumbnail (video) and MP3 audio,
+ * uploads the results to S3 and marks the file record 'ready'
+ */
+
+import { existsSync } from 'fs';
+import NocoDBClient, { getNocoDBClient } from '@/lib/db/nocodb';
+import { createS3Storage, S3Storage } from '@/lib/storage/s3';
+import { saveStreamToTempFile, processMediaFile, cleanupTempFile } from '@/lib/media/ffmpeg';
+import { parseJobPayload } from './queue';
+import type { JobHandler } from './index';
+import type { JobStep, MediaJob } from '@/lib/types';
+
+export interface MediaJobPayload {
+  sourceUrl: string;   // Original upload in S3
+  uuid: string;        // Key shared by all objects derived from this upload
+  extension: string;
+  isVideo: boolean;
+  localPath?: string;  // Original already saved on this machine (skips the download)
+}
+
+/**
+ * Remove the original saved by the upload route once the job will not run again
+ * run() cleans it up itself; this covers cancelled and exhausted jobs
+ */
+function cleanupLocalOriginal(job: MediaJob): void {
+  try {
+    const { localPath } = parseJobPayload<MediaJobPayload>(job);
+    if (localPath) cleanupTempFile(localPath);
+  } catch (error) {
+    console.error(`Failed to clean up original of job ${job.Id}:`, error);
+  }
+}
+
+export const mediaJobHandler: JobHandler<MediaJobPayload> = {
+  async run(payload, { job, progress, signal }) {
+    const fileId = job.FileId;
+    const userId = String(job.UserId);
+    const s3 = createS3Storage();
+    const db = getNocoDBClient();
+    const { baseId, tableId: filesTableId } = await NocoDBClient.getIds('Files');
+    const tempFiles: string[] = [];
+
+    // Mirror progress on the file record, which the dashboard polls
+    const report = async (step: JobStep, value: number) => {
+      await progress(step, value);
+      try {
+        await db.dbTableRow.update('noco', baseId, filesTableId, fileId, {
+          ProcessingProgress: value,
+          Status: 'processing',
+        });
+      } catch (error) {
+        console.error('Failed to update progress:', error);
+      }
+    };
+
+    try {
+      let originalPath: string;
+
+      if (payload.localPath && existsSync(payload.localPath)) {
+        originalPath = payload.localPath;
+        tempFiles.push(originalPath);
+      } else {
+        // Restarted job or separate worker - fetch the original from S3
+        await report('downloading', 15);
+        console.log(`Downloading file from ${payload.sourceUrl}`);
+        const response = await fetch(payload.sourceUrl, { signal });
+        if (!response.ok || !response.body) {
+          throw new Error(`Failed to download file: ${response.status}`);
+        }
+        originalPath = await saveStreamToTempFile(response.body, payload.extension);
+        tempFiles.push(originalPath);
+      }
+
+      await report(payload.isVideo ? 'converting_video' : 'extracting_audio', 25);
+
+      const result = await processMediaFile(originalPath);
+      signal.throwIfAborted();
+
+      if (result.previewPath) tempFiles.push(result.previewPath);
+      if (result.thumbnailPath) tempFiles.push(result.thumbnailPath);
+      tempFiles.push(result.audioPath);
+
+      await report('uploading', 60);
+
+      let previewUrl: string | undefined;
+      let thumbnailUrl: string | undefined;
+
+      const audioKey = S3Storage.generateAudioKey(userId, payload.uuid);
+      const audioUpload = await s3.uploadFromPath(audioKey, result.audioPath, {
+        contentType: 'audio/mpeg',
+      });
+      const audioUrl = audioUpload.publicUrl;
+
+      await report('uploading', 75);
+
+      if (payload.isVideo && result.previewPath) {
+        const previewKey = S3Storage.generateVideoKey(userId, payload.uuid);
+        const previewUpload = await s3.uploadFromPath(previewKey, result.previewPath, {
+          contentType: 'video/mp4',
+        });
+        previewUrl = previewUpload.publicUrl;
+      }
+
+      if (payload.isVideo && result.thumbnailPath) {
+        const thumbnailKey = S3Storage.generateThumbnailKey(userId, payload.uuid);
+        const thumbnailUpload = await s3.uploadFromPath(thumbnailKey, result.thumbnailPath, {
+          contentType: 'image/jpeg',
+        });
+        thumbnailUrl = thumbnailUpload.publicUrl;
+        console.log(`Thumbnail uploaded: ${thumbnailUrl}`);
+      }
+
+      await progress('finalizing', 90);
+
+      await db.dbTableRow.update('noco', baseId, filesTableId, fileId, {
+        PreviewUrl: previewUrl || null,
+        ThumbnailUrl: thumbnailUrl || null,
+        AudioUrl: audioUrl,
+        StorageUrl: previewUrl || audioUrl, // Preview for video, audio for audio-only
+        Status: 'ready',
+        ProcessingProgress: 100,
+        ProcessingError: null,
+        Duration: Math.round(result.duration),
+      });
+
+      console.log(`File ${fileId} processing complete`);
+    } finally {
+      for (const tempFile of tempFiles) {
+        cleanupTempFile(tempFile);
+      }
+    }
+  },
+
+  async onFailed(job, failure) {
+    cleanupLocalOriginal(job);
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: filesTableId } = await NocoDBClient.getIds('Files');
+
+    await db.dbTableRow.update('noco', baseId, filesTableId, job.FileId, {
+      Status: 'error',
+      ProcessingError: failure.message,
+    });
+  },
+
+  async onCancelled(job) {
+    cleanupLocalOriginal(job);
+  },
+};
@@ -0,0 +1,272 @@
+/**
+ * Job Queue
+ * Durable job records in the MediaJobs table: enqueue, claim, progress, retry and recovery
+ *
+ * NocoDB has no atomic compare-and-set, so claims are confirmed by reading the row back.
+ * This is safe for a single worker and best-effort when several workers share a base.
+ */
+
+import NocoDBClient, { getNocoDBClient, sanitizeNumericId, type NocoDBApi } from '@/lib/db/nocodb';
+import { serializeFailureReason } from '@/lib/utils/failures';
+import type { FailureDetails, JobStep, JobType, MediaJob } from '@/lib/types';
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;     // First retry after 30s, then doubled
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000; // Never wait more than 15 minutes
+const CLAIM_PAGE_SIZE = 25;
+const MAX_ERROR_LENGTH = 1000;
+
+export interface EnqueueJobInput {
+  type: JobType;
+  fileId: number;
+  userId: number;
+  transcriptionId?: number;
+  payload: object;
+  maxAttempts?: number;
+}
+
+async function getJobsTable(): Promise<{ db: NocoDBApi; baseId: string; tableId: string }> {
+  const db = getNocoDBClient();
+  const { baseId, tableId } = await NocoDBClient.getIds('MediaJobs');
+  return { db, baseId, tableId };
+}
+
+/**
+ * Delay before the next attempt, doubling per failed attempt
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Parse a job's JSON payload
+ */
+export function parseJobPayload<T>(job: MediaJob): T {
+  if (!job.Payload) {
+    throw new Error(`Job ${job.Id} has no payload`);
+  }
+  return JSON.parse(job.Payload) as T;
+}
+
+/**
+ * Create a pending job
+ */
+export async function createJob(input: EnqueueJobInput): Promise<MediaJob> {
+  const { db, baseId, tableId } = await getJobsTable();
+
+  return await db.dbTableRow.create('noco', baseId, tableId, {
+    Type: input.type,
+    FileId: input.fileId,
+    UserId: input.userId,
+    TranscriptionId: input.transcriptionId ?? null,
+    Status: 'pending',
+    Progress: 0,
+    CurrentStep: 'queued',
+    Payload: JSON.stringify(input.payload),
+    Attempts: 0,
+    MaxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    RunAfter: new Date().toISOString(),
+  }) as MediaJob;
+}
+
+/**
+ * Claim the oldest pending job that is due
+ * Returns null when nothing is due or another worker won the claim
+ */
+export async function claimNextJob(workerId: string): Promise<MediaJob | null> {
+  const { db, baseId, tableId } = await getJobsTable();
+  const now = Date.now();
+
+  // Page through pending jobs - older ones in retry backoff must not hide newer due ones
+  let job: MediaJob | undefined;
+  for (let offset = 0; !job; offset += CLAIM_PAGE_SIZE) {
+    const page = await db.dbTableRow.list('noco', baseId, tableId, {
+      where: '(Status,eq,pending)',
+      sort: 'Id',
+      limit: CLAIM_PAGE_SIZE,
+      offset,
+    });
+    const rows = (page.list || []) as MediaJob[];
+
+    job = rows.find(
+      (candidate) => !candidate.RunAfter || new Date(candidate.RunAfter).getTime() <= now
+    );
+    if (rows.length < CLAIM_PAGE_SIZE) break;
+  }
+  if (!job) return null;
+
+  const timestamp = new Date().toISOString();
+  await db.dbTableRow.update('noco', baseId, tableId, job.Id, {
+    Status: 'processing',
+    LockedBy: workerId,
+    HeartbeatAt: timestamp,
+    Attempts: (job.Attempts || 0) + 1,
+    Error: null,
+  });
+
+  // Confirm the claim - a concurrent worker may have overwritten it
+  const claimed = await db.dbTableRow.read('noco', baseId, tableId, job.Id) as MediaJob | null;
+  if (!claimed || claimed.LockedBy !== workerId) return null;
+
+  return claimed;
+}
+
+/**
+ * Record progress for a running job (also refreshes its heartbeat)
+ */
+export async function updateJobProgress(jobId: number, step: JobStep, progress: number): Promise<void> {
+  const { db, baseId, tableId } = await getJobsTable();
+
+  try {
+    await db.dbTableRow.update('noco', baseId, tableId, jobId, {
+      CurrentStep: step,
+      Progress: Math.max(0, Math.min(100, Math.round(progress))),
+      HeartbeatAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Failed to update progress for job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Refresh the heartbeat of a worker's running jobs so they are not treated as crashed
+ * Returns the Ids of jobs the worker no longer owns (cancelled or recovered elsewhere)
+ */
+export async function heartbeatJobs(workerId: string, jobIds: number[]): Promise<number[]> {
+  if (jobIds.length === 0) return [];
+  const { db, baseId, tableId } = await getJobsTable();
+  const timestamp = new Date().toISOString();
+  const lost: number[] = [];
+
+  await Promise.all(
+    jobIds.map(async (jobId) => {
+      try {
+        const job = await db.dbTableRow.read('noco', baseId, tableId, jobId) as MediaJob | null;
+        if (!job || job.Status !== 'processing' || job.LockedBy !== workerId) {
+          lost.push(jobId);
+          return;
+        }
+        await db.dbTableRow.update('noco', baseId, tableId, jobId, { HeartbeatAt: timestamp });
+      } catch (error) {
+        console.error(`Failed to refresh heartbeat for job ${jobId}:`, error);
+      }
+    })
+  );
+
+  return lost;
+}
+
+/**
+ * Current status of a job, null if it no longer exists
+ */
+export async function getJobStatus(jobId: number): Promise<MediaJob['Status'] | null> {
+  const { db, baseId, tableId } = await getJobsTable();
+  const job = await db.dbTableRow.read('noco', baseId, tableId, jobId).catch(() => null) as MediaJob | null;
+  return job?.Status ?? null;
+}
+
+/**
+ * List a transcription's jobs of one type, newest first
+ */
+export async function listTranscriptionJobs(
+  transcriptionId: number,
+  type: JobType = 'transcription'
+): Promise<MediaJob[]> {
+  const { db, baseId, tableId } = await getJobsTable();
+
+  const jobs = await db.dbTableRow.list('noco', baseId, tableId, {
+    where: `(TranscriptionId,eq,${sanitizeNumericId(transcriptionId)})~and(Type,eq,${type})`,
+    sort: '-Id',
+    limit: 100,
+  });
+
+  return (jobs.list || []) as MediaJob[];
+}
+
+/**
+ * Mark a pending or processing job as cancelled
+ * A worker running it notices on its next heartbeat (or at once via cancelRunningJob)
+ */
+export async function cancelJob(jobId: number): Promise<void> {
+  const { db, baseId, tableId } = await getJobsTable();
+
+  await db.dbTableRow.update('noco', baseId, tableId, jobId, {
+    Status: 'cancelled',
+    LockedBy: null,
+  });
+}
+
+/**
+ * Mark a job as completed
+ */
+export async function completeJob(jobId: number): Promise<void> {
+  const { db, baseId, tableId } = await getJobsTable();
+
+  await db.dbTableRow.update('noco', baseId, tableId, jobId, {
+    Status: 'completed',
+    Progress: 100,
+    CurrentStep: 'finalizing',
+    LockedBy: null,
+    Error: null,
+    FailureReason: null,
+  });
+}
+
+/**
+ * Record a failed attempt and its classified reason
+ * Schedules a retry with backoff while attempts remain and the failure is retryable,
+ * otherwise marks the job failed. Returns true when the job will be retried
+ */
+export async function failJob(job: MediaJob, failure: FailureDetails): Promise<boolean> {
+  const { db, baseId, tableId } = await getJobsTable();
+  const message = failure.message.slice(0, MAX_ERROR_LENGTH);
+  const willRetry = failure.retryable && job.Attempts < job.MaxAttempts;
+
+  await db.dbTableRow.update('noco', baseId, tableId, job.Id, {
+    Status: willRetry ? 'pending' : 'failed',
+    LockedBy: null,
+    Error: message,
+    FailureReason: serializeFailureReason(failure),
+    ...(willRetry && {
+      RunAfter: new Date(Date.now() + getRetryDelayMs(job.Attempts)).toISOString(),
+    }),
+  });
+
+  return willRetry;
+}
+
+/**
+ * Find jobs left in 'processing' by a worker that stopped sending heartbeats
+ * (server restart or crash). Each is either requeued or marked failed via failJob.
+ * Returns the jobs that ran out of attempts so their records can be failed too.
+ */
+export async function recoverStaleJobs(staleAfterMs: number): Promise<MediaJob[]> {
+  const { db, baseId, tableId } = await getJobsTable();
+  const cutoff = Date.now() - staleAfterMs;
+
+  const processing = await db.dbTableRow.list('noco', baseId, tableId, {
+    where: '(Status,eq,processing)',
+    limit: 1000,
+  });
+
+  const stale = ((processing.list || []) as MediaJob[]).filter((job) => {
+    const lastSeen = job.HeartbeatAt || job.UpdatedAt;
+    return !lastSeen || new Date(lastSeen).getTime() < cutoff;
+  });
+
+  const exhausted: MediaJob[] = [];
+  for (const job of stale) {
+    const willRetry = await failJob(job, {
+      category: 'interrupted',
+      message: 'Worker stopped while processing the job',
+      retryable: true,
+      occurredAt: new Date().toISOString(),
+    });
+    console.warn(`Recovered stale job ${job.Id} (${job.Type}), ${willRetry ? 'requeued' : 'failed'}`);
+    if (!willRetry) exhausted.push(job);
+  }
+
+  return exhausted;
+}
+
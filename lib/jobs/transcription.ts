@@ -0,0 +1,281 @@
+/**
+ * Transcription Job
+ * Runs ASR (or script alignment), optional diarization, and stores subtitle segments
+ */
+
+import NocoDBClient, { getNocoDBClient, type NocoDBApi } from '@/lib/db/nocodb';
+import { createASRService, type ASRProvider } from '@/lib/asr';
+import {
+  splitLongSegments,
+  balanceSegmentText,
+  serializeSegmentWords,
+  type RawSegment,
+} from '@/lib/utils/segments';
+import { alignScript } from '@/lib/utils/alignment';
+import { createDiarizationService, type DiarizationOptions } from '@/lib/diarization';
+import { createDiarizedSpeakers, deleteSpeakers } from '@/lib/diarization/speakers';
+import { serializeFailureReason } from '@/lib/utils/failures';
+import { applyGlossaryTerms } from '@/lib/utils/glossary';
+import { recordUsage } from '@/lib/usage';
+import { listTranscriptionJobs } from './queue';
+import type { JobHandler } from './index';
+import type { GlossaryTerm, JobStep } from '@/lib/types';
+
+const BATCH_SIZE = 50;
+
+export interface TranscriptionJobPayload {
+  sourceFileUrl: string;
+  provider: ASRProvider;
+  model: string;
+  language?: string;
+  script?: string;                   // When set, ASR only times the script's wording
+  diarization?: DiarizationOptions;  // When set, segments are labelled with detected speakers
+  prompt?: string;                   // Vocabulary that biases the spelling of recognized words
+  corrections?: GlossaryTerm[];      // Misspellings replaced after ASR (never applied to a script)
+}
+
+/**
+ * Remove segments and speakers written by an earlier, interrupted or cancelled run
+ */
+export async function clearTranscriptionResults(db: NocoDBApi, transcriptionId: number): Promise<void> {
+  const { baseId, tableId: segmentsTableId } = await NocoDBClient.getIds('TranscriptionSegments');
+
+  const existing = await db.dbTableRow.list('noco', baseId, segmentsTableId, {
+    where: `(TranscriptionId,eq,${transcriptionId})`,
+    limit: 10000,
+  });
+  const segmentIds = (existing.list || []).map((segment: any) => segment.Id as number);
+
+  for (let i = 0; i < segmentIds.length; i += BATCH_SIZE) {
+    const batch = segmentIds.slice(i, i + BATCH_SIZE);
+    await Promise.all(
+      batch.map((segmentId) => db.dbTableRow.delete('noco', baseId, segmentsTableId, segmentId))
+    );
+  }
+
+  const removedSpeakers = await deleteSpeakers(db, transcriptionId);
+
+  if (segmentIds.length > 0 || removedSpeakers > 0) {
+    console.log(
+      `Cleared ${segmentIds.length} segments and ${removedSpeakers} speakers from an earlier run ` +
+      `of transcription ${transcriptionId}`
+    );
+  }
+}
+
+export const transcriptionJobHandler: JobHandler<TranscriptionJobPayload> = {
+  async run(payload, { job, progress, signal }) {
+    const transcriptionId = job.TranscriptionId;
+    if (!transcriptionId) {
+      throw new Error(`Job ${job.Id} has no transcription`);
+    }
+
+    const { sourceFileUrl, provider, model, language, script, diarization, prompt, corrections } = payload;
+    const db = getNocoDBClient();
+    const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+    const { tableId: segmentsTableId } = await NocoDBClient.getIds('TranscriptionSegments');
+
+    await db.dbTableRow.update('noco', baseId, transcriptionsTableId, transcriptionId, {
+      Status: 'processing',
+      FailureReason: null,
+      Progress: 0,
+      ProgressDetail: null,
+    });
+
+    // Mirror progress on the transcription record, which the dashboard polls
+    const report = async (step: JobStep, value: number, detail: string | null = null) => {
+      await progress(step, value);
+      try {
+        await db.dbTableRow.update('noco', baseId, transcriptionsTableId, transcriptionId, {
+          Progress: value,
+          ProgressDetail: detail,
+        });
+      } catch (error) {
+        console.error('Failed to update progress:', error);
+      }
+    };
+
+    // Retries (and retries requested by the user) start from a clean slate
+    await clearTranscriptionResults(db, transcriptionId);
+
+    await report('transcribing', 10);
+
+    // Long recordings are transcribed in chunks, which take up 10-60%
+    const asr = createASRService();
+    const result = await asr.transcribeFromUrl(sourceFileUrl, {
+      provider,
+      model,
+      language,
+      prompt,
+      wordTimestamps: true,
+      signal,
+      transcriptionId,
+      onChunkProgress: (completed, total) => report(
+        'transcribing',
+        10 + Math.round((completed / total) * 50),
+        `Transcribed ${completed} of ${total} parts`
+      ),
+    });
+
+    if (result.provider !== provider) {
+      console.warn(`Transcription ${transcriptionId} fell back from ${provider} to ${result.provider}/${result.model}`);
+    }
+
+    // Billed by the provider that produced the result, even if a later step fails
+    if (result.duration) {
+      await recordUsage({
+        userId: job.UserId,
+        kind: 'asr',
+        provider: result.provider,
+        model: result.model,
+        transcriptionId,
+        audioSeconds: result.duration,
+      });
+    }
+
+    console.log(`ASR result for transcription ${transcriptionId}:`, {
+      textLength: result.text?.length,
+      segmentsCount: result.segments?.length || 0,
+      language: result.language,
+      duration: result.duration,
+      firstSegment: result.segments?.[0],
+    });
+
+    // Convert to RawSegment format - either recognized text or the aligned script
+    let rawSegments: RawSegment[];
+    let transcriptText = result.text;
+    let confidence = result.segments
+      ? result.segments.reduce((sum, seg) => sum + (seg.confidence || 0), 0) / result.segments.length
+      : 0;
+
+    if (script) {
+      const alignment = alignScript(script, result.segments || []);
+      console.log(
+        `Aligned script for transcription ${transcriptionId}: ${alignment.words.length} words, ` +
+        `${Math.round(alignment.matchRate * 100)}% matched`
+      );
+
+      rawSegments = alignment.segments;
+      transcriptText = script.replace(/\s+/g, ' ').trim();
+      // Share of script words that were found in the audio
+      confidence = alignment.matchRate;
+    } else {
+      rawSegments = (result.segments || []).map((seg, index) => ({
+        id: index,
+        startTime: seg.startTime,
+        endTime: seg.endTime,
+        text: seg.text,
+        confidence: seg.confidence,
+        words: seg.words,
+      }));
+
+      if (corrections?.length) {
+        transcriptText = applyGlossaryTerms(transcriptText || '', corrections);
+      }
+    }
+
+    // Store segments if available - split long segments for proper subtitles
+    if (rawSegments.length > 0) {
+      // Split segments that are too long (max 84 chars = 42 chars x 2 lines)
+      const splitSegments = splitLongSegments(rawSegments, {
+        maxCharsPerLine: 42,
+        maxLines: 2,
+        minSegmentDuration: 1,
+      });
+
+      console.log(`Split ${rawSegments.length} segments into ${splitSegments.length} subtitle segments`);
+
+      // Label speakers - a failed diarization keeps the transcript without speakers
+      if (diarization) {
+        await report('diarizing', 70);
+        try {
+          const diarizer = createDiarizationService();
+          const { labels, speakerCount } = await diarizer.diarizeFromUrl(
+            sourceFileUrl,
+            splitSegments,
+            { ...diarization, signal }
+          );
+          const speakerIds = await createDiarizedSpeakers(db, transcriptionId, speakerCount);
+          splitSegments.forEach((segment, index) => {
+            segment.speakerId = speakerIds[labels[index]];
+          });
+          console.log(`Diarized transcription ${transcriptionId}: ${speakerCount} speakers`);
+        } catch (diarizationError) {
+          console.error(`Diarization failed for transcription ${transcriptionId}:`, diarizationError);
+        }
+      }
+
+      signal.throwIfAborted();
+      await report('saving_segments', 85);
+
+      for (const segment of splitSegments) {
+        signal.throwIfAborted();
+
+        // Corrected after splitting, so splits still follow the recognized words and their timings
+        const text = corrections?.length ? applyGlossaryTerms(segment.text, corrections) : segment.text;
+
+        // Balance the text into two lines if needed (inserts \n at midpoint)
+        const balancedText = balanceSegmentText(text, 42);
+
+        await db.dbTableRow.create('noco', baseId, segmentsTableId, {
+          TranscriptionId: transcriptionId,
+          StartTime: segment.startTime,
+          EndTime: segment.endTime,
+          Text: balancedText,
+          Confidence: segment.confidence || 0,
+          SpeakerId: segment.speakerId ?? null,
+          Words: serializeSegmentWords(segment.words),
+        });
+      }
+    }
+
+    // Completed only once segments are stored, so a retry never sees a half-written result
+    signal.throwIfAborted();
+    await progress('finalizing', 95);
+    await db.dbTableRow.update('noco', baseId, transcriptionsTableId, transcriptionId, {
+      Status: 'completed',
+      Progress: 100,
+      ProgressDetail: null,
+      AsrProvider: result.provider, // Provider and model that actually produced the result
+      AsrModel: result.model,
+      TranscriptText: transcriptText,
+      Language: result.language || language || 'unknown',
+      Duration: result.duration || 0,
+      Confidence: confidence,
+    });
+
+    console.log(`Transcription ${transcriptionId} completed successfully`);
+  },
+
+  async onFailed(job, failure) {
+    if (!job.TranscriptionId) return;
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+
+    await db.dbTableRow.update('noco', baseId, transcriptionsTableId, job.TranscriptionId, {
+      Status: 'failed',
+      FailureReason: serializeFailureReason(failure),
+    });
+  },
+
+  getProvider(payload) {
+    return payload.provider;
+  },
+
+  async onCancelled(job) {
+    if (!job.TranscriptionId) return;
+
+    // A retry may already be queued - its results are not ours to clear
+    const [latestJob] = await listTranscriptionJobs(job.TranscriptionId);
+    if (latestJob && latestJob.Id !== job.Id) return;
+
+    const db = getNocoDBClient();
+    const { baseId, tableId: transcriptionsTableId } = await NocoDBClient.getIds('Transcriptions');
+
+    await clearTranscriptionResults(db, job.TranscriptionId);
+    await db.dbTableRow.update('noco', baseId, transcriptionsTableId, job.TranscriptionId, {
+      Status: 'cancelled',
+    });
+  },
+};
@@ -0,0 +1,307 @@
+/**
+ * Job Worker
+ * Polls the MediaJobs table and runs due jobs with a concurrency limit
+ *
+ * Crash recovery: running jobs send heartbeats; jobs whose heartbeat is older than
+ * the stale timeout (e.g. after a restart) are requeued or failed on start and periodically.
+ * Temp files no job cleaned up (e.g. uploads of jobs cancelled before they started)
+ * are removed on the same schedule once they are a day old.
+ */
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  getJobStatus,
+  heartbeatJobs,
+  parseJobPayload,
+  recoverStaleJobs,
+  updateJobProgress,
+} from './queue';
+import { mediaJobHandler } from './media';
+import { transcriptionJobHandler } from './transcription';
+import { diarizationJobHandler } from './diarization';
+import { cleanupStaleTempFiles } from '@/lib/media/ffmpeg';
+import { classifyFailure } from '@/lib/utils/failures';
+import type { JobHandler } from './index';
+import type { FailureDetails, JobType, MediaJob } from '@/lib/types';
+
+export type JobWorkerMode = 'in-process' | 'external';
+
+export interface JobWorkerOptions {
+  concurrency?: number;
+  pollIntervalMs?: number;
+  staleAfterMs?: number;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_STALE_AFTER_MS = 5 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 10 * 1000; // Also how quickly another process' cancel is noticed
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+const TEMP_FILE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const JOB_HANDLERS: Record<JobType, JobHandler<any>> = {
+  media: mediaJobHandler,
+  transcription: transcriptionJobHandler,
+  diarization: diarizationJobHandler,
+};
+
+/**
+ * Mark the underlying record of a job that will not be retried as failed
+ */
+async function markRecordFailed(job: MediaJob, failure: FailureDetails): Promise<void> {
+  try {
+    await JOB_HANDLERS[job.Type].onFailed(job, failure);
+  } catch (updateError) {
+    console.error(`Failed to update record for failed job ${job.Id}:`, updateError);
+  }
+}
+
+export class JobWorker {
+  readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private staleAfterMs: number;
+  private running = new Map<number, { promise: Promise<void>; controller: AbortController }>();
+  private timers: NodeJS.Timeout[] = [];
+  private polling = false;
+  private stopped = true;
+
+  constructor(options: JobWorkerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+  }
+
+  /**
+   * Recover stale jobs, then start polling
+   */
+  async start(): Promise<void> {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    console.log(`Job worker ${this.workerId} started (concurrency ${this.concurrency})`);
+
+    await this.recover();
+
+    this.timers = [
+      setInterval(() => this.wake(), this.pollIntervalMs),
+      setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS),
+      setInterval(() => this.recover(), RECOVERY_INTERVAL_MS),
+    ];
+    // Don't keep a web server alive just for the worker
+    this.timers.forEach((timer) => timer.unref());
+
+    this.wake();
+  }
+
+  /**
+   * Stop claiming new jobs and wait for running ones to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+
+    await Promise.allSettled([...this.running.values()].map((entry) => entry.promise));
+    console.log(`Job worker ${this.workerId} stopped`);
+  }
+
+  /**
+   * Abort a job if it is running in this worker
+   * Returns false when the job is not running here
+   */
+  cancel(jobId: number): boolean {
+    const entry = this.running.get(jobId);
+    if (!entry) return false;
+    entry.controller.abort();
+    return true;
+  }
+
+  /**
+   * Claim jobs until the concurrency limit is reached or nothing is due
+   */
+  wake(): void {
+    if (this.stopped || this.polling) return;
+    this.polling = true;
+
+    this.fill()
+      .catch((error) => console.error('Job polling failed:', error))
+      .finally(() => {
+        this.polling = false;
+      });
+  }
+
+  private async fill(): Promise<void> {
+    while (!this.stopped && this.running.size < this.concurrency) {
+      const job = await claimNextJob(this.workerId);
+      if (!job) return;
+
+      const controller = new AbortController();
+      const promise = this.runJob(job, controller.signal).finally(() => {
+        this.running.delete(job.Id);
+        this.wake();
+      });
+      this.running.set(job.Id, { promise, controller });
+    }
+  }
+
+  /**
+   * Keep running jobs alive and abort the ones cancelled from another process
+   */
+  private async heartbeat(): Promise<void> {
+    try {
+      const lost = await heartbeatJobs(this.workerId, [...this.running.keys()]);
+      lost.forEach((jobId) => this.cancel(jobId));
+    } catch (error) {
+      console.error('Job heartbeat failed:', error);
+    }
+  }
+
+  private async recover(): Promise<void> {
+    try {
+      const exhausted = await recoverStaleJobs(this.staleAfterMs);
+      for (const job of exhausted) {
+        await markRecordFailed(job, {
+          category: 'interrupted',
+          message: 'Processing was interrupted too many times',
+          retryable: true,
+          occurredAt: new Date().toISOString(),
+        });
+      }
+    } catch (error) {
+      console.error('Job recovery failed:', error);
+    }
+
+    try {
+      const removed = cleanupStaleTempFiles(TEMP_FILE_MAX_AGE_MS);
+      if (removed > 0) {
+        console.log(`Removed ${removed} stale temp files`);
+      }
+    } catch (error) {
+      console.error('Temp file cleanup failed:', error);
+    }
+  }
+
+  /**
+   * Check whether the job was cancelled or taken over by another worker while running
+   * Cancelled jobs let the handler clean up; either way the result must not be recorded
+   */
+  private async wasInterrupted(job: MediaJob, handler: JobHandler<any>, signal: AbortSignal): Promise<boolean> {
+    const status = await getJobStatus(job.Id);
+
+    if (status === 'cancelled') {
+      console.log(`Job ${job.Id} was cancelled`);
+      try {
+        await handler.onCancelled?.(job);
+      } catch (error) {
+        console.error(`Failed to clean up cancelled job ${job.Id}:`, error);
+      }
+      return true;
+    }
+
+    if (signal.aborted) {
+      console.warn(`Job ${job.Id} was taken over by another worker`);
+      return true;
+    }
+
+    return false;
+  }
+
+  private async runJob(job: MediaJob, signal: AbortSignal): Promise<void> {
+    const handler = JOB_HANDLERS[job.Type];
+    let payload: unknown;
+    console.log(`Running ${job.Type} job ${job.Id} (attempt ${job.Attempts}/${job.MaxAttempts})`);
+
+    try {
+      if (!handler) {
+        throw new Error(`Unknown job type: ${job.Type}`);
+      }
+
+      payload = parseJobPayload(job);
+      await handler.run(payload, {
+        job,
+        progress: (step, progress) => updateJobProgress(job.Id, step, progress),
+        signal,
+      });
+
+      if (await this.wasInterrupted(job, handler, signal)) return;
+
+      await completeJob(job.Id);
+      console.log(`Job ${job.Id} completed`);
+    } catch (error) {
+      if (handler && await this.wasInterrupted(job, handler, signal)) return;
+
+      const failure = classifyFailure(error, payload ? handler?.getProvider?.(payload) : undefined);
+      console.error(
+        `Job ${job.Id} failed (attempt ${job.Attempts}/${job.MaxAttempts}, ${failure.category}):`,
+        error
+      );
+
+      try {
+        const willRetry = await failJob(job, failure);
+        if (!willRetry && handler) {
+          await markRecordFailed(job, failure);
+        }
+      } catch (updateError) {
+        console.error(`Failed to record failure for job ${job.Id}:`, updateError);
+      }
+    }
+  }
+}
+
+/**
+ * Create a worker configured from env
+ * JOB_CONCURRENCY, JOB_POLL_INTERVAL_MS, JOB_STALE_AFTER_SECONDS
+ */
+export function createJobWorker(): JobWorker {
+  const concurrency = parseInt(process.env.JOB_CONCURRENCY || '', 10);
+  const pollIntervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS || '', 10);
+  const staleAfterSeconds = parseInt(process.env.JOB_STALE_AFTER_SECONDS || '', 10);
+
+  return new JobWorker({
+    concurrency: concurrency > 0 ? concurrency : undefined,
+    pollIntervalMs: pollIntervalMs > 0 ? pollIntervalMs : undefined,
+    staleAfterMs: staleAfterSeconds > 0 ? staleAfterSeconds * 1000 : undefined,
+  });
+}
+
+/**
+ * Where jobs run: in this server process (default) or a separate worker (npm run worker)
+ */
+export function getJobWorkerMode(): JobWorkerMode {
+  const mode = process.env.JOB_WORKER;
+  return mode === 'external' ? 'external' : 'in-process';
+}
+
+// Kept on globalThis so route bundles and instrumentation share one worker
+const globalForWorker = globalThis as unknown as { jobWorker?: JobWorker };
+
+/**
+ * Start the process-wide worker (no-op if already running)
+ */
+export async function startJobWorker(): Promise<JobWorker> {
+  if (!globalForWorker.jobWorker) {
+    globalForWorker.jobWorker = createJobWorker();
+    await globalForWorker.jobWorker.start();
+  }
+  return globalForWorker.jobWorker;
+}
+
+/**
+ * Nudge the process-wide worker to poll now (jobs are still picked up by polling otherwise)
+ */
+export function wakeJobWorker(): void {
+  globalForWorker.jobWorker?.wake();
+}
+
+/**
+ * Abort a job right away if the process-wide worker is running it
+ * Jobs running in another process stop at that worker's next heartbeat
+ */
+export function cancelRunningJob(jobId: number): boolean {
+  return globalForWorker.jobWorker?.cancel(jobId) ?? false;
+}
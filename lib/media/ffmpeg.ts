@@ -5,7 +5,7 @@
 
 import { execFile } from 'child_process';
 import { promisify } from 'util';
-import { createReadStream, createWriteStream, existsSync, mkdirSync, unlinkSync, statSync } from 'fs';
+import { createReadStream, createWriteStream, existsSync, mkdirSync, readdirSync, unlinkSync, statSync } from 'fs';
 import { join } from 'path';
 import { randomUUID } from 'crypto';
 
@@ -160,6 +160,121 @@ export async function extractAudioForTranscription(inputPath: string): Promise<C
   }
 }
 
+/**
+ * Decode audio to raw PCM for signal analysis (speaker diarization)
+ * - Mono, signed 16-bit little-endian samples, no container
+ * - Written to a temp file so long recordings are never held in memory
+ */
+export async function extractPcmForAnalysis(inputPath: string, sampleRate: number = 16000): Promise<string> {
+  const outputPath = join(TEMP_DIR, `${randomUUID()}.pcm`);
+
+  try {
+    await execFileAsync('ffmpeg', [
+      '-i', inputPath,
+      '-vn',
+      '-ac', '1',
+      '-ar', String(sampleRate),
+      '-f', 's16le',
+      '-acodec', 'pcm_s16le',
+      '-y', outputPath
+    ], { maxBuffer: 50 * 1024 * 1024 });
+
+    return outputPath;
+  } catch (error) {
+    console.error('PCM extraction error:', error);
+    if (existsSync(outputPath)) {
+      unlinkSync(outputPath);
+    }
+    throw new Error('Failed to decode audio for analysis');
+  }
+}
+
+export interface SilenceInterval {
+  start: number; // seconds
+  end: number;
+}
+
+/**
+ * Find silent stretches with FFmpeg's silencedetect filter
+ * - noiseDb: level below which audio counts as silence
+ * - minDuration: shortest silence reported, in seconds
+ */
+export async function detectSilences(
+  inputPath: string,
+  noiseDb: number = -35,
+  minDuration: number = 0.4
+): Promise<SilenceInterval[]> {
+  try {
+    // silencedetect reports on stderr; the decoded audio itself is discarded
+    const { stderr } = await execFileAsync('ffmpeg', [
+      '-hide_banner',
+      '-nostats',
+      '-i', inputPath,
+      '-vn',
+      '-af', `silencedetect=noise=${noiseDb}dB:d=${minDuration}`,
+      '-f', 'null',
+      '-'
+    ], { maxBuffer: 50 * 1024 * 1024 });
+
+    const silences: SilenceInterval[] = [];
+    let start: number | null = null;
+
+    for (const line of stderr.split('\n')) {
+      const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+      if (startMatch) {
+        start = Math.max(0, parseFloat(startMatch[1]));
+        continue;
+      }
+
+      const endMatch = line.match(/silence_end: ([\d.]+)/);
+      if (endMatch && start !== null) {
+        silences.push({ start, end: parseFloat(endMatch[1]) });
+        start = null;
+      }
+    }
+
+    return silences;
+  } catch (error) {
+    console.error('Silence detection error:', error);
+    throw new Error('Failed to detect silences');
+  }
+}
+
+/**
+ * Cut part of an audio file into a separate MP3 with the transcription settings
+ * (mono, 16kHz, 64kbps) so every chunk stays well under provider upload limits
+ */
+export async function extractAudioChunk(
+  inputPath: string,
+  startTime: number,
+  duration: number
+): Promise<string> {
+  const outputPath = join(TEMP_DIR, `${randomUUID()}-chunk.mp3`);
+
+  // -ss before -i seeks in the input instead of decoding everything before the chunk
+  try {
+    await execFileAsync('ffmpeg', [
+      '-ss', startTime.toFixed(3),
+      '-i', inputPath,
+      '-t', duration.toFixed(3),
+      '-vn',
+      '-ac', '1',
+      '-ar', '16000',
+      '-b:a', '64k',
+      '-f', 'mp3',
+      '-y', outputPath
+    ], { maxBuffer: 50 * 1024 * 1024 });
+
+    return outputPath;
+  } catch (error) {
+    console.error('Audio chunk extraction error:', error);
+    if (existsSync(outputPath)) {
+      unlinkSync(outputPath);
+    }
+    throw new Error('Failed to extract audio chunk');
+  }
+}
+
 /**
  * Check if input is a video file (has video stream)
  */
@@ -191,6 +306,31 @@ export function cleanupTempFile(filePath: string): void {
   }
 }
 
+/**
+ * Remove temp files not modified for maxAgeMs - left behind when a job that owned
+ * them was cancelled before it started or picked up by a worker on another machine
+ * Returns the number of files removed
+ */
+export function cleanupStaleTempFiles(maxAgeMs: number): number {
+  const cutoff = Date.now() - maxAgeMs;
+  let removed = 0;
+
+  for (const name of readdirSync(TEMP_DIR)) {
+    const filePath = join(TEMP_DIR, name);
+    try {
+      const stats = statSync(filePath);
+      if (stats.isFile() && stats.mtimeMs < cutoff) {
+        unlinkSync(filePath);
+        removed++;
+      }
+    } catch (error) {
+      console.error('Failed to cleanup temp file:', filePath, error);
+    }
+  }
+
+  return removed;
+}
+
 /**
  * Save buffer to temp file for processing
  * @deprecated Use saveStreamToTempFile for large files to avoid memory issues
@@ -0,0 +1,60 @@
+/**
+ * Provider Listing
+ * ASR and translation providers from both registries, described for the UI
+ */
+
+import { listASRProviderDefinitions } from '@/lib/asr/registry';
+import { listTranslationProviderDefinitions } from '@/lib/translation/registry';
+import { getDefaultTranslationProvider } from '@/lib/translation';
+import type { ProviderInfo, ProviderKind } from '@/lib/types';
+
+/**
+ * Providers configured on this server, ASR first, optionally of one kind
+ * Providers without credentials or models are left out; the default translation
+ * provider comes first among translation providers
+ */
+export function listProviders(kind?: ProviderKind): ProviderInfo[] {
+  const providers: ProviderInfo[] = [];
+
+  if (!kind || kind === 'asr') {
+    for (const provider of listASRProviderDefinitions(true)) {
+      providers.push({
+        id: provider.id,
+        kind: 'asr',
+        name: provider.name,
+        flag: provider.flag,
+        description: provider.description,
+        models: provider.getModels(),
+        languages: provider.languages,
+        capabilities: provider.capabilities,
+      });
+    }
+  }
+
+  if (!kind || kind === 'translation') {
+    const defaultProvider = getDefaultTranslationProvider();
+    const definitions = listTranslationProviderDefinitions(true).sort(
+      (a, b) => Number(b.id === defaultProvider) - Number(a.id === defaultProvider)
+    );
+
+    for (const provider of definitions) {
+      const models = provider.getModels();
+      // The configured default model is offered first
+      const defaultModel = provider.getDefaultModel();
+      models.sort((a, b) => Number(b.id === defaultModel) - Number(a.id === defaultModel));
+
+      providers.push({
+        id: provider.id,
+        kind: 'translation',
+        name: provider.name,
+        flag: provider.flag,
+        description: provider.description,
+        models,
+        languages: provider.languages,
+        capabilities: provider.capabilities,
+      });
+    }
+  }
+
+  return providers.filter((provider) => provider.models.length > 0);
+}
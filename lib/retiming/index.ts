@@ -0,0 +1,99 @@
+/**
+ * Translation Re-timing Records
+ * Replacing a saved translation's cues with ones re-timed for the target language
+ */
+
+import NocoDBClient, { sanitizeNocoDBValue, sanitizeNumericId, type NocoDBApi } from '@/lib/db/nocodb';
+import { pairRetimedUnits, retimeTranslatedSegments, type TranslatedSegmentRecord } from '@/lib/utils/retiming';
+import type { SubtitleLayout } from '@/lib/utils/reading-speed';
+import type { TranscriptionSegment, TranslatedSegment } from '@/lib/types';
+
+const BATCH_SIZE = 50;
+
+/**
+ * Whether a stored cue already matches its re-timed version
+ */
+function isSameCue(stored: TranslatedSegment, record: TranslatedSegmentRecord): boolean {
+  return (
+    stored.TranslatedText === record.TranslatedText &&
+    stored.StartTime === record.StartTime &&
+    stored.EndTime === record.EndTime &&
+    (stored.SourceSegmentIds ?? null) === (record.SourceSegmentIds ?? null)
+  );
+}
+
+/**
+ * Re-time a complete translation
+ * Each translation unit is replaced on its own, old cues first - a failure part way
+ * leaves at most one unit missing, which resuming the translation fills in, never a
+ * second set of cues. Cues are read in time order, so a re-run also repairs the
+ * numbering an interrupted one left behind
+ */
+export async function retimeTranslation(
+  db: NocoDBApi,
+  transcriptionId: number,
+  targetLanguage: string,
+  sourceSegments: TranscriptionSegment[],
+  layout: SubtitleLayout
+): Promise<{ merged: number; split: number; segments: number }> {
+  const { baseId, tableId } = await NocoDBClient.getIds('TranslatedSegments');
+
+  const result = await db.dbTableRow.list('noco', baseId, tableId, {
+    where:
+      `(TranscriptionId,eq,${sanitizeNumericId(transcriptionId)})` +
+      `~and(TargetLanguage,eq,${sanitizeNocoDBValue(targetLanguage)})`,
+    sort: 'SegmentIndex',
+    limit: 10000,
+  });
+  const existing = ((result.list || []) as TranslatedSegment[]).sort(
+    (a, b) => a.StartTime - b.StartTime || a.SegmentIndex - b.SegmentIndex
+  );
+
+  const { segments, merged, split } = retimeTranslatedSegments(
+    existing.map((segment) => ({
+      TranscriptionId: segment.TranscriptionId,
+      OriginalSegmentId: segment.OriginalSegmentId,
+      SegmentIndex: segment.SegmentIndex,
+      SourceSegmentIds: segment.SourceSegmentIds ?? null,
+      TargetLanguage: segment.TargetLanguage,
+      TranslatedText: segment.TranslatedText,
+      StartTime: segment.StartTime,
+      EndTime: segment.EndTime,
+      MissingTerms: segment.MissingTerms ?? null,
+      Untranslated: Boolean(segment.Untranslated),
+      RunSettings: segment.RunSettings ?? null,
+    })),
+    new Map(sourceSegments.map((segment) => [segment.Id, segment.SpeakerId])),
+    layout
+  );
+
+  const renumbered: { id: number; SegmentIndex: number }[] = [];
+
+  for (const unit of pairRetimedUnits(existing, segments)) {
+    const unchanged =
+      unit.previous.length === unit.next.length &&
+      unit.previous.every((stored, i) => isSameCue(stored, unit.next[i]));
+
+    if (unchanged) {
+      unit.previous.forEach((stored, i) => {
+        if (stored.SegmentIndex !== unit.next[i].SegmentIndex) {
+          renumbered.push({ id: stored.Id, SegmentIndex: unit.next[i].SegmentIndex });
+        }
+      });
+      continue;
+    }
+
+    await Promise.all(unit.previous.map((stored) => db.dbTableRow.delete('noco', baseId, tableId, stored.Id)));
+    await Promise.all(unit.next.map((record) => db.dbTableRow.create('noco', baseId, tableId, record)));
+  }
+
+  for (let i = 0; i < renumbered.length; i += BATCH_SIZE) {
+    await Promise.all(
+      renumbered.slice(i, i + BATCH_SIZE).map(({ id, SegmentIndex }) =>
+        db.dbTableRow.update('noco', baseId, tableId, id, { SegmentIndex })
+      )
+    );
+  }
+
+  return { merged, split, segments: segments.length };
+}
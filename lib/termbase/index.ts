@@ -0,0 +1,102 @@
+/**
+ * Termbase Records
+ * Ownership checks and loading the entries a translation should enforce
+ */
+
+import { NextResponse } from 'next/server';
+import NocoDBClient, { sanitizeNumericId, type NocoDBApi } from '@/lib/db/nocodb';
+import { normalizeTermbaseEntries, parseTermbaseEntries, termbaseMatchesLanguages } from '@/lib/utils/termbase';
+import type { APIResponse, Termbase, TermbaseEntry } from '@/lib/types';
+
+const MAX_TERMBASES = 100;
+
+/**
+ * Read a termbase and check it belongs to the user
+ * Returns an error response when it doesn't
+ */
+export async function getOwnedTermbase(
+  db: NocoDBApi,
+  id: string | number,
+  userId: string
+): Promise<{ termbase: Termbase | null; error: NextResponse | null }> {
+  const { baseId, tableId: termbasesTableId } = await NocoDBClient.getIds('Termbases');
+
+  const termbase = await db.dbTableRow.read(
+    'noco',
+    baseId,
+    termbasesTableId,
+    id
+  ).catch(() => null) as Termbase | null;
+
+  if (!termbase) {
+    return {
+      termbase: null,
+      error: NextResponse.json<APIResponse>(
+        { success: false, error: 'Termbase not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (String(termbase.UserId) !== userId) {
+    return {
+      termbase: null,
+      error: NextResponse.json<APIResponse>(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { termbase, error: null };
+}
+
+/**
+ * Entries to enforce for a translation
+ * Explicit termbase IDs are used as given; otherwise the user's active termbases
+ * for the language pair. Earlier termbases win when they define the same term
+ */
+export async function loadTermbaseEntries(
+  db: NocoDBApi,
+  userId: string | number,
+  sourceLanguage: string,
+  targetLanguage: string,
+  termbaseIds?: number[]
+): Promise<TermbaseEntry[]> {
+  const { entries } = await loadTermbaseSelection(db, userId, sourceLanguage, targetLanguage, termbaseIds);
+  return entries;
+}
+
+/**
+ * Entries to enforce and the IDs of the termbases they came from,
+ * so a resumed translation can enforce the same termbases
+ */
+export async function loadTermbaseSelection(
+  db: NocoDBApi,
+  userId: string | number,
+  sourceLanguage: string,
+  targetLanguage: string,
+  termbaseIds?: number[]
+): Promise<{ termbaseIds: number[]; entries: TermbaseEntry[] }> {
+  const { baseId, tableId: termbasesTableId } = await NocoDBClient.getIds('Termbases');
+
+  const result = await db.dbTableRow.list('noco', baseId, termbasesTableId, {
+    where: `(UserId,eq,${sanitizeNumericId(userId)})`,
+    sort: 'Name',
+    limit: MAX_TERMBASES,
+  });
+  const termbases = (result.list || []) as Termbase[];
+
+  const selected = termbaseIds
+    ? termbaseIds
+        .map((id) => termbases.find((termbase) => termbase.Id === id))
+        .filter((termbase): termbase is Termbase => Boolean(termbase))
+    : termbases.filter(
+        (termbase) => termbase.IsActive && termbaseMatchesLanguages(termbase, sourceLanguage, targetLanguage)
+      );
+
+  return {
+    termbaseIds: selected.map((termbase) => termbase.Id),
+    entries: normalizeTermbaseEntries(selected.flatMap((termbase) => parseTermbaseEntries(termbase.Entries))),
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Translation Memory Records
+ * Loading the memory for a language pair and storing approved translations
+ */
+
+import { createHash } from 'crypto';
+import NocoDBClient, { sanitizeNocoDBValue, sanitizeNumericId, type NocoDBApi } from '@/lib/db/nocodb';
+import { getMemoryKey, type MemoryUnit } from '@/lib/utils/translation-memory';
+import type { TranslationMemoryEntry } from '@/lib/types';
+
+const PAGE_SIZE = 1000;
+const MAX_MEMORY_ENTRIES = 20000;
+const BATCH_SIZE = 50;
+const LOOKUP_SIZE = 50;  // Hashes per "in" filter
+
+/**
+ * Hash of a memory key - source text can hold the characters NocoDB filters
+ * cannot express, so exact lookups filter on the hash instead
+ */
+function getSourceHash(key: string): string {
+  return createHash('sha1').update(key).digest('hex');
+}
+
+function getPairFilter(userId: string | number, sourceLanguage: string, targetLanguage: string): string {
+  return (
+    `(UserId,eq,${sanitizeNumericId(userId)})` +
+    `~and(SourceLanguage,eq,${sanitizeNocoDBValue(sourceLanguage)})` +
+    `~and(TargetLanguage,eq,${sanitizeNocoDBValue(targetLanguage)})`
+  );
+}
+
+/**
+ * Entries for a user and language pair, newest first, up to the cap
+ */
+async function listMemoryEntries(
+  db: NocoDBApi,
+  where: string,
+  maxEntries = MAX_MEMORY_ENTRIES
+): Promise<TranslationMemoryEntry[]> {
+  const { baseId, tableId } = await NocoDBClient.getIds('TranslationMemory');
+  const entries: TranslationMemoryEntry[] = [];
+
+  for (let offset = 0; offset < maxEntries; offset += PAGE_SIZE) {
+    const page = await db.dbTableRow.list('noco', baseId, tableId, {
+      where,
+      sort: '-Id',
+      limit: PAGE_SIZE,
+      offset,
+    });
+    const rows = (page.list || []) as TranslationMemoryEntry[];
+    entries.push(...rows);
+
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return entries;
+}
+
+/**
+ * Entries with the given keys, however old - by hash, then among entries
+ * stored before hashes were, which are matched on their key
+ */
+async function findMemoryEntries(
+  db: NocoDBApi,
+  pairFilter: string,
+  keys: string[]
+): Promise<Map<string, TranslationMemoryEntry>> {
+  const { baseId, tableId } = await NocoDBClient.getIds('TranslationMemory');
+  const found = new Map<string, TranslationMemoryEntry>();
+  const hashes = [...new Set(keys)].map(getSourceHash);
+
+  for (let i = 0; i < hashes.length; i += LOOKUP_SIZE) {
+    const page = await db.dbTableRow.list('noco', baseId, tableId, {
+      where: `${pairFilter}~and(SourceHash,in,${hashes.slice(i, i + LOOKUP_SIZE).join(',')})`,
+      sort: 'Id',
+      limit: PAGE_SIZE,
+    });
+    for (const entry of (page.list || []) as TranslationMemoryEntry[]) {
+      found.set(entry.SourceKey, entry);
+    }
+  }
+
+  const missing = new Set(keys.filter((key) => !found.has(key)));
+  if (missing.size > 0) {
+    const legacy = await listMemoryEntries(db, `${pairFilter}~and(SourceHash,is,null)`);
+    for (const entry of legacy.reverse()) {
+      if (missing.has(entry.SourceKey)) found.set(entry.SourceKey, entry);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Memory units to match a translation against - the newest entries for fuzzy
+ * matching, plus exact matches for the given source texts however old they are.
+ * Oldest first, so the newest approval of a text wins
+ */
+export async function loadTranslationMemory(
+  db: NocoDBApi,
+  userId: string | number,
+  sourceLanguage: string,
+  targetLanguage: string,
+  sourceTexts: string[] = []
+): Promise<MemoryUnit[]> {
+  const pairFilter = getPairFilter(userId, sourceLanguage, targetLanguage);
+  const newest = await listMemoryEntries(db, pairFilter);
+
+  const loaded = new Set(newest.map((entry) => entry.SourceKey));
+  const keys = sourceTexts.map(getMemoryKey).filter((key) => key && !loaded.has(key));
+  const exact = keys.length > 0 ? [...(await findMemoryEntries(db, pairFilter, keys)).values()] : [];
+
+  return [...exact, ...newest.reverse()].map((entry) => ({ source: entry.SourceText, target: entry.TargetText }));
+}
+
+/**
+ * Store approved segment translations, replacing the target of known source texts
+ * Segments left untranslated (target equal to source) are skipped
+ */
+export async function addToTranslationMemory(
+  db: NocoDBApi,
+  userId: string | number,
+  sourceLanguage: string,
+  targetLanguage: string,
+  units: MemoryUnit[],
+  transcriptionId: number
+): Promise<{ added: number; updated: number }> {
+  const { baseId, tableId } = await NocoDBClient.getIds('TranslationMemory');
+
+  // Last approval of a source text wins
+  const approved = new Map<string, MemoryUnit>();
+  for (const unit of units) {
+    const source = unit.source.trim();
+    const target = unit.target.trim();
+    const key = getMemoryKey(source);
+    if (!key || !target || key === getMemoryKey(target)) continue;
+    approved.set(key, { source, target });
+  }
+
+  const existing = approved.size > 0
+    ? await findMemoryEntries(db, getPairFilter(userId, sourceLanguage, targetLanguage), [...approved.keys()])
+    : new Map<string, TranslationMemoryEntry>();
+
+  const creates: Partial<TranslationMemoryEntry>[] = [];
+  const updates: { id: number; TargetText: string; SourceHash: string }[] = [];
+  let updated = 0;
+
+  for (const [key, unit] of approved) {
+    const entry = existing.get(key);
+    if (!entry) {
+      creates.push({
+        UserId: Number(userId),
+        SourceLanguage: sourceLanguage,
+        TargetLanguage: targetLanguage,
+        SourceText: unit.source,
+        TargetText: unit.target,
+        SourceKey: key,
+        SourceHash: getSourceHash(key),
+        TranscriptionId: transcriptionId,
+      });
+    } else if (entry.TargetText !== unit.target || !entry.SourceHash) {
+      // Entries stored before hashes get theirs on the way
+      updates.push({ id: entry.Id, TargetText: unit.target, SourceHash: getSourceHash(key) });
+      if (entry.TargetText !== unit.target) updated++;
+    }
+  }
+
+  for (let i = 0; i < creates.length; i += BATCH_SIZE) {
+    await Promise.all(
+      creates.slice(i, i + BATCH_SIZE).map((record) =>
+        db.dbTableRow.create('noco', baseId, tableId, record)
+      )
+    );
+  }
+
+  for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+    await Promise.all(
+      updates.slice(i, i + BATCH_SIZE).map(({ id, TargetText, SourceHash }) =>
+        db.dbTableRow.update('noco', baseId, tableId, id, { TargetText, SourceHash, TranscriptionId: transcriptionId })
+      )
+    );
+  }
+
+  return { added: creates.length, updated };
+}
@@ -12,8 +12,9 @@ import {
   getTranslationSystemPrompt,
   getBatchTranslationPrompt,
   parseTranslationResponse,
+  stripThinkingTags,
 } from './prompts';
-import type { OpenAITranslationOptions, TranslationResult } from './openai';
+import type { ContextSummaryResult, OpenAITranslationOptions, TranslationResult } from './openai';
 
 // Berget AI models
 export const BERGET_MODELS = {
@@ -31,22 +32,6 @@ export const BERGET_MODEL_NAMES: Record<string, string> = {
   'mistralai/Mistral-Small-3.2-24B-Instruct-2506': 'Mistral Small 3.2',
 };
 
-/**
- * Strip thinking tags from reasoning model responses
- * Some models like GPT-OSS may include <think>...</think> reasoning blocks
- */
-function stripThinkingTags(content: string): string {
-  // Remove <think>...</think> blocks (case insensitive, multiline)
-  let cleaned = content.replace(/<think>[\s\S]*?<\/think>/gi, '');
-
-  // Also handle |think| or [think] variants just in case
-  cleaned = cleaned.replace(/\|think\|[\s\S]*?\|\/think\|/gi, '');
-  cleaned = cleaned.replace(/\[think\][\s\S]*?\[\/think\]/gi, '');
-
-  // Remove any leading/trailing whitespace
-  return cleaned.trim();
-}
-
 /**
  * Berget AI Translation Client
  */
@@ -71,7 +56,7 @@ export class BergetTranslation {
    * Translate a batch of segments
    */
   async translateBatch(
-    segments: { index: number; text: string }[],
+    segments: { index: number; text: string; maxChars?: number }[],
     options: OpenAITranslationOptions
   ): Promise<TranslationResult> {
     const {
@@ -79,13 +64,21 @@ export class BergetTranslation {
       sourceLanguage,
       targetLanguage,
       context,
+      terms,
+      references,
+      revision,
+      layout,
       temperature = 0.3,
     } = options;
 
     const systemPrompt = getTranslationSystemPrompt(
       sourceLanguage,
       targetLanguage,
-      context
+      context,
+      terms,
+      references,
+      revision,
+      layout
     );
     const userPrompt = getBatchTranslationPrompt(segments);
 
@@ -110,16 +103,7 @@ export class BergetTranslation {
 
       const translatedSegments = parseTranslationResponse(content);
 
-      // Validate that all indices are present
-      const inputIndices = new Set(segments.map((s) => s.index));
-      const outputIndices = new Set(translatedSegments.map((s) => s.index));
-
-      for (const idx of inputIndices) {
-        if (!outputIndices.has(idx)) {
-          console.warn(`Missing translation for segment index ${idx}`);
-        }
-      }
-
+      // Indices are validated (and missing ones re-requested) by TranslationService
       return {
         segments: translatedSegments,
         model,
@@ -134,7 +118,8 @@ export class BergetTranslation {
     } catch (error) {
       console.error('Berget AI translation error:', error);
       throw new Error(
-        `Translation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Translation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
       );
     }
   }
@@ -146,7 +131,7 @@ export class BergetTranslation {
   async generateContextSummary(
     fullText: string,
     sourceLanguage: string
-  ): Promise<string> {
+  ): Promise<ContextSummaryResult> {
     try {
       const response = await this.client.chat.completions.create({
         model: this.defaultModel,
@@ -169,10 +154,20 @@ export class BergetTranslation {
       // Strip any thinking tags
       content = stripThinkingTags(content);
 
-      return content;
+      return {
+        summary: content,
+        model: this.defaultModel,
+        tokensUsed: response.usage
+          ? {
+              prompt: response.usage.prompt_tokens,
+              completion: response.usage.completion_tokens,
+              total: response.usage.total_tokens,
+            }
+          : undefined,
+      };
     } catch (error) {
       console.error('Failed to generate context summary:', error);
-      return ''; // Non-critical, continue without summary
+      return { summary: '', model: this.defaultModel }; // Non-critical, continue without summary
     }
   }
 }
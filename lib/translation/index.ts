@@ -3,39 +3,60 @@
  * Provides a unified interface for LLM-based subtitle translation
  */
 
-import {
-  OpenAITranslation,
-  createOpenAITranslation,
-  type OpenAITranslationOptions,
-  type TranslationResult,
-} from './openai';
-import {
-  BergetTranslation,
-  createBergetTranslation,
-  BERGET_MODELS,
-  BERGET_MODEL_NAMES,
-} from './berget';
+import type { OpenAITranslationOptions, TranslationResult } from './openai';
+import { BERGET_MODELS, BERGET_MODEL_NAMES } from './berget';
+import { getTranslationProviderDefinition, type TranslationClient } from './registry';
 import {
   createTranslationBatches,
   getLanguageName,
+  validateTranslationBatch,
   LANGUAGE_NAMES,
+  type RevisionContext,
 } from './prompts';
+import {
+  findMissingTerms,
+  selectTermsForTexts,
+  serializeMissingTerms,
+  type MissingTermsIssue,
+} from '@/lib/utils/termbase';
+import {
+  buildMemoryIndex,
+  findMemoryMatch,
+  getMemoryMatchStats,
+  type MemoryMatch,
+  type MemoryMatchStats,
+  type MemoryUnit,
+} from '@/lib/utils/translation-memory';
+import {
+  DEFAULT_SUBTITLE_LAYOUT,
+  exceedsLayout,
+  getCharacterBudget,
+  type SubtitleLayout,
+} from '@/lib/utils/reading-speed';
+import { classifyFailure } from '@/lib/utils/failures';
+import { serializeRunSettings } from '@/lib/utils/translation-run';
 import type {
+  TermbaseEntry,
   TranscriptionSegment,
   TranslatedSegment,
   TranslationProgress,
+  TranslationRunSettings,
 } from '@/lib/types';
 
-// Translation client interface (both OpenAI and Berget implement this)
-interface TranslationClient {
-  translateBatch(
-    segments: { index: number; text: string }[],
-    options: OpenAITranslationOptions
-  ): Promise<TranslationResult>;
-  generateContextSummary(fullText: string, sourceLanguage: string): Promise<string>;
-}
+// Id of a provider in the registry (berget, openai and local are built in)
+export type TranslationProvider = string;
+
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+// Follow-up requests for indices a batch response left out or returned twice
+const MAX_REREQUESTS = 2;
 
-export type TranslationProvider = 'openai' | 'berget';
+// Follow-up requests asking the model to shorten translations over their character budget
+const MAX_CONDENSE_REQUESTS = 2;
+const CONDENSE_INSTRUCTION =
+  'Too long to read in time. Shorten each translation to fit its maxChars and the line limits, ' +
+  'keeping the meaning - drop filler words and rephrase rather than leaving content out';
 
 export interface TranslationOptions {
   provider?: TranslationProvider;
@@ -46,8 +67,46 @@ export interface TranslationOptions {
     title?: string;
     summary?: string;
   };
+  termbase?: TermbaseEntry[];  // Required translations - each batch's prompt gets the entries it uses
+  memory?: MemoryUnit[];  // Approved translations - exact matches are reused, fuzzy ones guide the model
+  completedIndices?: number[];  // Segments translated by an earlier run, skipped when resuming
+  layout?: SubtitleLayout;  // Reading speed and line limits - each segment's character budget comes from its duration
   batchSize?: number;
+  maxRetries?: number;  // Retries per batch for transient failures
   onProgress?: (progress: TranslationProgress) => void;
+  onBatchComplete?: (batch: TranslatedBatch) => Promise<void>;  // Checkpoint - persist the batch
+  onUsage?: (usage: TranslationUsage) => Promise<void>;  // Tokens of the context summary and of each batch, failed ones included
+}
+
+export interface TranslatedBatch {
+  segments: { index: number; text: string }[];
+  missingTerms: MissingTermsIssue[];
+}
+
+export interface RetranslationOptions {
+  provider?: TranslationProvider;
+  model?: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  context?: {
+    title?: string;
+  };
+  instruction?: string;
+  termbase?: TermbaseEntry[];
+  layout?: SubtitleLayout;
+  before: { source: string; translation: string }[];  // Neighbouring subtitles for context
+  after: { source: string; translation: string }[];
+}
+
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+}
+
+export interface TranslationUsage {
+  model: string;
+  tokens: TokenUsage;
 }
 
 export interface FullTranslationResult {
@@ -55,14 +114,18 @@ export interface FullTranslationResult {
   provider: TranslationProvider;
   model: string;
   totalTokensUsed?: number;
+  tokensUsed?: TokenUsage;  // Split into prompt and completion tokens for usage accounting
+  missingTerms: MissingTermsIssue[];  // Segments where a required term was not used
+  untranslated: number[];  // Indices the model never returned a valid translation for
+  overBudget: number[];  // Indices still over their character budget or line limits after condensing
+  memory: MemoryMatchStats;
 }
 
 /**
  * Main Translation Service
  */
 export class TranslationService {
-  private openaiClient?: OpenAITranslation;
-  private bergetClient?: BergetTranslation;
+  private clients = new Map<TranslationProvider, TranslationClient>();
   private defaultProvider: TranslationProvider;
 
   constructor(defaultProvider: TranslationProvider = 'openai') {
@@ -70,60 +133,76 @@ export class TranslationService {
   }
 
   /**
-   * Get translation client for specified provider
+   * Get translation client for specified provider, created through the registry on first use
    */
   private getClient(provider: TranslationProvider): TranslationClient {
-    switch (provider) {
-      case 'openai':
-        if (!this.openaiClient) {
-          this.openaiClient = createOpenAITranslation();
-        }
-        return this.openaiClient;
-
-      case 'berget':
-        if (!this.bergetClient) {
-          this.bergetClient = createBergetTranslation();
-        }
-        return this.bergetClient;
-
-      default:
+    let client = this.clients.get(provider);
+    if (!client) {
+      const definition = getTranslationProviderDefinition(provider);
+      if (!definition) {
         throw new Error(`Unknown translation provider: ${provider}`);
+      }
+      client = definition.createClient();
+      this.clients.set(provider, client);
     }
+    return client;
+  }
+
+  /**
+   * Provider used when a request names none (TRANSLATION_PROVIDER)
+   */
+  getDefaultProvider(): TranslationProvider {
+    return this.defaultProvider;
   }
 
   /**
    * Get default model for a provider
    */
   getDefaultModel(provider: TranslationProvider): string {
-    switch (provider) {
-      case 'openai':
-        return process.env.TRANSLATION_MODEL || 'gpt-4.1';
-      case 'berget':
-        return process.env.BERGET_TRANSLATION_MODEL || BERGET_MODELS.GPT_OSS;
-      default:
-        return 'gpt-4.1';
-    }
+    return getTranslationProviderDefinition(provider)?.getDefaultModel() || 'gpt-4.1';
   }
 
   /**
    * Get available models for a provider
    */
   getAvailableModels(provider: TranslationProvider): { id: string; name: string }[] {
-    switch (provider) {
-      case 'openai':
-        return [
-          { id: 'gpt-4.1', name: 'GPT-4.1' },
-          { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini' },
-        ];
-      case 'berget':
-        return Object.entries(BERGET_MODEL_NAMES).map(([id, name]) => ({ id, name }));
-      default:
-        return [];
+    return (getTranslationProviderDefinition(provider)?.getModels() || []).map(({ id, name }) => ({ id, name }));
+  }
+
+  /**
+   * Translate a batch, retrying transient failures with exponential backoff
+   */
+  private async translateBatchWithRetry(
+    client: TranslationClient,
+    batch: { index: number; text: string }[],
+    options: OpenAITranslationOptions,
+    batchNumber: number,
+    maxRetries: number
+  ): Promise<TranslationResult> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await client.translateBatch(batch, options);
+      } catch (error) {
+        const failure = classifyFailure(error);
+        if (!failure.retryable || attempt >= maxRetries) {
+          throw error;
+        }
+
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+        console.warn(
+          `Batch ${batchNumber} failed (${failure.category}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
     }
   }
 
   /**
    * Translate all segments from a transcription
+   * Each finished batch is passed to onBatchComplete, so a failed run can be
+   * resumed later by passing the saved indices as completedIndices.
+   * Every segment gets a character budget from its duration and the layout;
+   * translations over it are sent back to the model to be condensed
    */
   async translateSegments(
     segments: TranscriptionSegment[],
@@ -135,20 +214,82 @@ export class TranslationService {
       sourceLanguage,
       targetLanguage,
       context,
+      termbase = [],
+      memory = [],
+      completedIndices = [],
+      layout = DEFAULT_SUBTITLE_LAYOUT,
       batchSize = parseInt(process.env.TRANSLATION_BATCH_SIZE || '25', 10),
+      maxRetries = parseInt(process.env.TRANSLATION_MAX_RETRIES || '3', 10),
       onProgress,
+      onBatchComplete,
+      onUsage,
     } = options;
 
     const client = this.getClient(provider);
+    const completed = new Set(completedIndices);
 
-    // Prepare segments for translation
+    // Prepare segments for translation, skipping those translated before a resume
     const inputSegments = segments.map((seg, index) => ({
       index,
       text: seg.Text,
+      maxChars: getCharacterBudget(seg.EndTime - seg.StartTime, layout),
     }));
+    const remainingSegments = inputSegments.filter((segment) => !completed.has(segment.index));
+
+    const translatedSegments: { index: number; text: string }[] = [];
+    const missingTerms: MissingTermsIssue[] = [];
+    const untranslated: number[] = [];
+    const overBudget: number[] = [];
+
+    // Flag segments that ignored the termbase, then hand the batch to the caller to persist
+    const completeBatch = async (batchSegments: { index: number; text: string }[]) => {
+      const batchMissingTerms: MissingTermsIssue[] = [];
+      if (termbase.length > 0) {
+        for (const translated of batchSegments) {
+          const source = inputSegments[translated.index];
+          if (!source) continue;
+
+          const missing = findMissingTerms(source.text, translated.text, termbase);
+          if (missing.length > 0) {
+            batchMissingTerms.push({ index: translated.index, missing });
+          }
+        }
+      }
+
+      translatedSegments.push(...batchSegments);
+      missingTerms.push(...batchMissingTerms);
+      await onBatchComplete?.({ segments: batchSegments, missingTerms: batchMissingTerms });
+    };
+
+    // Reuse exact translation memory matches, keep fuzzy ones as references
+    const references = new Map<number, MemoryMatch>();
+    const reused: { index: number; text: string }[] = [];
+    let pendingSegments = remainingSegments;
+
+    if (memory.length > 0) {
+      const memoryIndex = buildMemoryIndex(memory);
+      pendingSegments = [];
+
+      for (const segment of remainingSegments) {
+        const match = findMemoryMatch(memoryIndex, segment.text);
+        if (match?.score === 100) {
+          reused.push({ index: segment.index, text: match.target });
+          continue;
+        }
+        if (match) {
+          references.set(segment.index, match);
+        }
+        pendingSegments.push(segment);
+      }
+    }
+
+    const memoryStats = getMemoryMatchStats(remainingSegments.length, reused.length, references.size);
+    if (reused.length > 0) {
+      await completeBatch(reused);
+    }
 
     // Create batches
-    const batches = createTranslationBatches(inputSegments, batchSize);
+    const batches = createTranslationBatches(pendingSegments, batchSize);
     const totalBatches = batches.length;
 
     // Report initial progress
@@ -159,39 +300,124 @@ export class TranslationService {
       totalBatches,
     });
 
+    const tokens: TokenUsage = { prompt: 0, completion: 0, total: 0 };
+    const addTokens = (target: TokenUsage, used: TokenUsage) => {
+      target.prompt += used.prompt;
+      target.completion += used.completion;
+      target.total += used.total;
+    };
+
     // Optionally generate context summary for better translations
     let enhancedContext = context;
-    if (!context?.summary && segments.length > 10) {
+    if (!context?.summary && segments.length > 10 && batches.length > 0) {
       const fullText = segments.map((s) => s.Text).join(' ');
       const summary = await client.generateContextSummary(fullText, sourceLanguage);
-      if (summary) {
-        enhancedContext = { ...context, summary };
+      if (summary.tokensUsed) {
+        addTokens(tokens, summary.tokensUsed);
+        await onUsage?.({ model: summary.model, tokens: summary.tokensUsed });
+      }
+      if (summary.summary) {
+        enhancedContext = { ...context, summary: summary.summary };
       }
     }
 
     // Translate batches sequentially
-    const translatedSegments: { index: number; text: string }[] = [];
-    let totalTokens = 0;
     let usedModel = model || this.getDefaultModel(provider);
 
+    // Tokens of the current batch's requests, reported when it completes or fails
+    let batchTokens: TokenUsage = { prompt: 0, completion: 0, total: 0 };
+    const reportBatchUsage = async () => {
+      if (batchTokens.total === 0) return;
+      const used = batchTokens;
+      batchTokens = { prompt: 0, completion: 0, total: 0 };
+      await onUsage?.({ model: usedModel, tokens: used });
+    };
+
+    // Request a batch (or the part of it still missing) and keep only a valid response
+    const requestBatch = async (
+      batch: typeof inputSegments,
+      batchNumber: number,
+      revision?: RevisionContext
+    ) => {
+      const result = await this.translateBatchWithRetry(client, batch, {
+        model,
+        sourceLanguage,
+        targetLanguage,
+        context: enhancedContext,
+        terms: selectTermsForTexts(batch.map((segment) => segment.text), termbase),
+        references: batch
+          .map((segment) => references.get(segment.index))
+          .filter((match): match is MemoryMatch => Boolean(match)),
+        revision,
+        layout,
+      }, batchNumber, maxRetries);
+
+      usedModel = result.model;
+      if (result.tokensUsed) {
+        addTokens(tokens, result.tokensUsed);
+        addTokens(batchTokens, result.tokensUsed);
+      }
+
+      return validateTranslationBatch(batch, result.segments);
+    };
+
+    // Ask for shorter versions of translations over their budget - the shorter text wins,
+    // and a failed condense request keeps what the batch already returned
+    const condenseBatch = async (translated: { index: number; text: string }[], batchNumber: number) => {
+      const byIndex = new Map(translated.map((segment) => [segment.index, segment]));
+      const isOverBudget = (segment: { index: number; text: string }) =>
+        exceedsLayout(segment.text, inputSegments[segment.index].maxChars, layout);
+      let offending = translated.filter(isOverBudget);
+
+      for (let attempt = 1; offending.length > 0 && attempt <= MAX_CONDENSE_REQUESTS; attempt++) {
+        console.warn(`Batch ${batchNumber}: condensing ${offending.length} segments over their character budget`);
+        try {
+          const { segments: shorter } = await requestBatch(
+            offending.map((segment) => inputSegments[segment.index]),
+            batchNumber,
+            { instruction: CONDENSE_INSTRUCTION, current: offending, before: [], after: [] }
+          );
+          for (const segment of shorter) {
+            const previous = byIndex.get(segment.index);
+            if (previous && segment.text.length < previous.text.length) {
+              byIndex.set(segment.index, segment);
+            }
+          }
+        } catch (error) {
+          console.warn(`Batch ${batchNumber}: condensing failed, keeping the longer translations:`, error);
+          break;
+        }
+        offending = offending.map((segment) => byIndex.get(segment.index) || segment).filter(isOverBudget);
+      }
+
+      return { segments: [...byIndex.values()], overBudget: offending.map((segment) => segment.index) };
+    };
+
     for (let i = 0; i < batches.length; i++) {
       const batch = batches[i];
 
       try {
-        const result = await client.translateBatch(batch, {
-          model,
-          sourceLanguage,
-          targetLanguage,
-          context: enhancedContext,
-        });
-
-        translatedSegments.push(...result.segments);
-        usedModel = result.model;
+        const { segments: accepted, missing: firstMissing } = await requestBatch(batch, i + 1);
+        let missing = firstMissing;
+
+        for (let attempt = 1; missing.length > 0 && attempt <= MAX_REREQUESTS; attempt++) {
+          console.warn(`Batch ${i + 1}: re-requesting ${missing.length} missing or duplicated segments`);
+          const retry = await requestBatch(batch.filter((segment) => missing.includes(segment.index)), i + 1);
+          accepted.push(...retry.segments);
+          missing = retry.missing;
+        }
 
-        if (result.tokensUsed) {
-          totalTokens += result.tokensUsed.total;
+        if (missing.length > 0) {
+          console.warn(`Batch ${i + 1}: no translation for segments ${missing.join(', ')}`);
+          untranslated.push(...missing);
         }
 
+        const condensed = await condenseBatch(accepted, i + 1);
+        overBudget.push(...condensed.overBudget);
+
+        await reportBatchUsage();
+        await completeBatch(condensed.segments);
+
         // Report progress
         const progress = Math.round(((i + 1) / totalBatches) * 100);
         onProgress?.({
@@ -201,8 +427,10 @@ export class TranslationService {
           totalBatches,
         });
       } catch (error) {
-        // Report error but continue with remaining batches
+        // Completed batches were already handed to onBatchComplete, so the caller can resume.
+        // Requests the failed batch made before failing were still billed
         console.error(`Batch ${i + 1} failed:`, error);
+        await reportBatchUsage();
         onProgress?.({
           status: 'processing',
           progress: Math.round(((i + 1) / totalBatches) * 100),
@@ -210,13 +438,20 @@ export class TranslationService {
           totalBatches,
           error: `Batch ${i + 1} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         });
-        // Re-throw to stop processing - caller can decide to retry
         throw error;
       }
     }
 
     // Sort by index to ensure correct order
     translatedSegments.sort((a, b) => a.index - b.index);
+    missingTerms.sort((a, b) => a.index - b.index);
+
+    if (missingTerms.length > 0) {
+      console.warn(`${missingTerms.length} translated segments are missing required terms`);
+    }
+    if (overBudget.length > 0) {
+      console.warn(`${overBudget.length} translated segments are still over their character budget`);
+    }
 
     // Report completion
     onProgress?.({
@@ -230,23 +465,89 @@ export class TranslationService {
       segments: translatedSegments,
       provider,
       model: usedModel,
-      totalTokensUsed: totalTokens || undefined,
+      totalTokensUsed: tokens.total || undefined,
+      tokensUsed: tokens.total > 0 ? tokens : undefined,
+      missingTerms,
+      untranslated: untranslated.sort((a, b) => a - b),
+      overBudget: overBudget.sort((a, b) => a - b),
+      memory: memoryStats,
+    };
+  }
+
+  /**
+   * Alternative translations for segments that were already translated
+   * Segments carry their source text, current translation and duration; nothing is saved
+   */
+  async retranslateSegments(
+    segments: { index: number; text: string; current: string; duration: number }[],
+    options: RetranslationOptions
+  ): Promise<Omit<FullTranslationResult, 'missingTerms' | 'overBudget' | 'memory'>> {
+    const {
+      provider = this.defaultProvider,
+      model,
+      sourceLanguage,
+      targetLanguage,
+      context,
+      instruction,
+      termbase = [],
+      layout = DEFAULT_SUBTITLE_LAYOUT,
+      before,
+      after,
+    } = options;
+
+    const client = this.getClient(provider);
+    const batch = segments.map(({ index, text, duration }) => ({
+      index,
+      text,
+      maxChars: getCharacterBudget(duration, layout),
+    }));
+    const revision: RevisionContext = {
+      instruction,
+      current: segments.map(({ index, current }) => ({ index, text: current })),
+      before,
+      after,
+    };
+
+    const result = await this.translateBatchWithRetry(client, batch, {
+      model,
+      sourceLanguage,
+      targetLanguage,
+      context,
+      terms: selectTermsForTexts(batch.map((segment) => segment.text), termbase),
+      revision,
+      layout,
+      temperature: 0.5,
+    }, 1, parseInt(process.env.TRANSLATION_MAX_RETRIES || '3', 10));
+
+    const { segments: accepted, missing } = validateTranslationBatch(batch, result.segments);
+
+    return {
+      segments: accepted.sort((a, b) => a.index - b.index),
+      untranslated: missing,
+      provider,
+      model: result.model,
+      totalTokensUsed: result.tokensUsed?.total,
+      tokensUsed: result.tokensUsed,
     };
   }
 
   /**
    * Create TranslatedSegment records from translation results
+   * One cue per source segment with its timing - re-timing may merge or split them later
    */
   createTranslatedSegmentRecords(
     transcriptionId: number,
     originalSegments: TranscriptionSegment[],
     translatedResults: { index: number; text: string }[],
-    targetLanguage: string
+    targetLanguage: string,
+    missingTerms: MissingTermsIssue[] = [],
+    runSettings?: TranslationRunSettings
   ): Omit<TranslatedSegment, 'Id' | 'CreatedAt' | 'UpdatedAt'>[] {
     // Create a map for quick lookup
     const translationMap = new Map(
       translatedResults.map((t) => [t.index, t.text])
     );
+    const missingMap = new Map(missingTerms.map((issue) => [issue.index, issue.missing]));
 
     return originalSegments.map((original, index) => ({
       TranscriptionId: transcriptionId,
@@ -256,6 +557,9 @@ export class TranslationService {
       TranslatedText: translationMap.get(index) || original.Text, // Fallback to original
       StartTime: original.StartTime,
       EndTime: original.EndTime,
+      MissingTerms: serializeMissingTerms(missingMap.get(index)),
+      Untranslated: !translationMap.get(index),
+      RunSettings: runSettings ? serializeRunSettings(runSettings) : null,
     }));
   }
 
@@ -286,12 +590,25 @@ export class TranslationService {
  * Create translation service instance
  */
 export function createTranslationService(): TranslationService {
-  const defaultProvider =
-    (process.env.TRANSLATION_PROVIDER as TranslationProvider) || 'openai';
-  return new TranslationService(defaultProvider);
+  return new TranslationService(getDefaultTranslationProvider());
+}
+
+/**
+ * Provider configured as the default (TRANSLATION_PROVIDER, otherwise openai)
+ */
+export function getDefaultTranslationProvider(): TranslationProvider {
+  return (process.env.TRANSLATION_PROVIDER as TranslationProvider) || 'openai';
 }
 
 // Re-export utilities
 export { getLanguageName, LANGUAGE_NAMES, createTranslationBatches };
 export { BERGET_MODELS, BERGET_MODEL_NAMES };
 export type { TranslationResult, OpenAITranslationOptions };
+
+// Re-export the registry
+export {
+  registerTranslationProvider,
+  getTranslationProviderDefinition,
+  listTranslationProviderDefinitions,
+} from './registry';
+export type { TranslationProviderDefinition, TranslationClient } from './registry';
@@ -0,0 +1,193 @@
+/**
+ * Local LLM Translation Provider
+ * Targets any OpenAI-compatible chat completions endpoint running on-premises
+ * (Ollama, vLLM, llama.cpp server), so recordings never leave the network
+ */
+
+import OpenAI from 'openai';
+import {
+  getTranslationSystemPrompt,
+  getBatchTranslationPrompt,
+  parseTranslationResponse,
+  stripThinkingTags,
+} from './prompts';
+import type { ContextSummaryResult, OpenAITranslationOptions, TranslationResult } from './openai';
+
+export interface LocalTranslationConfig {
+  baseUrl: string;
+  apiKey?: string;     // Optional - local servers usually don't check it
+  models: string[];    // First one is the default
+  name: string;        // Shown in the model picker
+  jsonMode: boolean;   // Send response_format json_object (not every server supports it)
+}
+
+/**
+ * Local LLM Translation Client
+ */
+export class LocalTranslation {
+  private client: OpenAI;
+  private defaultModel: string;
+  private jsonMode: boolean;
+
+  constructor(config: LocalTranslationConfig) {
+    this.client = new OpenAI({
+      // The SDK requires a key even when the server ignores it
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseUrl,
+    });
+    this.defaultModel = config.models[0];
+    this.jsonMode = config.jsonMode;
+  }
+
+  /**
+   * Translate a batch of segments
+   */
+  async translateBatch(
+    segments: { index: number; text: string; maxChars?: number }[],
+    options: OpenAITranslationOptions
+  ): Promise<TranslationResult> {
+    const {
+      model = this.defaultModel,
+      sourceLanguage,
+      targetLanguage,
+      context,
+      terms,
+      references,
+      revision,
+      layout,
+      temperature = 0.3,
+    } = options;
+
+    const systemPrompt = getTranslationSystemPrompt(
+      sourceLanguage,
+      targetLanguage,
+      context,
+      terms,
+      references,
+      revision,
+      layout
+    );
+    const userPrompt = getBatchTranslationPrompt(segments);
+
+    try {
+      const response = await this.client.chat.completions.create({
+        model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        temperature,
+        ...(this.jsonMode && { response_format: { type: 'json_object' as const } }),
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error('Empty response from local model');
+      }
+
+      // Local reasoning models (Qwen3, DeepSeek-R1) often think out loud first
+      const translatedSegments = parseTranslationResponse(stripThinkingTags(content));
+
+      // Indices are validated (and missing ones re-requested) by TranslationService
+      return {
+        segments: translatedSegments,
+        model,
+        tokensUsed: response.usage
+          ? {
+              prompt: response.usage.prompt_tokens,
+              completion: response.usage.completion_tokens,
+              total: response.usage.total_tokens,
+            }
+          : undefined,
+      };
+    } catch (error) {
+      console.error('Local model translation error:', error);
+      throw new Error(
+        `Translation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Generate a context summary from full transcript
+   * This helps the LLM understand the overall content
+   */
+  async generateContextSummary(
+    fullText: string,
+    sourceLanguage: string
+  ): Promise<ContextSummaryResult> {
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.defaultModel,
+        messages: [
+          {
+            role: 'system',
+            content: `You are a content analyzer. Provide a brief 1-2 sentence summary of the following transcript in English. Focus on the main topic and type of content (e.g., interview, tutorial, presentation, conversation). Be concise.`,
+          },
+          {
+            role: 'user',
+            content: `Language: ${sourceLanguage}\n\nTranscript:\n${fullText.slice(0, 3000)}`,
+          },
+        ],
+        temperature: 0.3,
+        max_tokens: 150,
+      });
+
+      return {
+        summary: stripThinkingTags(response.choices[0]?.message?.content?.trim() || ''),
+        model: this.defaultModel,
+        tokensUsed: response.usage
+          ? {
+              prompt: response.usage.prompt_tokens,
+              completion: response.usage.completion_tokens,
+              total: response.usage.total_tokens,
+            }
+          : undefined,
+      };
+    } catch (error) {
+      console.error('Failed to generate context summary:', error);
+      return { summary: '', model: this.defaultModel }; // Non-critical, continue without summary
+    }
+  }
+}
+
+/**
+ * Read the provider configuration from env
+ * LOCAL_TRANSLATION_BASE_URL, LOCAL_TRANSLATION_API_KEY, LOCAL_TRANSLATION_MODELS,
+ * LOCAL_TRANSLATION_NAME, LOCAL_TRANSLATION_JSON_MODE
+ * Returns null unless both a base URL and at least one model are set
+ */
+export function getLocalTranslationConfig(): LocalTranslationConfig | null {
+  const baseUrl = process.env.LOCAL_TRANSLATION_BASE_URL;
+  const models = (process.env.LOCAL_TRANSLATION_MODELS || '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+
+  if (!baseUrl || models.length === 0) {
+    return null;
+  }
+
+  return {
+    // The OpenAI SDK adds the endpoint path itself
+    baseUrl: baseUrl.replace(/\/chat\/completions\/?$/, ''),
+    apiKey: process.env.LOCAL_TRANSLATION_API_KEY,
+    models,
+    name: process.env.LOCAL_TRANSLATION_NAME || 'Local LLM',
+    jsonMode: process.env.LOCAL_TRANSLATION_JSON_MODE !== 'false',
+  };
+}
+
+/**
+ * Create local LLM translation client instance
+ */
+export function createLocalTranslation(): LocalTranslation {
+  const config = getLocalTranslationConfig();
+
+  if (!config) {
+    throw new Error('LOCAL_TRANSLATION_BASE_URL and LOCAL_TRANSLATION_MODELS environment variables are not set');
+  }
+
+  return new LocalTranslation(config);
+}
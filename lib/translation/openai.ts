@@ -8,7 +8,11 @@ import {
   getTranslationSystemPrompt,
   getBatchTranslationPrompt,
   parseTranslationResponse,
+  type RevisionContext,
 } from './prompts';
+import type { MemoryMatch } from '@/lib/utils/translation-memory';
+import type { SubtitleLayout } from '@/lib/utils/reading-speed';
+import type { TermbaseEntry } from '@/lib/types';
 
 export interface OpenAITranslationOptions {
   model?: string;
@@ -18,6 +22,10 @@ export interface OpenAITranslationOptions {
     title?: string;
     summary?: string;
   };
+  terms?: TermbaseEntry[];  // Termbase entries that occur in this batch
+  references?: MemoryMatch[];  // Fuzzy translation memory matches for this batch
+  revision?: RevisionContext;  // Set when re-translating existing translations
+  layout?: SubtitleLayout;  // Reading speed and line limits behind each segment's maxChars
   temperature?: number;
 }
 
@@ -31,6 +39,12 @@ export interface TranslationResult {
   };
 }
 
+export interface ContextSummaryResult {
+  summary: string;  // Empty when the summary failed
+  model: string;
+  tokensUsed?: TranslationResult['tokensUsed'];
+}
+
 /**
  * OpenAI Translation Client
  */
@@ -55,7 +69,7 @@ export class OpenAITranslation {
    * Translate a batch of segments
    */
   async translateBatch(
-    segments: { index: number; text: string }[],
+    segments: { index: number; text: string; maxChars?: number }[],
     options: OpenAITranslationOptions
   ): Promise<TranslationResult> {
     const {
@@ -63,13 +77,21 @@ export class OpenAITranslation {
       sourceLanguage,
       targetLanguage,
       context,
+      terms,
+      references,
+      revision,
+      layout,
       temperature = 0.3,
     } = options;
 
     const systemPrompt = getTranslationSystemPrompt(
       sourceLanguage,
       targetLanguage,
-      context
+      context,
+      terms,
+      references,
+      revision,
+      layout
     );
     const userPrompt = getBatchTranslationPrompt(segments);
 
@@ -91,16 +113,7 @@ export class OpenAITranslation {
 
       const translatedSegments = parseTranslationResponse(content);
 
-      // Validate that all indices are present
-      const inputIndices = new Set(segments.map((s) => s.index));
-      const outputIndices = new Set(translatedSegments.map((s) => s.index));
-
-      for (const idx of inputIndices) {
-        if (!outputIndices.has(idx)) {
-          console.warn(`Missing translation for segment index ${idx}`);
-        }
-      }
-
+      // Indices are validated (and missing ones re-requested) by TranslationService
       return {
         segments: translatedSegments,
         model,
@@ -115,7 +128,8 @@ export class OpenAITranslation {
     } catch (error) {
       console.error('OpenAI translation error:', error);
       throw new Error(
-        `Translation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Translation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
       );
     }
   }
@@ -127,7 +141,7 @@ export class OpenAITranslation {
   async generateContextSummary(
     fullText: string,
     sourceLanguage: string
-  ): Promise<string> {
+  ): Promise<ContextSummaryResult> {
     try {
       const response = await this.client.chat.completions.create({
         model: this.defaultModel,
@@ -145,10 +159,20 @@ export class OpenAITranslation {
         max_tokens: 150,
       });
 
-      return response.choices[0]?.message?.content?.trim() || '';
+      return {
+        summary: response.choices[0]?.message?.content?.trim() || '',
+        model: this.defaultModel,
+        tokensUsed: response.usage
+          ? {
+              prompt: response.usage.prompt_tokens,
+              completion: response.usage.completion_tokens,
+              total: response.usage.total_tokens,
+            }
+          : undefined,
+      };
     } catch (error) {
       console.error('Failed to generate context summary:', error);
-      return ''; // Non-critical, continue without summary
+      return { summary: '', model: this.defaultModel }; // Non-critical, continue without summary
     }
   }
 }
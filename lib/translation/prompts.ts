@@ -3,6 +3,11 @@
  * System prompts and utilities for LLM-based subtitle translation
  */
 
+import { formatTermbasePrompt } from '@/lib/utils/termbase';
+import { formatMemoryPrompt, type MemoryMatch } from '@/lib/utils/translation-memory';
+import { DEFAULT_SUBTITLE_LAYOUT, type SubtitleLayout } from '@/lib/utils/reading-speed';
+import type { TermbaseEntry } from '@/lib/types';
+
 // Language name mapping
 export const LANGUAGE_NAMES: Record<string, string> = {
   en: 'English',
@@ -41,13 +46,59 @@ export function getLanguageName(code: string): string {
   return LANGUAGE_NAMES[code.toLowerCase()] || code.toUpperCase();
 }
 
+export interface RevisionContext {
+  instruction?: string;  // Free-text request, e.g. "more formal" or "shorter"
+  current: { index: number; text: string }[];  // Existing translations of the segments to revise
+  before: { source: string; translation: string }[];  // Neighbouring subtitles, for context only
+  after: { source: string; translation: string }[];
+}
+
+/**
+ * Prompt section asking for an alternative to existing translations
+ */
+export function formatRevisionPrompt(revision?: RevisionContext): string {
+  if (!revision) return '';
+
+  const neighbour = (entry: { source: string; translation: string }) =>
+    `- "${entry.source}" → "${entry.translation}"`;
+  const lines = [
+    '',
+    'REVISION:',
+    'These subtitles already have a translation. Write an alternative translation that reads naturally with the surrounding subtitles.',
+  ];
+
+  if (revision.instruction) {
+    lines.push(`Instruction from the editor (follow it): ${revision.instruction}`);
+  }
+  if (revision.before.length > 0) {
+    lines.push('Preceding subtitles (context only - do not return them):', ...revision.before.map(neighbour));
+  }
+  if (revision.after.length > 0) {
+    lines.push('Following subtitles (context only - do not return them):', ...revision.after.map(neighbour));
+  }
+  lines.push(
+    'Current translations to improve:',
+    ...revision.current.map((segment) => `- ${segment.index}: "${segment.text}"`)
+  );
+
+  return lines.join('\n');
+}
+
 /**
  * System prompt for subtitle translation
+ * Terms are the termbase entries that occur in the batch being translated,
+ * references the fuzzy translation memory matches for it, revision
+ * the context for re-translating segments that were already translated,
+ * and layout the line limits each segment's maxChars budget comes with
  */
 export function getTranslationSystemPrompt(
   sourceLanguage: string,
   targetLanguage: string,
-  context?: { title?: string; summary?: string }
+  context?: { title?: string; summary?: string },
+  terms: TermbaseEntry[] = [],
+  references: MemoryMatch[] = [],
+  revision?: RevisionContext,
+  layout: SubtitleLayout = DEFAULT_SUBTITLE_LAYOUT
 ): string {
   const sourceName = getLanguageName(sourceLanguage);
   const targetName = getLanguageName(targetLanguage);
@@ -64,15 +115,15 @@ export function getTranslationSystemPrompt(
 
 CRITICAL RULES:
 1. Translate ONLY the text content, preserving the exact meaning and tone
-2. Keep translations concise - subtitles should be readable (aim for max 42 characters per line)
+2. Keep translations concise - subtitles must be readable at ${layout.charsPerSecond} characters per second: stay within each segment's "maxChars" and use at most ${layout.maxLines} line${layout.maxLines === 1 ? '' : 's'} of ${layout.maxCharsPerLine} characters. Condense (drop filler, rephrase) rather than exceed the limit
 3. Preserve any line breaks (\\n) from the original text
 4. Maintain natural speech patterns appropriate for ${targetName}
 5. Return ONLY valid JSON - no explanations or additional text
 6. Keep the exact same index numbers from the input
 7. If text contains "[...]" or unclear audio markers, preserve them
-8. Adapt idioms and cultural references naturally for the target audience
+8. Adapt idioms and cultural references naturally for the target audience${formatTermbasePrompt(terms, targetName)}${formatMemoryPrompt(references)}${formatRevisionPrompt(revision)}
 
-INPUT FORMAT: {"segments": [{"index": 0, "text": "Original subtitle"}, ...]}
+INPUT FORMAT: {"segments": [{"index": 0, "text": "Original subtitle", "maxChars": 42}, ...]}
 OUTPUT FORMAT: {"segments": [{"index": 0, "text": "Translated subtitle"}, ...]}
 
 IMPORTANT: Your response must be valid JSON only. Do not include any text before or after the JSON object.`;
@@ -82,11 +133,27 @@ IMPORTANT: Your response must be valid JSON only. Do not include any text before
  * User prompt for batch translation
  */
 export function getBatchTranslationPrompt(
-  segments: { index: number; text: string }[]
+  segments: { index: number; text: string; maxChars?: number }[]
 ): string {
   return JSON.stringify({ segments }, null, 0);
 }
 
+/**
+ * Strip thinking tags from reasoning model responses
+ * Some models like GPT-OSS, Qwen3 and DeepSeek-R1 may include <think>...</think> reasoning blocks
+ */
+export function stripThinkingTags(content: string): string {
+  // Remove <think>...</think> blocks (case insensitive, multiline)
+  let cleaned = content.replace(/<think>[\s\S]*?<\/think>/gi, '');
+
+  // Also handle |think| or [think] variants just in case
+  cleaned = cleaned.replace(/\|think\|[\s\S]*?\|\/think\|/gi, '');
+  cleaned = cleaned.replace(/\[think\][\s\S]*?\[\/think\]/gi, '');
+
+  // Remove any leading/trailing whitespace
+  return cleaned.trim();
+}
+
 /**
  * Parse LLM response to extract translated segments
  */
@@ -119,7 +186,7 @@ export function parseTranslationResponse(
 
     // Validate each segment has required fields
     return parsed.segments.map((seg: any) => {
-      if (typeof seg.index !== 'number') {
+      if (!Number.isInteger(seg.index)) {
         throw new Error(`Invalid segment index: ${JSON.stringify(seg)}`);
       }
       if (typeof seg.text !== 'string') {
@@ -138,16 +205,49 @@ export function parseTranslationResponse(
   }
 }
 
+/**
+ * Check a batch response against the requested segments
+ * Every requested index must come back exactly once with text. An index that was
+ * not requested means the model renumbered the batch, so nothing in it is trusted.
+ * Returns the accepted segments and the indices to request again
+ */
+export function validateTranslationBatch(
+  requested: { index: number; text: string }[],
+  returned: { index: number; text: string }[]
+): { segments: { index: number; text: string }[]; missing: number[] } {
+  const requestedIndices = new Set(requested.map((segment) => segment.index));
+  const allIndices = requested.map((segment) => segment.index);
+
+  if (returned.some((segment) => !requestedIndices.has(segment.index))) {
+    return { segments: [], missing: allIndices };
+  }
+
+  const counts = new Map<number, number>();
+  for (const segment of returned) {
+    counts.set(segment.index, (counts.get(segment.index) || 0) + 1);
+  }
+
+  const segments = returned.filter(
+    (segment) => counts.get(segment.index) === 1 && segment.text.length > 0
+  );
+  const accepted = new Set(segments.map((segment) => segment.index));
+
+  return {
+    segments,
+    missing: allIndices.filter((index) => !accepted.has(index)),
+  };
+}
+
 /**
  * Create batches of segments for translation
  */
-export function createTranslationBatches(
-  segments: { index: number; text: string }[],
+export function createTranslationBatches<T extends { index: number; text: string }>(
+  segments: T[],
   batchSize: number = 25,
   maxCharsPerBatch: number = 4000
-): { index: number; text: string }[][] {
-  const batches: { index: number; text: string }[][] = [];
-  let currentBatch: { index: number; text: string }[] = [];
+): T[][] {
+  const batches: T[][] = [];
+  let currentBatch: T[] = [];
   let currentChars = 0;
 
   for (const segment of segments) {
@@ -0,0 +1,117 @@
+/**
+ * Translation Provider Registry
+ * Providers declare their models, languages and capabilities here; TranslationService
+ * creates clients through the registry, so adding a provider is one registration
+ */
+
+import {
+  createOpenAITranslation,
+  type ContextSummaryResult,
+  type OpenAITranslationOptions,
+  type TranslationResult,
+} from './openai';
+import { createBergetTranslation, BERGET_MODELS } from './berget';
+import { createLocalTranslation, getLocalTranslationConfig } from './local';
+import { LANGUAGE_NAMES } from './prompts';
+import type { ProviderCapabilities, ProviderModelInfo } from '@/lib/types';
+
+// Translation client interface (OpenAI, Berget and local providers implement this)
+export interface TranslationClient {
+  translateBatch(
+    segments: { index: number; text: string; maxChars?: number }[],
+    options: OpenAITranslationOptions
+  ): Promise<TranslationResult>;
+  generateContextSummary(fullText: string, sourceLanguage: string): Promise<ContextSummaryResult>;
+}
+
+export interface TranslationProviderDefinition {
+  id: string;
+  name: string;
+  flag: string;
+  description: string;
+  languages: string[];
+  capabilities: ProviderCapabilities;
+  isConfigured(): boolean;             // Credentials or endpoint set in env
+  getModels(): ProviderModelInfo[];
+  getDefaultModel(): string;
+  createClient(): TranslationClient;   // Throws when not configured
+}
+
+const providers = new Map<string, TranslationProviderDefinition>();
+
+// Every provider translates between the languages the prompts know by name
+const PROMPT_LANGUAGES = Object.keys(LANGUAGE_NAMES);
+
+/**
+ * Add a provider, replacing any registered under the same id
+ */
+export function registerTranslationProvider(definition: TranslationProviderDefinition): void {
+  providers.set(definition.id, definition);
+}
+
+/**
+ * Registered provider by id
+ */
+export function getTranslationProviderDefinition(id: string): TranslationProviderDefinition | undefined {
+  return providers.get(id);
+}
+
+/**
+ * All registered providers in registration order, optionally only configured ones
+ */
+export function listTranslationProviderDefinitions(configuredOnly = false): TranslationProviderDefinition[] {
+  const all = [...providers.values()];
+  return configuredOnly ? all.filter((provider) => provider.isConfigured()) : all;
+}
+
+// Berget first as the default in the model picker
+registerTranslationProvider({
+  id: 'berget',
+  name: 'Berget AI',
+  flag: '🇸🇪',
+  description: 'Swedish AI - EU data residency',
+  languages: PROMPT_LANGUAGES,
+  capabilities: { wordTimestamps: false, diarization: false, jsonMode: true },
+  isConfigured: () => Boolean(process.env.BERGET_API_KEY),
+  getModels: () => [
+    { id: BERGET_MODELS.GPT_OSS, name: 'GPT-OSS 120B', description: 'Reasoning model (Recommended)' },
+    { id: BERGET_MODELS.MISTRAL_SMALL, name: 'Mistral Small', description: 'Fast and efficient' },
+  ],
+  getDefaultModel: () => process.env.BERGET_TRANSLATION_MODEL || BERGET_MODELS.GPT_OSS,
+  createClient: createBergetTranslation,
+});
+
+registerTranslationProvider({
+  id: 'openai',
+  name: 'OpenAI',
+  flag: '🇺🇸',
+  description: 'GPT-4.1 - Fast and reliable',
+  languages: PROMPT_LANGUAGES,
+  capabilities: { wordTimestamps: false, diarization: false, jsonMode: true },
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  getModels: () => [
+    { id: 'gpt-4.1', name: 'GPT-4.1', description: 'Best quality' },
+    { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini', description: 'Faster, lower cost' },
+  ],
+  getDefaultModel: () => process.env.TRANSLATION_MODEL || 'gpt-4.1',
+  createClient: createOpenAITranslation,
+});
+
+// Name, models and JSON mode come from env (LOCAL_TRANSLATION_*), so they are read on each call
+registerTranslationProvider({
+  id: 'local',
+  get name() {
+    return getLocalTranslationConfig()?.name || 'Local LLM';
+  },
+  flag: '🏠',
+  description: 'On-premises - recordings never leave your servers',
+  languages: PROMPT_LANGUAGES,
+  get capabilities() {
+    return { wordTimestamps: false, diarization: false, jsonMode: getLocalTranslationConfig()?.jsonMode ?? true };
+  },
+  isConfigured: () => getLocalTranslationConfig() !== null,
+  getModels: () =>
+    (getLocalTranslationConfig()?.models || []).map((id) => ({ id, name: id, description: 'Local model' })),
+  getDefaultModel: () => getLocalTranslationConfig()?.models[0] || '',
+  createClient: createLocalTranslation,
+});
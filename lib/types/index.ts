@@ -36,32 +36,113 @@ export interface File {
   UpdatedAt: string
 }
 
-// Media Processing Job
+// Background Job (media processing, transcription or diarization), stored in the MediaJobs table
+export type JobType = 'media' | 'transcription' | 'diarization'
+
+export type JobStep =
+  | 'queued'
+  | 'downloading'
+  | 'uploading'
+  | 'converting_video'
+  | 'extracting_audio'
+  | 'transcribing'
+  | 'diarizing'
+  | 'saving_segments'
+  | 'finalizing'
+
 export interface MediaJob {
   Id: number
+  Type: JobType
   FileId: number
+  TranscriptionId?: number | null  // Set for transcription and diarization jobs
   UserId: number
-  Status: 'pending' | 'processing' | 'completed' | 'failed'
+  Status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
   Progress: number  // 0-100
-  CurrentStep: 'uploading' | 'converting_video' | 'extracting_audio' | 'finalizing'
+  CurrentStep: JobStep
+  Payload?: string | null       // JSON-encoded handler input
+  Attempts: number              // Runs started so far
+  MaxAttempts: number
+  RunAfter?: string | null      // ISO time before which a pending job is not picked up (retry backoff)
+  LockedBy?: string | null      // Worker that claimed the job
+  HeartbeatAt?: string | null   // Last sign of life from the worker, stale jobs are recovered
   Error?: string
+  FailureReason?: string | null  // JSON-encoded FailureDetails of the last failed attempt
   CreatedAt: string
   UpdatedAt: string
 }
 
+// Why a job or transcription failed, classified so users get a suggested action
+export type FailureCategory =
+  | 'quota'               // Provider account out of credits or over its plan
+  | 'rate_limit'          // Too many requests, usually clears by itself
+  | 'auth'                // API key missing, invalid or without access
+  | 'timeout'
+  | 'network'
+  | 'unsupported_audio'   // Format, codec, size or length the provider rejects
+  | 'source_unavailable'  // The media file could not be downloaded
+  | 'provider_error'      // Provider-side (5xx) failure
+  | 'interrupted'         // Worker stopped while processing
+  | 'unknown'
+
+export interface FailureDetails {
+  category: FailureCategory
+  message: string
+  provider?: string     // ASR provider, when the failure came from one
+  httpStatus?: number
+  retryable: boolean    // Whether running it again unchanged is likely to help
+  occurredAt: string
+}
+
+// One ASR request, stored in the AsrAttempts table for provider health and error rates
+export interface ASRAttempt {
+  Id: number
+  Provider: string
+  Model: string
+  Language?: string | null
+  TranscriptionId?: number | null
+  Success: boolean
+  Category?: FailureCategory | null  // Set for failures
+  HttpStatus?: number | null
+  DurationMs: number
+  Trial?: boolean | null  // Marker of a half-open provider's trial request, not a request itself
+  CreatedAt: string
+}
+
+// One billable provider request, stored in the UsageRecords table for usage and cost reports
+export type UsageKind = 'asr' | 'translation'
+
+export interface UsageRecord {
+  Id: number
+  UserId: number
+  Kind: UsageKind
+  Provider: string
+  Model: string
+  TranscriptionId?: number | null
+  AudioSeconds?: number | null      // ASR
+  PromptTokens?: number | null      // Translation
+  CompletionTokens?: number | null  // Translation
+  Cost?: number | null              // In USAGE_CURRENCY, priced when recorded; null when the model has no price
+  CreatedAt: string
+}
+
 // Transcription Types
 export interface Transcription {
   Id: number
   UserId: number
   FileId: number  // Links to Files table for video/audio playback
   Title: string
-  Status: 'pending' | 'processing' | 'completed' | 'failed'
+  Status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
   Language: string
   Duration: number
   SourceFileUrl: string
   TranscriptText: string
   Confidence: number
-  AsrProvider: 'groq' | 'berget'
+  AsrProvider: 'groq' | 'berget' | 'openai' | 'import' // 'import' = created from an uploaded subtitle file
+  AsrModel?: string | null  // Model that produced the transcript, which may be a fallback's
+  FailureReason?: string | null  // JSON-encoded FailureDetails (returned parsed by the API)
+  Progress?: number | null        // 0-100 while processing
+  ProgressDetail?: string | null  // e.g. "Transcribed 3 of 12 parts" for chunked recordings
+  Vocabulary?: string | null      // JSON-encoded VocabularyTerm[] for this project only (returned parsed by the API)
   CreatedAt: string
   UpdatedAt: string
 }
@@ -73,30 +154,71 @@ export interface TranscriptionSegment {
   EndTime: number
   Text: string
   Confidence: number
-  SpeakerId?: number
+  SpeakerId?: number | null   // Links to Speakers table, null when not diarized
+  Words?: string | null    // JSON-encoded SegmentWord[] (returned parsed by the API)
+  CueSettings?: string | null  // JSON-encoded WebVTT cue settings from an imported file, written back in VTT exports
+  CreatedAt: string
+  UpdatedAt: string
+}
+
+// Speaker detected by diarization (or imported), one row per transcription speaker
+export interface Speaker {
+  Id: number
+  TranscriptionId: number
+  Label: string            // Stable label from diarization, e.g. SPEAKER_01
+  Name: string             // Editable display name used in the editor and exports
   CreatedAt: string
   UpdatedAt: string
 }
 
+// Word-level timing within a segment
+export interface SegmentWord {
+  word: string
+  start: number
+  end: number
+}
+
 // Translation Types
 export interface TranslatedSegment {
   Id: number
   TranscriptionId: number
-  OriginalSegmentId: number
-  SegmentIndex: number
+  OriginalSegmentId: number     // First source segment the cue is translated from
+  SegmentIndex: number          // Position in the translation - the source index until re-timed
+  SourceSegmentIds?: string | null  // JSON-encoded ids of every source segment a merged cue covers (returned parsed by the API)
   TargetLanguage: string
   TranslatedText: string
   StartTime: number
   EndTime: number
+  MissingTerms?: string | null  // JSON-encoded TermbaseEntry[] required but not used (returned parsed by the API)
+  Untranslated?: boolean        // The model returned no translation - TranslatedText is the original text
+  RunSettings?: string | null   // JSON-encoded TranslationRunSettings of the run that saved the cue
   CreatedAt: string
   UpdatedAt: string
 }
 
+// Settings a translation was started with - a resume continues with the same ones
+export interface TranslationRunSettings {
+  provider: string
+  model: string
+  termbaseIds: number[]     // Termbases enforced, resolved when the run started
+  useMemory: boolean
+  retime: boolean
+  charsPerSecond: number
+  maxCharsPerLine: number
+  maxLines: number
+}
+
 export interface TranslationRequest {
   transcriptionId: number
   targetLanguage: string
-  provider?: 'openai' | 'berget'
+  provider?: string       // Registered translation provider id (berget, openai, local)
   model?: string
+  termbaseIds?: number[]  // Defaults to the user's active termbases for the language pair
+  useMemory?: boolean     // Reuse translation memory matches (default true)
+  retime?: boolean        // Merge and split cues for the target language after translating
+  charsPerSecond?: number   // Reading speed for character budgets (default 17)
+  maxCharsPerLine?: number  // Default: 42
+  maxLines?: number         // Default: 2
 }
 
 export interface TranslationProgress {
@@ -142,9 +264,9 @@ export interface Glossary {
   Id: number
   UserId: number
   Name: string
-  Terms: GlossaryTerm[]
-  Language: string
-  IsActive: boolean
+  Terms: string      // JSON-encoded GlossaryTerm[] (returned parsed by the API)
+  Language: string   // Language of the text the glossary applies to, empty for any
+  IsActive: boolean  // Inactive glossaries are not offered when applying
   CreatedAt: string
   UpdatedAt: string
 }
@@ -155,11 +277,63 @@ export interface GlossaryTerm {
   caseSensitive?: boolean
 }
 
+// Termbase Types - required translations enforced in LLM prompts
+export interface TermbaseEntry {
+  source: string            // Term as it appears in the source text
+  target: string            // Required translation (ignored when doNotTranslate)
+  doNotTranslate?: boolean  // Keep the source term as is (brand and product names)
+  caseSensitive?: boolean
+}
+
+export interface Termbase {
+  Id: number
+  UserId: number
+  Name: string
+  SourceLanguage: string   // Empty for any
+  TargetLanguage: string   // Empty for any
+  Entries: string          // JSON-encoded TermbaseEntry[] (returned parsed by the API)
+  IsActive: boolean        // Active termbases are used by default for matching language pairs
+  CreatedAt: string
+  UpdatedAt: string
+}
+
+// Translation Memory Types - approved segment translations reused across projects
+export interface TranslationMemoryEntry {
+  Id: number
+  UserId: number
+  SourceLanguage: string
+  TargetLanguage: string
+  SourceText: string
+  TargetText: string
+  SourceKey: string               // Source text with whitespace collapsed, for exact lookups
+  SourceHash?: string | null      // SHA-1 of SourceKey - filter-safe, for looking up keys directly
+  TranscriptionId?: number | null // Translation the entry was last approved from
+  CreatedAt: string
+  UpdatedAt: string
+}
+
+// Vocabulary Types - terms that bias ASR towards the right spelling
+export interface VocabularyTerm {
+  term: string              // Correct spelling, fed to the ASR prompt
+  misspellings?: string[]   // What ASR tends to produce instead, corrected after ASR when enabled
+}
+
+// A user's reusable vocabulary list; active lists apply to all of the user's transcriptions
+export interface Vocabulary {
+  Id: number
+  UserId: number
+  Name: string
+  Terms: string      // JSON-encoded VocabularyTerm[] (returned parsed by the API)
+  IsActive: boolean
+  CreatedAt: string
+  UpdatedAt: string
+}
+
 // ASR Types
 export interface ASRRequest {
   fileUrl: string
   language?: string
-  provider?: 'groq' | 'berget'
+  provider?: string  // Registered ASR provider id (berget, groq, openai)
 }
 
 export interface ASRResponse {
@@ -177,6 +351,32 @@ export interface ASRSegment {
   confidence?: number
 }
 
+// Provider Registry Types - ASR and translation providers as listed by GET /api/providers
+export type ProviderKind = 'asr' | 'translation'
+
+export interface ProviderCapabilities {
+  wordTimestamps: boolean  // Word-level timings (needed for script alignment)
+  diarization: boolean     // Speaker labels from the provider itself
+  jsonMode: boolean        // Structured JSON responses
+}
+
+export interface ProviderModelInfo {
+  id: string
+  name: string
+  description?: string
+}
+
+export interface ProviderInfo {
+  id: string
+  kind: ProviderKind
+  name: string
+  flag: string
+  description: string
+  models: ProviderModelInfo[]  // First one is the default
+  languages: string[]          // ISO 639-1 codes
+  capabilities: ProviderCapabilities
+}
+
 // Upload Types
 export interface UploadPresignedUrlRequest {
   filename: string
@@ -0,0 +1,105 @@
+/**
+ * Usage Records
+ * Ledger of ASR audio seconds and LLM tokens per user, provider and model,
+ * priced from the configured price table when recorded
+ */
+
+import NocoDBClient, { getNocoDBClient, sanitizeNumericId } from '@/lib/db/nocodb';
+import { isSelfHostedOpenAIASR } from '@/lib/asr/openai';
+import {
+  calculateCost,
+  DEFAULT_PRICES,
+  findPrice,
+  parsePriceTable,
+  withoutAudioPrices,
+  type PriceTable,
+  type UsageAmount,
+} from '@/lib/utils/usage';
+import type { UsageKind, UsageRecord } from '@/lib/types';
+
+const PAGE_SIZE = 1000;
+const MAX_USAGE_ROWS = 50000;
+
+export interface RecordUsageInput extends UsageAmount {
+  userId: string | number;
+  kind: UsageKind;
+  provider: string;
+  model: string;
+  transcriptionId?: number;
+}
+
+/**
+ * Price table - the defaults with USAGE_PRICES (JSON) merged over them
+ * Self-hosted Whisper shares the openai provider id, so OpenAI's audio list prices
+ * only apply while OpenAI ASR points at OpenAI itself
+ */
+export function getPriceTable(): PriceTable {
+  const defaults = isSelfHostedOpenAIASR() ? withoutAudioPrices(DEFAULT_PRICES, 'openai') : DEFAULT_PRICES;
+  return parsePriceTable(process.env.USAGE_PRICES, defaults);
+}
+
+/**
+ * Currency the price table is in (USAGE_CURRENCY, default USD)
+ */
+export function getUsageCurrency(): string {
+  return process.env.USAGE_CURRENCY || 'USD';
+}
+
+/**
+ * Store a request's usage - never throws, accounting must not break transcription or translation
+ */
+export async function recordUsage(input: RecordUsageInput): Promise<void> {
+  try {
+    const db = getNocoDBClient();
+    const { baseId, tableId } = await NocoDBClient.getIds('UsageRecords');
+    const cost = calculateCost(findPrice(getPriceTable(), input.provider, input.model), input);
+
+    await db.dbTableRow.create('noco', baseId, tableId, {
+      UserId: sanitizeNumericId(input.userId),
+      Kind: input.kind,
+      Provider: input.provider,
+      Model: input.model,
+      TranscriptionId: input.transcriptionId ?? null,
+      AudioSeconds: input.audioSeconds ?? null,
+      PromptTokens: input.promptTokens ?? null,
+      CompletionTokens: input.completionTokens ?? null,
+      Cost: cost,
+    });
+  } catch (error) {
+    console.error(`Failed to record ${input.kind} usage for ${input.provider}/${input.model}:`, error);
+  }
+}
+
+/**
+ * Records since the given time, newest first - all users, or one when userId is given
+ */
+export async function listUsageRecords(since: Date, userId?: string | number): Promise<UsageRecord[]> {
+  const db = getNocoDBClient();
+  const { baseId, tableId } = await NocoDBClient.getIds('UsageRecords');
+  const records: UsageRecord[] = [];
+
+  // Newest first, stop at the first page that reaches past the window
+  for (let offset = 0; offset < MAX_USAGE_ROWS; offset += PAGE_SIZE) {
+    const page = await db.dbTableRow.list('noco', baseId, tableId, {
+      ...(userId !== undefined && { where: `(UserId,eq,${sanitizeNumericId(userId)})` }),
+      sort: '-Id',
+      limit: PAGE_SIZE,
+      offset,
+    });
+    const rows = (page.list || []) as UsageRecord[];
+    const inWindow = rows.filter((record) => new Date(record.CreatedAt) >= since);
+    records.push(...inWindow);
+
+    if (rows.length < PAGE_SIZE || inWindow.length < rows.length) break;
+  }
+
+  return records;
+}
+
+/**
+ * Start of the month the given number of months back, including the current month (UTC)
+ */
+export function getUsageWindowStart(months: number): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+}
@@ -0,0 +1,335 @@
+/**
+ * Script Alignment Utilities
+ * Align a supplied script to recognized ASR words (forced alignment)
+ * so subtitles keep the script's exact wording with ASR timings
+ */
+
+import type { RawSegment } from './segments';
+
+export interface TimedWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface AlignedWord extends TimedWord {
+  matched: boolean; // false when the timing was interpolated from neighbours
+  lineStart: boolean; // word starts a new line in the script
+}
+
+export interface RecognizedSegment {
+  startTime: number;
+  endTime: number;
+  text: string;
+  words?: TimedWord[];
+}
+
+export interface ScriptAlignment {
+  segments: RawSegment[];
+  words: AlignedWord[];
+  matchRate: number; // Share of script words matched to a recognized word (0-1)
+}
+
+// Start a new segment when the speaker pauses longer than this
+const PAUSE_BREAK_SECONDS = 1.0;
+// Upper bound on DP cells to keep memory use predictable for long scripts
+const MAX_ALIGNMENT_CELLS = 8_000_000;
+
+const STEP_DIAGONAL = 0;
+const STEP_SCRIPT_ONLY = 1;
+const STEP_ASR_ONLY = 2;
+
+/**
+ * Normalize a word for comparison (case, punctuation, Unicode form)
+ */
+function normalizeWord(word: string): string {
+  return word.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Character-level Levenshtein distance
+ * Called for most DP cells, so it reuses two row buffers instead of allocating
+ */
+let levenshteinPrevious = new Int32Array(64);
+let levenshteinCurrent = new Int32Array(64);
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  if (levenshteinPrevious.length <= b.length) {
+    levenshteinPrevious = new Int32Array(b.length + 1);
+    levenshteinCurrent = new Int32Array(b.length + 1);
+  }
+
+  let previous = levenshteinPrevious;
+  let current = levenshteinCurrent;
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    const charA = a.charCodeAt(i - 1);
+    for (let j = 1; j <= b.length; j++) {
+      const cost = charA === b.charCodeAt(j - 1) ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length];
+}
+
+/**
+ * Substitution cost between two normalized words (0 = identical, 1 = unrelated)
+ * Near matches (e.g. inflections, ASR spelling variants) are cheaper than a gap
+ */
+function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a || !b) return 1;
+  // Lengths too different to reach the similarity threshold
+  if (Math.abs(a.length - b.length) > 0.4 * Math.max(a.length, b.length)) return 1;
+  const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return similarity >= 0.6 ? 0.5 : 1;
+}
+
+/**
+ * Flatten recognized segments into timed words
+ * Segments without word timings get words interpolated by character count
+ */
+export function collectRecognizedWords(segments: RecognizedSegment[]): TimedWord[] {
+  const words: TimedWord[] = [];
+
+  for (const segment of segments) {
+    if (segment.words && segment.words.length > 0) {
+      words.push(...segment.words.filter((w) => w.word.trim().length > 0));
+      continue;
+    }
+
+    const tokens = segment.text.trim().split(/\s+/).filter(Boolean);
+    const totalChars = tokens.reduce((sum, token) => sum + token.length, 0) || 1;
+    const duration = Math.max(0, segment.endTime - segment.startTime);
+    let cursor = segment.startTime;
+
+    for (const token of tokens) {
+      const wordDuration = (token.length / totalChars) * duration;
+      words.push({ word: token, start: cursor, end: cursor + wordDuration });
+      cursor += wordDuration;
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Tokenize a script into words, remembering where lines start
+ */
+function tokenizeScript(script: string): { word: string; lineStart: boolean }[] {
+  const tokens: { word: string; lineStart: boolean }[] = [];
+
+  for (const line of script.replace(/\r\n?/g, '\n').split('\n')) {
+    const words = line.trim().split(/\s+/).filter(Boolean);
+    words.forEach((word, index) => tokens.push({ word, lineStart: index === 0 }));
+  }
+
+  return tokens;
+}
+
+/**
+ * Align script tokens to recognized words with a banded edit-distance DP
+ * Returns, for each script token, the index of its recognized word or -1
+ */
+function alignTokens(scriptWords: string[], asrWords: string[]): number[] {
+  const n = scriptWords.length;
+  const m = asrWords.length;
+
+  // Band around the diagonal from (0,0) to (n,m); wide enough for the length difference
+  let band = Math.max(64, Math.ceil(Math.abs(n - m) / 2) + 32, Math.ceil(m / Math.max(n, 1)) + 8);
+  band = Math.min(band, Math.max(16, Math.floor(MAX_ALIGNMENT_CELLS / (n + 1) / 2)));
+  const width = band * 2 + 1;
+
+  const lows = new Int32Array(n + 1);
+  const highs = new Int32Array(n + 1);
+  for (let i = 0; i <= n; i++) {
+    const center = n === 0 ? 0 : Math.round((i * m) / n);
+    lows[i] = Math.max(0, center - band);
+    highs[i] = Math.min(m, center + band);
+  }
+  const low = (i: number) => lows[i];
+  const high = (i: number) => highs[i];
+
+  const cost = new Float32Array((n + 1) * width).fill(Infinity);
+  const steps = new Uint8Array((n + 1) * width);
+  const cell = (i: number, j: number) => i * width + (j - low(i));
+  const inBand = (i: number, j: number) => j >= low(i) && j <= high(i);
+
+  const normalizedAsr = asrWords.map(normalizeWord);
+
+  for (let i = 0; i <= n; i++) {
+    const normalizedScript = i > 0 ? normalizeWord(scriptWords[i - 1]) : '';
+
+    for (let j = low(i); j <= high(i); j++) {
+      if (i === 0 && j === 0) {
+        cost[cell(0, 0)] = 0;
+        continue;
+      }
+
+      let best = Infinity;
+      let step = STEP_DIAGONAL;
+
+      if (i > 0 && j > 0 && inBand(i - 1, j - 1)) {
+        best = cost[cell(i - 1, j - 1)] + substitutionCost(normalizedScript, normalizedAsr[j - 1]);
+      }
+      if (i > 0 && inBand(i - 1, j) && cost[cell(i - 1, j)] + 1 < best) {
+        best = cost[cell(i - 1, j)] + 1;
+        step = STEP_SCRIPT_ONLY;
+      }
+      if (j > 0 && inBand(i, j - 1) && cost[cell(i, j - 1)] + 1 < best) {
+        best = cost[cell(i, j - 1)] + 1;
+        step = STEP_ASR_ONLY;
+      }
+
+      cost[cell(i, j)] = best;
+      steps[cell(i, j)] = step;
+    }
+  }
+
+  // Trace back from (n, m)
+  const matches = new Array<number>(n).fill(-1);
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const step = steps[cell(i, j)];
+    if (i > 0 && j > 0 && step === STEP_DIAGONAL) {
+      // Only keep timings from words that actually resemble the script word
+      if (substitutionCost(normalizeWord(scriptWords[i - 1]), normalizedAsr[j - 1]) < 1) {
+        matches[i - 1] = j - 1;
+      }
+      i--;
+      j--;
+    } else if (i > 0 && (step === STEP_SCRIPT_ONLY || j === 0)) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Assign timings to every script word
+ * Unmatched words share the gap between their matched neighbours by character count
+ */
+function timeScriptWords(
+  tokens: { word: string; lineStart: boolean }[],
+  matches: number[],
+  recognized: TimedWord[]
+): AlignedWord[] {
+  const aligned: AlignedWord[] = tokens.map((token, index) => {
+    const match = matches[index];
+    return match >= 0
+      ? { ...token, start: recognized[match].start, end: recognized[match].end, matched: true }
+      : { ...token, start: 0, end: 0, matched: false };
+  });
+
+  const firstStart = recognized[0]?.start ?? 0;
+  const lastEnd = recognized[recognized.length - 1]?.end ?? 0;
+
+  let index = 0;
+  while (index < aligned.length) {
+    if (aligned[index].matched) {
+      index++;
+      continue;
+    }
+
+    // Find the run of unmatched words
+    let runEnd = index;
+    while (runEnd < aligned.length && !aligned[runEnd].matched) runEnd++;
+
+    const gapStart = index > 0 ? aligned[index - 1].end : firstStart;
+    const gapEnd = runEnd < aligned.length ? aligned[runEnd].start : lastEnd;
+    const run = aligned.slice(index, runEnd);
+    const totalChars = run.reduce((sum, w) => sum + w.word.length, 0) || 1;
+    const gap = Math.max(0, gapEnd - gapStart);
+
+    let cursor = gapStart;
+    for (const word of run) {
+      const duration = (word.word.length / totalChars) * gap;
+      word.start = cursor;
+      word.end = cursor + duration;
+      cursor += duration;
+    }
+
+    index = runEnd;
+  }
+
+  return aligned;
+}
+
+/**
+ * Group aligned words into sentence-like segments
+ * Breaks at script line breaks, sentence-ending punctuation and long pauses
+ */
+function groupIntoSegments(words: AlignedWord[]): RawSegment[] {
+  const segments: RawSegment[] = [];
+  let current: AlignedWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const matchedCount = current.filter((w) => w.matched).length;
+    segments.push({
+      id: segments.length,
+      startTime: current[0].start,
+      endTime: Math.max(current[current.length - 1].end, current[0].start),
+      text: current.map((w) => w.word).join(' '),
+      confidence: matchedCount / current.length,
+      words: current.map(({ word, start, end }) => ({ word, start, end })),
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const endsSentence = /[.!?…]["'”»)]*$/.test(previous.word);
+      const longPause = word.start - previous.end > PAUSE_BREAK_SECONDS;
+      if (word.lineStart || endsSentence || longPause) {
+        flush();
+      }
+    }
+    current.push(word);
+  }
+  flush();
+
+  return segments;
+}
+
+/**
+ * Align a script to recognized ASR segments
+ * Produces sentence-level segments with the script's exact wording;
+ * run them through splitLongSegments/balanceSegmentText for subtitle sizing
+ */
+export function alignScript(script: string, recognizedSegments: RecognizedSegment[]): ScriptAlignment {
+  const tokens = tokenizeScript(script);
+  if (tokens.length === 0) {
+    throw new Error('Script is empty');
+  }
+
+  const recognized = collectRecognizedWords(recognizedSegments);
+  if (recognized.length === 0) {
+    throw new Error('No recognized speech to align the script against');
+  }
+
+  const matches = alignTokens(
+    tokens.map((t) => t.word),
+    recognized.map((w) => w.word)
+  );
+  const words = timeScriptWords(tokens, matches, recognized);
+  const matchedCount = words.filter((w) => w.matched).length;
+
+  return {
+    segments: groupIntoSegments(words),
+    words,
+    matchRate: matchedCount / words.length,
+  };
+}
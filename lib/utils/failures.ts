@@ -0,0 +1,177 @@
+/**
+ * Failure Classification
+ * Turn errors from ASR providers, downloads and the worker into FailureDetails
+ * that can be stored on a record and explained to the user
+ */
+
+import type { FailureCategory, FailureDetails } from '@/lib/types';
+
+const MAX_MESSAGE_LENGTH = 500;
+
+const RETRYABLE_CATEGORIES: Record<FailureCategory, boolean> = {
+  quota: false,
+  rate_limit: true,
+  auth: false,
+  timeout: true,
+  network: true,
+  unsupported_audio: false,
+  source_unavailable: true,
+  provider_error: true,
+  interrupted: true,
+  unknown: true,
+};
+
+const LABELS: Record<FailureCategory, string> = {
+  quota: 'Provider quota exceeded',
+  rate_limit: 'Provider rate limit',
+  auth: 'Provider authentication failed',
+  timeout: 'Timed out',
+  network: 'Network error',
+  unsupported_audio: 'Unsupported audio',
+  source_unavailable: 'Media file unavailable',
+  provider_error: 'Provider error',
+  interrupted: 'Processing interrupted',
+  unknown: 'Unknown error',
+};
+
+const SUGGESTIONS: Record<FailureCategory, string> = {
+  quota: 'The provider account is out of credits. Top up the account or retry with another provider.',
+  rate_limit: 'The provider is receiving too many requests. Wait a few minutes and retry.',
+  auth: 'The provider rejected the API key. Check the key in the server configuration, or retry with another provider.',
+  timeout: 'The provider took too long to respond. Retry, or use a shorter file.',
+  network: 'The provider could not be reached. Check the connection and retry.',
+  unsupported_audio: 'The provider could not process this audio. Re-encode or shorten the file and upload it again, or retry with another provider.',
+  source_unavailable: 'The media file could not be downloaded. Retry, or upload the file again if it was removed.',
+  provider_error: 'The provider had an internal error. Retry in a little while, or use another provider.',
+  interrupted: 'Processing stopped unexpectedly, for example during a server restart. Retry to start again.',
+  unknown: 'Retry the transcription. If it keeps failing, try another provider.',
+};
+
+/**
+ * Collect the error and its `cause` chain (wrapped provider errors keep the original as cause)
+ */
+function getErrorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current: unknown = error;
+
+  while (current && chain.length < 10 && !chain.includes(current)) {
+    chain.push(current);
+    current = current instanceof Error ? current.cause : undefined;
+  }
+
+  return chain;
+}
+
+function categoryFromStatus(status: number, message: string): FailureCategory | undefined {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 413 || status === 415 || status === 422) return 'unsupported_audio';
+  if (status === 429) {
+    // OpenAI-compatible APIs use 429 for both rate limits and exhausted quota
+    return /quota|billing|credit|insufficient/i.test(message) ? 'quota' : 'rate_limit';
+  }
+  if (status === 400 && /audio|file|format|codec|decode|duration|too (long|large)/i.test(message)) {
+    return 'unsupported_audio';
+  }
+  if (status >= 500) return 'provider_error';
+  return undefined;
+}
+
+function categoryFromMessage(message: string, names: string[]): FailureCategory {
+  if (names.includes('APIConnectionTimeoutError') || names.includes('TimeoutError')) return 'timeout';
+  if (names.includes('APIConnectionError')) return 'network';
+
+  if (/failed to (fetch|download) (audio|file)/i.test(message)) return 'source_unavailable';
+  if (/quota|billing|insufficient (credits|funds)/i.test(message)) return 'quota';
+  if (/rate limit|too many requests/i.test(message)) return 'rate_limit';
+  if (/api key|unauthori[sz]ed|forbidden|authentication/i.test(message)) return 'auth';
+  if (/timed? ?out|timeout/i.test(message)) return 'timeout';
+  if (/ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|fetch failed|socket hang up|network/i.test(message)) {
+    return 'network';
+  }
+  if (/unsupported|invalid (audio|file|media)|could not (decode|process)|no audio|ffmpeg/i.test(message)) {
+    return 'unsupported_audio';
+  }
+  if (/worker stopped|interrupted/i.test(message)) return 'interrupted';
+  return 'unknown';
+}
+
+/**
+ * Classify an error into a category with an HTTP status and retryable flag where known
+ */
+export function classifyFailure(error: unknown, provider?: string): FailureDetails {
+  const chain = getErrorChain(error);
+  const message = (error instanceof Error ? error.message : String(error ?? 'Processing failed'))
+    .slice(0, MAX_MESSAGE_LENGTH);
+  const fullMessage = chain
+    .map((entry) => (entry instanceof Error ? entry.message : String(entry)))
+    .join(' | ');
+  const names = chain.flatMap((entry) => (entry instanceof Error ? [entry.constructor.name, entry.name] : []));
+
+  const httpStatus = chain
+    .map((entry) => (entry as { status?: unknown } | null)?.status)
+    .find((status): status is number => typeof status === 'number');
+
+  const category = (httpStatus !== undefined && categoryFromStatus(httpStatus, fullMessage))
+    || categoryFromMessage(fullMessage, names);
+
+  // Errors tagged with the provider that failed (e.g. the last one of a fallback chain) win
+  const failedProvider = chain
+    .map((entry) => (entry as { provider?: unknown } | null)?.provider)
+    .find((value): value is string => typeof value === 'string') || provider;
+
+  return {
+    category,
+    message,
+    ...(failedProvider && { provider: failedProvider }),
+    ...(httpStatus !== undefined && { httpStatus }),
+    retryable: RETRYABLE_CATEGORIES[category],
+    occurredAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Serialize failure details for a FailureReason column
+ */
+export function serializeFailureReason(failure: FailureDetails): string {
+  return JSON.stringify(failure);
+}
+
+/**
+ * Parse a stored FailureReason, tolerating already-parsed values and legacy rows
+ */
+export function parseFailureReason(value: unknown): FailureDetails | undefined {
+  if (value && typeof value === 'object') return value as FailureDetails;
+  if (typeof value !== 'string' || !value) return undefined;
+
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && parsed.category ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * What the user can do about a failure
+ */
+export function getFailureSuggestion(category: FailureCategory): string {
+  return SUGGESTIONS[category] || SUGGESTIONS.unknown;
+}
+
+/**
+ * Short, human-readable label for a failure category
+ */
+export function getFailureLabel(category: FailureCategory): string {
+  return LABELS[category] || LABELS.unknown;
+}
+
+/**
+ * Label with the provider and HTTP status, e.g. "Provider rate limit (groq, HTTP 429)"
+ */
+export function getFailureTitle(failure: FailureDetails): string {
+  const source = [failure.provider, failure.httpStatus && `HTTP ${failure.httpStatus}`].filter(Boolean);
+  const label = getFailureLabel(failure.category);
+  return source.length > 0 ? `${label} (${source.join(', ')})` : label;
+}
@@ -0,0 +1,196 @@
+/**
+ * Glossary Utilities
+ * Whole-word term replacement for transcripts and translations. Word boundaries
+ * are Unicode-aware, so Swedish letters (å, ä, ö) count as part of a word
+ */
+
+import type { GlossaryTerm } from '@/lib/types';
+
+export interface GlossaryMatch {
+  start: number;        // Offset in the original text
+  end: number;
+  text: string;         // Matched text as it appears
+  replacement: string;
+  term: GlossaryTerm;
+}
+
+export interface GlossarySegmentChange {
+  segmentId: number;
+  startTime: number;
+  endTime: number;
+  text: string;
+  newText: string;
+  matches: GlossaryMatch[];
+}
+
+export const MAX_GLOSSARY_TERMS = 1000;
+const MAX_TERM_LENGTH = 200;
+
+// Letters, digits and combining marks in any script
+const WORD_CHAR = '[\\p{L}\\p{N}\\p{M}_]';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pattern that matches a phrase only as a whole word (or whole phrase)
+ * With allowSuffix, inflected forms match too ("moln" matches "molnet")
+ */
+function buildTermPattern(phrase: string, caseSensitive = false, allowSuffix = false): RegExp {
+  const body = escapeRegExp(phrase.trim()).replace(/\s+/g, '\\s+');
+  const end = allowSuffix ? '' : `(?!${WORD_CHAR})`;
+  return new RegExp(`(?<!${WORD_CHAR})${body}${end}`, caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Whether the text contains the phrase as a whole word
+ */
+export function containsTerm(
+  text: string,
+  phrase: string,
+  options: { caseSensitive?: boolean; allowSuffix?: boolean } = {}
+): boolean {
+  if (!phrase.trim()) return false;
+  return buildTermPattern(phrase, options.caseSensitive, options.allowSuffix).test(text);
+}
+
+/**
+ * Find every place a glossary term would be replaced
+ * Longer terms win where matches overlap, so "New York Times" beats "New York"
+ */
+export function findGlossaryMatches(text: string, terms: GlossaryTerm[]): GlossaryMatch[] {
+  const candidates: GlossaryMatch[] = [];
+
+  for (const term of terms) {
+    if (!term.original?.trim()) continue;
+
+    for (const match of text.matchAll(buildTermPattern(term.original, term.caseSensitive))) {
+      const start = match.index ?? 0;
+      // Already correct - nothing to replace
+      if (match[0] === term.replacement) continue;
+
+      candidates.push({
+        start,
+        end: start + match[0].length,
+        text: match[0],
+        replacement: term.replacement,
+        term,
+      });
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const matches: GlossaryMatch[] = [];
+  let lastEnd = -1;
+  for (const candidate of candidates) {
+    if (candidate.start < lastEnd) continue;
+    matches.push(candidate);
+    lastEnd = candidate.end;
+  }
+
+  return matches;
+}
+
+/**
+ * Replace glossary terms in text - all terms are applied in a single pass,
+ * so one term's replacement is never rewritten by another term
+ */
+export function applyGlossaryTerms(text: string, terms: GlossaryTerm[]): string {
+  const matches = findGlossaryMatches(text, terms);
+  if (matches.length === 0) return text;
+
+  let result = '';
+  let position = 0;
+  for (const match of matches) {
+    result += text.slice(position, match.start) + match.replacement;
+    position = match.end;
+  }
+
+  return result + text.slice(position);
+}
+
+/**
+ * Trim terms, drop incomplete ones and keep the first of duplicate originals
+ */
+export function normalizeGlossaryTerms(terms: GlossaryTerm[]): GlossaryTerm[] {
+  const seen = new Set<string>();
+  const result: GlossaryTerm[] = [];
+
+  for (const entry of terms) {
+    const original = typeof entry?.original === 'string' ? entry.original.trim().slice(0, MAX_TERM_LENGTH) : '';
+    const replacement = typeof entry?.replacement === 'string' ? entry.replacement.trim().slice(0, MAX_TERM_LENGTH) : '';
+    if (!original) continue;
+
+    const caseSensitive = Boolean(entry.caseSensitive);
+    const key = caseSensitive ? original : original.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    result.push({ original, replacement, ...(caseSensitive && { caseSensitive }) });
+  }
+
+  return result;
+}
+
+/**
+ * Parse stored terms (JSON string or already parsed by the API)
+ */
+export function parseGlossaryTerms(value: unknown): GlossaryTerm[] {
+  if (!value) return [];
+
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  return Array.isArray(parsed) ? normalizeGlossaryTerms(parsed) : [];
+}
+
+/**
+ * Validate terms sent to the API
+ * Returns the normalized terms, or an error message for the response
+ */
+export function validateGlossaryTerms(value: unknown): { terms: GlossaryTerm[]; error?: string } {
+  if (!Array.isArray(value)) {
+    return { terms: [], error: 'Terms must be an array of { original, replacement, caseSensitive? }' };
+  }
+
+  const terms = normalizeGlossaryTerms(value);
+  if (terms.length > MAX_GLOSSARY_TERMS) {
+    return { terms: [], error: `Too many terms. Maximum ${MAX_GLOSSARY_TERMS}` };
+  }
+
+  return { terms };
+}
+
+/**
+ * Every segment the glossary would change, with the matches in its current text
+ */
+export function previewGlossaryChanges(
+  segments: { id: number; startTime: number; endTime: number; text: string }[],
+  terms: GlossaryTerm[]
+): GlossarySegmentChange[] {
+  const changes: GlossarySegmentChange[] = [];
+
+  for (const segment of segments) {
+    const matches = findGlossaryMatches(segment.text, terms);
+    if (matches.length === 0) continue;
+
+    changes.push({
+      segmentId: segment.id,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      text: segment.text,
+      newText: applyGlossaryTerms(segment.text, terms),
+      matches,
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,79 @@
+/**
+ * Reading Speed Utilities
+ * Character budgets from subtitle duration and checks against the line layout
+ */
+
+import { formatSubtitleText } from '@/lib/utils/segments';
+
+export interface SubtitleLayout {
+  charsPerSecond: number;   // Target reading speed
+  maxCharsPerLine: number;
+  maxLines: number;
+}
+
+export const DEFAULT_SUBTITLE_LAYOUT: SubtitleLayout = {
+  charsPerSecond: 17,
+  maxCharsPerLine: 42,
+  maxLines: 2,
+};
+
+// Very short subtitles still get room for a word or two
+const MIN_CHARACTER_BUDGET = 12;
+
+const LAYOUT_LIMITS: Record<keyof SubtitleLayout, [number, number]> = {
+  charsPerSecond: [5, 40],
+  maxCharsPerLine: [20, 80],
+  maxLines: [1, 3],
+};
+
+/**
+ * Maximum characters a subtitle of the given duration can hold at the target
+ * reading speed, capped by what fits on screen
+ */
+export function getCharacterBudget(duration: number, layout: SubtitleLayout = DEFAULT_SUBTITLE_LAYOUT): number {
+  const screenLimit = layout.maxCharsPerLine * layout.maxLines;
+  if (duration <= 0) return screenLimit;
+
+  const budget = Math.floor(duration * layout.charsPerSecond);
+  return Math.min(screenLimit, Math.max(MIN_CHARACTER_BUDGET, budget));
+}
+
+/**
+ * Lines the text is shown as - its own line breaks, otherwise a balanced split
+ */
+export function getSubtitleLines(text: string, maxCharsPerLine: number): string[] {
+  const trimmed = text.trim();
+  return (trimmed.includes('\n') ? trimmed : formatSubtitleText(trimmed, maxCharsPerLine)).split('\n');
+}
+
+/**
+ * Whether a subtitle is over its character budget or does not fit the line layout
+ */
+export function exceedsLayout(text: string, budget: number, layout: SubtitleLayout = DEFAULT_SUBTITLE_LAYOUT): boolean {
+  if (text.trim().length > budget) return true;
+
+  const lines = getSubtitleLines(text, layout.maxCharsPerLine);
+  return lines.length > layout.maxLines || lines.some((line) => line.trim().length > layout.maxCharsPerLine);
+}
+
+/**
+ * Validate an optional layout from a request, filling in the defaults
+ */
+export function validateSubtitleLayout(
+  value: Partial<Record<keyof SubtitleLayout, unknown>>
+): { layout: SubtitleLayout; error?: string } {
+  const layout = { ...DEFAULT_SUBTITLE_LAYOUT };
+
+  for (const key of Object.keys(LAYOUT_LIMITS) as (keyof SubtitleLayout)[]) {
+    const input = value[key];
+    if (input === undefined || input === null) continue;
+
+    const [min, max] = LAYOUT_LIMITS[key];
+    if (typeof input !== 'number' || !Number.isInteger(input) || input < min || input > max) {
+      return { layout, error: `${key} must be a whole number between ${min} and ${max}` };
+    }
+    layout[key] = input;
+  }
+
+  return { layout };
+}
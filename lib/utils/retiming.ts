@@ -0,0 +1,229 @@
+/**
+ * Translation Re-timing Utilities
+ * Merge and split translated cues to suit the target language, keeping every
+ * cue inside the time span of the source segments it translates
+ */
+
+import { balanceSegmentText, splitSegment } from './segments';
+import { parseTermbaseEntries, serializeMissingTerms } from './termbase';
+import { DEFAULT_SUBTITLE_LAYOUT, type SubtitleLayout } from './reading-speed';
+import type { TranslatedSegment } from '@/lib/types';
+
+// Neighbouring cues further apart than this (seconds) are never merged
+const MAX_MERGE_GAP = 0.5;
+// Longest cue a merge may produce, in seconds
+const MAX_MERGED_DURATION = 7;
+
+export type TranslatedSegmentRecord = Omit<TranslatedSegment, 'Id' | 'CreatedAt' | 'UpdatedAt'>;
+
+// Stored or parsed link from a cue to its source segments
+type SourceLink = { OriginalSegmentId: number; SourceSegmentIds?: unknown };
+
+export interface RetimingResult {
+  segments: TranslatedSegmentRecord[];
+  merged: number;  // Cues absorbed into the previous cue
+  split: number;   // Cues added by splitting
+}
+
+/**
+ * Parse stored source segment ids (JSON string or already parsed by the API)
+ */
+export function parseSourceSegmentIds(value: unknown): number[] {
+  if (!value) return [];
+
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  return Array.isArray(parsed) ? parsed.filter(Number.isInteger) : [];
+}
+
+/**
+ * Ids of every source segment a cue translates
+ */
+export function getSourceSegmentIds(segment: SourceLink): number[] {
+  const ids = parseSourceSegmentIds(segment.SourceSegmentIds);
+  return ids.length > 0 ? ids : [segment.OriginalSegmentId];
+}
+
+/**
+ * Group cues (in translation order) into translation units - source segments
+ * with every cue translating them. A unit has several cues where re-timing
+ * split a segment and several source segments where it merged them
+ */
+export function groupTranslationUnits<T extends SourceLink>(segments: T[]): { sourceIds: number[]; segments: T[] }[] {
+  const units: { sourceIds: number[]; segments: T[] }[] = [];
+
+  for (const segment of segments) {
+    const ids = getSourceSegmentIds(segment);
+    const last = units[units.length - 1];
+
+    if (last && ids.some((id) => last.sourceIds.includes(id))) {
+      last.segments.push(segment);
+      last.sourceIds.push(...ids.filter((id) => !last.sourceIds.includes(id)));
+    } else {
+      units.push({ sourceIds: [...ids], segments: [segment] });
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Characters per second of a cue, Infinity without duration
+ */
+function readingSpeed(text: string, startTime: number, endTime: number): number {
+  return endTime > startTime ? text.length / (endTime - startTime) : Infinity;
+}
+
+/**
+ * Text on one line, ready to be re-balanced or split
+ */
+function flatten(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Re-time a translation for the target language
+ * Cues reading faster than the layout allows are merged with a neighbour of the
+ * same speaker when the result fits on screen; cues too long for the screen are
+ * split within their own time span. Changed cues get balanced line breaks and
+ * all cues are renumbered
+ */
+export function retimeTranslatedSegments(
+  segments: TranslatedSegmentRecord[],
+  speakers: Map<number, number | null | undefined>,  // Source segment id -> speaker
+  layout: SubtitleLayout = DEFAULT_SUBTITLE_LAYOUT
+): RetimingResult {
+  const screenLimit = layout.maxCharsPerLine * layout.maxLines;
+  const cues: { record: TranslatedSegmentRecord; sourceIds: number[]; changed: boolean }[] = [];
+  let merged = 0;
+  let split = 0;
+
+  for (const record of segments) {
+    const sourceIds = getSourceSegmentIds(record);
+    const previous = cues[cues.length - 1];
+
+    if (previous && !previous.record.Untranslated && !record.Untranslated) {
+      const before = previous.record;
+      const text = `${flatten(before.TranslatedText)} ${flatten(record.TranslatedText)}`;
+      const endTime = Math.max(before.EndTime, record.EndTime);
+      const slowest = Math.max(
+        readingSpeed(before.TranslatedText, before.StartTime, before.EndTime),
+        readingSpeed(record.TranslatedText, record.StartTime, record.EndTime)
+      );
+
+      const mergeable =
+        !sourceIds.some((id) => previous.sourceIds.includes(id)) &&
+        (speakers.get(before.OriginalSegmentId) ?? null) === (speakers.get(record.OriginalSegmentId) ?? null) &&
+        record.StartTime - before.EndTime <= MAX_MERGE_GAP &&
+        endTime - before.StartTime <= MAX_MERGED_DURATION &&
+        text.length <= screenLimit &&
+        slowest > layout.charsPerSecond &&
+        readingSpeed(text, before.StartTime, endTime) <= slowest;
+
+      if (mergeable) {
+        const missingTerms = [
+          ...parseTermbaseEntries(before.MissingTerms),
+          ...parseTermbaseEntries(record.MissingTerms),
+        ];
+        previous.sourceIds.push(...sourceIds);
+        previous.record = {
+          ...before,
+          TranslatedText: text,
+          EndTime: endTime,
+          SourceSegmentIds: JSON.stringify(previous.sourceIds),
+          MissingTerms: serializeMissingTerms(missingTerms),
+        };
+        previous.changed = true;
+        merged++;
+        continue;
+      }
+    }
+
+    cues.push({ record, sourceIds: [...sourceIds], changed: false });
+  }
+
+  const result: TranslatedSegmentRecord[] = [];
+
+  for (const cue of cues) {
+    const text = flatten(cue.record.TranslatedText);
+
+    if (text.length > screenLimit) {
+      const parts = splitSegment(
+        { id: 0, startTime: cue.record.StartTime, endTime: cue.record.EndTime, text },
+        { maxCharsPerLine: layout.maxCharsPerLine, maxLines: layout.maxLines }
+      );
+
+      parts.forEach((part, i) => {
+        result.push({
+          ...cue.record,
+          TranslatedText: balanceSegmentText(part.text, layout.maxCharsPerLine),
+          StartTime: part.startTime,
+          EndTime: part.endTime,
+          // Flag missing terms once per cue rather than on every part
+          MissingTerms: i === 0 ? cue.record.MissingTerms : null,
+        });
+      });
+      split += parts.length - 1;
+      continue;
+    }
+
+    result.push(
+      cue.changed
+        ? { ...cue.record, TranslatedText: balanceSegmentText(text, layout.maxCharsPerLine) }
+        : cue.record
+    );
+  }
+
+  return {
+    segments: result.map((record, index) => ({ ...record, SegmentIndex: index })),
+    merged,
+    split,
+  };
+}
+
+/**
+ * Pair the cues of a translation before and after re-timing by translation unit -
+ * the source segments a set of old cues and the new cues replacing them cover.
+ * Units are in translation order, so each can be replaced on its own
+ */
+export function pairRetimedUnits<T extends SourceLink, R extends SourceLink>(
+  previous: T[],
+  next: R[]
+): { previous: T[]; next: R[] }[] {
+  // Union source segments that share a cue, before or after re-timing
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    let root = id;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root) as number;
+    parent.set(id, root);
+    return root;
+  };
+  for (const cue of [...previous, ...next]) {
+    const [first, ...rest] = getSourceSegmentIds(cue);
+    const root = find(first);
+    for (const id of rest) parent.set(find(id), root);
+  }
+
+  const units = new Map<number, { previous: T[]; next: R[] }>();
+  const unitOf = (cue: SourceLink) => {
+    const root = find(getSourceSegmentIds(cue)[0]);
+    let unit = units.get(root);
+    if (!unit) {
+      unit = { previous: [], next: [] };
+      units.set(root, unit);
+    }
+    return unit;
+  };
+
+  for (const cue of next) unitOf(cue).next.push(cue);
+  for (const cue of previous) unitOf(cue).previous.push(cue);
+
+  return [...units.values()];
+}
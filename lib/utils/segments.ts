@@ -3,12 +3,16 @@
  * Functions for processing and splitting transcription segments
  */
 
+import type { SegmentWord } from '@/lib/types';
+
 export interface RawSegment {
   id: number;
   startTime: number;
   endTime: number;
   text: string;
   confidence?: number;
+  words?: SegmentWord[];
+  speakerId?: number | null; // Speakers table Id, kept on every part when splitting
 }
 
 export interface SplitOptions {
@@ -23,9 +27,13 @@ const DEFAULT_OPTIONS: Required<SplitOptions> = {
   minSegmentDuration: 1,
 };
 
+// Pauses shorter than this are not treated as natural break points
+const MIN_SPLIT_PAUSE = 0.15;
+
 /**
  * Split a long segment into multiple shorter segments
- * Tries to split at natural break points (punctuation, spaces)
+ * With word timings, cuts at word boundaries preferring the longest pause;
+ * otherwise tries to split at natural break points (punctuation, spaces)
  */
 export function splitSegment(segment: RawSegment, options: SplitOptions = {}): RawSegment[] {
   const opts = { ...DEFAULT_OPTIONS, ...options };
@@ -38,13 +46,29 @@ export function splitSegment(segment: RawSegment, options: SplitOptions = {}): R
     return [{ ...segment, text }];
   }
 
-  const duration = segment.endTime - segment.startTime;
-  // Guard against division by zero - use a default rate if duration is 0
-  const charsPerSecond = duration > 0 ? text.length / duration : 15;
+  // Cut at the speaker's pauses when every word has a timing
+  if (segment.words && segment.words.length > 0) {
+    const byPauses = splitAtWordPauses(segment, text, maxChars);
+    if (byPauses) {
+      return byPauses;
+    }
+  }
 
   // Split text into chunks
   const chunks = splitTextIntoChunks(text, maxChars);
 
+  // Prefer real word timings over character-rate estimation
+  if (segment.words && segment.words.length > 0) {
+    const chunkWords = assignWordsToChunks(chunks, segment.words);
+    if (chunkWords) {
+      return timeChunksFromWords(segment, chunks, chunkWords);
+    }
+  }
+
+  const duration = segment.endTime - segment.startTime;
+  // Guard against division by zero - use a default rate if duration is 0
+  const charsPerSecond = duration > 0 ? text.length / duration : 15;
+
   // Calculate timing for each chunk
   const result: RawSegment[] = [];
   let currentTime = segment.startTime;
@@ -74,6 +98,224 @@ export function splitSegment(segment: RawSegment, options: SplitOptions = {}): R
   return result;
 }
 
+/**
+ * Split a segment at word boundaries using word timings
+ * Within the allowed character window, cuts at the longest inter-word pause;
+ * when no clear pause exists, falls back to the text heuristic snapped to a word boundary.
+ * Returns null when the text tokens do not line up with the timed words.
+ */
+function splitAtWordPauses(segment: RawSegment, text: string, maxChars: number): RawSegment[] | null {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const words = segment.words;
+  if (!words || tokens.length !== words.length) {
+    return null;
+  }
+
+  // Token index ranges [start, end) for each chunk
+  const ranges: { start: number; end: number }[] = [];
+  let start = 0;
+
+  while (start < tokens.length) {
+    const remainingText = tokens.slice(start).join(' ');
+    if (remainingText.length <= maxChars) {
+      ranges.push({ start, end: tokens.length });
+      break;
+    }
+
+    // When the rest fits in two chunks, both sides of the cut must fit
+    const bothMustFit = remainingText.length <= maxChars * 2;
+    let bestCut = -1;
+    let bestPause = 0;
+    let bestScore = -Infinity;
+    let chunkLength = -1;
+
+    for (let k = start; k < tokens.length - 1; k++) {
+      chunkLength += tokens[k].length + 1;
+      if (chunkLength > maxChars) break;
+
+      const restLength = remainingText.length - chunkLength - 1;
+      if (bothMustFit ? restLength > maxChars : chunkLength < maxChars * 0.5) continue;
+
+      const pause = Math.max(0, words[k + 1].start - words[k].end);
+      // Punctuation and balance only break ties between similar pauses
+      const punctuationBonus = /[.!?]$/.test(tokens[k]) ? 0.1 : /[,;:]$/.test(tokens[k]) ? 0.05 : 0;
+      const balancePenalty = bothMustFit ? Math.abs(chunkLength - restLength) / 1000 : 0;
+      const score = pause + punctuationBonus - balancePenalty;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestCut = k;
+        bestPause = pause;
+      }
+    }
+
+    let cut: number;
+    if (bestCut >= 0 && bestPause >= MIN_SPLIT_PAUSE) {
+      cut = bestCut;
+    } else {
+      // No clear pause - use the text heuristic and snap it to a word boundary
+      const splitIndex = findBalancedSplitPoint(remainingText, maxChars);
+      if (splitIndex > 0) {
+        const tokensBefore = remainingText.substring(0, splitIndex).trim().split(/\s+/).length;
+        cut = start + tokensBefore - 1;
+      } else {
+        cut = bestCut >= 0 ? bestCut : start;
+      }
+    }
+
+    cut = Math.min(Math.max(cut, start), tokens.length - 1);
+    ranges.push({ start, end: cut + 1 });
+    start = cut + 1;
+  }
+
+  return ranges.map((range, i) => {
+    const chunkWords = words.slice(range.start, range.end);
+    const startTime = i === 0 ? segment.startTime : chunkWords[0].start;
+    const endTime = i === ranges.length - 1 ? segment.endTime : chunkWords[chunkWords.length - 1].end;
+
+    return {
+      id: segment.id * 1000 + i, // Create unique IDs for split segments
+      startTime,
+      endTime: Math.max(endTime, startTime),
+      text: tokens.slice(range.start, range.end).join(' '),
+      confidence: segment.confidence,
+      words: chunkWords,
+    };
+  });
+}
+
+/**
+ * Distribute a segment's words over its text chunks
+ * Uses token counts when they line up, otherwise character position;
+ * returns null if any chunk would end up without words
+ */
+function assignWordsToChunks(chunks: string[], words: SegmentWord[]): SegmentWord[][] | null {
+  const tokenCounts = chunks.map((chunk) => chunk.split(/\s+/).filter(Boolean).length);
+  const totalTokens = tokenCounts.reduce((sum, count) => sum + count, 0);
+
+  if (totalTokens === words.length) {
+    const result: SegmentWord[][] = [];
+    let offset = 0;
+    for (const count of tokenCounts) {
+      result.push(words.slice(offset, offset + count));
+      offset += count;
+    }
+    return result;
+  }
+
+  // Token counts differ (ASR word splitting vs. edited text) - map by relative character position
+  const chunkChars = chunks.map((chunk) => chunk.length);
+  const totalChunkChars = chunkChars.reduce((sum, length) => sum + length, 0) || 1;
+  const wordChars = words.map((w) => w.word.trim().length || 1);
+  const totalWordChars = wordChars.reduce((sum, length) => sum + length, 0);
+
+  const result: SegmentWord[][] = chunks.map(() => []);
+  let wordOffset = 0;
+  words.forEach((word, index) => {
+    const midpoint = (wordOffset + wordChars[index] / 2) / totalWordChars;
+    wordOffset += wordChars[index];
+
+    let chunkIndex = 0;
+    let chunkEnd = chunkChars[0] / totalChunkChars;
+    while (midpoint > chunkEnd && chunkIndex < chunks.length - 1) {
+      chunkIndex++;
+      chunkEnd += chunkChars[chunkIndex] / totalChunkChars;
+    }
+    result[chunkIndex].push(word);
+  });
+
+  return result.every((chunkWords) => chunkWords.length > 0) ? result : null;
+}
+
+/**
+ * Time text chunks from their assigned words
+ * The first and last chunk keep the original segment boundaries
+ */
+function timeChunksFromWords(
+  segment: RawSegment,
+  chunks: string[],
+  chunkWords: SegmentWord[][]
+): RawSegment[] {
+  return chunks.map((chunk, i) => {
+    const words = chunkWords[i];
+    const startTime = i === 0 ? segment.startTime : words[0].start;
+    const endTime = i === chunks.length - 1 ? segment.endTime : words[words.length - 1].end;
+
+    return {
+      id: segment.id * 1000 + i, // Create unique IDs for split segments
+      startTime,
+      endTime: Math.max(endTime, startTime),
+      text: chunk,
+      confidence: segment.confidence,
+      words,
+    };
+  });
+}
+
+/**
+ * Serialize word timings for storage on a segment record
+ */
+export function serializeSegmentWords(words?: SegmentWord[]): string | null {
+  return words && words.length > 0 ? JSON.stringify(words) : null;
+}
+
+/**
+ * Parse stored word timings, tolerating missing or malformed values
+ */
+export function parseSegmentWords(value: unknown): SegmentWord[] | undefined {
+  if (Array.isArray(value)) return value as SegmentWord[];
+  if (typeof value !== 'string' || !value) return undefined;
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Number of whitespace-separated words in a text
+ */
+function countTokens(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Word timings that still fit a segment after an edit
+ * Moved or resized timings are mapped onto the new span; a text edit that changes the
+ * number of words drops them, since they no longer line up with the text
+ */
+export function updateSegmentWords(
+  words: SegmentWord[] | undefined,
+  previous: Pick<RawSegment, 'startTime' | 'endTime' | 'text'>,
+  next: Pick<RawSegment, 'startTime' | 'endTime' | 'text'>
+): SegmentWord[] | undefined {
+  if (!words || words.length === 0) return undefined;
+  if (countTokens(next.text) !== countTokens(previous.text)) return undefined;
+
+  if (next.startTime === previous.startTime && next.endTime === previous.endTime) return words;
+
+  const previousDuration = previous.endTime - previous.startTime;
+  const nextDuration = next.endTime - next.startTime;
+  if (previousDuration <= 0 || nextDuration <= 0) return undefined;
+
+  const scale = nextDuration / previousDuration;
+  const map = (time: number) => {
+    const mapped = next.startTime + (time - previous.startTime) * scale;
+    return Math.min(Math.max(mapped, next.startTime), next.endTime);
+  };
+
+  return words.map((word) => ({ ...word, start: map(word.start), end: map(word.end) }));
+}
+
+/**
+ * Whether a text edit changes the number of words, leaving stored word timings out of line
+ */
+export function changesWordCount(text: string, newText: string): boolean {
+  return countTokens(text) !== countTokens(newText);
+}
+
 /**
  * Split text into chunks at natural break points
  * Tries to create balanced chunks when possible
@@ -190,7 +432,7 @@ export function splitLongSegments(segments: RawSegment[], options: SplitOptions
 
   for (const segment of segments) {
     const split = splitSegment(segment, options);
-    result.push(...split);
+    result.push(...split.map((part) => ({ ...part, speakerId: segment.speakerId })));
   }
 
   // Re-number segments sequentially
@@ -0,0 +1,154 @@
+/**
+ * Termbase Utilities
+ * Pick the termbase entries that apply to a batch of subtitles, describe them
+ * for the translation prompt and check translations for missing terms
+ */
+
+import { containsTerm } from './glossary';
+import type { Termbase, TermbaseEntry } from '@/lib/types';
+
+export const MAX_TERMBASE_ENTRIES = 2000;
+const MAX_TERM_LENGTH = 200;
+
+// Keeps the prompt small even when a batch mentions many terms
+const MAX_PROMPT_TERMS = 100;
+
+export interface MissingTermsIssue {
+  index: number;
+  missing: TermbaseEntry[];
+}
+
+/**
+ * Trim entries, drop incomplete ones and keep the first of duplicate source terms
+ */
+export function normalizeTermbaseEntries(entries: TermbaseEntry[]): TermbaseEntry[] {
+  const seen = new Set<string>();
+  const result: TermbaseEntry[] = [];
+
+  for (const entry of entries) {
+    const source = typeof entry?.source === 'string' ? entry.source.trim().slice(0, MAX_TERM_LENGTH) : '';
+    const target = typeof entry?.target === 'string' ? entry.target.trim().slice(0, MAX_TERM_LENGTH) : '';
+    const doNotTranslate = Boolean(entry?.doNotTranslate);
+    if (!source || (!target && !doNotTranslate)) continue;
+
+    const caseSensitive = Boolean(entry.caseSensitive);
+    const key = caseSensitive ? source : source.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    result.push({
+      source,
+      target: doNotTranslate ? source : target,
+      ...(doNotTranslate && { doNotTranslate }),
+      ...(caseSensitive && { caseSensitive }),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Parse stored entries (JSON string or already parsed by the API)
+ */
+export function parseTermbaseEntries(value: unknown): TermbaseEntry[] {
+  if (!value) return [];
+
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  return Array.isArray(parsed) ? normalizeTermbaseEntries(parsed) : [];
+}
+
+/**
+ * Validate entries sent to the API
+ * Returns the normalized entries, or an error message for the response
+ */
+export function validateTermbaseEntries(value: unknown): { entries: TermbaseEntry[]; error?: string } {
+  if (!Array.isArray(value)) {
+    return { entries: [], error: 'Entries must be an array of { source, target, doNotTranslate?, caseSensitive? }' };
+  }
+
+  const entries = normalizeTermbaseEntries(value);
+  if (entries.length > MAX_TERMBASE_ENTRIES) {
+    return { entries: [], error: `Too many entries. Maximum ${MAX_TERMBASE_ENTRIES}` };
+  }
+
+  return { entries };
+}
+
+/**
+ * Whether a termbase covers the language pair (empty languages match any)
+ */
+export function termbaseMatchesLanguages(
+  termbase: Pick<Termbase, 'SourceLanguage' | 'TargetLanguage'>,
+  sourceLanguage: string,
+  targetLanguage: string
+): boolean {
+  const matches = (language: string | undefined, wanted: string) =>
+    !language || language.toLowerCase() === wanted.toLowerCase();
+
+  return matches(termbase.SourceLanguage, sourceLanguage) && matches(termbase.TargetLanguage, targetLanguage);
+}
+
+/**
+ * Entries whose source term appears in any of the texts
+ */
+export function selectTermsForTexts(texts: string[], entries: TermbaseEntry[]): TermbaseEntry[] {
+  return entries
+    .filter((entry) => texts.some((text) => containsTerm(text, entry.source, { caseSensitive: entry.caseSensitive })))
+    .slice(0, MAX_PROMPT_TERMS);
+}
+
+/**
+ * Prompt section listing the required translations
+ */
+export function formatTermbasePrompt(entries: TermbaseEntry[], targetName: string): string {
+  if (entries.length === 0) return '';
+
+  const required = entries.filter((entry) => !entry.doNotTranslate);
+  const keep = entries.filter((entry) => entry.doNotTranslate);
+  const lines: string[] = ['', 'TERMINOLOGY (mandatory):'];
+
+  if (required.length > 0) {
+    lines.push(`Always translate these terms exactly as given (inflect them only where ${targetName} grammar requires):`);
+    lines.push(...required.map((entry) => `- "${entry.source}" → "${entry.target}"`));
+  }
+
+  if (keep.length > 0) {
+    lines.push('Never translate these terms - keep them exactly as written:');
+    lines.push(...keep.map((entry) => `- "${entry.source}"`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Required terms that appear in the source text but not in its translation
+ * Inflected target forms count as used, since the prompt allows inflection
+ */
+export function findMissingTerms(
+  sourceText: string,
+  translatedText: string,
+  entries: TermbaseEntry[]
+): TermbaseEntry[] {
+  return entries.filter((entry) =>
+    containsTerm(sourceText, entry.source, { caseSensitive: entry.caseSensitive }) &&
+    !containsTerm(translatedText, entry.target, {
+      caseSensitive: entry.caseSensitive,
+      allowSuffix: !entry.doNotTranslate,
+    })
+  );
+}
+
+/**
+ * Serialize missing terms for storage, null when there are none
+ */
+export function serializeMissingTerms(missing?: TermbaseEntry[]): string | null {
+  return missing && missing.length > 0 ? JSON.stringify(missing) : null;
+}
@@ -0,0 +1,180 @@
+/**
+ * Translation Memory Utilities
+ * Exact and fuzzy lookup of previously approved subtitle translations
+ */
+
+export const FUZZY_MATCH_THRESHOLD = 75;  // Minimum similarity (%) for a fuzzy match
+
+// Fuzzy candidates checked with edit distance per segment
+const MAX_FUZZY_CANDIDATES = 20;
+const MAX_PROMPT_REFERENCES = 25;
+
+export interface MemoryUnit {
+  source: string;
+  target: string;
+}
+
+export interface MemoryMatch extends MemoryUnit {
+  score: number;  // 100 = exact match
+}
+
+export interface MemoryMatchStats {
+  total: number;
+  exact: number;
+  fuzzy: number;
+  matchRate: number;  // Percentage of segments with an exact or fuzzy match
+}
+
+export interface MemoryIndex {
+  units: MemoryUnit[];
+  exact: Map<string, MemoryUnit>;
+  comparable: string[];
+  words: Map<string, number[]>;
+}
+
+/**
+ * Key for exact lookups - identical text apart from whitespace and line breaks
+ */
+export function getMemoryKey(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Text compared by the fuzzy matcher - lowercase without punctuation
+ */
+function toComparable(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Levenshtein distance using two rows
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  let current = new Array<number>(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two comparable texts in percent
+ */
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  if (length === 0) return 100;
+  return Math.floor((1 - editDistance(a, b) / length) * 100);
+}
+
+/**
+ * Index memory units for lookups
+ * Later units win when several share the same source text
+ */
+export function buildMemoryIndex(units: MemoryUnit[]): MemoryIndex {
+  const index: MemoryIndex = {
+    units,
+    exact: new Map(),
+    comparable: units.map((unit) => toComparable(unit.source)),
+    words: new Map(),
+  };
+
+  units.forEach((unit, i) => {
+    index.exact.set(getMemoryKey(unit.source), unit);
+
+    for (const word of new Set(index.comparable[i].split(' '))) {
+      if (!word) continue;
+      const postings = index.words.get(word) || [];
+      postings.push(i);
+      index.words.set(word, postings);
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Best match for a source text, or null below the fuzzy threshold
+ * Only identical text (ignoring whitespace) scores 100
+ */
+export function findMemoryMatch(index: MemoryIndex, text: string): MemoryMatch | null {
+  const exact = index.exact.get(getMemoryKey(text));
+  if (exact) {
+    return { ...exact, score: 100 };
+  }
+
+  const comparable = toComparable(text);
+  const words = [...new Set(comparable.split(' '))].filter(Boolean);
+  if (words.length === 0) return null;
+
+  // Candidates share at least half of the words
+  const shared = new Map<number, number>();
+  for (const word of words) {
+    for (const i of index.words.get(word) || []) {
+      shared.set(i, (shared.get(i) || 0) + 1);
+    }
+  }
+
+  const candidates = [...shared.entries()]
+    .filter(([, count]) => count >= Math.ceil(words.length / 2))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_FUZZY_CANDIDATES);
+
+  let best: MemoryMatch | null = null;
+  for (const [i] of candidates) {
+    const candidate = index.comparable[i];
+    const lengthRatio = Math.min(candidate.length, comparable.length) / Math.max(candidate.length, comparable.length);
+    if (lengthRatio * 100 < FUZZY_MATCH_THRESHOLD) continue;
+
+    const score = Math.min(99, similarity(comparable, candidate));
+    if (score >= FUZZY_MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { ...index.units[i], score };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Prompt section with fuzzy matches the model can reuse wording from
+ */
+export function formatMemoryPrompt(references: MemoryMatch[]): string {
+  if (references.length === 0) return '';
+
+  const lines = [
+    '',
+    'TRANSLATION MEMORY (reference):',
+    'Approved translations of similar subtitles. Reuse their wording and terminology where the meaning is the same:',
+    ...references
+      .slice(0, MAX_PROMPT_REFERENCES)
+      .map((reference) => `- "${getMemoryKey(reference.source)}" → "${getMemoryKey(reference.target)}" (${reference.score}% match)`),
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Match statistics for a translation run
+ */
+export function getMemoryMatchStats(total: number, exact: number, fuzzy: number): MemoryMatchStats {
+  return {
+    total,
+    exact,
+    fuzzy,
+    matchRate: total > 0 ? Math.round(((exact + fuzzy) / total) * 100) : 0,
+  };
+}
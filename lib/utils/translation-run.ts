@@ -0,0 +1,74 @@
+/**
+ * Translation Run Utilities
+ * Storing the settings a translation started with on its segments, so a resume
+ * continues with the same provider, model, termbases and layout
+ */
+
+import type { TranslatedSegment, TranslationRunSettings } from '@/lib/types';
+import type { SubtitleLayout } from './reading-speed';
+
+/**
+ * Serialize run settings for storage
+ */
+export function serializeRunSettings(settings: TranslationRunSettings): string {
+  return JSON.stringify(settings);
+}
+
+/**
+ * Parse stored run settings, null when missing or malformed
+ */
+export function parseRunSettings(value: unknown): TranslationRunSettings | null {
+  if (!value) return null;
+
+  let parsed: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const settings = parsed as Partial<TranslationRunSettings>;
+  if (typeof settings.provider !== 'string' || typeof settings.model !== 'string') return null;
+
+  const isCount = (input: unknown): input is number => typeof input === 'number' && input > 0;
+  if (!isCount(settings.charsPerSecond) || !isCount(settings.maxCharsPerLine) || !isCount(settings.maxLines)) {
+    return null;
+  }
+
+  return {
+    provider: settings.provider,
+    model: settings.model,
+    termbaseIds: Array.isArray(settings.termbaseIds) ? settings.termbaseIds.filter(Number.isInteger) : [],
+    useMemory: settings.useMemory !== false,
+    retime: settings.retime === true,
+    charsPerSecond: settings.charsPerSecond,
+    maxCharsPerLine: settings.maxCharsPerLine,
+    maxLines: settings.maxLines,
+  };
+}
+
+/**
+ * Settings of the run that saved a translation's segments - translations saved
+ * before settings were stored have none
+ */
+export function findRunSettings(segments: Pick<TranslatedSegment, 'RunSettings'>[]): TranslationRunSettings | null {
+  for (const segment of segments) {
+    const settings = parseRunSettings(segment.RunSettings);
+    if (settings) return settings;
+  }
+  return null;
+}
+
+/**
+ * Layout part of run settings
+ */
+export function getRunLayout(settings: TranslationRunSettings): SubtitleLayout {
+  return {
+    charsPerSecond: settings.charsPerSecond,
+    maxCharsPerLine: settings.maxCharsPerLine,
+    maxLines: settings.maxLines,
+  };
+}
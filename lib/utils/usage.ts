@@ -0,0 +1,209 @@
+/**
+ * Usage Accounting Utilities
+ * Pricing provider usage from a price table and summing the ledger by month, model and user
+ */
+
+import type { UsageKind, UsageRecord } from '@/lib/types';
+
+export interface PriceEntry {
+  perAudioMinute?: number;               // ASR
+  perMillionPromptTokens?: number;       // Translation
+  perMillionCompletionTokens?: number;
+}
+
+// Keyed by "provider:model", or "provider:*" for every model of a provider
+export type PriceTable = Record<string, PriceEntry>;
+
+export interface UsageAmount {
+  audioSeconds?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  audioSeconds: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpriced: number;  // Requests recorded without a price
+}
+
+export interface ModelUsage extends UsageTotals {
+  kind: UsageKind;
+  provider: string;
+  model: string;
+}
+
+export interface UserUsage extends UsageTotals {
+  userId: number;
+}
+
+export interface UsageMonth extends UsageTotals {
+  month: string;  // YYYY-MM
+  models: ModelUsage[];
+  users: UserUsage[];
+}
+
+// List prices in USD when the table was written - they go stale, override or extend with USAGE_PRICES.
+// Berget AI is left out: it bills in EUR per agreement, so its prices must come from USAGE_PRICES
+// The openai audio price is dropped when OpenAI ASR points at a self-hosted server
+export const DEFAULT_PRICES: PriceTable = {
+  'openai:gpt-4.1': { perMillionPromptTokens: 2, perMillionCompletionTokens: 8 },
+  'openai:gpt-4.1-mini': { perMillionPromptTokens: 0.4, perMillionCompletionTokens: 1.6 },
+  'openai:whisper-1': { perAudioMinute: 0.006 },
+  'groq:whisper-large-v3': { perAudioMinute: 0.111 / 60 },
+  'groq:whisper-large-v3-turbo': { perAudioMinute: 0.04 / 60 },
+  'local:*': { perMillionPromptTokens: 0, perMillionCompletionTokens: 0 },
+};
+
+/**
+ * Default prices without a provider's audio prices - for a provider id that
+ * reaches a server other than the one the list prices are for
+ */
+export function withoutAudioPrices(table: PriceTable, provider: string): PriceTable {
+  return Object.fromEntries(
+    Object.entries(table).filter(
+      ([key, price]) => !(key.startsWith(`${provider}:`) && price.perAudioMinute !== undefined)
+    )
+  );
+}
+
+/**
+ * Price table from a JSON object of entries merged over the defaults
+ * Invalid JSON or entries are ignored
+ */
+export function parsePriceTable(value?: string, defaults: PriceTable = DEFAULT_PRICES): PriceTable {
+  const table: PriceTable = { ...defaults };
+  if (!value?.trim()) return table;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    console.warn('Ignoring USAGE_PRICES: not valid JSON');
+    return table;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return table;
+
+  for (const [key, entry] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!key.includes(':') || !entry || typeof entry !== 'object') continue;
+
+    const price: PriceEntry = {};
+    for (const field of ['perAudioMinute', 'perMillionPromptTokens', 'perMillionCompletionTokens'] as const) {
+      const amount = (entry as Record<string, unknown>)[field];
+      if (typeof amount === 'number' && amount >= 0) price[field] = amount;
+    }
+    table[key] = price;
+  }
+
+  return table;
+}
+
+/**
+ * Price of a model - its own entry, otherwise its provider's wildcard entry
+ */
+export function findPrice(table: PriceTable, provider: string, model: string): PriceEntry | undefined {
+  return table[`${provider}:${model}`] ?? table[`${provider}:*`];
+}
+
+/**
+ * Cost of a request, or null when the price does not cover what was used
+ */
+export function calculateCost(price: PriceEntry | undefined, usage: UsageAmount): number | null {
+  if (!price) return null;
+
+  let cost = 0;
+  if (usage.audioSeconds) {
+    if (price.perAudioMinute === undefined) return null;
+    cost += (usage.audioSeconds / 60) * price.perAudioMinute;
+  }
+  if (usage.promptTokens || usage.completionTokens) {
+    if (price.perMillionPromptTokens === undefined || price.perMillionCompletionTokens === undefined) return null;
+    cost += ((usage.promptTokens || 0) / 1_000_000) * price.perMillionPromptTokens;
+    cost += ((usage.completionTokens || 0) / 1_000_000) * price.perMillionCompletionTokens;
+  }
+
+  return cost;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, audioSeconds: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  totals.audioSeconds += record.AudioSeconds || 0;
+  totals.promptTokens += record.PromptTokens || 0;
+  totals.completionTokens += record.CompletionTokens || 0;
+  if (record.Cost === null || record.Cost === undefined) {
+    totals.unpriced++;
+  } else {
+    totals.cost += record.Cost;
+  }
+}
+
+/**
+ * Month of a record in UTC (YYYY-MM)
+ */
+export function getUsageMonth(createdAt: string): string {
+  return new Date(createdAt).toISOString().slice(0, 7);
+}
+
+/**
+ * Totals per month (newest first), each broken down by model and by user
+ */
+export function summarizeUsageByMonth(records: UsageRecord[]): UsageMonth[] {
+  const months = new Map<string, { totals: UsageMonth; models: Map<string, ModelUsage>; users: Map<number, UserUsage> }>();
+
+  for (const record of records) {
+    const month = getUsageMonth(record.CreatedAt);
+    let entry = months.get(month);
+    if (!entry) {
+      entry = { totals: { month, ...emptyTotals(), models: [], users: [] }, models: new Map(), users: new Map() };
+      months.set(month, entry);
+    }
+
+    const modelKey = `${record.Kind}:${record.Provider}:${record.Model}`;
+    let model = entry.models.get(modelKey);
+    if (!model) {
+      model = { kind: record.Kind, provider: record.Provider, model: record.Model, ...emptyTotals() };
+      entry.models.set(modelKey, model);
+    }
+
+    let user = entry.users.get(record.UserId);
+    if (!user) {
+      user = { userId: record.UserId, ...emptyTotals() };
+      entry.users.set(record.UserId, user);
+    }
+
+    addRecord(entry.totals, record);
+    addRecord(model, record);
+    addRecord(user, record);
+  }
+
+  return [...months.values()]
+    .map(({ totals, models, users }) => ({
+      ...totals,
+      models: [...models.values()].sort((a, b) => b.cost - a.cost || b.requests - a.requests),
+      users: [...users.values()].sort((a, b) => b.cost - a.cost || b.requests - a.requests),
+    }))
+    .sort((a, b) => b.month.localeCompare(a.month));
+}
+
+/**
+ * Cost with the currency code, more decimals for small amounts
+ */
+export function formatCost(amount: number, currency: string): string {
+  const digits = amount > 0 && amount < 1 ? 4 : 2;
+  return `${amount.toFixed(digits)} ${currency}`;
+}
+
+/**
+ * Token count shortened to thousands or millions
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
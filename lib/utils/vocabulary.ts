@@ -0,0 +1,161 @@
+/**
+ * Vocabulary Utilities
+ * Parse vocabulary lists, build the ASR prompt from them and derive
+ * post-ASR corrections from known misspellings
+ */
+
+import type { GlossaryTerm, VocabularyTerm } from '@/lib/types';
+
+export const MAX_VOCABULARY_TERMS = 500;
+export const MAX_TERM_LENGTH = 100;
+
+// Whisper only reads the last 224 tokens of the prompt
+const MAX_PROMPT_LENGTH = 600;
+
+function cleanTerm(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, MAX_TERM_LENGTH) : '';
+}
+
+/**
+ * Normalize terms: trim, drop empty ones and merge duplicates (case-insensitive)
+ */
+export function normalizeVocabularyTerms(terms: VocabularyTerm[]): VocabularyTerm[] {
+  const byKey = new Map<string, VocabularyTerm>();
+
+  for (const entry of terms) {
+    const term = cleanTerm(entry?.term);
+    if (!term) continue;
+
+    const misspellings = (Array.isArray(entry.misspellings) ? entry.misspellings : [])
+      .map(cleanTerm)
+      .filter((variant) => variant && variant.toLowerCase() !== term.toLowerCase());
+
+    const key = term.toLowerCase();
+    const existing = byKey.get(key);
+    if (existing) {
+      if (misspellings.length > 0) {
+        existing.misspellings = [...new Set([...(existing.misspellings || []), ...misspellings])];
+      }
+    } else {
+      byKey.set(key, { term, ...(misspellings.length > 0 && { misspellings: [...new Set(misspellings)] }) });
+    }
+  }
+
+  return [...byKey.values()];
+}
+
+/**
+ * Parse the one-term-per-line text format
+ * "Term" or "Term: misspelling, other misspelling"
+ */
+export function parseVocabularyText(text: string): VocabularyTerm[] {
+  const terms = text.split('\n').map((line): VocabularyTerm => {
+    const separator = line.indexOf(':');
+    if (separator === -1) return { term: line };
+
+    return {
+      term: line.slice(0, separator),
+      misspellings: line.slice(separator + 1).split(','),
+    };
+  });
+
+  return normalizeVocabularyTerms(terms);
+}
+
+/**
+ * Format terms back into the one-term-per-line text format
+ */
+export function formatVocabularyText(terms: VocabularyTerm[]): string {
+  return terms
+    .map((entry) => entry.misspellings?.length
+      ? `${entry.term}: ${entry.misspellings.join(', ')}`
+      : entry.term)
+    .join('\n');
+}
+
+/**
+ * Parse stored terms (JSON string or already parsed by the API)
+ */
+export function parseVocabularyTerms(value: unknown): VocabularyTerm[] {
+  if (!value) return [];
+
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  return Array.isArray(parsed) ? normalizeVocabularyTerms(parsed) : [];
+}
+
+/**
+ * Serialize terms for storage, null when there are none
+ */
+export function serializeVocabularyTerms(terms: VocabularyTerm[]): string | null {
+  const normalized = normalizeVocabularyTerms(terms);
+  return normalized.length > 0 ? JSON.stringify(normalized) : null;
+}
+
+/**
+ * Build the ASR prompt from vocabulary lists, most specific list first
+ * Whisper copies the spelling of words it sees in the prompt; terms that
+ * don't fit the prompt budget are left out
+ */
+export function buildVocabularyPrompt(lists: VocabularyTerm[][]): string | undefined {
+  const seen = new Set<string>();
+  const included: string[] = [];
+  let length = 0;
+
+  for (const entry of lists.flat()) {
+    const key = entry.term.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const added = entry.term.length + (included.length > 0 ? 2 : 0);
+    if (length + added > MAX_PROMPT_LENGTH) continue;
+
+    included.push(entry.term);
+    length += added;
+  }
+
+  return included.length > 0 ? `${included.join(', ')}.` : undefined;
+}
+
+/**
+ * Glossary terms that replace each known misspelling with the correct term
+ */
+export function getVocabularyCorrections(lists: VocabularyTerm[][]): GlossaryTerm[] {
+  const corrections = new Map<string, GlossaryTerm>();
+
+  for (const entry of lists.flat()) {
+    for (const misspelling of entry.misspellings || []) {
+      const key = misspelling.toLowerCase();
+      // The most specific list wins
+      if (!corrections.has(key)) {
+        corrections.set(key, { original: misspelling, replacement: entry.term });
+      }
+    }
+  }
+
+  return [...corrections.values()];
+}
+
+/**
+ * Validate terms sent to the API
+ * Returns the normalized terms, or an error message for the response
+ */
+export function validateVocabularyTerms(value: unknown): { terms: VocabularyTerm[]; error?: string } {
+  if (!Array.isArray(value)) {
+    return { terms: [], error: 'Terms must be an array of { term, misspellings? }' };
+  }
+
+  const terms = normalizeVocabularyTerms(value);
+  if (terms.length > MAX_VOCABULARY_TERMS) {
+    return { terms: [], error: `Too many terms. Maximum ${MAX_VOCABULARY_TERMS}` };
+  }
+
+  return { terms };
+}
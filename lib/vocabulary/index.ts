@@ -0,0 +1,60 @@
+/**
+ * Vocabulary Resolution
+ * Combine a transcription's own terms with the user's active vocabulary lists
+ * into the ASR prompt and optional post-ASR corrections
+ */
+
+import NocoDBClient, { sanitizeNumericId, type NocoDBApi } from '@/lib/db/nocodb';
+import {
+  buildVocabularyPrompt,
+  getVocabularyCorrections,
+  parseVocabularyTerms,
+} from '@/lib/utils/vocabulary';
+import type { GlossaryTerm, Vocabulary, VocabularyTerm } from '@/lib/types';
+
+export interface ResolvedVocabulary {
+  prompt?: string;
+  corrections?: GlossaryTerm[];
+}
+
+/**
+ * Terms of the user's active vocabulary lists, one array per list
+ */
+export async function listActiveVocabularyTerms(
+  db: NocoDBApi,
+  userId: string | number
+): Promise<VocabularyTerm[][]> {
+  const { baseId, tableId } = await NocoDBClient.getIds('Vocabularies');
+
+  const result = await db.dbTableRow.list('noco', baseId, tableId, {
+    where: `(UserId,eq,${sanitizeNumericId(userId)})`,
+    sort: 'Name',
+    limit: 100,
+  });
+
+  return ((result.list || []) as Vocabulary[])
+    .filter((vocabulary) => vocabulary.IsActive)
+    .map((vocabulary) => parseVocabularyTerms(vocabulary.Terms))
+    .filter((terms) => terms.length > 0);
+}
+
+/**
+ * Prompt and corrections for a transcription job
+ * Project terms take precedence over the user's lists when the prompt is full
+ */
+export async function resolveVocabulary(
+  db: NocoDBApi,
+  userId: string | number,
+  projectTerms: VocabularyTerm[],
+  applyCorrections: boolean
+): Promise<ResolvedVocabulary> {
+  const lists = [projectTerms, ...await listActiveVocabularyTerms(db, userId)];
+
+  const prompt = buildVocabularyPrompt(lists);
+  const corrections = applyCorrections ? getVocabularyCorrections(lists) : [];
+
+  return {
+    ...(prompt && { prompt }),
+    ...(corrections.length > 0 && { corrections }),
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Standalone Job Worker
+ * Runs background jobs outside the Next.js server (set JOB_WORKER=external on the server)
+ *
+ * Usage: npm run worker
+ */
+
+import { loadEnvConfig } from '@next/env';
+
+async function main() {
+  // Same .env files as the Next.js server - must load before the NocoDB client is imported
+  loadEnvConfig(process.cwd());
+  const { createJobWorker } = await import('@/lib/jobs/worker');
+  const worker = createJobWorker();
+
+  // Finish running jobs before exiting so they are not left for crash recovery
+  const shutdown = async (signal: string) => {
+    console.log(`Received ${signal}, waiting for running jobs...`);
+    await worker.stop();
+    process.exit(0);
+  };
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+
+  await worker.start();
+
+  // Timers are unref'd, so keep the process alive explicitly
+  setInterval(() => {}, 1 << 30);
+}
+
+main().catch((error) => {
+  console.error('Job worker failed to start:', error);
+  process.exit(1);
+});